@@ -0,0 +1,226 @@
+/**
+ * Account data rights for NutriSync
+ * exportMyData writes everything stored about the user to Storage and
+ * returns signed links; deleteMyAccount (and deleting the Auth user)
+ * erases it all and leaves an audit record.
+ */
+
+import * as admin from "firebase-admin";
+import {getStorage} from "firebase-admin/storage";
+import * as logger from "firebase-functions/logger";
+import * as functionsV1 from "firebase-functions/v1";
+import {HttpsError, onCall} from "firebase-functions/v2/https";
+import {exportDocument, mealsToCsv} from "./accountExport";
+import {callableError, requireUser} from "./callable";
+import {deleteMyAccountRequest, ExportMyDataResponse, SuccessResponse} from "./contracts";
+import {parseRequest} from "./validation";
+
+const db = admin.firestore();
+
+// Top-level documents keyed by user id, besides users/{userId}
+const USER_ROOT_COLLECTIONS = ["analytics", "subscriptions"];
+
+// Export records and deletion audit trail
+const DATA_EXPORTS = "dataExports";
+const ACCOUNT_DELETIONS = "accountDeletions";
+
+// Signed links stay valid this long
+const EXPORT_LINK_TTL_MS = 24 * 60 * 60 * 1000;
+
+// One export per user in this window
+const EXPORT_COOLDOWN_MS = 60 * 60 * 1000;
+
+/**
+ * Export all of the caller's data as JSON, plus meals as CSV
+ * Files go to exports/{userId}/{exportId}/ in the default bucket; the
+ * response has signed links valid for 24 hours.
+ */
+export const exportMyData = onCall({timeoutSeconds: 300, memory: "512MiB"}, async (request):
+  Promise<ExportMyDataResponse> => {
+  const userId = requireUser(request);
+
+  const recent = await db.collection(DATA_EXPORTS)
+    .where("userId", "==", userId)
+    .where("createdAt", ">", admin.firestore.Timestamp.fromMillis(Date.now() - EXPORT_COOLDOWN_MS))
+    .limit(1)
+    .get();
+  if (!recent.empty) {
+    throw new HttpsError("resource-exhausted",
+      "An export was created recently; please use its links or try again later");
+  }
+
+  logger.info(`Exporting data for user: ${userId}`);
+
+  try {
+    const userRef = db.collection("users").doc(userId);
+    const [userDoc, subcollections, ...rootDocs] = await Promise.all([
+      userRef.get(),
+      userRef.listCollections(),
+      ...USER_ROOT_COLLECTIONS.map((name) => db.collection(name).doc(userId).get()),
+    ]);
+
+    const archive: Record<string, unknown> = {
+      exportedAt: new Date().toISOString(),
+      userId: userId,
+      profile: userDoc.exists ? exportDocument("users", userDoc.data() || {}) : null,
+    };
+    USER_ROOT_COLLECTIONS.forEach((name, index) => {
+      archive[name] = rootDocs[index].exists ?
+        exportDocument(name, rootDocs[index].data() || {}) :
+        null;
+    });
+
+    const collections: Record<string, Array<Record<string, unknown>>> = {};
+    for (const collection of subcollections) {
+      const snapshot = await collection.get();
+      collections[collection.id] = snapshot.docs.map((doc) => ({
+        id: doc.id,
+        ...exportDocument(collection.id, doc.data()),
+      }));
+    }
+    archive.collections = collections;
+
+    const exportRef = db.collection(DATA_EXPORTS).doc();
+    const folder = `exports/${userId}/${exportRef.id}`;
+    const bucket = getStorage().bucket();
+    const jsonFile = bucket.file(`${folder}/nutrisync-data.json`);
+    const csvFile = bucket.file(`${folder}/meals.csv`);
+    await Promise.all([
+      jsonFile.save(JSON.stringify(archive, null, 2), {contentType: "application/json"}),
+      csvFile.save(mealsToCsv(collections.meals || []), {contentType: "text/csv"}),
+    ]);
+
+    const expires = Date.now() + EXPORT_LINK_TTL_MS;
+    const [[jsonUrl], [csvUrl]] = await Promise.all([
+      jsonFile.getSignedUrl({action: "read", expires}),
+      csvFile.getSignedUrl({action: "read", expires}),
+    ]);
+
+    const counts = Object.fromEntries(
+      Object.entries(collections).map(([name, docs]) => [name, docs.length]));
+    await exportRef.set({
+      userId: userId,
+      folder: folder,
+      counts: counts,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      linksExpireAt: admin.firestore.Timestamp.fromMillis(expires),
+    });
+
+    logger.info(`Data export created for user: ${userId}`, {exportId: exportRef.id, counts});
+
+    return {
+      exportId: exportRef.id,
+      jsonUrl: jsonUrl,
+      csvUrl: csvUrl,
+      expiresAt: new Date(expires).toISOString(),
+      counts: counts,
+    };
+  } catch (error) {
+    throw callableError(error, "Failed to export data", `Error exporting data for user: ${userId}`);
+  }
+});
+
+/**
+ * Erase everything stored about a user and record it
+ * Safe to run more than once: a completed audit record short-circuits it.
+ * @param {string} userId - User to erase
+ * @param {string} source - What started the deletion ("user" or "auth_trigger")
+ * @return {Promise<boolean>} False when the user was already erased
+ */
+async function deleteUserData(userId: string, source: string): Promise<boolean> {
+  const auditRef = db.collection(ACCOUNT_DELETIONS).doc(userId);
+  const audit = await auditRef.get();
+  if (audit.data()?.status === "completed") {
+    return false;
+  }
+
+  await auditRef.set({
+    userId: userId,
+    source: source,
+    status: "in_progress",
+    requestedAt: admin.firestore.FieldValue.serverTimestamp(),
+  }, {merge: true});
+
+  const userRef = db.collection("users").doc(userId);
+  const subcollections = await userRef.listCollections();
+
+  // The profile goes first so meal and notification triggers fired by the
+  // deletes below see no user and do not recreate summaries
+  await userRef.delete();
+  let deletedDocuments = 1;
+  const writer = db.bulkWriter();
+  writer.onWriteResult(() => {
+    deletedDocuments++;
+  });
+  for (const collection of subcollections) {
+    await db.recursiveDelete(collection, writer);
+  }
+  await writer.close();
+
+  const batch = db.batch();
+  for (const name of USER_ROOT_COLLECTIONS) {
+    batch.delete(db.collection(name).doc(userId));
+  }
+  const exports = await db.collection(DATA_EXPORTS).where("userId", "==", userId).get();
+  exports.docs.forEach((doc) => batch.delete(doc.ref));
+  await batch.commit();
+
+  const bucket = getStorage().bucket();
+  await Promise.all([
+    bucket.deleteFiles({prefix: `users/${userId}/`}),
+    bucket.deleteFiles({prefix: `exports/${userId}/`}),
+  ]);
+
+  // No personal data beyond the id, so the record itself can be kept
+  await auditRef.set({
+    status: "completed",
+    collections: subcollections.map((collection) => collection.id),
+    deletedDocuments: deletedDocuments + USER_ROOT_COLLECTIONS.length + exports.size,
+    completedAt: admin.firestore.FieldValue.serverTimestamp(),
+  }, {merge: true});
+
+  logger.info(`Deleted all data for user: ${userId}`, {source, deletedDocuments});
+  return true;
+}
+
+/**
+ * Permanently delete the caller's account and all of their data
+ * Requires {confirm: true}; the Auth account is removed last.
+ */
+export const deleteMyAccount = onCall({timeoutSeconds: 540}, async (request):
+  Promise<SuccessResponse> => {
+  const userId = requireUser(request);
+  parseRequest(deleteMyAccountRequest, request.data);
+
+  logger.info(`Deleting account for user: ${userId}`);
+
+  try {
+    await deleteUserData(userId, "user");
+    // Fires onAuthUserDeleted, which finds the completed audit and stops
+    await admin.auth().deleteUser(userId).catch((error) => {
+      if (error?.code !== "auth/user-not-found") throw error;
+    });
+    return {success: true};
+  } catch (error) {
+    throw callableError(error, "Failed to delete account",
+      `Error deleting account for user: ${userId}`);
+  }
+});
+
+/**
+ * Erase a user's data when their Auth account is deleted elsewhere
+ * (Firebase console, Admin SDK)
+ */
+export const onAuthUserDeleted = functionsV1
+  .runWith({timeoutSeconds: 540})
+  .auth.user().onDelete(async (user) => {
+    try {
+      const deleted = await deleteUserData(user.uid, "auth_trigger");
+      if (!deleted) {
+        logger.info(`Data already deleted for user: ${user.uid}`);
+      }
+    } catch (error) {
+      logger.error(`Error deleting data for removed user: ${user.uid}`, error);
+      throw error;
+    }
+  });
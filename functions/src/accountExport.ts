@@ -0,0 +1,92 @@
+/**
+ * Account data export formatting for NutriSync
+ * Turns Firestore documents into plain JSON and meals into CSV rows.
+ */
+
+// Subcollection fields that are secrets rather than personal data
+export const REDACTED_FIELDS: Record<string, string[]> = {
+  deviceTokens: ["token"],
+};
+
+export const MEAL_CSV_COLUMNS = [
+  "mealId", "timestamp", "mealType", "foods",
+  "calories", "protein", "carbs", "fat", "fiber", "source",
+];
+
+/**
+ * Convert Firestore values (Timestamps, references, nested maps) to JSON
+ * @param {unknown} value - Field value
+ * @return {unknown} JSON-safe value
+ */
+export function toPlainValue(value: unknown): unknown {
+  if (value === null || value === undefined) return null;
+  if (Array.isArray(value)) return value.map(toPlainValue);
+  if (typeof value !== "object") return value;
+
+  const object = value as Record<string, unknown>;
+  if (typeof object.toDate === "function") {
+    return (object.toDate as () => Date)().toISOString();
+  }
+  if (typeof object.path === "string" && typeof object.id === "string" &&
+    typeof object.collection === "function") {
+    return object.path;
+  }
+  if (typeof object.latitude === "number" && typeof object.longitude === "number") {
+    return {latitude: object.latitude, longitude: object.longitude};
+  }
+  return Object.fromEntries(
+    Object.entries(object).map(([key, field]) => [key, toPlainValue(field)]));
+}
+
+/**
+ * Plain copy of a document with secret fields removed
+ * @param {string} collection - Collection the document is in
+ * @param {Record<string, unknown>} data - Document data
+ * @return {Record<string, unknown>} Exportable data
+ */
+export function exportDocument(
+  collection: string,
+  data: Record<string, unknown>
+): Record<string, unknown> {
+  const plain = toPlainValue(data) as Record<string, unknown>;
+  for (const field of REDACTED_FIELDS[collection] || []) {
+    if (field in plain) plain[field] = "[redacted]";
+  }
+  return plain;
+}
+
+/**
+ * Quote a CSV cell when needed
+ * @param {unknown} value - Cell value
+ * @return {string} CSV-safe cell
+ */
+function csvCell(value: unknown): string {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, "\"\"")}"` : text;
+}
+
+/**
+ * Meals as CSV, one row per meal
+ * @param {Array<Record<string, unknown>>} meals - Plain meal documents
+ * @return {string} CSV with a header row
+ */
+export function mealsToCsv(meals: Array<Record<string, unknown>>): string {
+  const rows = meals.map((meal) => {
+    const foods = (meal.foods as Array<{name?: string; quantity?: number;
+      portionUnit?: string}> | undefined) || [];
+    return [
+      meal.mealId,
+      meal.timestamp,
+      meal.mealType,
+      foods.map((food) =>
+        [food.quantity, food.portionUnit, food.name].filter(Boolean).join(" ")).join("; "),
+      meal.totalCalories,
+      meal.totalProtein,
+      meal.totalCarbs,
+      meal.totalFat,
+      meal.totalFiber,
+      meal.source,
+    ].map(csvCell).join(",");
+  });
+  return [MEAL_CSV_COLUMNS.join(","), ...rows].join("\r\n") + "\r\n";
+}
@@ -0,0 +1,486 @@
+/**
+ * Conversational assistant intents and replies for NutriSync
+ * Turns a Hinglish or English chat message into one of a few intents with
+ * keyword rules, validates intents proposed by a language model, and words
+ * the assistant's replies. Conversation state lets a short answer such as
+ * "haan" or "lunch" complete the previous turn.
+ */
+
+import {MealItemInput} from "./contracts";
+import {MEAL_TYPE_WORDS} from "./mealParser";
+import {MEAL_SLOTS, MealSlot, PLAN_DAYS, PlanDay} from "./mealPlanner";
+import {NotificationLanguage} from "./notificationPolicy";
+import {normalizeText, tokenize} from "./text";
+
+export const ASSISTANT_INTENTS = [
+  "log_meal", "nutrient_query", "meal_suggestion", "swap_plan_item",
+  "confirm", "cancel", "greeting", "help", "unknown",
+] as const;
+export type AssistantIntentName = typeof ASSISTANT_INTENTS[number];
+
+export const QUERY_NUTRIENTS = ["calories", "protein", "carbs", "fat"] as const;
+export type QueryNutrient = typeof QUERY_NUTRIENTS[number];
+
+export interface SwapIntent {
+  intent: "swap_plan_item";
+  // Defaults to today's plan day
+  day?: PlanDay;
+  slot?: MealSlot;
+  // Food names as the user said them
+  from?: string;
+  to?: string;
+}
+
+export type AssistantIntent =
+  | {intent: "log_meal"; text: string; mealType?: MealSlot}
+  | {intent: "nutrient_query"; nutrient: QueryNutrient; day: "today" | "yesterday"}
+  | {intent: "meal_suggestion"; mealType?: MealSlot; query?: string}
+  | SwapIntent
+  | {intent: "confirm" | "cancel" | "greeting" | "help" | "unknown"};
+
+/**
+ * An action the assistant proposed and is waiting for the user to confirm
+ */
+export type PendingAction =
+  | {
+    action: "log_meal";
+    mealType: MealSlot;
+    items: MealItemInput[];
+    // "2 roti Roti" style labels for the confirmation question
+    labels: string[];
+  }
+  | {
+    action: "swap_plan_item";
+    day: PlanDay;
+    slot: MealSlot;
+    itemIndex: number;
+    fromFoodId: string;
+    fromName: string;
+    toFoodId: string;
+    toName: string;
+  };
+
+export interface ConversationState {
+  pending: PendingAction | null;
+  // A swap request still missing its meal, completed by the next message
+  awaiting: SwapIntent | null;
+}
+
+export const EMPTY_STATE: ConversationState = {pending: null, awaiting: null};
+
+/**
+ * Build a set of normalized words
+ * @param {string[]} words - Raw words
+ * @return {Set<string>} Normalized words
+ */
+function wordSet(words: string[]): Set<string> {
+  return new Set(words.map(normalizeText));
+}
+
+const CONFIRM_WORDS = wordSet([
+  "yes", "yeah", "yep", "ok", "okay", "sure", "confirm", "haan", "han", "haa", "ha",
+  "ji", "theek", "thik", "done", "हाँ", "हां", "ठीक",
+]);
+const CANCEL_WORDS = wordSet([
+  "no", "nope", "cancel", "nahi", "nahin", "na", "mat", "stop", "rehne", "नहीं", "ना",
+]);
+// Confirmations are short; longer messages are read as new requests
+const MAX_CONFIRM_WORDS = 5;
+
+const GREETING_WORDS = wordSet(["hi", "hello", "hey", "namaste", "namaskar", "नमस्ते"]);
+const HELP_WORDS = wordSet(["help", "madad", "मदद"]);
+
+const NUTRIENT_WORDS = new Map<string, QueryNutrient>([
+  ...["protein", "प्रोटीन"].map((word): [string, QueryNutrient] => [word, "protein"]),
+  ...["calorie", "calories", "kcal", "cal", "कैलोरी"]
+    .map((word): [string, QueryNutrient] => [word, "calories"]),
+  ...["carb", "carbs", "carbohydrate", "carbohydrates"]
+    .map((word): [string, QueryNutrient] => [word, "carbs"]),
+  ...["fat", "fats"].map((word): [string, QueryNutrient] => [word, "fat"]),
+].map(([word, nutrient]) => [normalizeText(word), nutrient]));
+const QUESTION_WORDS = wordSet([
+  "how", "much", "many", "total", "kitna", "kitni", "kitne", "left", "baaki", "baki",
+  "remaining", "today", "aaj", "yesterday", "kal", "कितना", "कितनी", "आज", "कल",
+]);
+const YESTERDAY_WORDS = wordSet(["yesterday", "kal", "कल"]);
+
+const SWAP_WORDS = wordSet([
+  "swap", "replace", "change", "instead", "badal", "badlo", "badle", "badlen", "badaldo",
+  "jagah", "बदलो", "बदल", "जगह",
+]);
+const SUGGEST_WORDS = wordSet([
+  "suggest", "suggestion", "recommend", "recommendation", "sujhao", "सुझाव",
+]);
+const QUESTION_LEADS = wordSet(["what", "kya", "क्या"]);
+const EAT_WORDS = wordSet([
+  "eat", "khau", "khaun", "khaoon", "khaaun", "khana", "khaye", "khayen", "banau",
+  "banaun", "cook", "खाऊं", "खाऊँ", "खाना", "खाएं",
+]);
+const LOG_WORDS = wordSet([
+  "ate", "had", "eaten", "drank", "khaya", "khayi", "khaye", "khaaya", "piya", "liya",
+  "log", "add", "खाया", "खाई", "पिया", "लिया",
+]);
+// Command words dropped before a meal description goes to the parser
+const LOG_COMMAND_WORDS = wordSet(["log", "add", "record", "karo", "kardo", "please"]);
+
+const DAY_WORDS = new Map<string, PlanDay>(([
+  ["monday", "monday"], ["somvar", "monday"], ["somwar", "monday"], ["सोमवार", "monday"],
+  ["tuesday", "tuesday"], ["mangalvar", "tuesday"], ["mangalwar", "tuesday"],
+  ["मंगलवार", "tuesday"],
+  ["wednesday", "wednesday"], ["budhvar", "wednesday"], ["budhwar", "wednesday"],
+  ["बुधवार", "wednesday"],
+  ["thursday", "thursday"], ["guruvar", "thursday"], ["guruwar", "thursday"],
+  ["गुरुवार", "thursday"],
+  ["friday", "friday"], ["shukravar", "friday"], ["shukrawar", "friday"],
+  ["शुक्रवार", "friday"],
+  ["saturday", "saturday"], ["shanivar", "saturday"], ["shaniwar", "saturday"],
+  ["शनिवार", "saturday"],
+  ["sunday", "sunday"], ["ravivar", "sunday"], ["raviwar", "sunday"], ["itvar", "sunday"],
+  ["रविवार", "sunday"],
+] as Array<[string, PlanDay]>).map(([word, day]) => [normalizeText(word), day]));
+
+// Words between the two food names of a swap. Most phrasings name the food
+// being replaced first ("dal ki jagah rajma", "dal ko rajma se badlo",
+// "dal with rajma"); "rajma instead of dal" names the new food first.
+const SWAP_CONNECTORS: Array<{words: string[]; fromFirst: boolean}> = [
+  {words: ["instead", "of"], fromFirst: false},
+  {words: ["ki", "jagah"], fromFirst: true},
+  {words: ["के", "जगह"], fromFirst: true},
+  {words: ["with"], fromFirst: true},
+  {words: ["for"], fromFirst: true},
+  {words: ["to"], fromFirst: true},
+  {words: ["ko"], fromFirst: true},
+];
+const CONNECTOR_WORDS = wordSet(SWAP_CONNECTORS.flatMap((connector) => connector.words));
+const PUT_WORDS = wordSet(["do", "dijiye", "de", "dena"]);
+// Filler dropped from swap food names
+const SWAP_FILLER = wordSet([
+  "my", "in", "on", "the", "a", "plan", "meal", "ka", "ke", "ko", "mein", "me", "please",
+  "se", "do", "kar", "karo", "de", "dijiye", "from", "have", "use", "put", "eat", "lo",
+  "को", "में", "का", "से",
+]);
+
+/**
+ * Meal slot for a local hour, used when the user does not say which meal
+ * @param {number} hour - Local hour, 0-23
+ * @return {MealSlot} Meal slot
+ */
+export function mealTypeAt(hour: number): MealSlot {
+  if (hour >= 5 && hour < 11) return "breakfast";
+  if (hour >= 11 && hour < 16) return "lunch";
+  if (hour >= 19 && hour < 23) return "dinner";
+  return "snack";
+}
+
+/**
+ * First meal slot named in the tokens
+ * @param {string[]} tokens - Normalized tokens
+ * @return {MealSlot | undefined} Meal slot
+ */
+function slotIn(tokens: string[]): MealSlot | undefined {
+  for (const token of tokens) {
+    const slot = MEAL_TYPE_WORDS.get(token);
+    if (slot) return slot as MealSlot;
+  }
+  return undefined;
+}
+
+/**
+ * First plan day named in the tokens
+ * @param {string[]} tokens - Normalized tokens
+ * @return {PlanDay | undefined} Plan day
+ */
+function dayIn(tokens: string[]): PlanDay | undefined {
+  for (const token of tokens) {
+    const day = DAY_WORDS.get(token);
+    if (day) return day;
+  }
+  return undefined;
+}
+
+/**
+ * Read the two food names out of a swap request
+ * @param {string[]} tokens - Normalized tokens
+ * @return {object} Food being replaced and its replacement, when named
+ */
+function swapFoods(tokens: string[]): {from?: string; to?: string} {
+  const content = tokens.filter((token, i) =>
+    !(SWAP_WORDS.has(token) && !CONNECTOR_WORDS.has(token)) &&
+    !MEAL_TYPE_WORDS.has(token) && !DAY_WORDS.has(token) &&
+    // "daal do" means "put in", not the lentil
+    !(token === "daal" && PUT_WORDS.has(tokens[i + 1])));
+  const name = (words: string[]) =>
+    words.filter((word) => !SWAP_FILLER.has(word)).join(" ") || undefined;
+
+  for (const {words, fromFirst} of SWAP_CONNECTORS) {
+    const connector = words.map(normalizeText);
+    const at = content.findIndex((_, i) =>
+      connector.every((word, j) => content[i + j] === word));
+    if (at === -1) continue;
+    const before = name(content.slice(0, at));
+    const after = name(content.slice(at + connector.length));
+    return fromFirst ? {from: before, to: after} : {from: after, to: before};
+  }
+  return {from: name(content)};
+}
+
+/**
+ * Drop undefined fields so an intent can be stored in Firestore
+ * @param {T} intent - Intent
+ * @return {T} Intent without undefined fields
+ */
+function compact<T extends object>(intent: T): T {
+  return Object.fromEntries(
+    Object.entries(intent).filter(([, value]) => value !== undefined)) as T;
+}
+
+/**
+ * Work out what a message asks for with keyword rules
+ * This is the fallback when no language model is configured or the model
+ * fails, so it must handle the common phrasings on its own.
+ * @param {string} message - User message
+ * @param {ConversationState} state - State left by the previous turn
+ * @return {AssistantIntent} Intent; "unknown" when nothing matched
+ */
+export function detectIntent(message: string, state: ConversationState): AssistantIntent {
+  const tokens = tokenize(message);
+  const has = (words: Set<string>) => tokens.some((token) => words.has(token));
+
+  if (state.pending && tokens.length <= MAX_CONFIRM_WORDS) {
+    // Checked first so "nahi, theek nahi" cancels
+    if (has(CANCEL_WORDS)) return {intent: "cancel"};
+    if (has(CONFIRM_WORDS)) return {intent: "confirm"};
+  }
+
+  const nutrient = tokens.map((token) => NUTRIENT_WORDS.get(token)).find(Boolean);
+  if (nutrient && (has(QUESTION_WORDS) || message.includes("?"))) {
+    return {
+      intent: "nutrient_query",
+      nutrient,
+      day: has(YESTERDAY_WORDS) ? "yesterday" : "today",
+    };
+  }
+
+  if (has(SWAP_WORDS)) {
+    return compact({
+      intent: "swap_plan_item" as const,
+      day: dayIn(tokens),
+      slot: slotIn(tokens),
+      ...swapFoods(tokens),
+    });
+  }
+
+  if (has(SUGGEST_WORDS) || (has(QUESTION_LEADS) && has(EAT_WORDS))) {
+    return compact({intent: "meal_suggestion" as const, mealType: slotIn(tokens)});
+  }
+
+  if (has(LOG_WORDS)) {
+    return compact({
+      intent: "log_meal" as const,
+      text: tokens.filter((token) => !LOG_COMMAND_WORDS.has(token)).join(" "),
+      mealType: slotIn(tokens),
+    });
+  }
+
+  // "lunch" or "monday dinner" answers the question about which meal to swap
+  if (state.awaiting) {
+    const slot = slotIn(tokens);
+    const day = dayIn(tokens);
+    if (slot || day) {
+      return compact({...state.awaiting, slot: slot || state.awaiting.slot,
+        day: day || state.awaiting.day});
+    }
+  }
+
+  if (has(HELP_WORDS)) return {intent: "help"};
+  if (has(GREETING_WORDS)) return {intent: "greeting"};
+  return {intent: "unknown"};
+}
+
+/**
+ * Validate an intent proposed by a language model
+ * @param {unknown} value - Model output
+ * @return {AssistantIntent | null} Intent, or null when it is unusable
+ */
+export function parseIntent(value: unknown): AssistantIntent | null {
+  if (!value || typeof value !== "object") return null;
+  const data = value as Record<string, unknown>;
+  const text = (field: string, max = 200): string | undefined => {
+    const raw = data[field];
+    return typeof raw === "string" && raw.trim() && raw.length <= max ? raw.trim() : undefined;
+  };
+  const choice = <T extends string>(field: string, values: readonly T[]): T | undefined =>
+    values.includes(data[field] as T) ? data[field] as T : undefined;
+
+  switch (data.intent) {
+  case "log_meal": {
+    const mealText = text("text", 500);
+    if (!mealText) return null;
+    return compact({
+      intent: "log_meal" as const,
+      text: mealText,
+      mealType: choice("mealType", MEAL_SLOTS),
+    });
+  }
+  case "nutrient_query": {
+    const nutrient = choice("nutrient", QUERY_NUTRIENTS);
+    return nutrient ? {
+      intent: "nutrient_query",
+      nutrient,
+      day: choice("day", ["today", "yesterday"] as const) || "today",
+    } : null;
+  }
+  case "meal_suggestion":
+    return compact({
+      intent: "meal_suggestion" as const,
+      mealType: choice("mealType", MEAL_SLOTS),
+      query: text("query"),
+    });
+  case "swap_plan_item":
+    return compact({
+      intent: "swap_plan_item" as const,
+      day: choice("day", PLAN_DAYS),
+      slot: choice("slot", MEAL_SLOTS),
+      from: text("from"),
+      to: text("to"),
+    });
+  case "confirm":
+  case "cancel":
+  case "greeting":
+  case "help":
+  case "unknown":
+    return {intent: data.intent};
+  default:
+    return null;
+  }
+}
+
+/**
+ * Read stored conversation state, dropping anything malformed
+ * @param {unknown} value - state field of the conversation document
+ * @return {ConversationState} State
+ */
+export function readState(value: unknown): ConversationState {
+  const data = (value || {}) as Partial<ConversationState>;
+  const pending = data.pending &&
+    (data.pending.action === "log_meal" || data.pending.action === "swap_plan_item") ?
+    data.pending : null;
+  const awaiting = data.awaiting ? parseIntent(data.awaiting) as SwapIntent | null : null;
+  return {pending, awaiting: awaiting?.intent === "swap_plan_item" ? awaiting : null};
+}
+
+type Reply = (data: Record<string, string | number>) => string;
+
+const HELP_ENGLISH = "I can log meals (\"I had 2 roti and dal\"), tell you today's protein " +
+  "or calories, suggest what to eat and swap items in your meal plan.";
+const HELP_HINGLISH = "Aap mujhse meal log karwa sakte hain (\"maine 2 roti aur dal khayi\"), " +
+  "aaj ka protein ya calories pooch sakte hain, khane ke suggestions le sakte hain " +
+  "aur meal plan mein swap kar sakte hain.";
+
+// Hinglish doubles for Hindi until Devanagari replies are written
+const REPLIES = {
+  confirmLog: {
+    english: (d) => `Log ${d.items} as ${d.mealType}?${d.unresolved ?
+      ` I couldn't match "${d.unresolved}".` : ""} Say yes to save or no to cancel.`,
+    hinglish: (d) => `${d.items} ko ${d.mealType} mein log karun?${d.unresolved ?
+      ` "${d.unresolved}" samajh nahi aaya.` : ""} Haan ya nahi boliye.`,
+  },
+  logged: {
+    english: (d) => `Logged your ${d.mealType}: ${d.calories} kcal and ${d.protein}g protein.`,
+    hinglish: (d) => `Aapka ${d.mealType} log ho gaya: ${d.calories} kcal aur ` +
+      `${d.protein}g protein.`,
+  },
+  logNothing: {
+    english: () => "I couldn't find any foods in that. Try something like \"2 roti and dal\".",
+    hinglish: () => "Usmein koi food samajh nahi aaya. Aise boliye: \"2 roti aur dal\".",
+  },
+  nutrientTotal: {
+    english: (d) => `${d.day === "yesterday" ? "Yesterday you had" : "So far today you have had"}` +
+      ` ${d.amount}${d.unit} ${d.nutrient}${d.target ?
+        ` of your ${d.target}${d.unit} target, ${d.remaining}${d.unit} to go.` : "."}`,
+    hinglish: (d) => `${d.day === "yesterday" ? "Kal aapne" : "Aaj ab tak aapne"}` +
+      ` ${d.amount}${d.unit} ${d.nutrient} liya${d.target ?
+        `. Target ${d.target}${d.unit} hai, ${d.remaining}${d.unit} baaki.` : "."}`,
+  },
+  suggestions: {
+    english: (d) => `For ${d.mealType}, try ${d.names}. ${d.first} is ${d.reason}.`,
+    hinglish: (d) => `${d.mealType} ke liye ${d.names} try kijiye. ${d.first} ${d.reason} hai.`,
+  },
+  noSuggestions: {
+    english: (d) => `I couldn't find anything that fits your diet for ${d.mealType}.`,
+    hinglish: (d) => `${d.mealType} ke liye aapki diet mein fit hone wala kuch nahi mila.`,
+  },
+  confirmSwap: {
+    english: (d) => `Swap ${d.from} for ${d.to} in ${d.day}'s ${d.slot}? ` +
+      "Say yes or no.",
+    hinglish: (d) => `${d.day} ke ${d.slot} mein ${d.from} ki jagah ${d.to} kar dun? ` +
+      "Haan ya nahi boliye.",
+  },
+  swapped: {
+    english: (d) => `Done. ${d.day}'s ${d.slot} now has ${d.to} instead of ${d.from}.`,
+    hinglish: (d) => `Ho gaya. ${d.day} ke ${d.slot} mein ab ${d.from} ki jagah ${d.to} hai.`,
+  },
+  swapWhichMeal: {
+    english: () => "Which meal should I change? For example \"lunch on monday\".",
+    hinglish: () => "Kaunsa meal badlun? Jaise \"monday ka lunch\".",
+  },
+  swapNoPlan: {
+    english: (d) => `There is no ${d.slot} for ${d.day} in your meal plan. ` +
+      "Generate a meal plan first.",
+    hinglish: (d) => `Aapke meal plan mein ${d.day} ka ${d.slot} nahi hai. ` +
+      "Pehle meal plan banaiye.",
+  },
+  swapLocked: {
+    english: (d) => `${d.day}'s ${d.slot} is locked. Unlock it to change it.`,
+    hinglish: (d) => `${d.day} ka ${d.slot} locked hai. Badalne ke liye unlock kijiye.`,
+  },
+  swapNotFound: {
+    english: (d) => `I couldn't find ${d.from} in ${d.day}'s plan.`,
+    hinglish: (d) => `${d.day} ke plan mein ${d.from} nahi mila.`,
+  },
+  swapNoAlternative: {
+    english: (d) => `I couldn't find a good swap for ${d.from}.`,
+    hinglish: (d) => `${d.from} ka koi accha swap nahi mila.`,
+  },
+  swapStale: {
+    english: () => "Your meal plan changed since I asked, so nothing was swapped.",
+    hinglish: () => "Meal plan badal gaya hai, isliye swap nahi kiya.",
+  },
+  cancelled: {
+    english: () => "Okay, cancelled.",
+    hinglish: () => "Theek hai, cancel kar diya.",
+  },
+  nothingPending: {
+    english: () => "There's nothing waiting for your confirmation.",
+    hinglish: () => "Abhi confirm karne ke liye kuch nahi hai.",
+  },
+  greeting: {
+    english: () => `Hi! ${HELP_ENGLISH}`,
+    hinglish: () => `Namaste! ${HELP_HINGLISH}`,
+  },
+  help: {
+    english: () => HELP_ENGLISH,
+    hinglish: () => HELP_HINGLISH,
+  },
+  unknown: {
+    english: () => `Sorry, I didn't get that. ${HELP_ENGLISH}`,
+    hinglish: () => `Maaf kijiye, samajh nahi aaya. ${HELP_HINGLISH}`,
+  },
+} satisfies Record<string, Record<"english" | "hinglish", Reply>>;
+
+export type ReplyKey = keyof typeof REPLIES;
+
+/**
+ * Word a reply in the user's language
+ * @param {ReplyKey} key - Reply
+ * @param {NotificationLanguage} language - Reply language
+ * @param {Record<string, string | number>} data - Values for the reply
+ * @return {string} Reply text
+ */
+export function assistantReply(
+  key: ReplyKey,
+  language: NotificationLanguage,
+  data: Record<string, string | number> = {}
+): string {
+  return REPLIES[key][language === "english" ? "english" : "hinglish"](data);
+}
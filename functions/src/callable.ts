@@ -0,0 +1,51 @@
+/**
+ * Authentication and error helpers shared by callable functions
+ * Clients receive HttpsError codes; anything else a callable throws would
+ * reach them as an opaque INTERNAL error.
+ */
+
+import * as logger from "firebase-functions/logger";
+import {CallableRequest, HttpsError} from "firebase-functions/v2/https";
+
+/**
+ * The caller's uid, or unauthenticated
+ * @param {CallableRequest} request - Callable request
+ * @return {string} User id
+ */
+export function requireUser(request: CallableRequest<unknown>): string {
+  const userId = request.auth?.uid;
+  if (!userId) {
+    throw new HttpsError("unauthenticated", "Authentication required");
+  }
+  return userId;
+}
+
+/**
+ * Reject callers without the admin custom claim
+ * @param {CallableRequest} request - Callable request
+ * @return {string} Admin's uid
+ */
+export function requireAdmin(request: CallableRequest<unknown>): string {
+  const userId = requireUser(request);
+  if (!request.auth?.token?.admin) {
+    throw new HttpsError("permission-denied", "Admin access required");
+  }
+  return userId;
+}
+
+/**
+ * Log an unexpected failure and turn it into a client-safe error
+ * HttpsErrors thrown on purpose (not-found, invalid-argument...) pass
+ * through unchanged; anything else becomes internal with a generic message.
+ * @param {unknown} error - Caught error
+ * @param {string} message - Message for the client, e.g. "Failed to log meal"
+ * @param {string} logMessage - Log line, defaults to message
+ * @return {HttpsError} Error to throw
+ */
+export function callableError(error: unknown, message: string, logMessage?: string): HttpsError {
+  if (error instanceof HttpsError) {
+    return error;
+  }
+  logger.error(logMessage || message, error);
+  return new HttpsError("internal", message);
+}
@@ -0,0 +1,39 @@
+/**
+ * Cached access to admin-managed documents in the config collection
+ * Lets operators tune behaviour from the Firebase console without a deploy.
+ */
+
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+
+const db = admin.firestore();
+
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+const cache = new Map<string, {data: Record<string, unknown> | null; loadedAt: number}>();
+
+/**
+ * Read config/{name}, cached per instance for a few minutes
+ * A missing or unreadable document yields null so callers fall back to defaults.
+ * @param {string} name - Config document id
+ * @return {Promise<Record<string, unknown> | null>} Document data, or null
+ */
+export async function loadConfigDoc(
+  name: string
+): Promise<Record<string, unknown> | null> {
+  const cached = cache.get(name);
+  if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) {
+    return cached.data;
+  }
+
+  let data: Record<string, unknown> | null = null;
+  try {
+    const doc = await db.collection("config").doc(name).get();
+    data = doc.exists ? (doc.data() as Record<string, unknown>) : null;
+  } catch (error) {
+    logger.warn(`Could not load config/${name}, using defaults`, error);
+  }
+
+  cache.set(name, {data, loadedAt: Date.now()});
+  return data;
+}
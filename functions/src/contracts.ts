@@ -0,0 +1,450 @@
+/**
+ * Request and response contracts for every callable function
+ * Request schemas are checked by parseRequest before a callable does any
+ * work; response types are what the client receives. Keep this file in
+ * step with the app's callers.
+ */
+
+import {AssistantIntentName} from "./assistant";
+import {SelectedTip} from "./cookingTips";
+import {QuotaPeriod} from "./entitlements";
+import {
+  DATASET_FILE_PATTERN,
+  DatasetWarning,
+  FOOD_CATEGORIES,
+  FoodDiff,
+  RejectedRecord,
+} from "./foodDataset";
+import {GeneratedMealPlan, MEAL_SLOTS, PLAN_DAYS} from "./mealPlanner";
+import {
+  NOTIFICATION_LANGUAGES,
+  NotificationLanguage,
+  NotificationPreferences,
+  validatePreferences,
+} from "./notificationPolicy";
+import {NutrientGap, SuggestedFood} from "./nutrientGaps";
+import {RECIPE_METHOD_NAMES} from "./recipeNutrition";
+import {ScoreBreakdownEntry} from "./recommendationEngine";
+import {IndianFood, MealItem, NutritionInfo, RecipeDetails} from "./types";
+import {VOICE_STAGES, VoiceDayMetrics, VoiceMetricsSummary} from "./voiceMetrics";
+import {
+  array,
+  boolean,
+  custom,
+  dateKey,
+  dateTime,
+  Infer,
+  number,
+  object,
+  oneOf,
+  optional,
+  positive,
+  string,
+} from "./validation";
+
+// Keeps a single meal well inside Firestore's getAll and document size limits
+export const MAX_ITEMS_PER_MEAL = 20;
+
+// Voice transcripts longer than this are almost certainly not a single meal
+export const MAX_TRANSCRIPT_LENGTH = 500;
+
+export const MAX_QUERY_LENGTH = 100;
+
+// Document ids written by the app or by Firestore auto-ids
+const DOCUMENT_ID = {max: 128, pattern: /^[^/]+$/};
+
+export interface SuccessResponse {
+  success: boolean;
+}
+
+// ============================================================================
+// RECOMMENDATIONS AND VOICE
+// ============================================================================
+
+export const generateRecommendationsRequest = object({
+  foodQuery: string({max: MAX_QUERY_LENGTH}),
+  mealType: optional(oneOf(MEAL_SLOTS)),
+});
+export type RecommendationsRequest = Infer<typeof generateRecommendationsRequest>;
+
+export interface RecommendedFood extends IndianFood {
+  recommendationScore: number;
+  reason: string;
+  scoreBreakdown: ScoreBreakdownEntry[];
+}
+
+export interface RecommendationsResponse {
+  recommendations: RecommendedFood[];
+  // Matches removed by allergies or dietary restrictions
+  excluded: Array<{foodId: string; name: string; reason: string}>;
+  timestamp: string;
+}
+
+export const processVoiceInteractionRequest = object({
+  interactionType: string({max: 50}),
+  // Seconds
+  duration: optional(number({min: 0, max: 3600})),
+  success: boolean(),
+  // Groups the events of one voice session for the funnel metrics
+  sessionId: optional(string(DOCUMENT_ID)),
+  stage: optional(oneOf(VOICE_STAGES)),
+  intent: optional(string({max: 40, pattern: /^[a-z0-9_]+$/})),
+  // Transcript from speech recognition and after the user's corrections
+  recognizedTranscript: optional(string({max: MAX_TRANSCRIPT_LENGTH})),
+  finalTranscript: optional(string({max: MAX_TRANSCRIPT_LENGTH})),
+  corrections: optional(number({min: 0, max: 50, integer: true})),
+  // Speech end to response, in milliseconds
+  latencyMs: optional(number({min: 0, max: 120000, integer: true})),
+  // Recognizer locale, e.g. "hi-IN" or "en-IN"
+  locale: optional(string({max: 20, pattern: /^[A-Za-z]{2,3}(-[A-Za-z0-9]{2,8})*$/})),
+});
+export type ProcessVoiceInteractionRequest = Infer<typeof processVoiceInteractionRequest>;
+
+// ============================================================================
+// MEALS
+// ============================================================================
+
+// Exactly one of foodId (catalog food) and recipeId (the caller's recipe)
+const mealItemInput = object({
+  foodId: optional(string(DOCUMENT_ID)),
+  recipeId: optional(string(DOCUMENT_ID)),
+  portionUnit: string({max: 30}),
+  quantity: positive(100),
+  cookingMethod: optional(string({max: 50})),
+});
+export type MealItemInput = Infer<typeof mealItemInput>;
+
+export const logMealRequest = object({
+  items: array(mealItemInput, {min: 1, max: MAX_ITEMS_PER_MEAL}),
+  mealType: optional(oneOf(MEAL_SLOTS)),
+  timestamp: optional(dateTime()),
+});
+export type LogMealRequest = Infer<typeof logMealRequest>;
+
+export interface LogMealResponse {
+  mealId: string;
+  items: MealItem[];
+  nutrition: NutritionInfo;
+  // null when the meal has no available carbohydrate
+  glycemicIndex: number | null;
+  glycemicLoad: number;
+}
+
+export const updateMealRequest = object({
+  mealId: string(DOCUMENT_ID),
+  items: optional(array(mealItemInput, {min: 1, max: MAX_ITEMS_PER_MEAL})),
+  mealType: optional(oneOf(MEAL_SLOTS)),
+  timestamp: optional(dateTime()),
+});
+export type UpdateMealRequest = Infer<typeof updateMealRequest>;
+
+export interface UpdateMealResponse extends SuccessResponse {
+  mealId: string;
+}
+
+export const parseMealTranscriptRequest = object({
+  transcript: string({max: MAX_TRANSCRIPT_LENGTH}),
+});
+
+// ============================================================================
+// FOODS
+// ============================================================================
+
+export const searchFoodsRequest = object({
+  query: optional(string({min: 0, max: MAX_QUERY_LENGTH})),
+  category: optional(string({max: 50})),
+  region: optional(string({max: 50})),
+  limit: optional(number({min: 1, integer: true})),
+  offset: optional(number({min: 0, integer: true})),
+});
+
+export interface RebuildIndexResponse extends SuccessResponse {
+  indexed: number;
+  removed: number;
+}
+
+export interface SeedResponse extends SuccessResponse {
+  message: string;
+  count?: number;
+}
+
+export const importFoodDatasetRequest = object({
+  // File under functions/data; defaults to the bundled Indian food table
+  source: optional(string({max: 100, pattern: DATASET_FILE_PATTERN})),
+  dryRun: optional(boolean()),
+});
+
+export interface ImportFoodDatasetResponse extends FoodDiff {
+  importId: string;
+  source: string;
+  // sha256 of the dataset file, to tell which version was imported
+  datasetHash: string;
+  dryRun: boolean;
+  total: number;
+  valid: number;
+  rejected: RejectedRecord[];
+  warnings: DatasetWarning[];
+}
+
+// ============================================================================
+// RECIPES
+// ============================================================================
+
+export const MAX_INGREDIENTS_PER_RECIPE = 40;
+
+export const saveRecipeRequest = object({
+  // Omit to create a recipe; pass to replace an existing one
+  recipeId: optional(string(DOCUMENT_ID)),
+  name: string({max: 100}),
+  aliases: optional(array(string({max: 100}), {max: 10})),
+  category: optional(oneOf(FOOD_CATEGORIES)),
+  mealTypes: optional(array(oneOf(MEAL_SLOTS), {max: MEAL_SLOTS.length})),
+  servings: number({min: 1, max: 50, integer: true}),
+  // Raw weights, as they go into the pan
+  ingredients: array(object({
+    ingredient: string({max: 100}),
+    grams: positive(5000),
+  }), {min: 1, max: MAX_INGREDIENTS_PER_RECIPE}),
+  oilGrams: optional(number({min: 0, max: 1000})),
+  // Ingredient name of the oil or fat; defaults to vegetable oil
+  oilType: optional(string({max: 100})),
+  cookingMethod: oneOf(RECIPE_METHOD_NAMES),
+  // Weight of the finished dish, when the user weighed it
+  cookedWeightGrams: optional(positive(20000)),
+});
+export type SaveRecipeRequest = Infer<typeof saveRecipeRequest>;
+
+export interface SaveRecipeResponse {
+  recipeId: string;
+  created: boolean;
+  recipe: RecipeDetails;
+  // Per 100g cooked
+  nutrition: NutritionInfo;
+}
+
+export const deleteRecipeRequest = object({
+  recipeId: string(DOCUMENT_ID),
+});
+
+// ============================================================================
+// COOKING EDUCATION
+// ============================================================================
+
+export const MAX_COOKING_TIPS = 5;
+
+export const getCookingTipsRequest = object({
+  limit: optional(number({min: 1, max: MAX_COOKING_TIPS, integer: true})),
+  // Defaults to the notification language, then the profile language
+  language: optional(oneOf(NOTIFICATION_LANGUAGES)),
+});
+
+export interface GetCookingTipsResponse {
+  tips: SelectedTip[];
+  language: NotificationLanguage;
+  // Logged items the tips were matched against
+  itemsConsidered: number;
+}
+
+// ============================================================================
+// NUTRIENT GAPS
+// ============================================================================
+
+export interface GetNutrientGapsResponse {
+  // Yesterday in the user's timezone; today is still being logged
+  lastDay: string;
+  // Fiber and every vitamin and mineral with an RDA; foods are suggested
+  // only for deficient and low ones
+  nutrients: Array<NutrientGap & {foods: SuggestedFood[]}>;
+}
+
+// ============================================================================
+// MEAL PLANS
+// ============================================================================
+
+export const generateMealPlanRequest = object({
+  seed: optional(number({min: 0, max: 0xffffffff, integer: true})),
+  lockedSlots: optional(array(object({
+    day: oneOf(PLAN_DAYS),
+    slot: oneOf(MEAL_SLOTS),
+  }), {max: PLAN_DAYS.length * MEAL_SLOTS.length})),
+  maxRepeats: optional(number({min: 1, max: 7, integer: true})),
+});
+export type GenerateMealPlanRequest = Infer<typeof generateMealPlanRequest>;
+
+export interface GenerateMealPlanResponse extends GeneratedMealPlan {
+  seed: number;
+}
+
+// ============================================================================
+// ASSISTANT
+// ============================================================================
+
+export const MAX_ASSISTANT_MESSAGE_LENGTH = 500;
+
+export const converseRequest = object({
+  // Omitted to start a new conversation
+  conversationId: optional(string(DOCUMENT_ID)),
+  message: string({max: MAX_ASSISTANT_MESSAGE_LENGTH}),
+  // Defaults to the notification language, then the profile language
+  language: optional(oneOf(NOTIFICATION_LANGUAGES)),
+});
+export type ConverseRequest = Infer<typeof converseRequest>;
+
+export interface ConverseResponse {
+  conversationId: string;
+  reply: string;
+  intent: AssistantIntentName;
+  // "rules" when no language model is configured or it could not be used
+  interpretedBy: "model" | "rules";
+  // True when the reply asks the user to confirm a meal log or plan swap
+  awaitingConfirmation: boolean;
+  // Structured result for the app to render, e.g. logged meal or suggestions
+  data?: Record<string, unknown>;
+}
+
+// ============================================================================
+// DAILY SUMMARIES AND RETENTION (ADMIN)
+// ============================================================================
+
+export const recomputeDailySummariesRequest = object({
+  userId: string(DOCUMENT_ID),
+  startDate: dateKey(),
+  endDate: dateKey(),
+});
+
+export interface RecomputeDailySummariesResponse extends SuccessResponse {
+  daysRecomputed: number;
+  mealsCounted: number;
+  totalMealsLogged: number;
+}
+
+export const runRetentionCleanupRequest = object({
+  dryRun: optional(boolean()),
+});
+
+export interface RetentionTotals {
+  // Deleted (or, in a dry run, that would be deleted)
+  deleted: number;
+  rolledUpMonths?: number;
+  complete: boolean;
+}
+
+export interface RunRetentionCleanupResponse {
+  dryRun: boolean;
+  complete: boolean;
+  totals: Record<string, RetentionTotals>;
+}
+
+// ============================================================================
+// VOICE ANALYTICS (ADMIN)
+// ============================================================================
+
+// Longest date range getVoiceMetrics returns at once
+export const MAX_VOICE_METRICS_DAYS = 92;
+
+// Query string of the getVoiceMetrics HTTP endpoint
+export const getVoiceMetricsRequest = object({
+  from: dateKey(),
+  to: dateKey(),
+});
+export type GetVoiceMetricsRequest = Infer<typeof getVoiceMetricsRequest>;
+
+export interface GetVoiceMetricsResponse {
+  from: string;
+  to: string;
+  // Aggregated days in the range, oldest first; days without events are absent
+  days: VoiceDayMetrics[];
+  summary: VoiceMetricsSummary;
+}
+
+// ============================================================================
+// MIGRATIONS (ADMIN)
+// ============================================================================
+
+export const runMigrationsRequest = object({
+  dryRun: optional(boolean()),
+  // Stop after this migration; later ones stay pending
+  target: optional(string({max: 100, pattern: /^[a-z0-9_]+$/})),
+});
+
+export interface MigrationOutcome {
+  id: string;
+  description: string;
+  // planned: dry run only; the migration's result is what it would do
+  status: "applied" | "planned" | "failed";
+  durationMs: number;
+  result?: Record<string, unknown>;
+  error?: string;
+}
+
+export interface RunMigrationsResponse {
+  runId: string;
+  dryRun: boolean;
+  // Latest applied migration, i.e. the schema and seed version in use
+  version: string | null;
+  outcomes: MigrationOutcome[];
+  // Still pending afterwards, in order
+  pending: string[];
+  complete: boolean;
+}
+
+// ============================================================================
+// NOTIFICATIONS
+// ============================================================================
+
+export const registerDeviceTokenRequest = object({
+  token: string({max: 4096}),
+  platform: optional(string({max: 20})),
+});
+
+export const unregisterDeviceTokenRequest = object({
+  token: string({max: 4096}),
+});
+
+// Any subset of the preferences; omitted fields keep their current value
+export const updateNotificationPreferencesRequest =
+  custom<Partial<NotificationPreferences>>(validatePreferences);
+
+export interface UpdatePreferencesResponse {
+  preferences: NotificationPreferences;
+}
+
+// ============================================================================
+// ACCOUNT DATA
+// ============================================================================
+
+export interface ExportMyDataResponse {
+  exportId: string;
+  jsonUrl: string;
+  csvUrl: string;
+  expiresAt: string;
+  // Documents exported per collection
+  counts: Record<string, number>;
+}
+
+export const deleteMyAccountRequest = object({
+  confirm: custom<true>((value) =>
+    value === true ? null : "Account deletion must be confirmed with confirm: true"),
+});
+
+// ============================================================================
+// SUBSCRIPTIONS
+// ============================================================================
+
+export interface QuotaStatus {
+  quota: string;
+  // null when the tier has no limit
+  limit: number | null;
+  period: QuotaPeriod;
+  // UTC calendar period, e.g. "2024-05-02", "2024-W18" or "2024-05"
+  periodKey: string;
+  used: number;
+}
+
+export interface GetMyEntitlementsResponse {
+  tier: string;
+  status: string | null;
+  currentPeriodEnd: string | null;
+  features: string[];
+  quotas: QuotaStatus[];
+}
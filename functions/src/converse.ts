@@ -0,0 +1,573 @@
+/**
+ * Conversational assistant for NutriSync
+ * One callable takes a chat message, works out what the user wants and
+ * answers using the existing meal logging, daily summary, recommendation
+ * and meal plan logic. Each conversation lives in
+ * users/{userId}/conversations/{conversationId} with its recent turns and
+ * any action waiting for the user to confirm.
+ */
+
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import {HttpsError, onCall} from "firebase-functions/v2/https";
+import {
+  AssistantIntent,
+  assistantReply,
+  ConversationState,
+  detectIntent,
+  EMPTY_STATE,
+  mealTypeAt,
+  parseIntent,
+  PendingAction,
+  ReplyKey,
+  readState,
+  SwapIntent,
+} from "./assistant";
+import {callableError, requireUser} from "./callable";
+import {converseRequest, ConverseResponse} from "./contracts";
+import {loadFoodCatalog, loadSearchIndex} from "./foodCatalog";
+import {searchFoodEntries} from "./foodSearch";
+import {
+  dayTotals,
+  findSwap,
+  MealSlot,
+  PLAN_DAYS,
+  PlanDay,
+  PlannedMeal,
+  swapPlanItem,
+} from "./mealPlanner";
+import {parseTranscript, recordMeal} from "./meals";
+import {NotificationLanguage, resolvePreferences} from "./notificationPolicy";
+import {round2} from "./nutrition";
+import {enforceQuota} from "./quotaGuard";
+import {partitionByDiet} from "./recommendationEngine";
+import {recommendFoods} from "./recommendations";
+import {phoneticKey, tokenize} from "./text";
+import {addDays, localDateKey, localHour, resolveTimeZone, weekday} from "./timezone";
+import {IndianFood, UserProfile} from "./types";
+import {parseRequest} from "./validation";
+
+const db = admin.firestore();
+
+// Turns kept on the conversation document; older ones are dropped
+const MAX_STORED_TURNS = 30;
+// Turns shown to the language model as context
+const MODEL_HISTORY_TURNS = 8;
+// A slow model must not hold up the reply; the rules answer instead
+const MODEL_TIMEOUT_MS = 4000;
+const SUGGESTION_COUNT = 3;
+
+export interface ConversationTurn {
+  role: "user" | "assistant";
+  text: string;
+  intent?: string;
+  at: admin.firestore.Timestamp;
+}
+
+/**
+ * Language model that classifies a message into an assistant intent
+ * The output is validated like any client input, so a model only has to
+ * return something shaped like AssistantIntent.
+ */
+export interface LanguageModel {
+  interpret(input: {
+    message: string;
+    history: Array<{role: string; text: string}>;
+    state: ConversationState;
+  }): Promise<unknown>;
+}
+
+let languageModel: LanguageModel | null = null;
+
+/**
+ * Plug in a language model, e.g. a hosted LLM or a stub in emulator tests
+ * @param {LanguageModel | null} model - Model to use; null keeps only the rules
+ */
+export function setLanguageModel(model: LanguageModel | null): void {
+  languageModel = model;
+}
+
+interface TurnContext {
+  userId: string;
+  profile: Omit<UserProfile, "uid">;
+  language: NotificationLanguage;
+  timeZone: string;
+  now: Date;
+  conversationRef: admin.firestore.DocumentReference;
+}
+
+interface TurnOutcome {
+  reply: ReplyKey;
+  replyData?: Record<string, string | number>;
+  state: ConversationState;
+  data?: Record<string, unknown>;
+}
+
+/**
+ * Work out the intent, asking the language model first when one is set
+ * The rules answer when the model fails, times out or returns an intent
+ * that does not validate.
+ * @param {string} message - User message
+ * @param {ConversationState} state - State left by the previous turn
+ * @param {ConversationTurn[]} turns - Stored turns
+ * @return {Promise<object>} Intent and what produced it
+ */
+export async function interpret(
+  message: string,
+  state: ConversationState,
+  turns: ConversationTurn[]
+): Promise<{intent: AssistantIntent; interpretedBy: "model" | "rules"}> {
+  if (languageModel) {
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      const output = await Promise.race([
+        languageModel.interpret({
+          message,
+          history: turns.slice(-MODEL_HISTORY_TURNS).map(({role, text}) => ({role, text})),
+          state,
+        }),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => reject(new Error("Language model timed out")),
+            MODEL_TIMEOUT_MS);
+        }),
+      ]);
+      const intent = parseIntent(output);
+      if (intent) {
+        return {intent, interpretedBy: "model"};
+      }
+      logger.warn("Language model returned no usable intent; using rules");
+    } catch (error) {
+      logger.warn("Language model failed; using rules", error);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+  return {intent: detectIntent(message, state), interpretedBy: "rules"};
+}
+
+/**
+ * Propose logging the meal described in a message
+ * @param {string} text - Meal description
+ * @param {MealSlot | undefined} mealType - Meal slot the user named
+ * @param {TurnContext} context - Caller and clock
+ * @return {Promise<TurnOutcome>} Confirmation question
+ */
+async function proposeMeal(
+  text: string,
+  mealType: MealSlot | undefined,
+  context: TurnContext
+): Promise<TurnOutcome> {
+  const parsed = await parseTranscript(text);
+  if (!parsed.items.length) {
+    return {reply: "logNothing", state: EMPTY_STATE, data: {unresolved: parsed.unresolved}};
+  }
+
+  const pending: PendingAction = {
+    action: "log_meal",
+    mealType: mealType || parsed.mealType as MealSlot | undefined ||
+      mealTypeAt(localHour(context.now, context.timeZone)),
+    items: parsed.items.map((item) => ({
+      foodId: item.foodId,
+      quantity: item.quantity,
+      portionUnit: item.portionUnit,
+      ...(item.cookingMethod ? {cookingMethod: item.cookingMethod} : {}),
+    })),
+    labels: parsed.items.map((item) => `${item.quantity} ${item.portionUnit} ${item.name}`),
+  };
+  return {
+    reply: "confirmLog",
+    replyData: {
+      items: pending.labels.join(", "),
+      mealType: pending.mealType,
+      unresolved: parsed.unresolved.join(", "),
+    },
+    state: {pending, awaiting: null},
+    data: {items: parsed.items, unresolved: parsed.unresolved, mealType: pending.mealType},
+  };
+}
+
+/**
+ * Answer how much of a nutrient the user has had
+ * @param {AssistantIntent} intent - nutrient_query intent
+ * @param {TurnContext} context - Caller and clock
+ * @return {Promise<TurnOutcome>} Total against the daily target
+ */
+async function answerNutrient(
+  intent: Extract<AssistantIntent, {intent: "nutrient_query"}>,
+  context: TurnContext
+): Promise<TurnOutcome> {
+  const today = localDateKey(context.now, context.timeZone);
+  const date = intent.day === "yesterday" ? addDays(today, -1) : today;
+  const summary = await db.collection("users").doc(context.userId)
+    .collection("dailySummaries").doc(date).get();
+
+  const field = {calories: "totalCalories", protein: "totalProtein",
+    carbs: "totalCarbs", fat: "totalFat"}[intent.nutrient];
+  const amount = Math.round(Number(summary.get(field)) || 0);
+  const target = Math.round(context.profile.nutritionTargets?.[intent.nutrient] || 0);
+  return {
+    reply: "nutrientTotal",
+    replyData: {
+      day: intent.day,
+      amount,
+      nutrient: intent.nutrient,
+      unit: intent.nutrient === "calories" ? " kcal" : "g",
+      target,
+      remaining: Math.max(target - amount, 0),
+    },
+    state: EMPTY_STATE,
+    data: {date, nutrient: intent.nutrient, amount, target: target || null},
+  };
+}
+
+/**
+ * Suggest foods for a meal
+ * @param {AssistantIntent} intent - meal_suggestion intent
+ * @param {TurnContext} context - Caller and clock
+ * @return {Promise<TurnOutcome>} Top recommendations
+ */
+async function suggestMeal(
+  intent: Extract<AssistantIntent, {intent: "meal_suggestion"}>,
+  context: TurnContext
+): Promise<TurnOutcome> {
+  const mealType = intent.mealType || mealTypeAt(localHour(context.now, context.timeZone));
+  const {recommendations} = await recommendFoods(context.userId, context.profile, {
+    foodQuery: intent.query,
+    mealType,
+    limit: SUGGESTION_COUNT,
+  });
+  if (!recommendations.length) {
+    return {reply: "noSuggestions", replyData: {mealType}, state: EMPTY_STATE};
+  }
+
+  return {
+    reply: "suggestions",
+    replyData: {
+      mealType,
+      names: recommendations.map((food) => food.name).join(", "),
+      first: recommendations[0].name,
+      reason: recommendations[0].reason,
+    },
+    state: EMPTY_STATE,
+    data: {
+      mealType,
+      suggestions: recommendations.map((food) => ({
+        foodId: food.id,
+        name: food.name,
+        reason: food.reason,
+        score: food.recommendationScore,
+      })),
+    },
+  };
+}
+
+/**
+ * Whether a planned item is the food the user named
+ * @param {string} itemName - Planned item name
+ * @param {string} spoken - Name as the user said it
+ * @return {boolean} True when every spoken word appears in the item name
+ */
+function namesItem(itemName: string, spoken: string): boolean {
+  const keys = new Set(tokenize(itemName).map(phoneticKey));
+  const words = tokenize(spoken).map(phoneticKey);
+  return words.length > 0 && words.every((word) => keys.has(word));
+}
+
+/**
+ * Propose swapping one item of the user's meal plan
+ * @param {SwapIntent} intent - swap_plan_item intent
+ * @param {TurnContext} context - Caller and clock
+ * @return {Promise<TurnOutcome>} Confirmation question, or why it cannot swap
+ */
+async function proposeSwap(intent: SwapIntent, context: TurnContext): Promise<TurnOutcome> {
+  if (!intent.slot && !intent.from) {
+    return {reply: "swapWhichMeal", state: {pending: null, awaiting: intent}};
+  }
+
+  // Plan days run Monday to Sunday; weekday() counts from Sunday
+  const day = intent.day ||
+    PLAN_DAYS[(weekday(localDateKey(context.now, context.timeZone)) + 6) % 7];
+  const [planDoc, foods] = await Promise.all([
+    db.collection("users").doc(context.userId).collection("mealPlans").doc("current").get(),
+    loadFoodCatalog(),
+  ]);
+  const meals = ((planDoc.get("days") || {}) as Partial<Record<PlanDay, PlannedMeal[]>>)[day] ||
+    [];
+  const candidates = meals.filter((meal) => !intent.slot || meal.slot === intent.slot);
+  const slot = intent.slot || "";
+  if (!candidates.some((meal) => meal.items.length)) {
+    return {reply: "swapNoPlan", replyData: {day, slot: slot || "meal"}, state: EMPTY_STATE};
+  }
+
+  // Without a food name the meal's main item (the first) is swapped
+  let meal: PlannedMeal | undefined;
+  let itemIndex = 0;
+  for (const candidate of candidates) {
+    itemIndex = intent.from ?
+      candidate.items.findIndex((item) => namesItem(item.name, intent.from as string)) : 0;
+    if (itemIndex !== -1 && candidate.items[itemIndex]) {
+      meal = candidate;
+      break;
+    }
+  }
+  if (!meal) {
+    return {reply: "swapNotFound", replyData: {day, from: intent.from || ""}, state: EMPTY_STATE};
+  }
+  const item = meal.items[itemIndex];
+  if (meal.locked) {
+    return {reply: "swapLocked", replyData: {day, slot: meal.slot}, state: EMPTY_STATE};
+  }
+
+  const profile = {...context.profile, uid: context.userId} as UserProfile;
+  const {allowed} = partitionByDiet(foods, profile);
+  let replacement: IndianFood | null | undefined;
+  if (intent.to) {
+    const allowedById = new Map(allowed.map((food) => [food.id, food]));
+    const inMeal = new Set(meal.items.map((planned) => planned.foodId));
+    const matches = searchFoodEntries(await loadSearchIndex(), intent.to, {limit: 5});
+    replacement = matches.results
+      .map((match) => allowedById.get(match.foodId))
+      .find((food) => food && !inMeal.has(food.id));
+  } else {
+    replacement = findSwap(allowed, meal, itemIndex);
+  }
+  if (!replacement) {
+    return {reply: "swapNoAlternative", replyData: {from: intent.to || item.name},
+      state: EMPTY_STATE};
+  }
+
+  const pending: PendingAction = {
+    action: "swap_plan_item",
+    day,
+    slot: meal.slot,
+    itemIndex,
+    fromFoodId: item.foodId,
+    fromName: item.name,
+    toFoodId: replacement.id,
+    toName: replacement.name,
+  };
+  return {
+    reply: "confirmSwap",
+    replyData: {day, slot: meal.slot, from: item.name, to: replacement.name},
+    state: {pending, awaiting: null},
+    data: {day, slot: meal.slot, from: item.foodId, to: replacement.id},
+  };
+}
+
+/**
+ * Swap a plan item the user confirmed
+ * Runs in a transaction and checks the item is still there, so a plan
+ * regenerated since the question is never edited blindly.
+ * @param {string} userId - Plan owner
+ * @param {PendingAction} swap - Confirmed swap
+ * @return {Promise<ReplyKey>} swapped, swapLocked or swapStale
+ */
+async function applySwap(
+  userId: string,
+  swap: Extract<PendingAction, {action: "swap_plan_item"}>
+): Promise<ReplyKey> {
+  const food = (await loadFoodCatalog()).find((entry) => entry.id === swap.toFoodId);
+  if (!food) return "swapStale";
+
+  const planRef = db.collection("users").doc(userId).collection("mealPlans").doc("current");
+  return db.runTransaction(async (transaction): Promise<ReplyKey> => {
+    const plan = await transaction.get(planRef);
+    const meals = (plan.get(`days.${swap.day}`) || []) as PlannedMeal[];
+    const mealIndex = meals.findIndex((meal) => meal.slot === swap.slot);
+    const meal = meals[mealIndex];
+    if (meal?.items[swap.itemIndex]?.foodId !== swap.fromFoodId) return "swapStale";
+    if (meal.locked) return "swapLocked";
+
+    const updated = meals.map((entry, i) =>
+      i === mealIndex ? swapPlanItem(meal, swap.itemIndex, food) : entry);
+    transaction.update(planRef, {
+      [`days.${swap.day}`]: updated,
+      [`dailyTotals.${swap.day}`]: dayTotals(updated),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return "swapped";
+  });
+}
+
+/**
+ * Take the pending action off the conversation before carrying it out
+ * Concurrent confirmations, or a retry after the turn failed to save, find
+ * it already taken and must not log the meal again.
+ * @param {admin.firestore.DocumentReference} conversationRef - Conversation
+ * @param {PendingAction} pending - Action read at the start of the turn
+ * @return {Promise<boolean>} False when another call already took it
+ */
+async function claimPending(
+  conversationRef: admin.firestore.DocumentReference,
+  pending: PendingAction
+): Promise<boolean> {
+  return db.runTransaction(async (transaction) => {
+    const conversation = await transaction.get(conversationRef);
+    const current = readState(conversation.get("state")).pending;
+    if (JSON.stringify(current) !== JSON.stringify(pending)) return false;
+    transaction.update(conversationRef, {state: EMPTY_STATE});
+    return true;
+  });
+}
+
+/**
+ * Carry out the action waiting for confirmation
+ * @param {PendingAction} pending - Confirmed action
+ * @param {TurnContext} context - Caller and clock
+ * @return {Promise<TurnOutcome>} Result of the action
+ */
+async function confirmPending(pending: PendingAction, context: TurnContext): Promise<TurnOutcome> {
+  if (!(await claimPending(context.conversationRef, pending))) {
+    return {reply: "nothingPending", state: EMPTY_STATE};
+  }
+
+  if (pending.action === "log_meal") {
+    const meal = await recordMeal(context.userId, pending.items, pending.mealType,
+      context.now, "assistant");
+    return {
+      reply: "logged",
+      replyData: {
+        mealType: pending.mealType,
+        calories: Math.round(meal.nutrition.calories),
+        protein: round2(meal.nutrition.protein),
+      },
+      state: EMPTY_STATE,
+      data: {mealId: meal.mealId, mealType: pending.mealType, nutrition: meal.nutrition},
+    };
+  }
+
+  const reply = await applySwap(context.userId, pending);
+  return {
+    reply,
+    replyData: {day: pending.day, slot: pending.slot, from: pending.fromName, to: pending.toName},
+    state: EMPTY_STATE,
+    data: reply === "swapped" ?
+      {day: pending.day, slot: pending.slot, from: pending.fromFoodId, to: pending.toFoodId} :
+      undefined,
+  };
+}
+
+/**
+ * Answer one intent
+ * @param {AssistantIntent} intent - What the user asked for
+ * @param {string} message - Original message
+ * @param {ConversationState} state - State left by the previous turn
+ * @param {TurnContext} context - Caller and clock
+ * @return {Promise<TurnOutcome>} Reply and the state for the next turn
+ */
+async function handleIntent(
+  intent: AssistantIntent,
+  message: string,
+  state: ConversationState,
+  context: TurnContext
+): Promise<TurnOutcome> {
+  switch (intent.intent) {
+  case "confirm":
+    return state.pending ?
+      confirmPending(state.pending, context) :
+      {reply: "nothingPending", state: EMPTY_STATE};
+  case "cancel":
+    return {reply: state.pending ? "cancelled" : "nothingPending", state: EMPTY_STATE};
+  case "log_meal":
+    return proposeMeal(intent.text, intent.mealType, context);
+  case "nutrient_query":
+    return answerNutrient(intent, context);
+  case "meal_suggestion":
+    return suggestMeal(intent, context);
+  case "swap_plan_item":
+    return proposeSwap(intent, context);
+  case "greeting":
+  case "help":
+    return {reply: intent.intent, state};
+  default: {
+    // Plain food lists ("2 roti aur dal") carry no verb; try them as a meal
+    const outcome = await proposeMeal(message, undefined, context);
+    return outcome.reply === "confirmLog" ? outcome : {reply: "unknown", state};
+  }
+  }
+}
+
+/**
+ * Chat with the nutrition assistant
+ * Logs meals, answers "how much protein today", suggests what to eat and
+ * swaps meal plan items. Meal logs and plan swaps are only written after
+ * the user confirms them in a later message.
+ */
+export const converse = onCall(async (request): Promise<ConverseResponse> => {
+  const userId = requireUser(request);
+  const {conversationId, message, language} = parseRequest(converseRequest, request.data);
+
+  await enforceQuota(userId, "assistantMessages");
+
+  try {
+    const userRef = db.collection("users").doc(userId);
+    const conversationRef = conversationId ?
+      userRef.collection("conversations").doc(conversationId) :
+      userRef.collection("conversations").doc();
+    const [userDoc, conversationDoc] = await Promise.all([
+      userRef.get(),
+      conversationId ? conversationRef.get() : null,
+    ]);
+
+    const profile = userDoc.data() as Omit<UserProfile, "uid"> | undefined;
+    if (!profile) {
+      throw new HttpsError("not-found", "User profile not found");
+    }
+    if (conversationDoc && !conversationDoc.exists) {
+      throw new HttpsError("not-found", `Conversation not found: ${conversationId}`,
+        {conversationId});
+    }
+
+    const state = readState(conversationDoc?.get("state"));
+    const turns = (conversationDoc?.get("turns") || []) as ConversationTurn[];
+    const context: TurnContext = {
+      userId,
+      profile,
+      language: language ||
+        resolvePreferences(userDoc.get("notificationPreferences"), profile.preferredLanguage)
+          .language,
+      timeZone: resolveTimeZone(profile.timezone),
+      now: new Date(),
+      conversationRef,
+    };
+
+    const {intent, interpretedBy} = await interpret(message, state, turns);
+    const outcome = await handleIntent(intent, message, state, context);
+    const reply = assistantReply(outcome.reply, context.language, outcome.replyData);
+
+    const at = admin.firestore.Timestamp.fromDate(context.now);
+    await conversationRef.set({
+      userId,
+      state: outcome.state,
+      turns: [
+        ...turns,
+        {role: "user", text: message, intent: intent.intent, at},
+        {role: "assistant", text: reply, at},
+      ].slice(-MAX_STORED_TURNS),
+      turnCount: admin.firestore.FieldValue.increment(2),
+      language: context.language,
+      timestamp: admin.firestore.FieldValue.serverTimestamp(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      ...(conversationDoc ? {} : {createdAt: admin.firestore.FieldValue.serverTimestamp()}),
+    }, {merge: true});
+
+    logger.info(`Assistant replied to user: ${userId}`, {
+      conversationId: conversationRef.id,
+      intent: intent.intent,
+      interpretedBy,
+      reply: outcome.reply,
+    });
+
+    return {
+      conversationId: conversationRef.id,
+      reply,
+      intent: intent.intent,
+      interpretedBy,
+      awaitingConfirmation: !!outcome.state.pending,
+      ...(outcome.data ? {data: outcome.data} : {}),
+    };
+  } catch (error) {
+    throw callableError(error, "Failed to answer message",
+      `Error answering assistant message for user: ${userId}`);
+  }
+});
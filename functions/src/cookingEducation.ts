@@ -0,0 +1,94 @@
+/**
+ * Cooking education functions for NutriSync
+ * Serves cookingEducation tips matched to the user's recent meals, goals
+ * and conditions, and records which tips each user has seen in
+ * users/{userId}/tipHistory so they are not repeated.
+ */
+
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import {HttpsError, onCall} from "firebase-functions/v2/https";
+import {callableError, requireUser} from "./callable";
+import {getCookingTipsRequest, GetCookingTipsResponse} from "./contracts";
+import {eatingPattern, readEducationContent, selectTips} from "./cookingTips";
+import {resolvePreferences} from "./notificationPolicy";
+import {MealItem, UserProfile} from "./types";
+import {parseRequest} from "./validation";
+
+const db = admin.firestore();
+
+const DEFAULT_TIP_COUNT = 3;
+
+// How far back meals are read to see how the user cooks
+const RECENT_MEAL_DAYS = 14;
+const MAX_RECENT_MEALS = 60;
+
+/**
+ * Get cooking tips that fit how the user eats
+ * Tips are in Hinglish or English following the user's language; each
+ * call marks the returned tips as shown.
+ */
+export const getCookingTips = onCall(async (request): Promise<GetCookingTipsResponse> => {
+  const userId = requireUser(request);
+  const {limit, language} = parseRequest(getCookingTipsRequest, request.data);
+
+  try {
+    const userRef = db.collection("users").doc(userId);
+    const since = new Date(Date.now() - RECENT_MEAL_DAYS * 24 * 60 * 60 * 1000);
+    const [userDoc, contentDocs, meals, history] = await Promise.all([
+      userRef.get(),
+      db.collection("cookingEducation").get(),
+      userRef.collection("meals")
+        .where("timestamp", ">=", admin.firestore.Timestamp.fromDate(since))
+        .orderBy("timestamp", "desc")
+        .limit(MAX_RECENT_MEALS)
+        .get(),
+      userRef.collection("tipHistory").get(),
+    ]);
+
+    const profile = userDoc.data() as Omit<UserProfile, "uid"> | undefined;
+    if (!profile) {
+      throw new HttpsError("not-found", "User profile not found");
+    }
+
+    const pattern = eatingPattern(meals.docs.map((doc) =>
+      ({foods: doc.get("foods") as MealItem[] | undefined})));
+    const lastShown = new Map(history.docs.map((doc) => [
+      doc.id,
+      (doc.get("lastShownAt") as admin.firestore.Timestamp | undefined)?.toMillis() ?? 0,
+    ]));
+    const tipLanguage = language ||
+      resolvePreferences(userDoc.get("notificationPreferences"), profile.preferredLanguage)
+        .language;
+
+    const tips = selectTips(
+      contentDocs.docs.map((doc) => readEducationContent(doc.id, doc.data())),
+      {pattern, goals: profile.healthGoals || [], conditions: profile.medicalConditions || []},
+      lastShown,
+      {limit: limit || DEFAULT_TIP_COUNT, language: tipLanguage, now: new Date()},
+    );
+
+    if (tips.length) {
+      const batch = db.batch();
+      for (const tip of tips) {
+        batch.set(userRef.collection("tipHistory").doc(tip.tipId), {
+          tipId: tip.tipId,
+          contentId: tip.contentId,
+          shownCount: admin.firestore.FieldValue.increment(1),
+          lastShownAt: admin.firestore.FieldValue.serverTimestamp(),
+        }, {merge: true});
+      }
+      await batch.commit();
+    }
+
+    logger.info(`Cooking tips served for user: ${userId}`, {
+      tips: tips.map((tip) => tip.tipId),
+      itemsConsidered: pattern.itemCount,
+    });
+
+    return {tips, language: tipLanguage, itemsConsidered: pattern.itemCount};
+  } catch (error) {
+    throw callableError(error, "Failed to get cooking tips",
+      `Error getting cooking tips for user: ${userId}`);
+  }
+});
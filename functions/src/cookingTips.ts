@@ -0,0 +1,217 @@
+/**
+ * Cooking tip selection for NutriSync
+ * Picks cookingEducation tips that fit what a user has been eating (cooking
+ * methods and dishes from recent meals) and their goals and conditions,
+ * and avoids repeating tips shown recently.
+ */
+
+import {NotificationLanguage} from "./notificationPolicy";
+import {tokenize} from "./text";
+import {MealItem} from "./types";
+
+/**
+ * One tip inside a cookingEducation document
+ * The trigger lists are optional; a tip without any is general advice.
+ */
+export interface CookingTip {
+  id: string;
+  tip: string;
+  benefit: string;
+  hinglishTip: string;
+  // Cooking methods of logged items, e.g. "deep fried"
+  methods?: string[];
+  // healthGoals and medicalConditions entries
+  goals?: string[];
+  conditions?: string[];
+  // Words in logged dish names, e.g. "dal"
+  foods?: string[];
+}
+
+/**
+ * cookingEducation/{contentId}
+ */
+export interface EducationContent {
+  id: string;
+  title: string;
+  category: string;
+  tips: CookingTip[];
+}
+
+/**
+ * What a user's recent meals show about how they eat
+ */
+export interface EatingPattern {
+  itemCount: number;
+  // Items per cooking method, lowercased
+  methods: Record<string, number>;
+  // Tokens of the dish names eaten
+  foodWords: Set<string>;
+}
+
+export interface TipContext {
+  pattern: EatingPattern;
+  goals: string[];
+  conditions: string[];
+}
+
+export interface SelectedTip {
+  tipId: string;
+  contentId: string;
+  title: string;
+  category: string;
+  text: string;
+  benefit: string;
+  // Why this tip was picked, in English
+  reason: string;
+}
+
+// Tips shown this recently are only repeated when nothing else fits
+export const TIP_COOLDOWN_DAYS = 14;
+
+// Points per kind of match; general tips get the least so they only fill gaps
+const MATCH_POINTS = {
+  method: 2,
+  // Extra points scaled by the share of items cooked that way
+  methodShare: 4,
+  goal: 2,
+  condition: 3,
+  food: 2,
+  general: 0.5,
+};
+
+/**
+ * Read a cookingEducation document, tolerating older documents whose tips
+ * have no ids
+ * @param {string} contentId - Document id
+ * @param {Record<string, unknown>} data - Document data
+ * @return {EducationContent} Content with every tip identified
+ */
+export function readEducationContent(
+  contentId: string,
+  data: Record<string, unknown>
+): EducationContent {
+  const tips = Array.isArray(data.tips) ? data.tips as Array<Partial<CookingTip>> : [];
+  return {
+    id: contentId,
+    title: String(data.title || ""),
+    category: String(data.category || ""),
+    tips: tips
+      .filter((tip) => tip && typeof tip.tip === "string")
+      .map((tip, i) => ({
+        ...tip,
+        id: tip.id || `${contentId}_${i}`,
+        tip: tip.tip as string,
+        benefit: tip.benefit || "",
+        hinglishTip: tip.hinglishTip || (tip.tip as string),
+      })),
+  };
+}
+
+/**
+ * Summarize how recent meals were cooked and which dishes they had
+ * @param {Array<object>} meals - Recent meal documents
+ * @return {EatingPattern} Eating pattern
+ */
+export function eatingPattern(meals: Array<{foods?: MealItem[]}>): EatingPattern {
+  const pattern: EatingPattern = {itemCount: 0, methods: {}, foodWords: new Set()};
+  for (const meal of meals) {
+    for (const item of meal.foods || []) {
+      pattern.itemCount++;
+      const method = (item.cookingMethod || "").trim().toLowerCase();
+      if (method) {
+        pattern.methods[method] = (pattern.methods[method] || 0) + 1;
+      }
+      tokenize(item.name || "").forEach((word) => pattern.foodWords.add(word));
+    }
+  }
+  return pattern;
+}
+
+/**
+ * Score one tip against the user's context
+ * @param {CookingTip} tip - Tip
+ * @param {TipContext} context - Eating pattern, goals and conditions
+ * @return {object} Points and the reasons behind them, strongest first
+ */
+function scoreTip(tip: CookingTip, context: TipContext): {points: number; reasons: string[]} {
+  const matches: Array<{points: number; reason: string}> = [];
+  const lower = (values?: string[]) => (values || []).map((value) => value.toLowerCase());
+
+  const {pattern} = context;
+  const methods = lower(tip.methods).filter((method) => pattern.methods[method]);
+  if (methods.length) {
+    const count = methods.reduce((sum, method) => sum + pattern.methods[method], 0);
+    matches.push({
+      points: MATCH_POINTS.method + MATCH_POINTS.methodShare * count / pattern.itemCount,
+      reason: `${count} of your last ${pattern.itemCount} dishes ` +
+        `${count === 1 ? "was" : "were"} ${methods.join(" or ")}`,
+    });
+  }
+  const goals = lower(context.goals);
+  lower(tip.goals).filter((goal) => goals.includes(goal)).forEach((goal) =>
+    matches.push({points: MATCH_POINTS.goal, reason: `fits your ${goal} goal`}));
+  const conditions = lower(context.conditions);
+  lower(tip.conditions).filter((condition) => conditions.includes(condition))
+    .forEach((condition) =>
+      matches.push({points: MATCH_POINTS.condition, reason: `helps with ${condition}`}));
+  const foods = lower(tip.foods).filter((food) =>
+    tokenize(food).every((word) => pattern.foodWords.has(word)));
+  if (foods.length) {
+    matches.push({points: MATCH_POINTS.food, reason: `you have been eating ${foods[0]}`});
+  }
+
+  const targeted = [tip.methods, tip.goals, tip.conditions, tip.foods]
+    .some((values) => values?.length);
+  if (!targeted) {
+    return {points: MATCH_POINTS.general, reasons: ["a good everyday habit"]};
+  }
+  matches.sort((a, b) => b.points - a.points);
+  return {
+    points: matches.reduce((sum, match) => sum + match.points, 0),
+    reasons: matches.map((match) => match.reason),
+  };
+}
+
+/**
+ * Pick the tips that fit a user best
+ * Targeted tips that match nothing are never picked. Tips shown within the
+ * cooldown come last, least recently shown first, so a user with few
+ * matching tips still gets something.
+ * @param {EducationContent[]} contents - All cookingEducation documents
+ * @param {TipContext} context - Eating pattern, goals and conditions
+ * @param {Map<string, number>} lastShown - Epoch ms each tip was last shown
+ * @param {object} options - How many tips, in which language, as of when
+ * @return {SelectedTip[]} Tips, best first
+ */
+export function selectTips(
+  contents: EducationContent[],
+  context: TipContext,
+  lastShown: Map<string, number>,
+  options: {limit: number; language: NotificationLanguage; now: Date}
+): SelectedTip[] {
+  const cooldownStart = options.now.getTime() - TIP_COOLDOWN_DAYS * 24 * 60 * 60 * 1000;
+
+  const candidates = contents.flatMap((content) => content.tips.map((tip) => {
+    const {points, reasons} = scoreTip(tip, context);
+    return {content, tip, points, reasons, shownAt: lastShown.get(tip.id) ?? 0};
+  })).filter((candidate) => candidate.points > 0);
+
+  candidates.sort((a, b) => {
+    const aFresh = a.shownAt < cooldownStart;
+    const bFresh = b.shownAt < cooldownStart;
+    if (aFresh !== bFresh) return aFresh ? -1 : 1;
+    if (!aFresh) return a.shownAt - b.shownAt;
+    return b.points - a.points || a.tip.id.localeCompare(b.tip.id);
+  });
+
+  return candidates.slice(0, options.limit).map(({content, tip, reasons}) => ({
+    tipId: tip.id,
+    contentId: content.id,
+    title: content.title,
+    category: content.category,
+    // There is no Devanagari text yet; Hindi readers get the Hinglish tip
+    text: options.language === "english" ? tip.tip : tip.hinglishTip,
+    benefit: tip.benefit,
+    reason: reasons.slice(0, 2).join(" and "),
+  }));
+}
@@ -0,0 +1,179 @@
+/**
+ * Daily summary arithmetic for NutriSync
+ * Works out which local day a meal belongs to and how a create, edit or
+ * delete changes each day's totals (macros, fiber, micronutrients and
+ * glycemic load, with carbs and load also per meal slot), so
+ * triggers can apply increments and a recompute can rebuild the same
+ * numbers from the meals themselves.
+ */
+
+import {MEAL_SLOTS} from "./mealPlanner";
+import {round2} from "./nutrition";
+import {localDateKey, toDate} from "./timezone";
+
+// Meal total field -> daily summary field
+export const SUMMARY_TOTALS: Record<string, string> = {
+  totalCalories: "totalCalories",
+  totalProtein: "totalProtein",
+  totalCarbs: "totalCarbs",
+  totalFat: "totalFat",
+  totalFiber: "totalFiber",
+  totalGlycemicLoad: "totalGlycemicLoad",
+};
+
+// Meal total field -> daily summary map of that total per meal slot
+export const SUMMARY_BY_MEAL: Record<string, string> = {
+  totalCarbs: "carbsByMeal",
+  totalGlycemicLoad: "glycemicLoadByMeal",
+};
+
+// Micronutrients summed from each meal's nutrition, as in the food dataset.
+// Vitamin A, B12, D and folate in µg; everything else in mg.
+export const SUMMARY_MICRONUTRIENTS = {
+  vitamins: ["A", "B1", "B6", "B12", "C", "D", "folate"],
+  minerals: ["iron", "calcium", "zinc", "magnesium", "potassium", "sodium"],
+};
+
+// Keys are summary field paths; nested values are "vitamins.B12" style
+export type SummaryDelta = Record<string, number>;
+
+/**
+ * Local day (YYYY-MM-DD) a meal counts toward
+ * @param {Record<string, unknown>} meal - Meal document data
+ * @param {string} timeZone - User's timezone
+ * @param {Date} fallback - Used when the meal has no usable timestamp
+ * @return {string} Date key
+ */
+export function mealDay(
+  meal: Record<string, unknown>,
+  timeZone: string,
+  fallback: Date
+): string {
+  return localDateKey(toDate(meal.timestamp) || fallback, timeZone);
+}
+
+/**
+ * A meal's contribution to its day, signed
+ * @param {Record<string, unknown>} meal - Meal document data
+ * @param {number} sign - 1 to add the meal, -1 to remove it
+ * @return {SummaryDelta} Summary field increments, including mealCount
+ */
+function contribution(meal: Record<string, unknown>, sign: number): SummaryDelta {
+  const delta: SummaryDelta = {mealCount: sign};
+  for (const [mealField, summaryField] of Object.entries(SUMMARY_TOTALS)) {
+    delta[summaryField] = sign * (Number(meal[mealField]) || 0);
+  }
+  const slot = MEAL_SLOTS.find((mealSlot) => mealSlot === meal.mealType) || "snack";
+  for (const [mealField, summaryField] of Object.entries(SUMMARY_BY_MEAL)) {
+    delta[`${summaryField}.${slot}`] = sign * (Number(meal[mealField]) || 0);
+  }
+  const nutrition = (meal.nutrition || {}) as Record<string, Record<string, unknown>>;
+  for (const [group, names] of Object.entries(SUMMARY_MICRONUTRIENTS)) {
+    for (const name of names) {
+      delta[`${group}.${name}`] = sign * (Number(nutrition[group]?.[name]) || 0);
+    }
+  }
+  return delta;
+}
+
+/**
+ * Turn "vitamins.B12" style paths into nested maps for a merged write
+ * A dotted key passed to set() would create a field named with the dot.
+ * @param {Record<string, T>} fields - Values by summary field path
+ * @return {Record<string, unknown>} Nested fields
+ */
+export function nestFields<T>(fields: Record<string, T>): Record<string, unknown> {
+  const nested: Record<string, unknown> = {};
+  for (const [path, value] of Object.entries(fields)) {
+    const [field, key] = path.split(".");
+    if (key === undefined) {
+      nested[field] = value;
+    } else {
+      nested[field] = {...(nested[field] as Record<string, T> | undefined), [key]: value};
+    }
+  }
+  return nested;
+}
+
+/**
+ * Per-day increments for a meal being created, edited or deleted
+ * An edit that moves the meal to another day removes it from the old day
+ * and adds it to the new one; days whose totals do not change are omitted.
+ * @param {Record<string, unknown> | undefined} before - Meal before (undefined on create)
+ * @param {Record<string, unknown> | undefined} after - Meal after (undefined on delete)
+ * @param {string} timeZone - User's timezone
+ * @param {Date} fallback - Day to use for meals without a timestamp
+ * @return {Map<string, SummaryDelta>} Increments by date key
+ */
+export function summaryDeltas(
+  before: Record<string, unknown> | undefined,
+  after: Record<string, unknown> | undefined,
+  timeZone: string,
+  fallback: Date
+): Map<string, SummaryDelta> {
+  const deltas = new Map<string, SummaryDelta>();
+  const apply = (meal: Record<string, unknown>, sign: number) => {
+    const day = mealDay(meal, timeZone, fallback);
+    const delta = deltas.get(day) || {};
+    for (const [field, value] of Object.entries(contribution(meal, sign))) {
+      delta[field] = round2((delta[field] || 0) + value);
+    }
+    deltas.set(day, delta);
+  };
+
+  if (before) apply(before, -1);
+  if (after) apply(after, 1);
+
+  for (const [day, delta] of deltas) {
+    if (Object.values(delta).every((value) => value === 0)) {
+      deltas.delete(day);
+    }
+  }
+  return deltas;
+}
+
+/**
+ * Totals per local day, rebuilt from a list of meals
+ * @param {Array<Record<string, unknown>>} meals - Meal document data
+ * @param {string} timeZone - User's timezone
+ * @param {Date} fallback - Day to use for meals without a timestamp
+ * @return {Map<string, SummaryDelta>} Summary totals by date key
+ */
+export function aggregateMeals(
+  meals: Array<Record<string, unknown>>,
+  timeZone: string,
+  fallback: Date
+): Map<string, SummaryDelta> {
+  const totals = new Map<string, SummaryDelta>();
+  for (const meal of meals) {
+    const day = mealDay(meal, timeZone, fallback);
+    const total = totals.get(day) || emptyTotals();
+    for (const [field, value] of Object.entries(contribution(meal, 1))) {
+      total[field] = round2(total[field] + value);
+    }
+    totals.set(day, total);
+  }
+  return totals;
+}
+
+/**
+ * Zeroed summary totals
+ * @return {SummaryDelta} Every summary total set to 0
+ */
+export function emptyTotals(): SummaryDelta {
+  const totals: SummaryDelta = {mealCount: 0};
+  for (const summaryField of Object.values(SUMMARY_TOTALS)) {
+    totals[summaryField] = 0;
+  }
+  for (const summaryField of Object.values(SUMMARY_BY_MEAL)) {
+    for (const slot of MEAL_SLOTS) {
+      totals[`${summaryField}.${slot}`] = 0;
+    }
+  }
+  for (const [group, names] of Object.entries(SUMMARY_MICRONUTRIENTS)) {
+    for (const name of names) {
+      totals[`${group}.${name}`] = 0;
+    }
+  }
+  return totals;
+}
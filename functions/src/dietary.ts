@@ -0,0 +1,161 @@
+/**
+ * Dietary restriction and allergy checks for NutriSync
+ * Foods may carry explicit dietaryTags/allergens; otherwise restrictions are
+ * inferred from the dish name, aliases and cooking ingredients.
+ */
+
+import {tokenize} from "./text";
+import {IndianFood, UserProfile} from "./types";
+
+const NON_VEG = [
+  "chicken", "murgh", "murg", "mutton", "gosht", "lamb", "goat", "meat", "keema",
+  "beef", "pork", "fish", "machli", "machhli", "prawn", "prawns", "shrimp",
+  "jhinga", "crab", "lobster", "egg", "eggs", "anda", "seafood", "pomfret",
+  "surmai", "rohu", "hilsa", "mackerel", "sardine", "tuna",
+];
+
+const DAIRY = [
+  "milk", "doodh", "paneer", "ghee", "butter", "makhan", "makhani", "cream",
+  "malai", "curd", "dahi", "yogurt", "yoghurt", "cheese", "khoya", "mawa",
+  "buttermilk", "chaas", "lassi", "raita", "kheer",
+];
+
+const JAIN_AVOID = [
+  "onion", "onions", "pyaz", "pyaaz", "garlic", "lehsun", "lahsun", "potato",
+  "potatoes", "aloo", "alu", "carrot", "gajar", "ginger", "adrak", "beetroot",
+  "radish", "mooli", "sweet potato", "shakarkandi", "arbi", "jimikand",
+];
+
+const GLUTEN = [
+  "wheat", "atta", "maida", "suji", "sooji", "semolina", "rava", "barley", "jau",
+  "roti", "chapati", "phulka", "naan", "paratha", "bread", "dalia", "seviyan",
+];
+
+// Keyword lists for the allergy options offered in the app
+const ALLERGEN_KEYWORDS: Record<string, string[]> = {
+  nuts: [
+    "peanut", "peanuts", "moongfali", "almond", "almonds", "badam", "cashew",
+    "cashews", "kaju", "pista", "pistachio", "walnut", "akhrot",
+  ],
+  dairy: DAIRY,
+  gluten: GLUTEN,
+  soy: ["soy", "soya", "tofu"],
+  eggs: ["egg", "eggs", "anda"],
+  fish: [
+    "fish", "machli", "machhli", "pomfret", "surmai", "rohu", "hilsa",
+    "mackerel", "sardine", "tuna",
+  ],
+  shellfish: ["prawn", "prawns", "shrimp", "jhinga", "crab", "lobster"],
+  sesame: ["sesame", "til"],
+  mustard: ["mustard", "sarson", "rai"],
+};
+
+// Allergen names foods may list explicitly in their allergens field
+export const KNOWN_ALLERGENS = Object.keys(ALLERGEN_KEYWORDS);
+
+// Restrictions enforced as hard exclusions, with the keywords they forbid
+const RESTRICTION_KEYWORDS: Record<string, string[]> = {
+  "vegetarian": NON_VEG,
+  "vegan": [...NON_VEG, ...DAIRY, "honey", "shahad"],
+  "jain": [...NON_VEG, ...JAIN_AVOID],
+  "dairy-free": DAIRY,
+  "gluten-free": GLUTEN,
+};
+
+/**
+ * Collect the words and two-word phrases describing what is in a food
+ * @param {IndianFood} food - Food document
+ * @return {Set<string>} Ingredient words and phrases
+ */
+function ingredientTerms(food: IndianFood): Set<string> {
+  const methods = [
+    food.cookingMethods?.defaultMethod,
+    ...(food.cookingMethods?.alternatives || []),
+  ];
+  const texts = [
+    food.name,
+    ...(food.aliases || []),
+    ...methods.flatMap((method) => method?.commonIngredients || []),
+    ...(food.ingredients || []).map((ingredient) => ingredient.name),
+  ];
+
+  const terms = new Set<string>();
+  for (const text of texts) {
+    const tokens = tokenize(text || "");
+    tokens.forEach((token, i) => {
+      terms.add(token);
+      if (i > 0) terms.add(`${tokens[i - 1]} ${token}`);
+    });
+  }
+  return terms;
+}
+
+/**
+ * Find the first keyword present in a food's ingredients
+ * @param {Set<string>} terms - Ingredient terms of the food
+ * @param {string[]} keywords - Keywords to look for
+ * @return {string | undefined} Matching keyword
+ */
+function findKeyword(terms: Set<string>, keywords: string[]): string | undefined {
+  return keywords.find((keyword) => terms.has(keyword));
+}
+
+/**
+ * Check whether a food is off-limits for a user
+ * @param {IndianFood} food - Food document
+ * @param {UserProfile} profile - User profile with dietaryNeeds and allergies
+ * @return {string | null} Why the food is excluded, or null when allowed
+ */
+export function dietaryViolation(
+  food: IndianFood,
+  profile: Pick<UserProfile, "dietaryNeeds" | "allergies">
+): string | null {
+  const terms = ingredientTerms(food);
+  const tags = (food.dietaryTags || []).map((tag) => tag.toLowerCase());
+  const allergens = (food.allergens || []).map((a) => a.toLowerCase());
+
+  for (const allergy of profile.allergies || []) {
+    const key = allergy.toLowerCase();
+    if (allergens.includes(key)) {
+      return `contains ${key} (allergy)`;
+    }
+    const keyword = findKeyword(terms, ALLERGEN_KEYWORDS[key] || [key]);
+    if (keyword) {
+      return `contains ${keyword} (${key} allergy)`;
+    }
+  }
+
+  for (const need of profile.dietaryNeeds || []) {
+    const key = need.toLowerCase();
+    const keywords = RESTRICTION_KEYWORDS[key];
+    if (!keywords) {
+      continue;
+    }
+    // Explicit tags from the food database win over inference
+    if (food.dietaryTags) {
+      if (!tags.includes(key)) {
+        return `not ${key}`;
+      }
+      continue;
+    }
+    const keyword = findKeyword(terms, keywords);
+    if (keyword) {
+      return `contains ${keyword} (not ${key})`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * List the restrictions from a profile that are enforced as exclusions
+ * @param {UserProfile} profile - User profile
+ * @return {string[]} Lowercased enforced restrictions
+ */
+export function enforcedRestrictions(
+  profile: Pick<UserProfile, "dietaryNeeds">
+): string[] {
+  return (profile.dietaryNeeds || [])
+    .map((need) => need.toLowerCase())
+    .filter((need) => need in RESTRICTION_KEYWORDS);
+}
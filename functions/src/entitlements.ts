@@ -0,0 +1,123 @@
+/**
+ * Subscription tiers and entitlements for NutriSync
+ * Each tier grants features and per-period quotas. Tiers come from
+ * subscriptions/{userId}, which only the payment webhook writes; the
+ * defaults below can be overridden from config/entitlements.
+ */
+
+import {isoWeekKey} from "./timezone";
+
+export type QuotaPeriod = "day" | "week" | "month";
+
+export interface Quota {
+  // null means unlimited
+  limit: number | null;
+  period: QuotaPeriod;
+}
+
+export interface TierEntitlements {
+  features: string[];
+  quotas: Record<string, Quota>;
+}
+
+export const DEFAULT_TIER = "free";
+
+export const DEFAULT_ENTITLEMENTS: Record<string, TierEntitlements> = {
+  free: {
+    features: [],
+    quotas: {
+      recommendations: {limit: 10, period: "day"},
+      mealPlans: {limit: 1, period: "week"},
+      voiceInteractions: {limit: 50, period: "month"},
+      assistantMessages: {limit: 30, period: "day"},
+    },
+  },
+  premium: {
+    features: [
+      "unlimited_voice_queries", "personalized_meal_plans",
+      "advanced_nutrition_analysis", "grocery_list_optimization",
+      "calendar_integration", "priority_support",
+    ],
+    quotas: {
+      recommendations: {limit: 200, period: "day"},
+      mealPlans: {limit: 14, period: "week"},
+      voiceInteractions: {limit: 1000, period: "month"},
+      assistantMessages: {limit: 500, period: "day"},
+    },
+  },
+  family: {
+    features: [
+      "unlimited_voice_queries", "personalized_meal_plans",
+      "advanced_nutrition_analysis", "grocery_list_optimization",
+      "calendar_integration", "priority_support", "family_profiles",
+    ],
+    quotas: {
+      recommendations: {limit: 500, period: "day"},
+      mealPlans: {limit: 30, period: "week"},
+      voiceInteractions: {limit: 3000, period: "month"},
+      assistantMessages: {limit: 1000, period: "day"},
+    },
+  },
+};
+
+// Subscription statuses that grant the paid tier until currentPeriodEnd
+const ACTIVE_STATUSES = ["active", "trialing", "cancelled_at_period_end", "past_due"];
+
+/**
+ * Apply config/entitlements overrides to the default tiers
+ * Overrides may add tiers or replace individual quotas.
+ * @param {Record<string, unknown> | null} overrides - Config document data
+ * @return {Record<string, TierEntitlements>} Entitlements by tier
+ */
+export function resolveEntitlements(
+  overrides?: Record<string, unknown> | null
+): Record<string, TierEntitlements> {
+  const tiers: Record<string, TierEntitlements> = {};
+  const names = new Set([
+    ...Object.keys(DEFAULT_ENTITLEMENTS),
+    ...Object.keys(overrides || {}),
+  ]);
+  for (const name of names) {
+    const base = DEFAULT_ENTITLEMENTS[name] || DEFAULT_ENTITLEMENTS[DEFAULT_TIER];
+    const override = (overrides?.[name] || {}) as Partial<TierEntitlements>;
+    tiers[name] = {
+      features: Array.isArray(override.features) ? override.features : base.features,
+      quotas: {...base.quotas, ...(override.quotas || {})},
+    };
+  }
+  return tiers;
+}
+
+/**
+ * The tier a subscription currently grants
+ * Paid tiers lapse to free once currentPeriodEnd passes, even if the
+ * provider's expiry event has not arrived yet.
+ * @param {Record<string, unknown> | undefined} subscription - subscriptions/{userId}
+ * @param {Date} now - Current time
+ * @return {string} Tier name
+ */
+export function effectiveTier(
+  subscription: Record<string, unknown> | undefined,
+  now: Date
+): string {
+  if (!subscription?.tier || !ACTIVE_STATUSES.includes(String(subscription.status))) {
+    return DEFAULT_TIER;
+  }
+  const end = subscription.currentPeriodEnd as {toMillis?: () => number} | undefined;
+  if (end?.toMillis && end.toMillis() <= now.getTime()) {
+    return DEFAULT_TIER;
+  }
+  return String(subscription.tier);
+}
+
+/**
+ * Key of the quota period containing a date
+ * @param {QuotaPeriod} period - Quota period
+ * @param {string} dateKey - YYYY-MM-DD
+ * @return {string} e.g. "2024-05-02", "2024-W18" or "2024-05"
+ */
+export function periodKey(period: QuotaPeriod, dateKey: string): string {
+  if (period === "week") return isoWeekKey(dateKey);
+  if (period === "month") return dateKey.slice(0, 7);
+  return dateKey;
+}
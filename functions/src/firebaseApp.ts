@@ -0,0 +1,9 @@
+/**
+ * Initializes Firebase Admin
+ * Imported by index.ts ahead of every module that calls admin.firestore()
+ * when it loads.
+ */
+
+import * as admin from "firebase-admin";
+
+admin.initializeApp();
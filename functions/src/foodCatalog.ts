@@ -0,0 +1,64 @@
+/**
+ * Cached access to the indianFoods collection and its search index
+ * The catalog is small and rarely changes, so each instance keeps a copy
+ * in memory instead of re-reading it on every call.
+ */
+
+import * as admin from "firebase-admin";
+import {FoodSearchEntry} from "./foodSearch";
+import {IndianFood} from "./types";
+
+const db = admin.firestore();
+
+const CACHE_TTL_MS = 10 * 60 * 1000;
+
+// Bumped by onIndianFoodWritten whenever the search index changes
+export const SEARCH_INDEX_META_DOC = "config/foodSearchIndex";
+
+let cachedFoods: IndianFood[] | null = null;
+let cachedAt = 0;
+
+let cachedEntries: FoodSearchEntry[] | null = null;
+let cachedIndexVersion: number | null = null;
+let cachedEntriesAt = 0;
+
+/**
+ * Load every food in the indianFoods collection
+ * @param {boolean} forceRefresh - Skip the in-memory cache
+ * @return {Promise<IndianFood[]>} All foods, ordered by id
+ */
+export async function loadFoodCatalog(forceRefresh = false): Promise<IndianFood[]> {
+  if (!forceRefresh && cachedFoods && Date.now() - cachedAt < CACHE_TTL_MS) {
+    return cachedFoods;
+  }
+
+  const snapshot = await db.collection("indianFoods").get();
+  cachedFoods = snapshot.docs
+    .map((doc) => ({...doc.data(), id: doc.id} as IndianFood))
+    .sort((a, b) => a.id.localeCompare(b.id));
+  cachedAt = Date.now();
+  return cachedFoods;
+}
+
+/**
+ * Load the food search index
+ * Reads one version document per call and reloads the entries when the
+ * index has changed since the last load, or at the latest after the cache
+ * TTL in case a version bump was lost.
+ * @return {Promise<FoodSearchEntry[]>} All search entries
+ */
+export async function loadSearchIndex(): Promise<FoodSearchEntry[]> {
+  const meta = await db.doc(SEARCH_INDEX_META_DOC).get();
+  const version = meta.data()?.version ?? 0;
+
+  if (cachedEntries && cachedIndexVersion === version &&
+      Date.now() - cachedEntriesAt < CACHE_TTL_MS) {
+    return cachedEntries;
+  }
+
+  const snapshot = await db.collection("foodSearchIndex").get();
+  cachedEntries = snapshot.docs.map((doc) => doc.data() as FoodSearchEntry);
+  cachedIndexVersion = version;
+  cachedEntriesAt = Date.now();
+  return cachedEntries;
+}
@@ -0,0 +1,768 @@
+/**
+ * Food dataset parsing and validation for NutriSync
+ * Turns a bundled composition table (CSV or JSON) into indianFoods
+ * documents, rejecting records that fail the food schema, and diffs them
+ * against what is already stored so imports only write real changes.
+ */
+
+import {KNOWN_ALLERGENS} from "./dietary";
+import {MEAL_SLOTS} from "./mealPlanner";
+import {tokenize} from "./text";
+import {IndianFood, NutritionInfo} from "./types";
+
+export type DatasetFormat = "csv" | "json";
+
+// Dataset file names under functions/data; no paths, so nothing outside it is readable
+export const DATASET_FILE_PATTERN = /^[\w-]+\.(csv|json)$/;
+
+/**
+ * Food fields an import owns; anything else on a document (createdAt,
+ * regionalVariations, ingredients...) is left as it is
+ */
+export const IMPORTED_FIELDS = [
+  "name",
+  "aliases",
+  "nutrition",
+  "cookingMethods",
+  "portionSizes",
+  "regions",
+  "category",
+  "commonCombinations",
+  "searchTerms",
+  "baseDish",
+  "dietaryTags",
+  "allergens",
+  "mealTypes",
+  "glycemicIndex",
+] as const;
+
+export type ImportedField = typeof IMPORTED_FIELDS[number];
+
+// Curated data a dataset may leave out
+type OptionalField = "dietaryTags" | "allergens" | "mealTypes" | "glycemicIndex";
+
+export type ImportedFood = Pick<IndianFood, "id" | Exclude<ImportedField, OptionalField>> &
+  Partial<Pick<IndianFood, OptionalField>>;
+
+export const FOOD_CATEGORIES = [
+  "dal", "sabzi", "curry", "main", "side", "roti", "bread", "rice",
+  "breakfast", "snack", "sweet", "beverage", "fruit",
+];
+
+export const REGIONS = [
+  "North Indian", "South Indian", "East Indian", "West Indian",
+  "Central Indian", "North East Indian", "All India",
+];
+
+// Spellings seen in source tables, keyed by lowercased name
+const REGION_ALIASES: Record<string, string> = {
+  "north": "North Indian",
+  "north india": "North Indian",
+  "south": "South Indian",
+  "south india": "South Indian",
+  "east": "East Indian",
+  "east india": "East Indian",
+  "west": "West Indian",
+  "west india": "West Indian",
+  "central": "Central Indian",
+  "central india": "Central Indian",
+  "northeast": "North East Indian",
+  "north east": "North East Indian",
+  "north east india": "North East Indian",
+  "northeast indian": "North East Indian",
+  "all": "All India",
+  "pan india": "All India",
+  "pan-india": "All India",
+};
+
+const VITAMINS = ["A", "B1", "B2", "B3", "B6", "B12", "C", "D", "E", "K", "folate"];
+const MINERALS = [
+  "iron", "calcium", "zinc", "magnesium", "potassium", "sodium", "phosphorus", "selenium",
+];
+
+// Per 100g; a food cannot be denser than pure fat
+const MAX_CALORIES = 900;
+const MAX_PORTION_GRAMS = 1000;
+const MULTIPLIER_RANGE = {min: 0.5, max: 2};
+
+// Energy differing from 4/4/9 kcal per gram of macros by more than this is flagged
+const ENERGY_TOLERANCE = {kcal: 25, ratio: 0.2};
+
+// Words too common to be worth a search term
+const STOP_WORDS = new Set(["and", "with", "of", "the", "ki", "ka", "ke", "di", "da"]);
+
+// CSV columns; blank cells are treated as absent
+const CSV_COLUMNS = [
+  "id", "name", "aliases", "regional_names", "category", "base_dish",
+  "primary_region", "available_regions",
+  "energy_kcal", "protein_g", "carbs_g", "fat_g", "fiber_g",
+  "vitamin_a_ug", "vitamin_b1_mg", "vitamin_b6_mg", "vitamin_b12_ug", "vitamin_c_mg",
+  "vitamin_d_ug", "folate_ug",
+  "iron_mg", "calcium_mg", "zinc_mg", "magnesium_mg", "potassium_mg", "sodium_mg",
+  "portions", "portion_grams", "visual_reference",
+  "default_method", "method_description", "method_multiplier", "alternative_methods",
+  "common_ingredients", "combinations", "meal_types", "allergens", "dietary_tags",
+  "search_terms", "glycemic_index",
+];
+
+const VITAMIN_COLUMNS: Record<string, string> = {
+  vitamin_a_ug: "A",
+  vitamin_b1_mg: "B1",
+  vitamin_b6_mg: "B6",
+  vitamin_b12_ug: "B12",
+  vitamin_c_mg: "C",
+  vitamin_d_ug: "D",
+  folate_ug: "folate",
+};
+
+const MINERAL_COLUMNS: Record<string, string> = {
+  iron_mg: "iron",
+  calcium_mg: "calcium",
+  zinc_mg: "zinc",
+  magnesium_mg: "magnesium",
+  potassium_mg: "potassium",
+  sodium_mg: "sodium",
+};
+
+export interface RejectedRecord {
+  // 1-based position among the dataset's records (CSV header excluded)
+  row: number;
+  id?: string;
+  errors: string[];
+}
+
+export interface DatasetWarning {
+  row: number;
+  id?: string;
+  warning: string;
+}
+
+export interface ParsedDataset {
+  total: number;
+  foods: ImportedFood[];
+  rejected: RejectedRecord[];
+  warnings: DatasetWarning[];
+}
+
+export interface FoodChange {
+  id: string;
+  fields: ImportedField[];
+}
+
+export interface FoodDiff {
+  added: string[];
+  changed: FoodChange[];
+  unchanged: number;
+  // Stored foods the dataset does not mention; reported, never deleted
+  notInDataset: string[];
+}
+
+/**
+ * Split CSV text into rows of cells
+ * Handles quoted cells with commas, doubled quotes and line breaks.
+ * @param {string} text - CSV text
+ * @return {Array<Array<string>>} Rows, blank lines dropped
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some((value) => value.trim())) rows.push(row);
+    row = [];
+    cell = "";
+  };
+
+  const input = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === "\"" && input[i + 1] === "\"") {
+        cell += "\"";
+        i++;
+      } else if (char === "\"") {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === "\"") {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (quoted) {
+    throw new Error("CSV ends inside a quoted cell");
+  }
+  if (cell || row.length) endRow();
+  return rows;
+}
+
+/**
+ * Parse CSV text with a header row into rows keyed by column
+ * @param {string} text - CSV text
+ * @return {object} Lowercased column names and one object per row
+ */
+export function csvTable(text: string): {
+  columns: string[];
+  rows: Array<Record<string, string>>;
+} {
+  const [header, ...cells] = parseCsv(text);
+  if (!header) {
+    throw new Error("CSV dataset is empty");
+  }
+  const columns = header.map((column) => column.trim().toLowerCase());
+  const rows = cells.map((values) => {
+    const row: Record<string, string> = {};
+    columns.forEach((column, i) => {
+      row[column] = values[i] || "";
+    });
+    return row;
+  });
+  return {columns, rows};
+}
+
+/**
+ * Split a pipe-separated cell
+ * @param {string | undefined} cell - Cell text, e.g. "rice|roti"
+ * @return {string[] | undefined} Values, or undefined when blank
+ */
+function list(cell: string | undefined): string[] | undefined {
+  const values = (cell || "").split("|").map((value) => value.trim()).filter(Boolean);
+  return values.length ? values : undefined;
+}
+
+/**
+ * Parse a pipe-separated "key:value" cell
+ * @param {string | undefined} cell - Cell text, e.g. "katori:150|spoon:15"
+ * @param {Function} convert - Converts each value
+ * @return {Record<string, T> | undefined} Map, or undefined when blank
+ */
+function pairs<T>(
+  cell: string | undefined,
+  convert: (value: string) => T
+): Record<string, T> | undefined {
+  const entries = list(cell);
+  if (!entries) return undefined;
+  const result: Record<string, T> = {};
+  for (const entry of entries) {
+    const split = entry.indexOf(":");
+    const key = split < 0 ? entry : entry.slice(0, split).trim();
+    result[key] = convert(split < 0 ? "" : entry.slice(split + 1).trim());
+  }
+  return result;
+}
+
+/**
+ * Read a numeric cell; text that is not a number becomes NaN so
+ * validation reports it
+ * @param {string | undefined} cell - Cell text
+ * @return {number | undefined} Number, or undefined when blank
+ */
+function numeric(cell: string | undefined): number | undefined {
+  const text = (cell || "").trim();
+  return text ? Number(text) : undefined;
+}
+
+/**
+ * Read the per-100g nutrition columns of a CSV row, unvalidated
+ * Shared with other composition tables that use the same columns.
+ * @param {Record<string, string>} row - Cells keyed by column
+ * @return {Record<string, unknown>} Nutrition-shaped record
+ */
+export function csvNutrition(row: Record<string, string>): Record<string, unknown> {
+  const micros = (columns: Record<string, string>) => {
+    const values: Record<string, number> = {};
+    for (const [column, key] of Object.entries(columns)) {
+      const value = numeric(row[column]);
+      if (value !== undefined) values[key] = value;
+    }
+    return values;
+  };
+
+  return {
+    calories: numeric(row.energy_kcal),
+    protein: numeric(row.protein_g),
+    carbs: numeric(row.carbs_g),
+    fat: numeric(row.fat_g),
+    fiber: numeric(row.fiber_g) ?? 0,
+    vitamins: micros(VITAMIN_COLUMNS),
+    minerals: micros(MINERAL_COLUMNS),
+  };
+}
+
+/**
+ * Map one CSV row onto the food document shape, unvalidated
+ * @param {Record<string, string>} row - Cells keyed by column
+ * @return {Record<string, unknown>} Food-shaped record
+ */
+function csvRecord(row: Record<string, string>): Record<string, unknown> {
+  const alternatives = pairs(row.alternative_methods, Number) || {};
+  const regionalNames = pairs(row.regional_names, (name) => name) || {};
+
+  return {
+    id: row.id?.trim(),
+    name: row.name?.trim(),
+    aliases: list(row.aliases) || [],
+    nutrition: csvNutrition(row),
+    cookingMethods: {
+      defaultMethod: {
+        name: row.default_method?.trim(),
+        description: row.method_description?.trim() || "",
+        nutritionMultiplier: numeric(row.method_multiplier) ?? 1,
+        commonIngredients: list(row.common_ingredients) || [],
+      },
+      alternatives: Object.entries(alternatives).map(([name, multiplier]) => ({
+        name,
+        description: "",
+        nutritionMultiplier: multiplier,
+        commonIngredients: [],
+      })),
+      nutritionAdjustments: {},
+    },
+    portionSizes: {
+      standardPortions: pairs(row.portions, Number),
+      visualReference: row.visual_reference?.trim(),
+      gramsPerPortion: numeric(row.portion_grams),
+    },
+    regions: {
+      primaryRegion: row.primary_region?.trim(),
+      availableRegions: list(row.available_regions) || [],
+      regionalNames,
+    },
+    category: row.category?.trim(),
+    commonCombinations: list(row.combinations) || [],
+    searchTerms: list(row.search_terms) || [],
+    baseDish: row.base_dish?.trim(),
+    dietaryTags: list(row.dietary_tags),
+    allergens: list(row.allergens),
+    mealTypes: list(row.meal_types),
+    glycemicIndex: numeric(row.glycemic_index),
+  };
+}
+
+/**
+ * Read dataset text into food-shaped records
+ * @param {string} text - File contents
+ * @param {DatasetFormat} format - csv or json
+ * @return {object} Records plus dataset-level warnings
+ */
+function readRecords(
+  text: string,
+  format: DatasetFormat
+): {records: unknown[]; warnings: DatasetWarning[]} {
+  if (format === "json") {
+    const records = JSON.parse(text);
+    if (!Array.isArray(records)) {
+      throw new Error("JSON dataset must be an array of foods");
+    }
+    return {records, warnings: []};
+  }
+
+  const {columns, rows} = csvTable(text);
+  const warnings = columns
+    .filter((column) => !CSV_COLUMNS.includes(column))
+    .map((column): DatasetWarning => ({row: 0, warning: `Unknown column ignored: ${column}`}));
+  return {records: rows.map(csvRecord), warnings};
+}
+
+type CookingMethodInfo = IndianFood["cookingMethods"]["defaultMethod"];
+
+/**
+ * Checks for the fields of one record; problems are collected rather than
+ * thrown so a rejected record lists everything wrong with it
+ * @return {object} Field checks plus the errors and warnings collected
+ */
+function recordChecks() {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  const text = (value: unknown, field: string, max = 200): string => {
+    if (typeof value !== "string" || !value.trim()) {
+      errors.push(`${field} is required`);
+      return "";
+    }
+    if (value.trim().length > max) {
+      errors.push(`${field} must be at most ${max} characters`);
+    }
+    return value.trim();
+  };
+
+  const range = (value: unknown, field: string, min: number, max: number): number => {
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      errors.push(`${field} must be a number`);
+      return 0;
+    }
+    if (value < min || value > max) {
+      errors.push(`${field} must be between ${min} and ${max}`);
+    }
+    return value;
+  };
+
+  // Trimmed and de-duplicated; absent lists are empty
+  const strings = (value: unknown, field: string, allowed?: string[]): string[] => {
+    if (value === undefined) return [];
+    if (!Array.isArray(value) || value.some((item) => typeof item !== "string")) {
+      errors.push(`${field} must be a list of strings`);
+      return [];
+    }
+    const items = [...new Set(value.map((item: string) => item.trim()).filter(Boolean))];
+    items.filter((item) => allowed && !allowed.includes(item))
+      .forEach((item) => errors.push(`${field} has unknown value: ${item}`));
+    return items;
+  };
+
+  // Vitamin or mineral amounts per 100g
+  const micros = (value: unknown, field: string, keys: string[]): Record<string, number> => {
+    if (value === undefined) return {};
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      errors.push(`${field} must be an object`);
+      return {};
+    }
+    const result: Record<string, number> = {};
+    for (const [key, amount] of Object.entries(value)) {
+      if (keys.includes(key)) {
+        result[key] = range(amount, `${field}.${key}`, 0, 100000);
+      } else {
+        errors.push(`${field} has unknown nutrient: ${key}`);
+      }
+    }
+    return result;
+  };
+
+  // Normalized to the canonical spelling
+  const region = (value: unknown, field: string): string => {
+    const name = text(value, field, 50);
+    if (!name) return "";
+    const canonical = REGIONS.find((known) => known.toLowerCase() === name.toLowerCase()) ||
+      REGION_ALIASES[name.toLowerCase()];
+    if (!canonical) {
+      errors.push(`${field} is not a known region: ${name}`);
+    }
+    return canonical || name;
+  };
+
+  const method = (value: unknown, field: string): CookingMethodInfo => {
+    const input = (value || {}) as Record<string, unknown>;
+    return {
+      name: text(input.name, `${field}.name`, 50),
+      description: typeof input.description === "string" ? input.description.trim() : "",
+      nutritionMultiplier: range(input.nutritionMultiplier ?? 1,
+        `${field}.nutritionMultiplier`, MULTIPLIER_RANGE.min, MULTIPLIER_RANGE.max),
+      commonIngredients: strings(input.commonIngredients, `${field}.commonIngredients`),
+    };
+  };
+
+  return {errors, warnings, text, range, strings, micros, region, method};
+}
+
+/**
+ * Check per-100g nutrition values
+ * @param {object} check - Checks collecting the record's errors and warnings
+ * @param {unknown} value - Nutrition from the record
+ * @return {NutritionInfo} Normalized nutrition
+ */
+function checkNutrition(check: ReturnType<typeof recordChecks>, value: unknown): NutritionInfo {
+  const nutritionInput = (value || {}) as Record<string, unknown>;
+  const nutrition = {
+    calories: check.range(nutritionInput.calories, "nutrition.calories", 0, MAX_CALORIES),
+    protein: check.range(nutritionInput.protein, "nutrition.protein", 0, 100),
+    carbs: check.range(nutritionInput.carbs, "nutrition.carbs", 0, 100),
+    fat: check.range(nutritionInput.fat, "nutrition.fat", 0, 100),
+    fiber: check.range(nutritionInput.fiber ?? 0, "nutrition.fiber", 0, 100),
+    vitamins: check.micros(nutritionInput.vitamins, "nutrition.vitamins", VITAMINS),
+    minerals: check.micros(nutritionInput.minerals, "nutrition.minerals", MINERALS),
+  };
+  if (nutrition.protein + nutrition.carbs + nutrition.fat > 100) {
+    check.errors.push("nutrition protein, carbs and fat add up to more than 100g per 100g");
+  }
+  const macroEnergy = 4 * nutrition.protein + 4 * nutrition.carbs + 9 * nutrition.fat;
+  const energyGap = Math.abs(macroEnergy - nutrition.calories);
+  if (energyGap > Math.max(ENERGY_TOLERANCE.kcal, ENERGY_TOLERANCE.ratio * nutrition.calories)) {
+    check.warnings.push(`nutrition.calories ${nutrition.calories} differs from ` +
+      `${Math.round(macroEnergy)} kcal computed from macros`);
+  }
+  return nutrition;
+}
+
+/**
+ * Validate per-100g nutrition on its own, for composition tables that are
+ * not foods (such as raw ingredients)
+ * @param {unknown} value - Nutrition-shaped record
+ * @return {object} The nutrition when valid, plus errors and warnings
+ */
+export function validateNutrition(value: unknown): {
+  nutrition: NutritionInfo | null;
+  errors: string[];
+  warnings: string[];
+} {
+  const check = recordChecks();
+  const nutrition = checkNutrition(check, value);
+  return check.errors.length ?
+    {nutrition: null, errors: check.errors, warnings: []} :
+    {nutrition, errors: [], warnings: check.warnings};
+}
+
+/**
+ * Validate one record against the food schema and normalize it
+ * @param {unknown} value - Record from the dataset
+ * @return {object} The food when valid, plus errors and warnings
+ */
+export function validateFood(value: unknown): {
+  food: ImportedFood | null;
+  errors: string[];
+  warnings: string[];
+} {
+  const check = recordChecks();
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return {food: null, errors: ["record must be an object"], warnings: []};
+  }
+  const record = value as Record<string, unknown>;
+
+  const id = check.text(record.id, "id", 100);
+  if (id && !/^[a-z0-9_]+$/.test(id)) {
+    check.errors.push("id must use lowercase letters, digits and underscores");
+  }
+
+  const category = check.text(record.category, "category", 50).toLowerCase();
+  if (category && !FOOD_CATEGORIES.includes(category)) {
+    check.errors.push(`category is not a known category: ${category}`);
+  }
+
+  const nutrition = checkNutrition(check, record.nutrition);
+
+  const portionInput = (record.portionSizes || {}) as Record<string, unknown>;
+  const standardPortions: Record<string, number> = {};
+  const portions = portionInput.standardPortions;
+  if (typeof portions !== "object" || portions === null || !Object.keys(portions).length) {
+    check.errors.push("portionSizes.standardPortions needs at least one unit");
+  } else {
+    for (const [unit, grams] of Object.entries(portions)) {
+      if (!/^[a-z][a-z ]*$/.test(unit)) {
+        check.errors.push(`portionSizes.standardPortions has an invalid unit: ${unit}`);
+      }
+      standardPortions[unit] = check.range(grams,
+        `portionSizes.standardPortions.${unit}`, 1, MAX_PORTION_GRAMS);
+    }
+  }
+
+  const regionInput = (record.regions || {}) as Record<string, unknown>;
+  const primaryRegion = check.region(regionInput.primaryRegion, "regions.primaryRegion");
+  const availableRegions = check.strings(regionInput.availableRegions, "regions.availableRegions")
+    .map((region, i) => check.region(region, `regions.availableRegions[${i}]`));
+  const regionalNames: Record<string, string> = {};
+  const names = (regionInput.regionalNames || {}) as Record<string, unknown>;
+  for (const [language, name] of Object.entries(names)) {
+    regionalNames[language] = check.text(name, `regions.regionalNames.${language}`, 100);
+  }
+
+  const methodInput = (record.cookingMethods || {}) as Record<string, unknown>;
+  const alternatives = Array.isArray(methodInput.alternatives) ? methodInput.alternatives : [];
+
+  const food: ImportedFood = {
+    id,
+    name: check.text(record.name, "name", 100),
+    aliases: check.strings(record.aliases, "aliases"),
+    nutrition,
+    cookingMethods: {
+      defaultMethod: check.method(methodInput.defaultMethod, "cookingMethods.defaultMethod"),
+      alternatives: alternatives.map((method, i) =>
+        check.method(method, `cookingMethods.alternatives[${i}]`)),
+      nutritionAdjustments: (methodInput.nutritionAdjustments || {}) as Record<string, number>,
+    },
+    portionSizes: {
+      standardPortions,
+      visualReference: check.text(portionInput.visualReference,
+        "portionSizes.visualReference", 100),
+      gramsPerPortion: check.range(portionInput.gramsPerPortion,
+        "portionSizes.gramsPerPortion", 1, MAX_PORTION_GRAMS),
+    },
+    regions: {
+      primaryRegion,
+      // The primary region is always one where the food is available
+      availableRegions: [...new Set([primaryRegion, ...availableRegions])].filter(Boolean),
+      regionalNames,
+    },
+    category,
+    commonCombinations: check.strings(record.commonCombinations, "commonCombinations"),
+    searchTerms: [],
+    baseDish: check.text(record.baseDish, "baseDish", 50).toLowerCase(),
+  };
+  food.searchTerms = generateSearchTerms(food,
+    check.strings(record.searchTerms, "searchTerms"));
+
+  // Absent lists stay absent: an explicit empty dietaryTags would mark the
+  // food as meeting no dietary restriction at all
+  if (record.dietaryTags !== undefined) {
+    food.dietaryTags = check.strings(record.dietaryTags, "dietaryTags")
+      .map((tag) => tag.toLowerCase());
+  }
+  if (record.allergens !== undefined) {
+    food.allergens = check.strings(record.allergens, "allergens", KNOWN_ALLERGENS);
+  }
+  if (record.mealTypes !== undefined) {
+    food.mealTypes = check.strings(record.mealTypes, "mealTypes", [...MEAL_SLOTS]);
+  }
+  if (record.glycemicIndex !== undefined) {
+    food.glycemicIndex = check.range(record.glycemicIndex, "glycemicIndex", 0, 100);
+  }
+
+  // Warnings about a rejected record would only repeat its errors
+  return {
+    food: check.errors.length ? null : food,
+    errors: check.errors,
+    warnings: check.errors.length ? [] : check.warnings,
+  };
+}
+
+/**
+ * Search terms for a food: words from its name, aliases, base dish and
+ * category, plus any curated terms
+ * @param {ImportedFood} food - Food without search terms
+ * @param {string[]} extra - Curated terms to keep
+ * @return {string[]} De-duplicated, lowercased terms
+ */
+export function generateSearchTerms(food: ImportedFood, extra: string[] = []): string[] {
+  const texts = [food.name, ...food.aliases, food.baseDish, food.category];
+  const terms = new Set(extra.map((term) => term.toLowerCase()));
+  for (const text of texts) {
+    for (const token of tokenize(text || "")) {
+      if (token.length > 1 && !STOP_WORDS.has(token)) {
+        terms.add(token);
+      }
+    }
+  }
+  return [...terms];
+}
+
+/**
+ * Keep search terms added to a stored food by hand
+ * Stored terms go after the generated ones, so re-importing the same
+ * dataset produces the same list.
+ * @param {ImportedFood} food - Food from the dataset
+ * @param {Record<string, unknown> | undefined} stored - Stored document data
+ * @return {ImportedFood} Food with the merged search terms
+ */
+export function keepStoredSearchTerms(
+  food: ImportedFood,
+  stored: Record<string, unknown> | undefined
+): ImportedFood {
+  const storedTerms = Array.isArray(stored?.searchTerms) ? stored?.searchTerms as string[] : [];
+  return {...food, searchTerms: [...new Set([...food.searchTerms, ...storedTerms])]};
+}
+
+/**
+ * Parse and validate a whole dataset
+ * Records with the same id are all rejected, since there is no telling
+ * which one is right.
+ * @param {string} text - File contents
+ * @param {DatasetFormat} format - csv or json
+ * @return {ParsedDataset} Valid foods, rejections and warnings
+ */
+export function parseDataset(text: string, format: DatasetFormat): ParsedDataset {
+  const {records, warnings} = readRecords(text, format);
+  const rejected: RejectedRecord[] = [];
+  const valid: Array<{row: number; food: ImportedFood}> = [];
+  const rowsById = new Map<string, number[]>();
+
+  records.forEach((record, index) => {
+    const row = index + 1;
+    const result = validateFood(record);
+    const id = result.food?.id || (record as {id?: unknown})?.id;
+    const recordId = typeof id === "string" && id ? id : undefined;
+
+    result.warnings.forEach((warning) => warnings.push({row, id: recordId, warning}));
+    if (recordId) {
+      rowsById.set(recordId, [...(rowsById.get(recordId) || []), row]);
+    }
+    if (result.food) {
+      valid.push({row, food: result.food});
+    } else {
+      rejected.push({row, id: recordId, errors: result.errors});
+    }
+  });
+
+  const foods: ImportedFood[] = [];
+  for (const {row, food} of valid) {
+    const rows = rowsById.get(food.id) || [];
+    if (rows.length > 1) {
+      rejected.push({row, id: food.id, errors: [`id is duplicated in rows ${rows.join(", ")}`]});
+    } else {
+      foods.push(food);
+    }
+  }
+  rejected.sort((a, b) => a.row - b.row);
+
+  return {total: records.length, foods, rejected, warnings};
+}
+
+/**
+ * JSON with object keys sorted, for order-insensitive comparison
+ * @param {unknown} value - Value
+ * @return {string} Canonical JSON
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    const entries = Object.keys(record).sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(record[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+/**
+ * The imported fields of a food that differ from a stored document
+ * Fields the dataset leaves out are not compared.
+ * @param {ImportedFood} food - Food from the dataset
+ * @param {Record<string, unknown>} stored - Stored document data
+ * @return {ImportedField[]} Changed fields
+ */
+export function changedFields(
+  food: ImportedFood,
+  stored: Record<string, unknown>
+): ImportedField[] {
+  return IMPORTED_FIELDS.filter((field) =>
+    food[field] !== undefined && canonicalJson(food[field]) !== canonicalJson(stored[field]));
+}
+
+/**
+ * Compare dataset foods with stored documents
+ * @param {ImportedFood[]} foods - Valid foods from the dataset
+ * @param {Map<string, Record<string, unknown>>} stored - Stored documents by id
+ * @return {FoodDiff} What an import would add and change
+ */
+export function diffFoods(
+  foods: ImportedFood[],
+  stored: Map<string, Record<string, unknown>>
+): FoodDiff {
+  const diff: FoodDiff = {added: [], changed: [], unchanged: 0, notInDataset: []};
+  for (const food of foods) {
+    const existing = stored.get(food.id);
+    if (!existing) {
+      diff.added.push(food.id);
+      continue;
+    }
+    const fields = changedFields(food, existing);
+    if (fields.length) {
+      diff.changed.push({id: food.id, fields});
+    } else {
+      diff.unchanged++;
+    }
+  }
+  const ids = new Set(foods.map((food) => food.id));
+  diff.notInDataset = [...stored.keys()].filter((id) => !ids.has(id)).sort();
+  return diff;
+}
@@ -0,0 +1,164 @@
+/**
+ * Food dataset import for NutriSync
+ * Loads a composition table bundled with the functions (functions/data),
+ * validates it and upserts the valid foods into indianFoods. Only added or
+ * changed foods are written, so importing the same dataset again writes
+ * nothing. Every run, dry or not, leaves a report in foodImports.
+ * indianFoods.csv is a starter set of 73 common dishes, not a full
+ * composition table; larger tables go in functions/data under their own
+ * name and are imported with `source`.
+ */
+
+import * as crypto from "crypto";
+import {promises as fs} from "fs";
+import * as path from "path";
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import {HttpsError, onCall} from "firebase-functions/v2/https";
+import {callableError, requireAdmin} from "./callable";
+import {importFoodDatasetRequest, ImportFoodDatasetResponse} from "./contracts";
+import {
+  DatasetFormat,
+  diffFoods,
+  ImportedFood,
+  keepStoredSearchTerms,
+  ParsedDataset,
+  parseDataset,
+} from "./foodDataset";
+import {parseRequest} from "./validation";
+
+const db = admin.firestore();
+
+// Bundled datasets, relative to the compiled lib/ directory
+const DATA_DIR = path.join(__dirname, "..", "data");
+
+export const DEFAULT_FOOD_DATASET = "indianFoods.csv";
+
+// Writes per batch, under Firestore's 500 limit
+const WRITE_BATCH_SIZE = 400;
+
+/**
+ * Read a bundled dataset
+ * @param {string} source - File name under functions/data
+ * @return {Promise<string>} File contents
+ */
+async function readDataset(source: string): Promise<string> {
+  try {
+    return await fs.readFile(path.join(DATA_DIR, source), "utf8");
+  } catch (error) {
+    if ((error as {code?: string}).code === "ENOENT") {
+      throw new HttpsError("not-found", `Dataset not found: ${source}`, {source});
+    }
+    throw error;
+  }
+}
+
+/**
+ * Upsert added and changed foods in chunked batches
+ * Changed foods only have their changed fields replaced.
+ * @param {ImportedFood[]} foods - Valid foods, search terms merged
+ * @param {ImportFoodDatasetResponse} report - Diff of the foods against Firestore
+ */
+async function writeFoods(foods: ImportedFood[], report: ImportFoodDatasetResponse) {
+  const byId = new Map(foods.map((food) => [food.id, food]));
+  const writes = [
+    ...report.added.map((id) => ({id, fields: null})),
+    ...report.changed,
+  ];
+
+  for (let i = 0; i < writes.length; i += WRITE_BATCH_SIZE) {
+    const batch = db.batch();
+    for (const {id, fields} of writes.slice(i, i + WRITE_BATCH_SIZE)) {
+      const ref = db.collection("indianFoods").doc(id);
+      const data = {
+        ...byId.get(id),
+        importId: report.importId,
+        importedAt: admin.firestore.FieldValue.serverTimestamp(),
+      };
+      if (fields) {
+        batch.set(ref, data, {mergeFields: [...fields, "importId", "importedAt"]});
+      } else {
+        batch.set(ref, {
+          ...data,
+          regionalVariations: [],
+          createdAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+      }
+    }
+    await batch.commit();
+  }
+}
+
+/**
+ * Import a bundled food dataset into indianFoods
+ * @param {string} source - File name under functions/data
+ * @param {boolean} dryRun - Report the diff without writing foods
+ * @param {string} requestedBy - Admin uid, recorded on the report
+ * @return {Promise<ImportFoodDatasetResponse>} Import report
+ */
+export async function runFoodImport(
+  source: string,
+  dryRun: boolean,
+  requestedBy: string
+): Promise<ImportFoodDatasetResponse> {
+  const text = await readDataset(source);
+  let parsed: ParsedDataset;
+  try {
+    parsed = parseDataset(text, path.extname(source).slice(1) as DatasetFormat);
+  } catch (error) {
+    throw new HttpsError("failed-precondition",
+      `Dataset ${source} could not be read: ${(error as Error).message}`, {source});
+  }
+
+  const snapshot = await db.collection("indianFoods").get();
+  const stored = new Map(snapshot.docs.map((doc) => [doc.id, doc.data()]));
+  const foods = parsed.foods.map((food) => keepStoredSearchTerms(food, stored.get(food.id)));
+
+  const reportRef = db.collection("foodImports").doc();
+  const report: ImportFoodDatasetResponse = {
+    importId: reportRef.id,
+    source,
+    datasetHash: crypto.createHash("sha256").update(text).digest("hex"),
+    dryRun,
+    total: parsed.total,
+    valid: foods.length,
+    ...diffFoods(foods, stored),
+    rejected: parsed.rejected,
+    warnings: parsed.warnings,
+  };
+
+  if (!dryRun) {
+    await writeFoods(foods, report);
+  }
+  await reportRef.set({
+    ...report,
+    requestedBy,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  logger.info(`Food dataset ${dryRun ? "checked" : "imported"}: ${source}`, {
+    importId: report.importId,
+    total: report.total,
+    added: report.added.length,
+    changed: report.changed.length,
+    unchanged: report.unchanged,
+    rejected: report.rejected.length,
+  });
+  return report;
+}
+
+/**
+ * Import a bundled food dataset (admin only)
+ * Pass dryRun: true to see what would be added, changed and rejected
+ */
+export const importFoodDataset = onCall({timeoutSeconds: 300}, async (request):
+  Promise<ImportFoodDatasetResponse> => {
+  const adminId = requireAdmin(request);
+  const {source, dryRun} = parseRequest(importFoodDatasetRequest, request.data);
+
+  try {
+    return await runFoodImport(source || DEFAULT_FOOD_DATASET, dryRun === true, adminId);
+  } catch (error) {
+    throw callableError(error, "Failed to import food dataset", "Error importing food dataset");
+  }
+});
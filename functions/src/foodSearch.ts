@@ -0,0 +1,236 @@
+/**
+ * Food search ranking for NutriSync
+ * Builds compact search entries from indianFoods documents and ranks them
+ * against free-text queries with phonetic, prefix and typo-tolerant matching.
+ */
+
+import {editDistance, normalizeText, phoneticKey, tokenize} from "./text";
+import {IndianFood} from "./types";
+
+export interface SearchPhrase {
+  text: string;
+  tokens: string[];
+  keys: string[];
+  weight: number;
+}
+
+/**
+ * One document in the foodSearchIndex collection
+ */
+export interface FoodSearchEntry {
+  foodId: string;
+  name: string;
+  category: string;
+  primaryRegion: string;
+  regions: string[];
+  phrases: SearchPhrase[];
+  // Set on the caller's own recipes, which are searched but never indexed
+  recipeId?: string;
+}
+
+export interface FoodSearchOptions {
+  category?: string;
+  region?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface FoodSearchResult {
+  foodId: string;
+  name: string;
+  category: string;
+  primaryRegion: string;
+  score: number;
+  matchedOn: string;
+  // Log with recipeId instead of foodId
+  recipeId?: string;
+}
+
+export interface FoodSearchPage {
+  results: FoodSearchResult[];
+  total: number;
+  nextOffset: number | null;
+}
+
+export const DEFAULT_SEARCH_LIMIT = 10;
+export const MAX_SEARCH_LIMIT = 50;
+
+// Matches scoring below this are noise ("rice" vs "rasam")
+const MIN_SCORE = 0.45;
+
+const PHRASE_WEIGHTS = {
+  name: 1.0,
+  alias: 0.9,
+  regionalName: 0.9,
+  searchTerm: 0.7,
+};
+
+/**
+ * Build the search entry stored for a food
+ * @param {IndianFood} food - Food document
+ * @return {FoodSearchEntry} Search entry
+ */
+export function buildSearchEntry(food: IndianFood): FoodSearchEntry {
+  const phrases: SearchPhrase[] = [];
+  const seen = new Set<string>();
+
+  const add = (text: string, weight: number) => {
+    const tokens = tokenize(text || "");
+    const normalized = tokens.join(" ");
+    if (!normalized || seen.has(normalized)) return;
+    seen.add(normalized);
+    phrases.push({text: normalized, tokens, keys: tokens.map(phoneticKey), weight});
+  };
+
+  add(food.name, PHRASE_WEIGHTS.name);
+  (food.aliases || []).forEach((alias) => add(alias, PHRASE_WEIGHTS.alias));
+  Object.values(food.regions?.regionalNames || {})
+    .forEach((name) => add(name, PHRASE_WEIGHTS.regionalName));
+  (food.searchTerms || []).forEach((term) => add(term, PHRASE_WEIGHTS.searchTerm));
+
+  const regions = [
+    food.regions?.primaryRegion,
+    ...(food.regions?.availableRegions || []),
+  ].filter((region): region is string => !!region);
+
+  return {
+    foodId: food.id,
+    name: food.name,
+    category: (food.category || "").toLowerCase(),
+    primaryRegion: food.regions?.primaryRegion || "",
+    regions: [...new Set(regions.map((region) => normalizeText(region)))],
+    phrases,
+  };
+}
+
+/**
+ * Score how well one query token matches one phrase token
+ * @param {string} queryToken - Normalized query token
+ * @param {string} queryKey - Phonetic key of the query token
+ * @param {string} token - Normalized phrase token
+ * @param {string} key - Phonetic key of the phrase token
+ * @param {boolean} allowPrefix - Whether a prefix match counts (last query token)
+ * @return {number} Score between 0 and 1
+ */
+function scoreToken(
+  queryToken: string,
+  queryKey: string,
+  token: string,
+  key: string,
+  allowPrefix: boolean
+): number {
+  if (queryToken === token) return 1;
+  if (queryKey === key) return 0.9;
+  if (allowPrefix && queryToken.length >= 2 && token.startsWith(queryToken)) {
+    return 0.8;
+  }
+  if (queryKey.length >= 4) {
+    const maxDistance = queryKey.length >= 8 ? 2 : 1;
+    if (Math.abs(queryKey.length - key.length) <= maxDistance &&
+        editDistance(queryKey, key) <= maxDistance) {
+      return 0.65;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Score a query against one phrase
+ * @param {string[]} queryTokens - Normalized query tokens
+ * @param {string[]} queryKeys - Phonetic keys of the query tokens
+ * @param {SearchPhrase} phrase - Indexed phrase
+ * @return {number} Score between 0 and about 1.1
+ */
+function scorePhrase(
+  queryTokens: string[],
+  queryKeys: string[],
+  phrase: SearchPhrase
+): number {
+  let total = 0;
+  let matched = 0;
+
+  queryTokens.forEach((queryToken, i) => {
+    const allowPrefix = i === queryTokens.length - 1;
+    let best = 0;
+    phrase.tokens.forEach((token, j) => {
+      best = Math.max(best,
+        scoreToken(queryToken, queryKeys[i], token, phrase.keys[j], allowPrefix));
+    });
+    total += best;
+    if (best > 0) matched++;
+  });
+
+  if (matched === 0) return 0;
+
+  // Every query word should appear; extra phrase words cost a little
+  const coverage = total / queryTokens.length;
+  const precision = matched / Math.max(phrase.tokens.length, queryTokens.length);
+  const exactBonus = phrase.text === queryTokens.join(" ") ? 0.1 : 0;
+  return (coverage * 0.8 + precision * 0.2) * phrase.weight + exactBonus;
+}
+
+/**
+ * Rank search entries against a query
+ * @param {FoodSearchEntry[]} entries - Indexed foods
+ * @param {string} query - Free-text query (Hinglish, English or Devanagari)
+ * @param {FoodSearchOptions} options - Filters and pagination
+ * @return {FoodSearchPage} One page of ranked results
+ */
+export function searchFoodEntries(
+  entries: FoodSearchEntry[],
+  query: string,
+  options: FoodSearchOptions = {}
+): FoodSearchPage {
+  const limit = Math.min(Math.max(options.limit ?? DEFAULT_SEARCH_LIMIT, 1),
+    MAX_SEARCH_LIMIT);
+  const offset = Math.max(options.offset ?? 0, 0);
+  const category = options.category?.toLowerCase();
+  const region = options.region ? normalizeText(options.region) : undefined;
+
+  const queryTokens = tokenize(query);
+  const queryKeys = queryTokens.map(phoneticKey);
+
+  const ranked: FoodSearchResult[] = [];
+  for (const entry of entries) {
+    if (category && entry.category !== category) continue;
+    if (region && !entry.regions.includes(region)) continue;
+
+    let best = 0;
+    let matchedOn = "";
+    if (queryTokens.length === 0) {
+      // Browsing a category or region without a query
+      best = 1;
+      matchedOn = entry.name;
+    } else {
+      for (const phrase of entry.phrases) {
+        const score = scorePhrase(queryTokens, queryKeys, phrase);
+        if (score > best) {
+          best = score;
+          matchedOn = phrase.text;
+        }
+      }
+    }
+
+    if (best >= MIN_SCORE) {
+      ranked.push({
+        foodId: entry.foodId,
+        name: entry.name,
+        category: entry.category,
+        primaryRegion: entry.primaryRegion,
+        score: Math.round(best * 1000) / 1000,
+        matchedOn,
+        ...(entry.recipeId ? {recipeId: entry.recipeId} : {}),
+      });
+    }
+  }
+
+  ranked.sort((a, b) =>
+    b.score - a.score || a.name.localeCompare(b.name) || a.foodId.localeCompare(b.foodId));
+
+  const results = ranked.slice(offset, offset + limit);
+  return {
+    results,
+    total: ranked.length,
+    nextOffset: offset + limit < ranked.length ? offset + limit : null,
+  };
+}
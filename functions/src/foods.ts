@@ -0,0 +1,161 @@
+/**
+ * Food search functions for NutriSync
+ * Keeps the foodSearchIndex collection in sync with indianFoods and serves
+ * ranked, filterable search over it.
+ */
+
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import {HttpsError, onCall} from "firebase-functions/v2/https";
+import {onDocumentWritten} from "firebase-functions/v2/firestore";
+import {callableError, requireAdmin, requireUser} from "./callable";
+import {RebuildIndexResponse, searchFoodsRequest} from "./contracts";
+import {loadSearchIndex, SEARCH_INDEX_META_DOC} from "./foodCatalog";
+import {buildSearchEntry, FoodSearchPage, searchFoodEntries} from "./foodSearch";
+import {loadUserRecipes} from "./recipes";
+import {IndianFood} from "./types";
+import {parseRequest} from "./validation";
+
+const db = admin.firestore();
+
+/**
+ * Keep the search index entry for a food up to date
+ * Triggered on create, update and delete of indianFoods documents
+ */
+export const onIndianFoodWritten = onDocumentWritten(
+  "indianFoods/{foodId}",
+  async (event) => {
+    const foodId = event.params.foodId;
+    const after = event.data?.after;
+    const entryRef = db.collection("foodSearchIndex").doc(foodId);
+
+    try {
+      if (after?.exists) {
+        const food = {...after.data(), id: foodId} as IndianFood;
+        await entryRef.set(buildSearchEntry(food));
+      } else {
+        await entryRef.delete();
+      }
+      logger.info(`Search index updated for food: ${foodId}`, {
+        deleted: !after?.exists,
+      });
+    } catch (error) {
+      logger.error(`Error updating search index for food: ${foodId}`, error);
+      return;
+    }
+
+    // Written apart from the entry: during an import every trigger bumps this
+    // one document, and losing a bump to contention must not lose the entry.
+    // Cached indexes also reload on their own after a while.
+    try {
+      await db.doc(SEARCH_INDEX_META_DOC).set({
+        version: admin.firestore.FieldValue.increment(1),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      }, {merge: true});
+    } catch (error) {
+      logger.warn(`Search index version not bumped for food: ${foodId}`, error);
+    }
+  }
+);
+
+/**
+ * Search Indian foods by name, alias, search term or regional name
+ * Tolerates typos and transliteration variants; supports category and
+ * region filters and offset pagination. The caller's own recipes are
+ * searched too and come back with a recipeId.
+ */
+export const searchFoods = onCall(async (request): Promise<FoodSearchPage> => {
+  const userId = requireUser(request);
+  const {query, category, region, limit, offset} =
+    parseRequest(searchFoodsRequest, request.data);
+  if (!query && !category && !region) {
+    throw new HttpsError("invalid-argument", "A query, category or region is required");
+  }
+
+  try {
+    const [entries, recipes] = await Promise.all([
+      loadSearchIndex(),
+      loadUserRecipes(userId),
+    ]);
+    const recipeEntries = recipes.map((recipe) =>
+      ({...buildSearchEntry(recipe), recipeId: recipe.id}));
+    const page = searchFoodEntries([...entries, ...recipeEntries], query || "", {
+      category,
+      region,
+      limit: limit,
+      offset: offset || 0,
+    });
+
+    logger.info(`Food search for user: ${userId}`, {
+      query,
+      category,
+      region,
+      total: page.total,
+    });
+
+    return page;
+  } catch (error) {
+    throw callableError(error, "Failed to search foods",
+      `Error searching foods for user: ${userId}`);
+  }
+});
+
+/**
+ * Rewrite every search index entry from indianFoods and drop orphans
+ * @param {boolean} dryRun - Count instead of writing
+ * @return {Promise<object>} Foods indexed and stale entries removed
+ */
+export async function rebuildSearchIndex(
+  dryRun = false
+): Promise<{indexed: number; removed: number}> {
+  const [foodsSnapshot, indexSnapshot] = await Promise.all([
+    db.collection("indianFoods").get(),
+    db.collection("foodSearchIndex").get(),
+  ]);
+  const foodIds = new Set(foodsSnapshot.docs.map((doc) => doc.id));
+  // Entries whose food no longer exists
+  const stale = indexSnapshot.docs.filter((doc) => !foodIds.has(doc.id));
+  if (dryRun) {
+    return {indexed: foodIds.size, removed: stale.length};
+  }
+
+  const writer = db.bulkWriter();
+  for (const doc of foodsSnapshot.docs) {
+    const food = {...doc.data(), id: doc.id} as IndianFood;
+    writer.set(db.collection("foodSearchIndex").doc(doc.id), buildSearchEntry(food));
+  }
+  stale.forEach((doc) => writer.delete(doc.ref));
+
+  writer.set(db.doc(SEARCH_INDEX_META_DOC), {
+    version: admin.firestore.FieldValue.increment(1),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  }, {merge: true});
+  await writer.close();
+
+  return {indexed: foodIds.size, removed: stale.length};
+}
+
+/**
+ * Rebuild the whole search index from indianFoods
+ * Needed once for foods written before the index trigger existed
+ */
+export const rebuildFoodSearchIndex = onCall(async (request): Promise<RebuildIndexResponse> => {
+  // Only allow admin users to rebuild the index
+  requireAdmin(request);
+
+  logger.info("Rebuilding food search index");
+
+  try {
+    const {indexed, removed} = await rebuildSearchIndex();
+    logger.info(`Rebuilt food search index with ${indexed} foods`, {removed});
+
+    return {
+      success: true,
+      indexed: indexed,
+      removed: removed,
+    };
+  } catch (error) {
+    throw callableError(error, "Failed to rebuild food search index",
+      "Error rebuilding food search index");
+  }
+});
@@ -0,0 +1,224 @@
+/**
+ * Glycemic index and load for NutriSync
+ * A meal's glycemic index is the carbohydrate-weighted mean of its items;
+ * its glycemic load is GI × available carbohydrate / 100. Eating a starch
+ * with the dal or sabzi it is usually paired with blunts its rise, so
+ * known combinations lower the starch's GI a little. Also finds a
+ * lower-GL swap for the item that contributes most to a meal's load.
+ */
+
+import {round2} from "./nutrition";
+import {tokenize} from "./text";
+import {IndianFood, MealItem} from "./types";
+
+// Standard bands: per meal (or serving) and per day
+const MEAL_BANDS = {low: 10, high: 20};
+const DAY_BANDS = {low: 80, high: 120};
+
+// Typical GI of each food category, for foods without a curated value
+const CATEGORY_GI: Record<string, number> = {
+  dal: 35,
+  sabzi: 40,
+  curry: 40,
+  main: 55,
+  side: 45,
+  roti: 65,
+  bread: 70,
+  rice: 65,
+  breakfast: 65,
+  snack: 55,
+  sweet: 70,
+  beverage: 45,
+  fruit: 45,
+};
+const DEFAULT_GI = 55;
+
+// High-GI items eaten with a low-GI partner they are known to go with
+const HIGH_GI = 55;
+const COMBINATION_FACTOR = 0.9;
+
+// A swap has to cut the item's load by at least this share to be worth it
+const MIN_SWAP_SAVING = 0.2;
+
+export type GlycemicLevel = "low" | "medium" | "high";
+
+export interface MealGlycemic {
+  // null when the meal has no available carbohydrate
+  glycemicIndex: number | null;
+  glycemicLoad: number;
+  // Carbohydrate net of fiber, in grams
+  availableCarbs: number;
+  // Items with their GI (after combinations) and load
+  items: MealItem[];
+}
+
+export interface GlycemicSwap {
+  replace: {foodId: string; name: string; glycemicLoad: number};
+  with: {foodId: string; name: string; glycemicLoad: number};
+  // Meal load with the swap made, same grams
+  mealGlycemicLoad: number;
+}
+
+/**
+ * GI of a food, curated or estimated from its category
+ * @param {IndianFood} food - Food or recipe
+ * @return {number} Glycemic index (glucose = 100)
+ */
+export function foodGlycemicIndex(food: Pick<IndianFood, "glycemicIndex" | "category">): number {
+  return food.glycemicIndex ?? CATEGORY_GI[food.category] ?? DEFAULT_GI;
+}
+
+/**
+ * Band a glycemic load falls in
+ * @param {number} load - Glycemic load
+ * @param {string} scale - "meal" for one meal, "day" for a daily total
+ * @return {GlycemicLevel} low, medium or high
+ */
+export function glycemicLevel(load: number, scale: "meal" | "day"): GlycemicLevel {
+  const bands = scale === "meal" ? MEAL_BANDS : DAY_BANDS;
+  if (load <= bands.low) return "low";
+  return load < bands.high ? "medium" : "high";
+}
+
+/**
+ * Carbohydrate that raises blood sugar, in grams
+ * @param {MealItem} item - Logged item
+ * @return {number} Carbs less fiber
+ */
+function availableCarbs(item: Pick<MealItem, "nutrition">): number {
+  return Math.max((item.nutrition.carbs || 0) - (item.nutrition.fiber || 0), 0);
+}
+
+/**
+ * Whether a food is one of the combinations another food lists
+ * commonCombinations holds names ("rice", "jeera rice"), so they are
+ * matched against the food's id, name, aliases and base dish.
+ * @param {IndianFood} food - Food that may list the partner
+ * @param {IndianFood} partner - Possible partner
+ * @return {boolean} True when food lists partner
+ */
+function listsCombination(food: IndianFood, partner: IndianFood): boolean {
+  const key = (text: string) => tokenize(text.replace(/_/g, " ")).join(" ");
+  const names = new Set([partner.id, partner.name, partner.baseDish, ...(partner.aliases || [])]
+    .filter(Boolean).map(key));
+  return (food.commonCombinations || []).some((combination) => names.has(key(combination)));
+}
+
+/**
+ * Glycemic index and load of a meal
+ * @param {Array<object>} entries - Each logged item with its food
+ * @return {MealGlycemic} Meal GI and GL, and the items with theirs
+ */
+export function mealGlycemicLoad(
+  entries: Array<{item: MealItem; food: IndianFood}>
+): MealGlycemic {
+  let load = 0;
+  let carbs = 0;
+  const items = entries.map(({item, food}) => {
+    let glycemicIndex = foodGlycemicIndex(food);
+    const paired = glycemicIndex >= HIGH_GI && entries.some((other) =>
+      other.food.id !== food.id && foodGlycemicIndex(other.food) < HIGH_GI &&
+      (listsCombination(food, other.food) || listsCombination(other.food, food)));
+    if (paired) {
+      glycemicIndex = Math.round(glycemicIndex * COMBINATION_FACTOR);
+    }
+    const itemCarbs = availableCarbs(item);
+    const glycemicLoad = round2(glycemicIndex * itemCarbs / 100);
+    load += glycemicLoad;
+    carbs += itemCarbs;
+    return {...item, glycemicIndex, glycemicLoad};
+  });
+  return {
+    glycemicIndex: carbs > 0 ? Math.round(load / carbs * 100) : null,
+    glycemicLoad: round2(load),
+    availableCarbs: round2(carbs),
+    items,
+  };
+}
+
+/**
+ * A lower-GL food to eat in place of the meal's biggest contributor
+ * Candidates come from the same category (rice for rice, roti for roti)
+ * and are compared at the same weight; dietary filtering is up to the
+ * caller.
+ * @param {MealItem[]} items - Items with glycemicLoad set
+ * @param {IndianFood[]} candidates - Foods the user can eat
+ * @param {Map<string, IndianFood>} foods - Foods of the logged items by id
+ * @return {GlycemicSwap | null} Best swap, or null when nothing helps enough
+ */
+export function lowerGlycemicSwap(
+  items: MealItem[],
+  candidates: IndianFood[],
+  foods: Map<string, IndianFood>
+): GlycemicSwap | null {
+  const ranked = [...items].sort((a, b) => (b.glycemicLoad || 0) - (a.glycemicLoad || 0));
+  const mealLoad = items.reduce((sum, item) => sum + (item.glycemicLoad || 0), 0);
+
+  for (const item of ranked) {
+    const food = foods.get(item.foodId);
+    const itemLoad = item.glycemicLoad || 0;
+    if (!food || !itemLoad) continue;
+    const best = candidates
+      .filter((candidate) => candidate.id !== food.id && candidate.category === food.category)
+      .map((candidate) => {
+        const per100g = Math.max((candidate.nutrition?.carbs || 0) -
+          (candidate.nutrition?.fiber || 0), 0);
+        return {
+          candidate,
+          glycemicLoad: round2(foodGlycemicIndex(candidate) * per100g * item.grams / 10000),
+        };
+      })
+      .filter((option) => option.glycemicLoad <= itemLoad * (1 - MIN_SWAP_SAVING))
+      .sort((a, b) => a.glycemicLoad - b.glycemicLoad ||
+        a.candidate.id.localeCompare(b.candidate.id))[0];
+    if (best) {
+      return {
+        replace: {foodId: food.id, name: item.name, glycemicLoad: itemLoad},
+        with: {
+          foodId: best.candidate.id,
+          name: best.candidate.name,
+          glycemicLoad: best.glycemicLoad,
+        },
+        mealGlycemicLoad: round2(mealLoad - itemLoad + best.glycemicLoad),
+      };
+    }
+  }
+  return null;
+}
+
+export interface GlycemicDayCheck {
+  glycemicLoad: number;
+  level: GlycemicLevel;
+  // null when the user has no glycemic load limit
+  limit: number | null;
+  overLimit: boolean;
+  // Meal slots over the per-meal glycemic load or carb limit
+  mealsOverLimit: string[];
+}
+
+/**
+ * A day's glycemic load and per-meal carbs against the user's limits
+ * @param {Record<string, unknown>} summary - dailySummaries document data
+ * @param {Record<string, number>} limits - NutritionTargets limits
+ * @return {GlycemicDayCheck} Day total, band and meals over a limit
+ */
+export function checkGlycemicDay(
+  summary: Record<string, unknown>,
+  limits: Record<string, number> = {}
+): GlycemicDayCheck {
+  const glycemicLoad = round2(Number(summary.totalGlycemicLoad) || 0);
+  const loads = (summary.glycemicLoadByMeal || {}) as Record<string, number>;
+  const carbs = (summary.carbsByMeal || {}) as Record<string, number>;
+  const mealsOverLimit = [...new Set([...Object.keys(loads), ...Object.keys(carbs)])]
+    .filter((slot) =>
+      (!!limits.mealGlycemicLoad && (loads[slot] || 0) > limits.mealGlycemicLoad) ||
+      (!!limits.carbsPerMeal && (carbs[slot] || 0) > limits.carbsPerMeal))
+    .sort();
+  return {
+    glycemicLoad,
+    level: glycemicLevel(glycemicLoad, "day"),
+    limit: limits.glycemicLoad ?? null,
+    overLimit: !!limits.glycemicLoad && glycemicLoad > limits.glycemicLoad,
+    mealsOverLimit,
+  };
+}
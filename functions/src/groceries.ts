@@ -0,0 +1,66 @@
+/**
+ * Grocery list functions for NutriSync
+ * Keeps users/{userId}/groceries/current in step with the active meal plan
+ */
+
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import {onDocumentWritten} from "firebase-functions/v2/firestore";
+import {loadFoodCatalog} from "./foodCatalog";
+import {deriveGroceryItems, GroceryItem, mergeGroceryLists} from "./groceryList";
+
+const db = admin.firestore();
+
+/**
+ * Rebuild the grocery list whenever the current meal plan's meals change
+ * Triggered on create as well, since the first generated plan creates
+ * mealPlans/current. Checked and hand-added items survive the rebuild; a
+ * deleted plan leaves the list as it was.
+ */
+export const onMealPlanWritten = onDocumentWritten(
+  "users/{userId}/mealPlans/current",
+  async (event) => {
+    const userId = event.params.userId;
+    const beforeData = event.data?.before.data();
+    const afterData = event.data?.after.data();
+
+    // Status or metadata changes don't affect what needs to be bought; a
+    // newly created plan is compared against no meals at all
+    const beforeDays = beforeData?.days || {};
+    if (!afterData || JSON.stringify(beforeDays) === JSON.stringify(afterData.days || {})) {
+      return;
+    }
+
+    try {
+      const userRef = db.collection("users").doc(userId);
+      const groceryRef = userRef.collection("groceries").doc("current");
+      const [userDoc, groceryDoc, foods] = await Promise.all([
+        userRef.get(),
+        groceryRef.get(),
+        loadFoodCatalog(),
+      ]);
+
+      const generated = deriveGroceryItems(
+        afterData.days || {},
+        new Map(foods.map((food) => [food.id, food])),
+        userDoc.data()?.householdSize || 1,
+      );
+      const existing = (groceryDoc.data()?.items || []) as GroceryItem[];
+      const items = mergeGroceryLists(generated, existing);
+
+      await groceryRef.set({
+        items: items,
+        categories: [...new Set(items.map((item) => item.category))],
+        status: "active",
+        mealPlanGeneratedAt: afterData.generatedAt || null,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      }, {merge: true});
+
+      logger.info(`Grocery list rebuilt for user: ${userId}`, {
+        itemCount: items.length,
+      });
+    } catch (error) {
+      logger.error(`Error rebuilding grocery list for user: ${userId}`, error);
+    }
+  }
+);
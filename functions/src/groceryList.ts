@@ -0,0 +1,252 @@
+/**
+ * Grocery list derivation for NutriSync
+ * Expands a weekly meal plan into ingredients, scales them by portions and
+ * household size, merges duplicates and groups them by store section.
+ */
+
+import {PLAN_DAYS, PlanDay, PlannedMeal} from "./mealPlanner";
+import {normalizeText, tokenize} from "./text";
+import {IndianFood} from "./types";
+
+export interface GroceryItem {
+  name: string;
+  // null when the food only lists ingredient names (commonIngredients)
+  quantity: number | null;
+  unit: string | null;
+  category: string;
+  checked: boolean;
+  source: "plan" | "manual";
+  // Dishes in the plan that need this ingredient
+  usedIn: string[];
+}
+
+// Store sections in the order they are shown; keywords are singular
+export const STORE_CATEGORIES = [
+  "vegetables", "fruits", "dairy", "grains", "pulses", "meat & fish",
+  "spices", "oils & ghee", "bakery", "beverages", "other",
+] as const;
+
+const CATEGORY_KEYWORDS: Record<string, string[]> = {
+  "vegetables": [
+    "onion", "tomato", "potato", "aloo", "gobi", "cauliflower", "cabbage",
+    "spinach", "palak", "methi", "carrot", "pea", "matar", "capsicum", "brinjal",
+    "baingan", "okra", "bhindi", "garlic", "ginger", "chilli", "coriander",
+    "curry leave", "lauki", "gourd", "bean", "mushroom", "cucumber", "beetroot",
+  ],
+  "fruits": ["banana", "apple", "mango", "lemon", "lime", "orange", "papaya", "coconut"],
+  "dairy": [
+    "milk", "paneer", "curd", "dahi", "yogurt", "butter", "cream", "cheese",
+    "khoya", "buttermilk",
+  ],
+  "grains": [
+    "rice", "atta", "wheat", "flour", "maida", "suji", "semolina", "rava", "poha",
+    "oats", "millet", "bajra", "jowar", "ragi", "besan",
+  ],
+  "pulses": [
+    "dal", "lentil", "toor", "arhar", "moong", "masoor", "urad", "chana",
+    "rajma", "chickpea", "lobia",
+  ],
+  "meat & fish": ["chicken", "mutton", "fish", "prawn", "egg", "keema"],
+  "spices": [
+    "cumin", "jeera", "turmeric", "haldi", "salt", "masala", "mustard seed",
+    "hing", "asafoetida", "cardamom", "clove", "cinnamon", "pepper", "spice",
+  ],
+  "oils & ghee": ["oil", "ghee"],
+  "bakery": ["bread", "pav", "bun"],
+  "beverages": ["tea", "coffee", "chai patti"],
+};
+
+// Convert to one base unit per dimension so quantities can be added
+const UNIT_CONVERSIONS: Record<string, [string, number]> = {
+  g: ["g", 1], gram: ["g", 1], grams: ["g", 1], kg: ["g", 1000],
+  ml: ["ml", 1], l: ["ml", 1000], litre: ["ml", 1000], liter: ["ml", 1000],
+  piece: ["piece", 1], pieces: ["piece", 1], pc: ["piece", 1],
+  tsp: ["tsp", 1], tbsp: ["tsp", 3],
+};
+
+/**
+ * Pick a store section for an ingredient name
+ * @param {string} name - Ingredient name
+ * @return {string} Store category
+ */
+export function storeCategory(name: string): string {
+  const tokens = tokenize(name).map(ingredientKey);
+  const text = tokens.join(" ");
+  for (const category of STORE_CATEGORIES) {
+    const keywords = CATEGORY_KEYWORDS[category] || [];
+    if (keywords.some((keyword) =>
+      keyword.includes(" ") ? text.includes(keyword) : tokens.includes(keyword))) {
+      return category;
+    }
+  }
+  return "other";
+}
+
+/**
+ * Normalize an ingredient name for merging ("Onions" and "onion")
+ * @param {string} name - Ingredient name
+ * @return {string} Merge key
+ */
+function ingredientKey(name: string): string {
+  return normalizeText(name)
+    .replace(/(o|ch|sh|x)es$/, "$1")
+    .replace(/([^s])s$/, "$1");
+}
+
+/**
+ * Round a quantity up to a sensible shopping amount
+ * @param {number} quantity - Quantity in base units
+ * @param {string} unit - Base unit
+ * @return {number} Rounded quantity
+ */
+function shoppingAmount(quantity: number, unit: string): number {
+  if (unit === "g" || unit === "ml") {
+    return Math.ceil(quantity / 10) * 10;
+  }
+  return Math.ceil(quantity * 2) / 2;
+}
+
+/**
+ * Expand a meal plan into a merged, scaled ingredient list
+ * @param {Record<PlanDay, PlannedMeal[]>} days - Meal plan days
+ * @param {Map<string, IndianFood>} foodsById - Food catalog by id
+ * @param {number} householdSize - People the groceries are for
+ * @return {GroceryItem[]} Generated items (source "plan", unchecked)
+ */
+export function deriveGroceryItems(
+  days: Partial<Record<PlanDay, PlannedMeal[]>>,
+  foodsById: Map<string, IndianFood>,
+  householdSize = 1
+): GroceryItem[] {
+  const merged = new Map<string, GroceryItem>();
+  const people = Math.max(Math.round(householdSize), 1);
+
+  const add = (
+    name: string,
+    quantity: number | null,
+    unit: string | null,
+    category: string | undefined,
+    dish: string
+  ) => {
+    let baseUnit = unit;
+    let baseQuantity = quantity;
+    if (unit && quantity !== null) {
+      const conversion = UNIT_CONVERSIONS[unit.toLowerCase()];
+      if (conversion) {
+        baseUnit = conversion[0];
+        baseQuantity = quantity * conversion[1];
+      }
+    }
+
+    const key = `${ingredientKey(name)}|${baseUnit ?? ""}`;
+    const existing = merged.get(key);
+    if (existing) {
+      if (existing.quantity !== null && baseQuantity !== null) {
+        existing.quantity += baseQuantity;
+      }
+      if (!existing.usedIn.includes(dish)) existing.usedIn.push(dish);
+      return;
+    }
+    merged.set(key, {
+      name: normalizeText(name),
+      quantity: baseQuantity,
+      unit: baseUnit,
+      category: category || storeCategory(name),
+      checked: false,
+      source: "plan",
+      usedIn: [dish],
+    });
+  };
+
+  for (const day of PLAN_DAYS) {
+    for (const meal of days[day] || []) {
+      for (const item of meal.items || []) {
+        const food = foodsById.get(item.foodId);
+        if (!food) continue;
+
+        const gramsPerPortion = food.portionSizes?.gramsPerPortion || 100;
+        const portions = (item.grams || gramsPerPortion) / gramsPerPortion * people;
+
+        if (food.ingredients?.length) {
+          for (const ingredient of food.ingredients) {
+            add(ingredient.name, ingredient.quantity * portions, ingredient.unit,
+              ingredient.storeCategory, food.name);
+          }
+        } else {
+          // Names only: list them so nothing is forgotten, without amounts
+          for (const name of food.cookingMethods?.defaultMethod?.commonIngredients || []) {
+            add(name, null, null, undefined, food.name);
+          }
+        }
+      }
+    }
+  }
+
+  // A names-only entry adds nothing next to a measured one ("onion" vs "2 onions")
+  const measured = new Map<string, GroceryItem>();
+  for (const item of merged.values()) {
+    if (item.quantity !== null) measured.set(ingredientKey(item.name), item);
+  }
+  const items: GroceryItem[] = [];
+  for (const item of merged.values()) {
+    const match = item.quantity === null ? measured.get(ingredientKey(item.name)) : undefined;
+    if (match) {
+      item.usedIn.forEach((dish) => {
+        if (!match.usedIn.includes(dish)) match.usedIn.push(dish);
+      });
+      continue;
+    }
+    if (item.quantity !== null && item.unit) {
+      item.quantity = shoppingAmount(item.quantity, item.unit);
+    }
+    items.push(item);
+  }
+  return sortGroceryItems(items);
+}
+
+/**
+ * Combine regenerated plan items with the current list
+ * Hand-added items are kept; plan items the user already ticked
+ * stay ticked if the new plan still needs them.
+ * @param {GroceryItem[]} generated - Items derived from the new plan
+ * @param {GroceryItem[]} existing - Items currently on the list
+ * @return {GroceryItem[]} Merged list
+ */
+export function mergeGroceryLists(
+  generated: GroceryItem[],
+  existing: GroceryItem[]
+): GroceryItem[] {
+  const checked = new Set(existing
+    .filter((item) => item.source === "plan" && item.checked)
+    .map((item) => `${ingredientKey(item.name)}|${item.unit ?? ""}`));
+
+  const items = generated.map((item) => ({
+    ...item,
+    checked: checked.has(`${ingredientKey(item.name)}|${item.unit ?? ""}`),
+  }));
+
+  // Items written by the app without a source are hand-added too
+  const manual = existing
+    .filter((item) => item.source !== "plan")
+    .map((item) => ({
+      ...item,
+      source: "manual" as const,
+      category: item.category || storeCategory(item.name),
+    }));
+
+  return sortGroceryItems([...items, ...manual]);
+}
+
+/**
+ * Order items by store section, then name
+ * @param {GroceryItem[]} items - Grocery items
+ * @return {GroceryItem[]} Sorted items
+ */
+function sortGroceryItems(items: GroceryItem[]): GroceryItem[] {
+  const order = (category: string) => {
+    const index = (STORE_CATEGORIES as readonly string[]).indexOf(category);
+    return index === -1 ? STORE_CATEGORIES.length : index;
+  };
+  return items.sort((a, b) =>
+    order(a.category) - order(b.category) || a.name.localeCompare(b.name));
+}
@@ -0,0 +1,279 @@
+/**
+ * Fan-out runner for NutriSync scheduled jobs
+ * A scheduler starts a run: one jobRuns document plus one task per shard.
+ * Task-queue workers page through the shard's users with a cursor, write
+ * each user's changes in their own small batch and checkpoint the cursor
+ * after every page, so a crashed or timed-out worker resumes where it
+ * stopped. Jobs must write with deterministic document ids (e.g. one
+ * notification per user per day) so re-processing a user is harmless.
+ */
+
+import * as admin from "firebase-admin";
+import {getFunctions} from "firebase-admin/functions";
+import * as logger from "firebase-functions/logger";
+
+const db = admin.firestore();
+
+export const JOB_RUNS = "jobRuns";
+
+// Task-queue function that runs shards (see processJobShard)
+export const SHARD_WORKER = "processJobShard";
+
+// Users handled per page; their reads run in parallel
+const PAGE_SIZE = 50;
+
+// Hand the shard to a fresh task before the worker's 540s timeout
+const WORKER_TIME_BUDGET_MS = 6 * 60 * 1000;
+
+// Per-user failures kept on the shard document
+const MAX_RECORDED_FAILURES = 50;
+
+// Firestore ALREADY_EXISTS
+const ALREADY_EXISTS = 6;
+
+export interface JobDefinition<P> {
+  name: string;
+  // Users in one shard; ordered by orderField, which the cursor pages on
+  query: (params: P) => admin.firestore.Query;
+  orderField: string;
+  // Add one user's writes to the batch; false when there was nothing to send
+  processUser: (
+    doc: admin.firestore.QueryDocumentSnapshot,
+    params: P,
+    batch: admin.firestore.WriteBatch
+  ) => Promise<boolean>;
+}
+
+export interface ShardTask {
+  job: string;
+  runId: string;
+  shardId: string;
+  // Continuations of the same shard, so each task id is unique
+  part?: number;
+}
+
+interface ShardCheckpoint<P> {
+  params: P;
+  status: "pending" | "running" | "completed";
+  // [orderField value, document id] of the last user handled
+  cursor: [unknown, string] | null;
+  processed: number;
+  notified: number;
+  failed: number;
+  failures: Array<{userId: string; error: string}>;
+}
+
+/**
+ * Start a job run and enqueue one worker task per shard
+ * Safe to call twice for the same run key: the run document is only
+ * created once and task ids deduplicate the enqueues.
+ * @param {JobDefinition} job - Job definition
+ * @param {string} runKey - Identifies the run, e.g. the UTC hour
+ * @param {Array} shards - Parameters for each shard
+ * @return {Promise<string>} Run id
+ */
+export async function startJobRun<P>(
+  job: JobDefinition<P>,
+  runKey: string,
+  shards: P[]
+): Promise<string> {
+  const runId = `${job.name}-${runKey}`.replace(/[^A-Za-z0-9_-]/g, "-");
+  const runRef = db.collection(JOB_RUNS).doc(runId);
+
+  const batch = db.batch();
+  batch.create(runRef, {
+    job: job.name,
+    runKey,
+    status: shards.length ? "running" : "completed",
+    shardCount: shards.length,
+    shardsCompleted: 0,
+    processed: 0,
+    notified: 0,
+    failed: 0,
+    startedAt: admin.firestore.FieldValue.serverTimestamp(),
+    ...(shards.length === 0 && {completedAt: admin.firestore.FieldValue.serverTimestamp()}),
+  });
+  shards.forEach((params, index) => {
+    const checkpoint: ShardCheckpoint<P> = {
+      params,
+      status: "pending",
+      cursor: null,
+      processed: 0,
+      notified: 0,
+      failed: 0,
+      failures: [],
+    };
+    batch.create(runRef.collection("shards").doc(String(index)), checkpoint);
+  });
+
+  try {
+    await batch.commit();
+  } catch (error) {
+    if ((error as {code?: number}).code !== ALREADY_EXISTS) {
+      throw error;
+    }
+    logger.info(`Job run already started: ${runId}`);
+  }
+
+  await Promise.all(shards.map((_, index) =>
+    enqueueShard({job: job.name, runId, shardId: String(index)})));
+
+  logger.info(`Started job run: ${runId}`, {shards: shards.length});
+  return runId;
+}
+
+/**
+ * Enqueue a shard task, ignoring tasks that were already enqueued
+ * @param {ShardTask} task - Shard to run
+ */
+async function enqueueShard(task: ShardTask): Promise<void> {
+  try {
+    await getFunctions().taskQueue<ShardTask>(SHARD_WORKER).enqueue(task, {
+      id: `${task.runId}-${task.shardId}-${task.part || 0}`,
+    });
+  } catch (error) {
+    if ((error as {code?: string}).code !== "functions/task-already-exists") {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Process a shard from its last checkpoint
+ * Throws on infrastructure errors so the task queue retries; failures for
+ * individual users are recorded and skipped.
+ * @param {JobDefinition} job - Job definition
+ * @param {ShardTask} task - Shard to run
+ */
+export async function runShard<P>(job: JobDefinition<P>, task: ShardTask): Promise<void> {
+  const startedAt = Date.now();
+  const runRef = db.collection(JOB_RUNS).doc(task.runId);
+  const shardRef = runRef.collection("shards").doc(task.shardId);
+
+  const shardDoc = await shardRef.get();
+  const shard = shardDoc.data() as ShardCheckpoint<P> | undefined;
+  if (!shard) {
+    logger.warn(`Unknown job shard: ${task.runId}/${task.shardId}`);
+    return;
+  }
+  if (shard.status === "completed") {
+    return;
+  }
+  if (shard.status === "pending") {
+    await shardRef.update({
+      status: "running",
+      startedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  }
+
+  let cursor = shard.cursor;
+  let processed = shard.processed;
+  let notified = shard.notified;
+  let failed = shard.failed;
+  const failures = [...shard.failures];
+
+  for (;;) {
+    let query = job.query(shard.params)
+      .orderBy(job.orderField)
+      .orderBy(admin.firestore.FieldPath.documentId())
+      .limit(PAGE_SIZE);
+    if (cursor) {
+      query = query.startAfter(...cursor);
+    }
+    const page = await query.get();
+
+    const results = await Promise.all(page.docs.map(async (doc) => {
+      try {
+        const batch = db.batch();
+        const sent = await job.processUser(doc, shard.params, batch);
+        await batch.commit();
+        return {sent};
+      } catch (error) {
+        logger.error(`Job ${job.name} failed for user: ${doc.id}`, error);
+        return {error: error instanceof Error ? error.message : String(error)};
+      }
+    }));
+
+    results.forEach((result, index) => {
+      processed++;
+      if (result.error !== undefined) {
+        failed++;
+        if (failures.length < MAX_RECORDED_FAILURES) {
+          failures.push({userId: page.docs[index].id, error: result.error});
+        }
+      } else if (result.sent) {
+        notified++;
+      }
+    });
+
+    const last = page.docs[page.docs.length - 1];
+    if (last) {
+      cursor = [last.get(job.orderField), last.id];
+    }
+    const done = page.size < PAGE_SIZE;
+
+    if (done) {
+      await completeShard(runRef, shardRef, {cursor, processed, notified, failed, failures},
+        {processed, notified, failed});
+      logger.info(`Job shard completed: ${task.runId}/${task.shardId}`, {
+        processed, notified, failed,
+      });
+      return;
+    }
+
+    await shardRef.update({cursor, processed, notified, failed, failures});
+
+    if (Date.now() - startedAt > WORKER_TIME_BUDGET_MS) {
+      await enqueueShard({...task, part: (task.part || 0) + 1});
+      logger.info(`Job shard continued in a new task: ${task.runId}/${task.shardId}`, {
+        processed,
+      });
+      return;
+    }
+  }
+}
+
+/**
+ * Mark a shard completed and add its counts to the run
+ * The last shard to finish completes the run.
+ * @param {admin.firestore.DocumentReference} runRef - Job run document
+ * @param {admin.firestore.DocumentReference} shardRef - Shard document
+ * @param {Record<string, unknown>} checkpoint - Final shard fields
+ * @param {Record<string, number>} counts - Shard totals to add to the run
+ */
+async function completeShard(
+  runRef: admin.firestore.DocumentReference,
+  shardRef: admin.firestore.DocumentReference,
+  checkpoint: Record<string, unknown>,
+  counts: {processed: number; notified: number; failed: number}
+): Promise<void> {
+  await db.runTransaction(async (transaction) => {
+    const [run, shard] = await Promise.all([
+      transaction.get(runRef),
+      transaction.get(shardRef),
+    ]);
+    if (shard.data()?.status === "completed") {
+      return;
+    }
+
+    const shardsCompleted = (run.data()?.shardsCompleted || 0) + 1;
+    const failed = (run.data()?.failed || 0) + counts.failed;
+    const finished = shardsCompleted >= (run.data()?.shardCount || 0);
+
+    transaction.update(shardRef, {
+      ...checkpoint,
+      status: "completed",
+      completedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    transaction.update(runRef, {
+      shardsCompleted,
+      processed: admin.firestore.FieldValue.increment(counts.processed),
+      notified: admin.firestore.FieldValue.increment(counts.notified),
+      failed,
+      ...(finished && {
+        status: failed > 0 ? "completed_with_errors" : "completed",
+        completedAt: admin.firestore.FieldValue.serverTimestamp(),
+      }),
+    });
+  });
+}
@@ -0,0 +1,75 @@
+/**
+ * Meal feedback for NutriSync
+ * Right after a meal is logged, tells users who have a glycemic load limit
+ * (diabetes) when the meal went over it and which swap would bring it down.
+ */
+
+import * as admin from "firebase-admin";
+import {loadFoodCatalog} from "./foodCatalog";
+import {lowerGlycemicSwap} from "./glycemic";
+import {partitionByDiet} from "./recommendationEngine";
+import {MealItem, UserProfile} from "./types";
+
+const db = admin.firestore();
+
+/**
+ * Send glycemic load feedback for a newly logged meal
+ * The notification id is derived from the meal, so a redelivered trigger
+ * rewrites the same notification.
+ * @param {string} userId - User ID
+ * @param {string} mealId - Meal document id
+ * @param {Record<string, unknown>} meal - Meal document data
+ * @param {UserProfile} profile - User profile, for limits and diet
+ * @return {Promise<boolean>} True when feedback was sent
+ */
+export async function sendGlycemicFeedback(
+  userId: string,
+  mealId: string,
+  meal: Record<string, unknown>,
+  profile: Omit<UserProfile, "uid">
+): Promise<boolean> {
+  const limits = profile.nutritionTargets?.limits || {};
+  const limit = limits.mealGlycemicLoad;
+  const load = Number(meal.totalGlycemicLoad) || 0;
+  if (!limit || load <= limit) {
+    return false;
+  }
+
+  const catalog = await loadFoodCatalog();
+  const {allowed} = partitionByDiet(catalog, {...profile, uid: userId});
+  const items = (meal.foods || []) as MealItem[];
+  const swap = lowerGlycemicSwap(items, allowed,
+    new Map(catalog.map((food) => [food.id, food])));
+
+  const mealType = String(meal.mealType || "meal");
+  const carbs = Number(meal.totalCarbs) || 0;
+  let message = `This ${mealType} has a glycemic load of ${Math.round(load)}, ` +
+    `above your limit of ${limit}.`;
+  if (limits.carbsPerMeal && carbs > limits.carbsPerMeal) {
+    message += ` It also has ${Math.round(carbs)}g of carbs against ` +
+      `${limits.carbsPerMeal}g per meal.`;
+  }
+  message += swap ?
+    ` Next time try ${swap.with.name} instead of ${swap.replace.name} to bring it ` +
+      `down to about ${Math.round(swap.mealGlycemicLoad)}.` :
+    " A smaller portion of rice or roti with more dal, salad or curd would bring it down.";
+
+  await db.collection("users").doc(userId).collection("notifications")
+    .doc(`glycemic_feedback_${mealId}`).set({
+      type: "glycemic_feedback",
+      title: "High glycemic load meal",
+      message,
+      data: {
+        mealId,
+        mealType,
+        glycemicLoad: load,
+        limit,
+        carbs,
+        carbLimit: limits.carbsPerMeal ?? null,
+        swap,
+      },
+      read: false,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    }, {merge: true});
+  return true;
+}
@@ -0,0 +1,551 @@
+/**
+ * Hinglish meal text parser for NutriSync
+ * Turns voice transcripts such as "do roti aur ek katori dal tadka, thoda kam oil"
+ * into structured meal items. Deterministic: the same transcript and food
+ * catalog always produce the same result.
+ */
+
+import {editDistance, normalizeText, phoneticKey, tokenize} from "./text";
+import {IndianFood} from "./types";
+
+export interface ParsedMealItem {
+  foodId: string;
+  name: string;
+  quantity: number;
+  portionUnit: string;
+  cookingHints: string[];
+  // Set when a hint matches one of the food's own cooking methods
+  cookingMethod?: string;
+  confidence: number;
+  matchedText: string;
+}
+
+export interface ParsedMeal {
+  items: ParsedMealItem[];
+  unresolved: string[];
+  mealType?: string;
+}
+
+type MatchSource = "name" | "alias" | "regionalName" | "searchTerm";
+
+interface FoodCandidate {
+  food: IndianFood;
+  source: MatchSource;
+  phrase: string;
+}
+
+export interface FoodIndex {
+  byKey: Map<string, FoodCandidate[]>;
+  foods: Map<string, IndianFood>;
+  maxTokens: number;
+}
+
+interface SegmentItem extends ParsedMealItem {
+  explicitQuantity: boolean;
+  vagueQuantity: boolean;
+}
+
+const SOURCE_CONFIDENCE: Record<MatchSource, number> = {
+  name: 1.0,
+  alias: 0.95,
+  regionalName: 0.95,
+  searchTerm: 0.75,
+};
+
+const SOURCE_RANK: Record<MatchSource, number> = {
+  name: 0,
+  alias: 1,
+  regionalName: 2,
+  searchTerm: 3,
+};
+
+/**
+ * Build a lookup table with NFC-normalized keys
+ * @param {Record<string, T>} entries - Raw entries
+ * @return {Map<string, T>} Normalized lookup
+ */
+function normalizedMap<T>(entries: Record<string, T>): Map<string, T> {
+  return new Map(Object.entries(entries).map(([k, v]) => [normalizeText(k), v]));
+}
+
+const NUMBER_WORDS = normalizedMap<number>({
+  "ek": 1, "one": 1, "एक": 1,
+  "do": 2, "two": 2, "दो": 2,
+  "teen": 3, "tin": 3, "three": 3, "तीन": 3,
+  "char": 4, "chaar": 4, "four": 4, "चार": 4,
+  "panch": 5, "paanch": 5, "five": 5, "पांच": 5, "पाँच": 5,
+  "chhe": 6, "che": 6, "chhah": 6, "six": 6, "छह": 6,
+  "saat": 7, "seven": 7, "सात": 7,
+  "aath": 8, "eight": 8, "आठ": 8,
+  "nau": 9, "nine": 9, "नौ": 9,
+  "das": 10, "ten": 10, "दस": 10,
+  "aadha": 0.5, "adha": 0.5, "aadhi": 0.5, "adhi": 0.5, "half": 0.5,
+  "आधा": 0.5, "आधी": 0.5,
+  "dedh": 1.5, "derh": 1.5, "डेढ़": 1.5,
+  "dhai": 2.5, "dhaai": 2.5, "ढाई": 2.5,
+});
+
+// Vague amounts; dropped when they turn out to modify a cooking hint
+const VAGUE_QUANTITY_WORDS = normalizedMap<number>({
+  "thoda": 0.5, "thodi": 0.5, "thora": 0.5, "thori": 0.5, "थोड़ा": 0.5, "थोड़ी": 0.5,
+  "little": 0.5,
+});
+
+const UNIT_WORDS = normalizedMap<string>({
+  "katori": "katori", "katoris": "katori", "katoriyan": "katori",
+  "bowl": "katori", "bowls": "katori", "कटोरी": "katori",
+  "glass": "glass", "glasses": "glass", "gilas": "glass", "गिलास": "glass",
+  "cup": "cup", "cups": "cup", "कप": "cup",
+  "chammach": "spoon", "chamach": "spoon", "chamchi": "spoon",
+  "spoon": "spoon", "spoons": "spoon", "tablespoon": "spoon", "चम्मच": "spoon",
+  "plate": "portion", "plates": "portion", "प्लेट": "portion",
+  "piece": "portion", "pieces": "portion", "pc": "portion", "pcs": "portion",
+  "tukda": "portion", "tukde": "portion", "serving": "portion",
+  "g": "g", "gm": "g", "gms": "g", "gram": "g", "grams": "g", "ग्राम": "g",
+  "ml": "g",
+});
+
+const HINT_PHRASES: Array<[string, string]> = [
+  ["kam oil", "less_oil"], ["kam tel", "less_oil"], ["kam ghee", "less_oil"],
+  ["less oil", "less_oil"], ["low oil", "less_oil"], ["no oil", "less_oil"],
+  ["bina oil", "less_oil"], ["bina tel", "less_oil"], ["without oil", "less_oil"],
+  ["कम तेल", "less_oil"], ["कम घी", "less_oil"],
+  ["zyada oil", "extra_oil"], ["jyada oil", "extra_oil"], ["extra oil", "extra_oil"],
+  ["zyada tel", "extra_oil"], ["zyada ghee", "extra_oil"], ["jyada ghee", "extra_oil"],
+  ["extra ghee", "extra_oil"], ["extra butter", "extra_oil"],
+  ["ज्यादा तेल", "extra_oil"], ["ज्यादा घी", "extra_oil"],
+  ["deep fried", "fried"], ["fried", "fried"], ["tala", "fried"], ["tali", "fried"],
+  ["तला", "fried"], ["तली", "fried"],
+  ["steamed", "steamed"], ["steam", "steamed"], ["bhaap", "steamed"],
+  ["boiled", "boiled"], ["ubla", "boiled"], ["ubli", "boiled"], ["उबला", "boiled"],
+  ["roasted", "roasted"], ["grilled", "roasted"], ["bhuna", "roasted"],
+  ["bhuni", "roasted"], ["भुना", "roasted"],
+  ["baked", "baked"],
+].map(([phrase, hint]) => [normalizeText(phrase), hint]);
+
+// Cooking method names that satisfy each hint
+const HINT_METHODS: Record<string, string[]> = {
+  fried: ["fried", "deep fried", "tala", "shallow fried"],
+  steamed: ["steamed", "steam"],
+  boiled: ["boiled"],
+  roasted: ["roasted", "grilled", "tandoori", "bhuna"],
+  baked: ["baked"],
+};
+
+export const MEAL_TYPE_WORDS = normalizedMap<string>({
+  "breakfast": "breakfast", "nashta": "breakfast", "naashta": "breakfast",
+  "नाश्ता": "breakfast", "subah": "breakfast",
+  "lunch": "lunch", "dopahar": "lunch", "लंच": "lunch",
+  "dinner": "dinner", "raat": "dinner", "डिनर": "dinner",
+  "snack": "snack", "snacks": "snack", "shaam": "snack",
+});
+
+const SEPARATOR_WORDS = new Set([
+  "aur", "or", "and", "with", "saath", "sath", "sang", "plus", "और", "साथ",
+].map(normalizeText));
+
+const STOP_WORDS = new Set([
+  "maine", "mene", "main", "mai", "humne", "i", "we", "had", "have", "ate", "eaten",
+  "khaya", "khayi", "khaye", "khaaya", "liya", "li", "liye", "piya", "pi", "pee",
+  "tha", "thi", "the", "hai", "hain", "ka", "ki", "ke", "mein", "me", "mai", "aaj",
+  "today", "abhi", "just", "for", "in", "my", "bhi", "also", "hua", "hui", "wala",
+  "wali", "wale", "bahut", "very", "some", "of", "a", "an", "khana", "meal",
+  "मैंने", "खाया", "खाई", "पिया", "था", "थी", "है", "का", "की", "के", "में", "आज",
+  "भी", "खाना",
+].map(normalizeText));
+
+const QUANTITY_WITH_UNIT = /^(\d+(?:\.\d+)?)([a-z]+)$/;
+
+// Devanagari spellings of common dishes, keyed as their romanized names so
+// "दाल" finds the foods listed under "dal" even without a Hindi name
+const DEVANAGARI_WORDS = normalizedMap<string>({
+  "दाल": "dal", "चावल": "chawal", "रोटी": "roti", "चपाती": "chapati",
+  "सब्जी": "sabzi", "सब्ज़ी": "sabzi", "चाय": "chai", "राजमा": "rajma", "छोले": "chole",
+  "खिचड़ी": "khichdi", "पराठा": "paratha", "पोहा": "poha", "इडली": "idli", "डोसा": "dosa",
+  "समोसा": "samosa", "केला": "kela", "लस्सी": "lassi", "छाछ": "chaas", "सांभर": "sambar",
+  "उपमा": "upma", "खीर": "kheer", "रायता": "raita", "पूरी": "puri", "नान": "naan",
+  "पुलाव": "pulao",
+});
+
+/**
+ * Index key of a token: its phonetic key, via the romanized name for
+ * Devanagari dish words
+ * @param {string} token - Normalized token
+ * @return {string} Key shared by spelling variants
+ */
+function tokenKey(token: string): string {
+  return phoneticKey(DEVANAGARI_WORDS.get(token) ?? token);
+}
+
+/**
+ * Index every name, alias, search term and regional name of the catalog
+ * @param {IndianFood[]} foods - Food catalog
+ * @return {FoodIndex} Phonetic phrase index
+ */
+export function buildFoodIndex(foods: IndianFood[]): FoodIndex {
+  const byKey = new Map<string, FoodCandidate[]>();
+  let maxTokens = 1;
+
+  const add = (food: IndianFood, phrase: string, source: MatchSource) => {
+    const tokens = tokenize(phrase);
+    if (tokens.length === 0) return;
+    const key = tokens.map(tokenKey).join(" ");
+    const list = byKey.get(key) || [];
+    if (!list.some((c) => c.food.id === food.id && c.source === source)) {
+      list.push({food, source, phrase: tokens.join(" ")});
+    }
+    byKey.set(key, list);
+    maxTokens = Math.max(maxTokens, tokens.length);
+  };
+
+  for (const food of foods) {
+    add(food, food.name, "name");
+    (food.aliases || []).forEach((alias) => add(food, alias, "alias"));
+    Object.values(food.regions?.regionalNames || {})
+      .forEach((name) => add(food, name, "regionalName"));
+    (food.searchTerms || []).forEach((term) => add(food, term, "searchTerm"));
+  }
+
+  for (const list of byKey.values()) {
+    list.sort((a, b) =>
+      SOURCE_RANK[a.source] - SOURCE_RANK[b.source] ||
+      tokenize(a.food.name).length - tokenize(b.food.name).length ||
+      a.food.id.localeCompare(b.food.id));
+  }
+
+  return {
+    byKey,
+    foods: new Map(foods.map((food) => [food.id, food])),
+    maxTokens: Math.min(maxTokens, 5),
+  };
+}
+
+/**
+ * Pick the best candidate and score how sure we are about it
+ * @param {FoodCandidate[]} candidates - Candidates sharing one key, best first
+ * @param {string} rawPhrase - Normalized phrase from the transcript
+ * @param {boolean} fuzzy - Whether the key was matched by edit distance
+ * @return {{candidate: FoodCandidate, confidence: number}} Chosen match
+ */
+function scoreCandidates(
+  candidates: FoodCandidate[],
+  rawPhrase: string,
+  fuzzy: boolean
+): {candidate: FoodCandidate; confidence: number} {
+  const best = candidates[0];
+  let confidence = SOURCE_CONFIDENCE[best.source];
+
+  if (fuzzy) {
+    confidence *= 0.8;
+  } else if (best.phrase !== rawPhrase) {
+    confidence *= 0.95;
+  }
+
+  // Same phrase at the same tier pointing at different foods ("dal")
+  const rivals = candidates.filter((c) =>
+    c.food.id !== best.food.id && c.source === best.source);
+  if (rivals.length > 0) {
+    confidence *= 0.8;
+  }
+
+  return {candidate: best, confidence};
+}
+
+/**
+ * Match the longest food phrase starting at a token position
+ * @param {FoodIndex} index - Food index
+ * @param {string[]} tokens - Segment tokens
+ * @param {number} start - Start position
+ * @param {boolean} allowFuzzy - Try edit-distance matches
+ * @return {object | null} Match with token length, or null
+ */
+function matchFood(
+  index: FoodIndex,
+  tokens: string[],
+  start: number,
+  allowFuzzy: boolean
+): {candidate: FoodCandidate; confidence: number; length: number} | null {
+  const maxLength = Math.min(index.maxTokens, tokens.length - start);
+
+  for (let length = maxLength; length >= 1; length--) {
+    const slice = tokens.slice(start, start + length);
+    const key = slice.map(tokenKey).join(" ");
+    const candidates = index.byKey.get(key);
+    if (candidates) {
+      return {...scoreCandidates(candidates, slice.join(" "), false), length};
+    }
+  }
+
+  if (!allowFuzzy) {
+    return null;
+  }
+
+  for (let length = maxLength; length >= 1; length--) {
+    const slice = tokens.slice(start, start + length);
+    const key = slice.map(tokenKey).join(" ");
+    if (key.length < 4) continue;
+    const maxDistance = key.length >= 8 ? 2 : 1;
+
+    let bestKey: string | null = null;
+    let bestDistance = Infinity;
+    for (const candidateKey of index.byKey.keys()) {
+      if (candidateKey.split(" ").length !== length) continue;
+      if (Math.abs(candidateKey.length - key.length) > maxDistance) continue;
+      const distance = editDistance(key, candidateKey);
+      if (distance <= maxDistance &&
+          (distance < bestDistance ||
+            (distance === bestDistance && bestKey !== null && candidateKey < bestKey))) {
+        bestKey = candidateKey;
+        bestDistance = distance;
+      }
+    }
+
+    if (bestKey !== null) {
+      const candidates = index.byKey.get(bestKey) as FoodCandidate[];
+      return {...scoreCandidates(candidates, slice.join(" "), true), length};
+    }
+  }
+  return null;
+}
+
+/**
+ * Match a cooking hint phrase starting at a token position
+ * @param {string[]} tokens - Segment tokens
+ * @param {number} start - Start position
+ * @return {{hint: string, length: number} | null} Hint match, or null
+ */
+function matchHint(
+  tokens: string[],
+  start: number
+): {hint: string; length: number} | null {
+  for (const [phrase, hint] of HINT_PHRASES) {
+    const phraseTokens = phrase.split(" ");
+    const slice = tokens.slice(start, start + phraseTokens.length).join(" ");
+    if (slice === phrase) {
+      return {hint, length: phraseTokens.length};
+    }
+  }
+  return null;
+}
+
+/**
+ * Pick a sensible unit when the transcript did not name one
+ * "do roti" (or "दो रोटी") should use the roti unit when the food defines it.
+ * @param {IndianFood} food - Matched food
+ * @param {string} matchedText - Words that matched the food
+ * @return {string} Portion unit
+ */
+function defaultUnit(food: IndianFood, matchedText: string): string {
+  const units = Object.keys(food.portionSizes?.standardPortions || {});
+  const words = [matchedText, food.name]
+    .map((text) => tokenKey(tokenize(text).pop() || ""));
+  return units.find((unit) => words.includes(tokenKey(unit))) || "portion";
+}
+
+/**
+ * Find the food's own cooking method that satisfies a hint
+ * @param {IndianFood} food - Matched food
+ * @param {string[]} hints - Cooking hints for the item
+ * @return {string | undefined} Cooking method name
+ */
+function methodForHints(food: IndianFood, hints: string[]): string | undefined {
+  const methods = [
+    food.cookingMethods?.defaultMethod,
+    ...(food.cookingMethods?.alternatives || []),
+  ].filter((m) => m?.name);
+
+  for (const hint of hints) {
+    const names = HINT_METHODS[hint] || [];
+    const method = methods.find((m) => names.includes(m.name.toLowerCase()));
+    if (method) {
+      return method.name;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Split raw text into segments on punctuation and conjunctions
+ * @param {string} text - Raw transcript
+ * @return {Array<string[]>} Token lists, one per segment
+ */
+function splitSegments(text: string): string[][] {
+  const segments: string[][] = [];
+  for (const chunk of text.split(/[,;+&।|\n]/)) {
+    let current: string[] = [];
+    for (const token of tokenize(chunk)) {
+      if (SEPARATOR_WORDS.has(token)) {
+        if (current.length) segments.push(current);
+        current = [];
+      } else {
+        current.push(token);
+      }
+    }
+    if (current.length) segments.push(current);
+  }
+  return segments;
+}
+
+/**
+ * Parse a meal transcript into structured items
+ * @param {string} text - Transcript in Hinglish, English or Devanagari
+ * @param {IndianFood[] | FoodIndex} foods - Food catalog or a prebuilt index
+ * @return {ParsedMeal} Items, unresolved phrases and detected meal type
+ */
+export function parseMealText(
+  text: string,
+  foods: IndianFood[] | FoodIndex
+): ParsedMeal {
+  const index = Array.isArray(foods) ? buildFoodIndex(foods) : foods;
+  const items: ParsedMealItem[] = [];
+  const unresolved: string[] = [];
+  let mealType: string | undefined;
+
+  for (const tokens of splitSegments(text)) {
+    const segmentItems: SegmentItem[] = [];
+    const hints: string[] = [];
+    let pendingQuantity: number | undefined;
+    let pendingVague = false;
+    let pendingUnit: string | undefined;
+    let pendingWords: string[] = [];
+    let unknownRun: string[] = [];
+
+    const flushUnknown = () => {
+      if (unknownRun.length) unresolved.push(unknownRun.join(" "));
+      unknownRun = [];
+    };
+
+    let i = 0;
+    while (i < tokens.length) {
+      const token = tokens[i];
+
+      const withUnit = QUANTITY_WITH_UNIT.exec(token);
+      if (/^\d+(\.\d+)?$/.test(token) || NUMBER_WORDS.has(token) ||
+          (withUnit && UNIT_WORDS.has(withUnit[2]))) {
+        flushUnknown();
+        if (withUnit) {
+          pendingQuantity = Number(withUnit[1]);
+          pendingUnit = UNIT_WORDS.get(withUnit[2]);
+        } else {
+          pendingQuantity = NUMBER_WORDS.get(token) ?? Number(token);
+        }
+        pendingVague = false;
+        pendingWords.push(token);
+        i++;
+        continue;
+      }
+
+      if (VAGUE_QUANTITY_WORDS.has(token)) {
+        flushUnknown();
+        pendingQuantity = VAGUE_QUANTITY_WORDS.get(token);
+        pendingVague = true;
+        pendingWords.push(token);
+        i++;
+        continue;
+      }
+
+      if (UNIT_WORDS.has(token)) {
+        flushUnknown();
+        pendingUnit = UNIT_WORDS.get(token);
+        pendingWords.push(token);
+        i++;
+        continue;
+      }
+
+      const exactFood = matchFood(index, tokens, i, false);
+      if (exactFood || !STOP_WORDS.has(token)) {
+        const hint = exactFood ? null : matchHint(tokens, i);
+        if (hint) {
+          flushUnknown();
+          hints.push(hint.hint);
+          // "thoda kam oil": the vague amount belongs to the hint
+          if (pendingVague) {
+            pendingQuantity = undefined;
+            pendingVague = false;
+            pendingWords = [];
+          }
+          i += hint.length;
+          continue;
+        }
+
+        const match = exactFood ||
+          (MEAL_TYPE_WORDS.has(token) ? null : matchFood(index, tokens, i, true));
+        if (match) {
+          flushUnknown();
+          const matchedText = tokens.slice(i, i + match.length).join(" ");
+          segmentItems.push({
+            foodId: match.candidate.food.id,
+            name: match.candidate.food.name,
+            quantity: pendingQuantity ?? 1,
+            portionUnit: pendingUnit ??
+              defaultUnit(match.candidate.food, matchedText),
+            cookingHints: [],
+            confidence: match.confidence,
+            matchedText: [...pendingWords, matchedText].join(" "),
+            explicitQuantity: pendingQuantity !== undefined,
+            vagueQuantity: pendingVague,
+          });
+          pendingQuantity = undefined;
+          pendingVague = false;
+          pendingUnit = undefined;
+          pendingWords = [];
+          i += match.length;
+          continue;
+        }
+      }
+
+      if (MEAL_TYPE_WORDS.has(token)) {
+        flushUnknown();
+        mealType = mealType || MEAL_TYPE_WORDS.get(token);
+      } else if (STOP_WORDS.has(token)) {
+        flushUnknown();
+      } else {
+        unknownRun.push(token);
+      }
+      i++;
+    }
+    flushUnknown();
+
+    // "dal tadka do katori": trailing amount applies to the last item
+    const last = segmentItems[segmentItems.length - 1];
+    if (pendingWords.length && last && !last.explicitQuantity) {
+      last.quantity = pendingQuantity ?? last.quantity;
+      last.portionUnit = pendingUnit ?? last.portionUnit;
+      last.matchedText = `${last.matchedText} ${pendingWords.join(" ")}`;
+      last.explicitQuantity = pendingQuantity !== undefined;
+      last.vagueQuantity = pendingVague;
+    } else if (pendingWords.length) {
+      unresolved.push(pendingWords.join(" "));
+    }
+
+    // A segment with only hints ("thoda kam oil") modifies the previous item
+    const targets = segmentItems.length ? segmentItems : items.slice(-1);
+    for (const item of targets) {
+      for (const hint of hints) {
+        if (!item.cookingHints.includes(hint)) item.cookingHints.push(hint);
+      }
+    }
+    if (hints.length && targets.length === 0) {
+      unresolved.push(...hints);
+    }
+
+    for (const segmentItem of segmentItems) {
+      const {explicitQuantity, vagueQuantity, ...item} = segmentItem;
+      // Guessed amounts are less certain than spoken ones
+      const quantityFactor = explicitQuantity && !vagueQuantity ? 1 : 0.9;
+      item.confidence = Math.round(item.confidence * quantityFactor * 100) / 100;
+      items.push(item);
+    }
+  }
+
+  // Resolved after all segments so trailing hint segments are included
+  for (const item of items) {
+    const food = index.foods.get(item.foodId);
+    const method = food ? methodForHints(food, item.cookingHints) : undefined;
+    if (method) {
+      item.cookingMethod = method;
+    }
+  }
+
+  return mealType ? {items, unresolved, mealType} : {items, unresolved};
+}
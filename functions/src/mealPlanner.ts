@@ -0,0 +1,380 @@
+/**
+ * Weekly meal plan generator for NutriSync
+ * Fills breakfast/lunch/snack/dinner for seven days from the food catalog.
+ * All randomness comes from a seeded generator, so the same seed, catalog
+ * and profile always produce the same plan.
+ */
+
+import {round2} from "./nutrition";
+import {IndianFood} from "./types";
+
+export const PLAN_DAYS = [
+  "monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday",
+] as const;
+
+export const MEAL_SLOTS = ["breakfast", "lunch", "snack", "dinner"] as const;
+
+export type PlanDay = typeof PLAN_DAYS[number];
+export type MealSlot = typeof MEAL_SLOTS[number];
+
+export interface PlannedItem {
+  foodId: string;
+  name: string;
+  quantity: number;
+  portionUnit: string;
+  grams: number;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+}
+
+export interface PlannedMeal {
+  slot: MealSlot;
+  items: PlannedItem[];
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  locked: boolean;
+}
+
+export interface MealPlanOptions {
+  seed: number;
+  dailyCalories: number;
+  dailyProtein: number;
+  preferredRegion?: string;
+  // A dish (not a staple like roti or rice) appears at most this often per week
+  maxRepeats: number;
+  // Meals kept exactly as they are
+  locked?: Partial<Record<PlanDay, PlannedMeal[]>>;
+}
+
+export interface GeneratedMealPlan {
+  days: Record<PlanDay, PlannedMeal[]>;
+  dailyTotals: Record<PlanDay, {calories: number; protein: number; carbs: number; fat: number}>;
+  warnings: string[];
+}
+
+// Share of the day's calories per slot
+const SLOT_SHARE: Record<MealSlot, number> = {
+  breakfast: 0.25,
+  lunch: 0.35,
+  snack: 0.1,
+  dinner: 0.3,
+};
+
+const MAIN_CATEGORIES = ["dal", "curry", "sabzi", "main"];
+const STAPLE_CATEGORIES = ["roti", "rice", "bread"];
+const SLOT_CATEGORIES: Record<MealSlot, string[]> = {
+  breakfast: ["breakfast", "snack", "beverage"],
+  lunch: MAIN_CATEGORIES,
+  snack: ["snack", "beverage", "fruit", "sweet"],
+  dinner: MAIN_CATEGORIES,
+};
+
+/**
+ * Small, fast seeded PRNG (mulberry32)
+ * @param {number} seed - 32-bit seed
+ * @return {Function} Generator returning numbers in [0, 1)
+ */
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Which slots a food suits; an explicit mealTypes field wins over category
+ * @param {IndianFood} food - Food document
+ * @param {MealSlot} slot - Meal slot
+ * @return {boolean} True when the food can be the main item of the slot
+ */
+export function fitsSlot(food: IndianFood, slot: MealSlot): boolean {
+  if (food.mealTypes?.length) {
+    return food.mealTypes.map((t) => t.toLowerCase()).includes(slot);
+  }
+  return SLOT_CATEGORIES[slot].includes((food.category || "").toLowerCase());
+}
+
+/**
+ * Whether a food is a staple (roti, rice, bread) served alongside a dish
+ * @param {IndianFood} food - Food document
+ * @return {boolean} True for staples
+ */
+function isStapleFood(food: IndianFood): boolean {
+  return STAPLE_CATEGORIES.includes((food.category || "").toLowerCase());
+}
+
+/**
+ * Calories in one standard portion of a food
+ * @param {IndianFood} food - Food document
+ * @return {number} kcal per portion
+ */
+function portionCalories(food: IndianFood): number {
+  return (food.nutrition?.calories || 0) * (food.portionSizes?.gramsPerPortion || 100) / 100;
+}
+
+/**
+ * Size a food to roughly hit a calorie budget
+ * Countable staples (roti) get whole units; everything else half portions.
+ * @param {IndianFood} food - Food document
+ * @param {number} calorieBudget - Calories this item should provide
+ * @return {PlannedItem} Sized item
+ */
+function sizeItem(food: IndianFood, calorieBudget: number): PlannedItem {
+  const portions = food.portionSizes?.standardPortions || {};
+  const perPortion = portionCalories(food) || 100;
+  let portionUnit = "portion";
+  let gramsPerUnit = food.portionSizes?.gramsPerPortion || 100;
+
+  if (portions.roti) {
+    portionUnit = "roti";
+    gramsPerUnit = portions.roti;
+  } else if (portions.katori) {
+    portionUnit = "katori";
+    gramsPerUnit = portions.katori;
+  }
+
+  const perUnit = portionUnit === "portion" ?
+    perPortion :
+    (food.nutrition?.calories || 0) * gramsPerUnit / 100 || 100;
+  const step = portionUnit === "roti" ? 1 : 0.5;
+  const maxUnits = portionUnit === "roti" ? 4 : 3;
+  const quantity = Math.min(Math.max(
+    Math.round(calorieBudget / perUnit / step) * step, step), maxUnits);
+  const grams = quantity * gramsPerUnit;
+  const factor = grams / 100;
+
+  return {
+    foodId: food.id,
+    name: food.name,
+    quantity,
+    portionUnit,
+    grams: round2(grams),
+    calories: round2((food.nutrition?.calories || 0) * factor),
+    protein: round2((food.nutrition?.protein || 0) * factor),
+    carbs: round2((food.nutrition?.carbs || 0) * factor),
+    fat: round2((food.nutrition?.fat || 0) * factor),
+  };
+}
+
+/**
+ * Build a planned meal from sized items
+ * @param {MealSlot} slot - Meal slot
+ * @param {PlannedItem[]} items - Items in the meal
+ * @return {PlannedMeal} Meal with totals
+ */
+function toMeal(slot: MealSlot, items: PlannedItem[]): PlannedMeal {
+  const sum = (key: "calories" | "protein" | "carbs" | "fat") =>
+    round2(items.reduce((total, item) => total + item[key], 0));
+  return {
+    slot,
+    items,
+    calories: sum("calories"),
+    protein: sum("protein"),
+    carbs: sum("carbs"),
+    fat: sum("fat"),
+    locked: false,
+  };
+}
+
+/**
+ * Find catalog foods named in a dish's commonCombinations
+ * @param {IndianFood} main - Main dish
+ * @param {IndianFood[]} staples - Candidate staples
+ * @return {IndianFood[]} Staples that pair with the main dish
+ */
+function pairedStaples(main: IndianFood, staples: IndianFood[]): IndianFood[] {
+  const combos = (main.commonCombinations || []).map((c) => c.toLowerCase());
+  return staples.filter((staple) => {
+    const names = [
+      staple.id, staple.name, staple.baseDish, staple.category,
+      ...(staple.aliases || []),
+    ].filter(Boolean).map((n) => n.toLowerCase());
+    return combos.some((combo) => names.includes(combo));
+  });
+}
+
+/**
+ * Generate a week of meals
+ * @param {IndianFood[]} foods - Foods the user may eat (already diet-filtered)
+ * @param {MealPlanOptions} options - Targets, preferences and seed
+ * @return {GeneratedMealPlan} Plan, daily totals and any warnings
+ */
+export function generateWeeklyPlan(
+  foods: IndianFood[],
+  options: MealPlanOptions
+): GeneratedMealPlan {
+  const random = seededRandom(options.seed);
+  const region = options.preferredRegion?.toLowerCase();
+  const usage = new Map<string, number>();
+  const warnings: string[] = [];
+
+  // Sorted so catalog order in Firestore never changes the outcome
+  const catalog = [...foods].sort((a, b) => a.id.localeCompare(b.id));
+  const staples = catalog.filter(isStapleFood);
+  const isStaple = (food: IndianFood) => staples.includes(food);
+
+  // Locked meals count toward the repeat limit before anything is chosen
+  for (const day of PLAN_DAYS) {
+    for (const meal of options.locked?.[day] || []) {
+      for (const item of meal.items) {
+        usage.set(item.foodId, (usage.get(item.foodId) || 0) + 1);
+      }
+    }
+  }
+
+  const proteinPerCalorie = options.dailyProtein / Math.max(options.dailyCalories, 1);
+
+  const scoreFood = (food: IndianFood): number => {
+    let score = random();
+    const regions = [food.regions?.primaryRegion, ...(food.regions?.availableRegions || [])]
+      .filter(Boolean).map((r) => r.toLowerCase());
+    if (region && regions.includes(region)) {
+      score += 0.5;
+    }
+    // Favour dishes whose protein density matches what the targets need
+    const calories = food.nutrition?.calories || 0;
+    if (calories > 0) {
+      const density = (food.nutrition?.protein || 0) / calories;
+      score += Math.min(density / Math.max(proteinPerCalorie, 0.01), 1.5) * 0.3;
+    }
+    score -= (usage.get(food.id) || 0) * 0.4;
+    return score;
+  };
+
+  const pick = (candidates: IndianFood[], enforceRepeats: boolean) => {
+    let best: IndianFood | undefined;
+    let bestScore = -Infinity;
+    for (const food of candidates) {
+      if (enforceRepeats && (usage.get(food.id) || 0) >= options.maxRepeats) continue;
+      const score = scoreFood(food);
+      if (score > bestScore) {
+        best = food;
+        bestScore = score;
+      }
+    }
+    return best;
+  };
+
+  const days = {} as Record<PlanDay, PlannedMeal[]>;
+  const dailyTotals = {} as GeneratedMealPlan["dailyTotals"];
+
+  for (const day of PLAN_DAYS) {
+    const lockedMeals = (options.locked?.[day] || [])
+      .map((meal) => ({...meal, locked: true}));
+    const meals: PlannedMeal[] = [];
+
+    for (const slot of MEAL_SLOTS) {
+      const locked = lockedMeals.find((meal) => meal.slot === slot);
+      if (locked) {
+        meals.push(locked);
+        continue;
+      }
+
+      const budget = options.dailyCalories * SLOT_SHARE[slot];
+      const main = pick(
+        catalog.filter((food) => !isStaple(food) && fitsSlot(food, slot)), true);
+      if (!main) {
+        warnings.push(`No dish available for ${day} ${slot} within the repeat limit`);
+        continue;
+      }
+      usage.set(main.id, (usage.get(main.id) || 0) + 1);
+
+      if (slot === "lunch" || slot === "dinner") {
+        // Pair dal/sabzi with roti or rice; staples are exempt from the repeat limit
+        const paired = pairedStaples(main, staples);
+        const staple = pick(paired.length ? paired : staples, false);
+        if (staple) {
+          usage.set(staple.id, (usage.get(staple.id) || 0) + 1);
+          meals.push(toMeal(slot, [
+            sizeItem(main, budget * 0.5),
+            sizeItem(staple, budget * 0.5),
+          ]));
+          continue;
+        }
+      }
+      meals.push(toMeal(slot, [sizeItem(main, budget)]));
+    }
+
+    days[day] = meals;
+    dailyTotals[day] = dayTotals(meals);
+  }
+
+  return {days, dailyTotals, warnings};
+}
+
+/**
+ * Add up a day's planned meals
+ * @param {PlannedMeal[]} meals - Meals of one day
+ * @return {object} Calories and macros for the day
+ */
+export function dayTotals(meals: PlannedMeal[]): GeneratedMealPlan["dailyTotals"][PlanDay] {
+  const sum = (key: "calories" | "protein" | "carbs" | "fat") =>
+    round2(meals.reduce((total, meal) => total + meal[key], 0));
+  return {
+    calories: sum("calories"),
+    protein: sum("protein"),
+    carbs: sum("carbs"),
+    fat: sum("fat"),
+  };
+}
+
+/**
+ * Suggest a replacement for one item of a planned meal
+ * Prefers foods of the same category as the item, then any food that fits
+ * the slot, whose sized portion lands closest to the item's calories.
+ * Foods already in the meal are skipped; ties break by id so the same
+ * catalog always gives the same swap.
+ * @param {IndianFood[]} foods - Foods the user may eat (already diet-filtered)
+ * @param {PlannedMeal} meal - Planned meal
+ * @param {number} itemIndex - Item to replace
+ * @return {IndianFood | null} Replacement, or null when nothing fits
+ */
+export function findSwap(
+  foods: IndianFood[],
+  meal: PlannedMeal,
+  itemIndex: number
+): IndianFood | null {
+  const item = meal.items[itemIndex];
+  if (!item) return null;
+  const inMeal = new Set(meal.items.map((planned) => planned.foodId));
+  const category = foods.find((food) => food.id === item.foodId)?.category?.toLowerCase();
+
+  const pool = foods.filter((food) => !inMeal.has(food.id));
+  const sameCategory = category ?
+    pool.filter((food) => (food.category || "").toLowerCase() === category) : [];
+  const candidates = sameCategory.length ?
+    sameCategory :
+    pool.filter((food) => !isStapleFood(food) && fitsSlot(food, meal.slot));
+
+  let best: IndianFood | null = null;
+  let bestGap = Infinity;
+  for (const food of [...candidates].sort((a, b) => a.id.localeCompare(b.id))) {
+    const gap = Math.abs(sizeItem(food, item.calories).calories - item.calories);
+    if (gap < bestGap) {
+      best = food;
+      bestGap = gap;
+    }
+  }
+  return best;
+}
+
+/**
+ * Replace one item of a planned meal, sized to the calories it replaces
+ * @param {PlannedMeal} meal - Planned meal
+ * @param {number} itemIndex - Item to replace
+ * @param {IndianFood} food - Replacement food
+ * @return {PlannedMeal} Meal with new totals; the locked flag is kept
+ */
+export function swapPlanItem(meal: PlannedMeal, itemIndex: number, food: IndianFood): PlannedMeal {
+  const items = meal.items.map((item, i) =>
+    i === itemIndex ? sizeItem(food, item.calories) : item);
+  return {...toMeal(meal.slot, items), locked: meal.locked};
+}
@@ -0,0 +1,96 @@
+/**
+ * Meal plan functions for NutriSync
+ * Fills users/{userId}/mealPlans/current from the Indian food database
+ */
+
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import {HttpsError, onCall} from "firebase-functions/v2/https";
+import {callableError, requireUser} from "./callable";
+import {generateMealPlanRequest, GenerateMealPlanResponse} from "./contracts";
+import {loadFoodCatalog} from "./foodCatalog";
+import {
+  generateWeeklyPlan,
+  PLAN_DAYS,
+  PlanDay,
+  PlannedMeal,
+} from "./mealPlanner";
+import {computeNutritionTargets} from "./nutritionTargets";
+import {partitionByDiet} from "./recommendationEngine";
+import {enforceQuota} from "./quotaGuard";
+import {UserProfile} from "./types";
+import {parseRequest} from "./validation";
+
+const db = admin.firestore();
+
+const DEFAULT_MAX_REPEATS = 2;
+
+/**
+ * Generate (or regenerate) the user's weekly meal plan
+ * Locked meals are kept; everything else is refilled. Passing the same
+ * seed reproduces the same plan for the same catalog and profile.
+ */
+export const generateMealPlan = onCall(async (request): Promise<GenerateMealPlanResponse> => {
+  const userId = requireUser(request);
+  const {seed, lockedSlots, maxRepeats} = parseRequest(generateMealPlanRequest, request.data);
+
+  await enforceQuota(userId, "mealPlans");
+
+  try {
+    const userRef = db.collection("users").doc(userId);
+    const planRef = userRef.collection("mealPlans").doc("current");
+    const [userDoc, planDoc, foods] = await Promise.all([
+      userRef.get(),
+      planRef.get(),
+      loadFoodCatalog(),
+    ]);
+
+    const userData = userDoc.data();
+    if (!userData) {
+      throw new HttpsError("not-found", "User profile not found");
+    }
+    const profile = {...userData, uid: userId} as UserProfile;
+    const targets = userData.nutritionTargets || computeNutritionTargets(profile);
+
+    // Explicit lockedSlots replace the locks stored on the plan
+    const existingDays = (planDoc.data()?.days || {}) as
+      Partial<Record<PlanDay, PlannedMeal[]>>;
+    const locked: Partial<Record<PlanDay, PlannedMeal[]>> = {};
+    for (const day of PLAN_DAYS) {
+      locked[day] = (existingDays[day] || []).filter((meal) => lockedSlots ?
+        lockedSlots.some((l) => l.day === day && l.slot === meal.slot) :
+        meal.locked);
+    }
+
+    const planSeed = seed ?? Math.floor(Math.random() * 0xffffffff);
+    const {allowed} = partitionByDiet(foods, profile);
+    const plan = generateWeeklyPlan(allowed, {
+      seed: planSeed,
+      dailyCalories: targets.calories,
+      dailyProtein: targets.protein,
+      preferredRegion: profile.culturalPreferences?.preferredRegion,
+      maxRepeats: maxRepeats || DEFAULT_MAX_REPEATS,
+      locked,
+    });
+
+    await planRef.set({
+      status: "active",
+      days: plan.days,
+      dailyTotals: plan.dailyTotals,
+      warnings: plan.warnings,
+      seed: planSeed,
+      targets: {calories: targets.calories, protein: targets.protein},
+      generatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    }, {merge: true});
+
+    logger.info(`Meal plan generated for user: ${userId}`, {
+      seed: planSeed,
+      warnings: plan.warnings.length,
+    });
+
+    return {...plan, seed: planSeed};
+  } catch (error) {
+    throw callableError(error, "Failed to generate meal plan",
+      `Error generating meal plan for user: ${userId}`);
+  }
+});
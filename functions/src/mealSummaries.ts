@@ -0,0 +1,311 @@
+/**
+ * Daily summary maintenance for NutriSync
+ * Applies meal creates, edits and deletes to dailySummaries and analytics,
+ * and rebuilds summaries from the meals when they have drifted.
+ */
+
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import {HttpsError, onCall} from "firebase-functions/v2/https";
+import {
+  onDocumentCreated,
+  onDocumentDeleted,
+  onDocumentUpdated,
+} from "firebase-functions/v2/firestore";
+import {callableError, requireAdmin} from "./callable";
+import {
+  recomputeDailySummariesRequest,
+  RecomputeDailySummariesResponse,
+} from "./contracts";
+import {
+  aggregateMeals,
+  emptyTotals,
+  nestFields,
+  SummaryDelta,
+  summaryDeltas,
+} from "./dailySummary";
+import {sendGlycemicFeedback} from "./mealFeedback";
+import {addDays, resolveTimeZone} from "./timezone";
+import {UserProfile} from "./types";
+import {parseRequest} from "./validation";
+
+const db = admin.firestore();
+
+// Markers for handled trigger events; the TTL policy on expiresAt in
+// firestore.indexes.json removes them
+const PROCESSED_EVENTS = "processedEvents";
+const PROCESSED_EVENT_TTL_DAYS = 7;
+
+// One batch of summary writes stays well under Firestore's 500 limit
+const MAX_RECOMPUTE_DAYS = 366;
+
+/**
+ * Apply writes for a trigger event exactly once
+ * Functions may deliver the same event more than once; the marker is
+ * created in the same transaction as the increments, so a redelivery
+ * sees it and does nothing.
+ * @param {string} eventId - CloudEvent id
+ * @param {Function} write - Adds the event's writes to the transaction
+ * @return {Promise<boolean>} False when the event was already handled
+ */
+async function applyOnce(
+  eventId: string,
+  write: (transaction: admin.firestore.Transaction) => void
+): Promise<boolean> {
+  const markerRef = db.collection(PROCESSED_EVENTS).doc(eventId);
+  return db.runTransaction(async (transaction) => {
+    const marker = await transaction.get(markerRef);
+    if (marker.exists) {
+      return false;
+    }
+    write(transaction);
+    transaction.create(markerRef, {
+      processedAt: admin.firestore.FieldValue.serverTimestamp(),
+      expiresAt: admin.firestore.Timestamp.fromMillis(
+        Date.now() + PROCESSED_EVENT_TTL_DAYS * 24 * 60 * 60 * 1000),
+    });
+    return true;
+  });
+}
+
+/**
+ * Add summary increments to a transaction
+ * @param {admin.firestore.Transaction} transaction - Open transaction
+ * @param {string} userId - User id
+ * @param {Map<string, SummaryDelta>} deltas - Increments by date key
+ * @param {string} timeZone - User's timezone, stored on the summary
+ * @param {Record<string, unknown>} fields - Extra fields to set on each summary
+ */
+function writeDeltas(
+  transaction: admin.firestore.Transaction,
+  userId: string,
+  deltas: Map<string, SummaryDelta>,
+  timeZone: string,
+  fields: Record<string, unknown> = {}
+): void {
+  for (const [day, delta] of deltas) {
+    const increments: Record<string, admin.firestore.FieldValue> = {};
+    for (const [field, value] of Object.entries(delta)) {
+      increments[field] = admin.firestore.FieldValue.increment(value);
+    }
+    transaction.set(db.collection("users").doc(userId)
+      .collection("dailySummaries").doc(day), {
+      date: day,
+      timezone: timeZone,
+      ...nestFields(increments),
+      ...fields,
+      lastUpdated: admin.firestore.FieldValue.serverTimestamp(),
+    }, {merge: true});
+  }
+}
+
+/**
+ * Process meal logging and update nutrition analytics
+ */
+export const onMealLogged = onDocumentCreated(
+  "users/{userId}/meals/{mealId}",
+  async (event) => {
+    const userId = event.params.userId;
+    const mealId = event.params.mealId;
+    const mealData = event.data?.data();
+
+    logger.info(`Meal logged for user: ${userId}`, {mealId, mealData});
+
+    try {
+      const userDoc = await db.collection("users").doc(userId).get();
+      const targets = userDoc.data()?.nutritionTargets;
+      const timeZone = resolveTimeZone(userDoc.data()?.timezone);
+
+      // Keyed by the user's local day the meal was eaten, so backdated
+      // meals and meals after local midnight land correctly
+      const deltas = summaryDeltas(undefined, mealData, timeZone, new Date(event.time));
+
+      const applied = await applyOnce(event.id, (transaction) => {
+        transaction.update(db.collection("analytics").doc(userId), {
+          totalMealsLogged: admin.firestore.FieldValue.increment(1),
+          lastMealDate: admin.firestore.FieldValue.serverTimestamp(),
+          lastActiveDate: admin.firestore.FieldValue.serverTimestamp(),
+        });
+
+        // Snapshot so past days keep the targets that applied at the time
+        writeDeltas(transaction, userId, deltas, timeZone, targets ? {
+          targets: {
+            calories: targets.calories,
+            protein: targets.protein,
+            carbs: targets.carbs,
+            fat: targets.fat,
+            ...(targets.limits ? {limits: targets.limits} : {}),
+          },
+        } : {});
+      });
+
+      const feedback = applied && mealData && userDoc.exists ?
+        await sendGlycemicFeedback(userId, mealId, mealData,
+          userDoc.data() as Omit<UserProfile, "uid">) :
+        false;
+
+      logger.info(`Successfully processed meal logging for user: ${userId}`, {
+        mealId,
+        duplicate: !applied,
+        glycemicFeedback: feedback,
+      });
+    } catch (error) {
+      logger.error(`Error processing meal logging: ${userId}`, error);
+    }
+  }
+);
+
+/**
+ * Apply a meal edit to the daily summaries
+ * Moves the meal between days when its timestamp changed
+ */
+export const onMealUpdated = onDocumentUpdated(
+  "users/{userId}/meals/{mealId}",
+  async (event) => {
+    const userId = event.params.userId;
+    const mealId = event.params.mealId;
+
+    try {
+      const userDoc = await db.collection("users").doc(userId).get();
+      const timeZone = resolveTimeZone(userDoc.data()?.timezone);
+
+      const deltas = summaryDeltas(
+        event.data?.before.data(),
+        event.data?.after.data(),
+        timeZone,
+        new Date(event.time));
+      if (deltas.size === 0) {
+        return;
+      }
+
+      const applied = await applyOnce(event.id, (transaction) => {
+        writeDeltas(transaction, userId, deltas, timeZone);
+      });
+
+      logger.info(`Daily summaries updated for edited meal: ${mealId}`, {
+        userId,
+        days: [...deltas.keys()],
+        duplicate: !applied,
+      });
+    } catch (error) {
+      logger.error(`Error applying meal edit for user: ${userId}`, error);
+    }
+  }
+);
+
+/**
+ * Remove a deleted meal from its daily summary and the meal count
+ */
+export const onMealDeleted = onDocumentDeleted(
+  "users/{userId}/meals/{mealId}",
+  async (event) => {
+    const userId = event.params.userId;
+    const mealId = event.params.mealId;
+
+    try {
+      const userDoc = await db.collection("users").doc(userId).get();
+      if (!userDoc.exists) {
+        // The account is being deleted; nothing to keep consistent
+        return;
+      }
+      const timeZone = resolveTimeZone(userDoc.data()?.timezone);
+
+      const deltas = summaryDeltas(
+        event.data?.data(), undefined, timeZone, new Date(event.time));
+
+      const applied = await applyOnce(event.id, (transaction) => {
+        transaction.update(db.collection("analytics").doc(userId), {
+          totalMealsLogged: admin.firestore.FieldValue.increment(-1),
+        });
+        writeDeltas(transaction, userId, deltas, timeZone);
+      });
+
+      logger.info(`Daily summaries updated for deleted meal: ${mealId}`, {
+        userId,
+        duplicate: !applied,
+      });
+    } catch (error) {
+      logger.error(`Error applying meal deletion for user: ${userId}`, error);
+    }
+  }
+);
+
+/**
+ * Rebuild a user's daily summaries from their meals (admin only)
+ * Overwrites the totals for every day in the range that has meals or a
+ * summary, and recounts analytics.totalMealsLogged.
+ */
+export const recomputeDailySummaries = onCall(async (request):
+  Promise<RecomputeDailySummariesResponse> => {
+  requireAdmin(request);
+  const {userId, startDate, endDate} =
+    parseRequest(recomputeDailySummariesRequest, request.data);
+
+  if (startDate > endDate) {
+    throw new HttpsError("invalid-argument", "startDate must not be after endDate");
+  }
+  if (addDays(startDate, MAX_RECOMPUTE_DAYS - 1) < endDate) {
+    throw new HttpsError("invalid-argument",
+      `At most ${MAX_RECOMPUTE_DAYS} days can be recomputed at once`);
+  }
+
+  logger.info(`Recomputing daily summaries for user: ${userId}`, {startDate, endDate});
+
+  try {
+    const userRef = db.collection("users").doc(userId);
+    const userDoc = await userRef.get();
+    if (!userDoc.exists) {
+      throw new HttpsError("not-found", "User not found", {userId});
+    }
+    const timeZone = resolveTimeZone(userDoc.data()?.timezone);
+
+    // A day either side covers every UTC offset; meals are then bucketed
+    // by local day and anything outside the range is dropped
+    const from = new Date(`${addDays(startDate, -1)}T00:00:00Z`);
+    const to = new Date(`${addDays(endDate, 2)}T00:00:00Z`);
+    const [mealsSnapshot, summariesSnapshot, mealCount] = await Promise.all([
+      userRef.collection("meals")
+        .where("timestamp", ">=", admin.firestore.Timestamp.fromDate(from))
+        .where("timestamp", "<", admin.firestore.Timestamp.fromDate(to))
+        .get(),
+      userRef.collection("dailySummaries")
+        .where(admin.firestore.FieldPath.documentId(), ">=", startDate)
+        .where(admin.firestore.FieldPath.documentId(), "<=", endDate)
+        .get(),
+      userRef.collection("meals").count().get(),
+    ]);
+
+    const totals = aggregateMeals(
+      mealsSnapshot.docs.map((doc) => doc.data()), timeZone, new Date());
+    const days = new Set([
+      ...[...totals.keys()].filter((day) => day >= startDate && day <= endDate),
+      ...summariesSnapshot.docs.map((doc) => doc.id),
+    ]);
+
+    const batch = db.batch();
+    for (const day of days) {
+      batch.set(userRef.collection("dailySummaries").doc(day), {
+        date: day,
+        timezone: timeZone,
+        ...nestFields(totals.get(day) || emptyTotals()),
+        lastUpdated: admin.firestore.FieldValue.serverTimestamp(),
+      }, {merge: true});
+    }
+    batch.set(db.collection("analytics").doc(userId), {
+      totalMealsLogged: mealCount.data().count,
+    }, {merge: true});
+    await batch.commit();
+
+    logger.info(`Recomputed ${days.size} daily summaries for user: ${userId}`);
+
+    return {
+      success: true,
+      daysRecomputed: days.size,
+      mealsCounted: mealsSnapshot.size,
+      totalMealsLogged: mealCount.data().count,
+    };
+  } catch (error) {
+    throw callableError(error, "Failed to recompute daily summaries",
+      `Error recomputing daily summaries for user: ${userId}`);
+  }
+});
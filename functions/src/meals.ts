@@ -0,0 +1,247 @@
+/**
+ * Meal logging functions for NutriSync
+ * Computes meal nutrition on the server from the Indian food database and
+ * the user's own recipes
+ */
+
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import {HttpsError, onCall} from "firebase-functions/v2/https";
+import {callableError, requireUser} from "./callable";
+import {
+  logMealRequest,
+  LogMealResponse,
+  MealItemInput,
+  parseMealTranscriptRequest,
+  updateMealRequest,
+  UpdateMealResponse,
+} from "./contracts";
+import {loadFoodCatalog} from "./foodCatalog";
+import {mealGlycemicLoad} from "./glycemic";
+import {buildFoodIndex, FoodIndex, ParsedMeal, parseMealText} from "./mealParser";
+import {calculateMealItem, sumNutrition} from "./nutrition";
+import {IndianFood, MealItem} from "./types";
+import {parseRequest} from "./validation";
+
+const db = admin.firestore();
+
+// Rebuilt only when the food catalog cache refreshes
+let parserIndex: {foods: IndianFood[]; index: FoodIndex} | null = null;
+
+/**
+ * Compute meal items and totals from food or recipe ids and portions
+ * Unknown foods and recipes are not-found; portions or cooking methods a
+ * food does not have are invalid-argument.
+ * @param {string} userId - Owner of any recipes referenced
+ * @param {MealItemInput[]} items - Requested items
+ * @return {Promise<object>} Calculated items, summed nutrition and glycemic load
+ */
+async function calculateMeal(userId: string, items: MealItemInput[]) {
+  items.forEach((item, index) => {
+    if (!item.foodId === !item.recipeId) {
+      throw new HttpsError("invalid-argument", "Each item needs either a foodId or a recipeId",
+        {field: `items[${index}]`});
+    }
+  });
+
+  // Look up every distinct food and recipe once
+  const foodIds = [...new Set(items.flatMap((item) => item.foodId || []))];
+  const recipeIds = [...new Set(items.flatMap((item) => item.recipeId || []))];
+  const recipes = db.collection("users").doc(userId).collection("recipes");
+  const docs = await db.getAll(
+    ...foodIds.map((id) => db.collection("indianFoods").doc(id)),
+    ...recipeIds.map((id) => recipes.doc(id)));
+
+  const foods = new Map<string, IndianFood>();
+  for (const doc of docs) {
+    const isRecipe = doc.ref.parent.id === "recipes";
+    if (!doc.exists) {
+      throw new HttpsError("not-found", `${isRecipe ? "Recipe" : "Food"} not found: ${doc.id}`,
+        isRecipe ? {recipeId: doc.id} : {foodId: doc.id});
+    }
+    foods.set(doc.ref.path, {...doc.data(), id: doc.id} as IndianFood);
+  }
+
+  const entries = items.map((item, index): {item: MealItem; food: IndianFood} => {
+    const ref = item.recipeId ? recipes.doc(item.recipeId) :
+      db.collection("indianFoods").doc(item.foodId as string);
+    const food = foods.get(ref.path) as IndianFood;
+    try {
+      const mealItem = calculateMealItem(
+        food,
+        item.portionUnit,
+        item.quantity,
+        item.cookingMethod,
+      );
+      return {item: item.recipeId ? {...mealItem, recipeId: item.recipeId} : mealItem, food};
+    } catch (error) {
+      throw new HttpsError("invalid-argument", (error as Error).message,
+        {field: `items[${index}]`});
+    }
+  });
+  const glycemic = mealGlycemicLoad(entries);
+  return {
+    mealItems: glycemic.items,
+    nutrition: sumNutrition(entries.map(({item}) => item.nutrition)),
+    glycemic,
+  };
+}
+
+/**
+ * Compute and store a meal
+ * @param {string} userId - Owner
+ * @param {MealItemInput[]} items - Requested items
+ * @param {string} mealType - Meal slot, snack when absent
+ * @param {Date} eatenAt - When the meal was eaten
+ * @param {string} source - What logged it, e.g. "server" or "assistant"
+ * @return {Promise<LogMealResponse>} Stored meal id, items and totals
+ */
+export async function recordMeal(
+  userId: string,
+  items: MealItemInput[],
+  mealType: string | undefined,
+  eatenAt: Date,
+  source = "server"
+): Promise<LogMealResponse> {
+  const {mealItems, nutrition, glycemic} = await calculateMeal(userId, items);
+
+  const mealRef = db.collection("users").doc(userId)
+    .collection("meals").doc();
+  await mealRef.set({
+    mealId: mealRef.id,
+    userId: userId,
+    mealType: mealType || "snack",
+    timestamp: admin.firestore.Timestamp.fromDate(eatenAt),
+    foods: mealItems,
+    nutrition: nutrition,
+    // Flat totals read by onMealLogged for the daily summary
+    totalCalories: nutrition.calories,
+    totalProtein: nutrition.protein,
+    totalCarbs: nutrition.carbs,
+    totalFat: nutrition.fat,
+    totalFiber: nutrition.fiber,
+    totalGlycemicLoad: glycemic.glycemicLoad,
+    glycemicIndex: glycemic.glycemicIndex,
+    source: source,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  logger.info(`Meal logged for user: ${userId}`, {
+    mealId: mealRef.id,
+    calories: nutrition.calories,
+    source,
+  });
+
+  return {
+    mealId: mealRef.id,
+    items: mealItems,
+    nutrition: nutrition,
+    glycemicIndex: glycemic.glycemicIndex,
+    glycemicLoad: glycemic.glycemicLoad,
+  };
+}
+
+/**
+ * Log a meal from food or recipe ids and portions
+ * Nutrition totals are computed here instead of trusted from the client
+ */
+export const logMeal = onCall(async (request): Promise<LogMealResponse> => {
+  const userId = requireUser(request);
+  const {items, mealType, timestamp} = parseRequest(logMealRequest, request.data);
+
+  logger.info(`Logging meal for user: ${userId}`, {mealType, items});
+
+  try {
+    return await recordMeal(userId, items, mealType, timestamp || new Date());
+  } catch (error) {
+    throw callableError(error, "Failed to log meal", `Error logging meal for user: ${userId}`);
+  }
+});
+
+/**
+ * Edit a logged meal's items, meal type or time
+ * Nutrition is recomputed here; onMealUpdated moves the change into the
+ * daily summaries.
+ */
+export const updateMeal = onCall(async (request): Promise<UpdateMealResponse> => {
+  const userId = requireUser(request);
+  const {mealId, items, mealType, timestamp: eatenAt} =
+    parseRequest(updateMealRequest, request.data);
+
+  const mealRef = db.collection("users").doc(userId).collection("meals").doc(mealId);
+  const mealDoc = await mealRef.get();
+  if (!mealDoc.exists) {
+    throw new HttpsError("not-found", "Meal not found", {mealId});
+  }
+
+  logger.info(`Updating meal for user: ${userId}`, {mealId, mealType, items});
+
+  try {
+    const update: Record<string, unknown> = {
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    };
+    if (mealType) {
+      update.mealType = mealType;
+    }
+    if (eatenAt) {
+      update.timestamp = admin.firestore.Timestamp.fromDate(eatenAt);
+    }
+    if (items) {
+      const {mealItems, nutrition, glycemic} = await calculateMeal(userId, items);
+      Object.assign(update, {
+        foods: mealItems,
+        nutrition: nutrition,
+        totalCalories: nutrition.calories,
+        totalProtein: nutrition.protein,
+        totalCarbs: nutrition.carbs,
+        totalFat: nutrition.fat,
+        totalFiber: nutrition.fiber,
+        totalGlycemicLoad: glycemic.glycemicLoad,
+        glycemicIndex: glycemic.glycemicIndex,
+      });
+    }
+
+    await mealRef.update(update);
+    logger.info(`Meal updated for user: ${userId}`, {mealId});
+
+    return {success: true, mealId: mealId};
+  } catch (error) {
+    throw callableError(error, "Failed to update meal", `Error updating meal for user: ${userId}`);
+  }
+});
+
+/**
+ * Parse meal text against the food catalog
+ * @param {string} transcript - Hinglish, English or Devanagari text
+ * @return {Promise<ParsedMeal>} Items, unresolved phrases and meal type
+ */
+export async function parseTranscript(transcript: string): Promise<ParsedMeal> {
+  const foods = await loadFoodCatalog();
+  if (parserIndex?.foods !== foods) {
+    parserIndex = {foods, index: buildFoodIndex(foods)};
+  }
+  return parseMealText(transcript, parserIndex.index);
+}
+
+/**
+ * Parse a voice transcript into meal items
+ * Returns items in the shape logMeal accepts, plus phrases it could not resolve
+ */
+export const parseMealTranscript = onCall(async (request): Promise<ParsedMeal> => {
+  const userId = requireUser(request);
+  const {transcript} = parseRequest(parseMealTranscriptRequest, request.data);
+
+  try {
+    const parsed = await parseTranscript(transcript);
+
+    logger.info(`Parsed meal transcript for user: ${userId}`, {
+      itemCount: parsed.items.length,
+      unresolvedCount: parsed.unresolved.length,
+    });
+
+    return parsed;
+  } catch (error) {
+    throw callableError(error, "Failed to parse meal transcript",
+      `Error parsing meal transcript for user: ${userId}`);
+  }
+});
@@ -0,0 +1,340 @@
+/**
+ * Database migrations for NutriSync
+ * Ordered, named steps (seed data, field backfills, index rebuilds) that
+ * bring a database up to date. Each applied step is recorded in the
+ * _migrations collection, so every run only does what is still pending,
+ * and a leased lock document keeps two runs from overlapping.
+ */
+
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import {HttpsError, onCall} from "firebase-functions/v2/https";
+import {callableError, requireAdmin} from "./callable";
+import {
+  MigrationOutcome,
+  runMigrationsRequest,
+  RunMigrationsResponse,
+  SeedResponse,
+} from "./contracts";
+import {DEFAULT_FOOD_DATASET, runFoodImport} from "./foodImport";
+import {rebuildSearchIndex} from "./foods";
+import {seedEducationContent} from "./seedData";
+import {resolveTimeZone} from "./timezone";
+import {parseRequest} from "./validation";
+
+const db = admin.firestore();
+
+const MIGRATIONS_COLLECTION = "_migrations";
+
+// Lock document, kept beside the migration records
+const LOCK_ID = "_lock";
+
+// Longer than a run can last (540s timeout), so a crashed run's lock expires
+const LOCK_LEASE_MS = 15 * 60 * 1000;
+
+// Users per backfill page; two writes each stays under the batch limit
+const BACKFILL_PAGE_SIZE = 200;
+
+interface MigrationContext {
+  dryRun: boolean;
+  requestedBy: string;
+}
+
+/**
+ * One migration step
+ * Steps must be safe to run again: a step that fails part way is not
+ * recorded and runs from the start next time.
+ */
+interface Migration {
+  id: string;
+  description: string;
+  run: (context: MigrationContext) => Promise<Record<string, unknown>>;
+}
+
+/**
+ * Give every user a timezone and copy its canonical spelling onto their
+ * analytics document, which the scheduled summaries bucket users by
+ * @param {MigrationContext} context - Run context
+ * @return {Promise<Record<string, unknown>>} Users scanned and documents updated
+ */
+async function backfillTimezones(context: MigrationContext): Promise<Record<string, unknown>> {
+  let scanned = 0;
+  let usersUpdated = 0;
+  let analyticsUpdated = 0;
+  let cursor: string | null = null;
+
+  for (;;) {
+    let query = db.collection("users")
+      .orderBy(admin.firestore.FieldPath.documentId())
+      .limit(BACKFILL_PAGE_SIZE);
+    if (cursor) {
+      query = query.startAfter(cursor);
+    }
+    const page = await query.get();
+    if (page.empty) {
+      break;
+    }
+
+    const analyticsRefs = page.docs.map((doc) => db.collection("analytics").doc(doc.id));
+    const analyticsDocs = await db.getAll(...analyticsRefs);
+
+    const batch = db.batch();
+    let writes = 0;
+    page.docs.forEach((userDoc, i) => {
+      const timezone = resolveTimeZone(userDoc.data().timezone);
+      if (!userDoc.data().timezone) {
+        batch.update(userDoc.ref, {timezone});
+        usersUpdated++;
+        writes++;
+      }
+      if (analyticsDocs[i].data()?.timezone !== timezone) {
+        batch.set(analyticsRefs[i], {userId: userDoc.id, timezone}, {merge: true});
+        analyticsUpdated++;
+        writes++;
+      }
+    });
+    if (writes && !context.dryRun) {
+      await batch.commit();
+    }
+
+    scanned += page.size;
+    cursor = page.docs[page.size - 1].id;
+  }
+
+  return {scanned, usersUpdated, analyticsUpdated};
+}
+
+/**
+ * All migrations, in the order they apply; append new steps at the end
+ * and never rename or reorder applied ones
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    id: "001_seed_indian_foods",
+    description: `Import the bundled food dataset (${DEFAULT_FOOD_DATASET})`,
+    run: async ({dryRun, requestedBy}) => {
+      const report = await runFoodImport(DEFAULT_FOOD_DATASET, dryRun, requestedBy);
+      return {
+        importId: report.importId,
+        added: report.added.length,
+        changed: report.changed.length,
+        unchanged: report.unchanged,
+        rejected: report.rejected.length,
+      };
+    },
+  },
+  {
+    id: "002_seed_cooking_education",
+    description: "Create the built-in cooking education content",
+    run: ({dryRun}) => seedEducationContent(dryRun),
+  },
+  {
+    id: "003_backfill_user_timezones",
+    description: "Backfill users.timezone and analytics.timezone",
+    run: backfillTimezones,
+  },
+  {
+    id: "004_rebuild_food_search_index",
+    description: "Rebuild foodSearchIndex from indianFoods",
+    run: ({dryRun}) => rebuildSearchIndex(dryRun),
+  },
+  {
+    id: "005_seed_targeted_cooking_tips",
+    description: "Create the cooking education content added for getCookingTips",
+    run: ({dryRun}) => seedEducationContent(dryRun),
+  },
+];
+
+/**
+ * Take the migration lock, or fail when another run holds it
+ * @param {string} runId - This run
+ * @param {string} requestedBy - Admin uid
+ */
+async function acquireLock(runId: string, requestedBy: string): Promise<void> {
+  const lockRef = db.collection(MIGRATIONS_COLLECTION).doc(LOCK_ID);
+  await db.runTransaction(async (transaction) => {
+    const lock = await transaction.get(lockRef);
+    const expiresAt = lock.data()?.expiresAt as admin.firestore.Timestamp | undefined;
+    if (lock.exists && expiresAt && expiresAt.toMillis() > Date.now()) {
+      throw new HttpsError("aborted", "Migrations are already running", {
+        runId: lock.data()?.runId,
+        expiresAt: expiresAt.toDate().toISOString(),
+      });
+    }
+    transaction.set(lockRef, {
+      runId,
+      requestedBy,
+      acquiredAt: admin.firestore.FieldValue.serverTimestamp(),
+      expiresAt: admin.firestore.Timestamp.fromMillis(Date.now() + LOCK_LEASE_MS),
+    });
+  });
+}
+
+/**
+ * Extend the lock's lease before a step; fails if the lock was lost
+ * @param {string} runId - This run
+ */
+async function renewLock(runId: string): Promise<void> {
+  const lockRef = db.collection(MIGRATIONS_COLLECTION).doc(LOCK_ID);
+  await db.runTransaction(async (transaction) => {
+    const lock = await transaction.get(lockRef);
+    if (lock.data()?.runId !== runId) {
+      throw new Error(`Migration lock lost by run: ${runId}`);
+    }
+    transaction.update(lockRef, {
+      expiresAt: admin.firestore.Timestamp.fromMillis(Date.now() + LOCK_LEASE_MS),
+    });
+  });
+}
+
+/**
+ * Release the lock if this run still holds it
+ * @param {string} runId - This run
+ */
+async function releaseLock(runId: string): Promise<void> {
+  const lockRef = db.collection(MIGRATIONS_COLLECTION).doc(LOCK_ID);
+  await db.runTransaction(async (transaction) => {
+    const lock = await transaction.get(lockRef);
+    if (lock.data()?.runId === runId) {
+      transaction.delete(lockRef);
+    }
+  });
+}
+
+/**
+ * Run pending migrations in order, stopping at the first failure
+ * A dry run reports what each pending step would do against the current
+ * data, without the effect of the steps before it, and takes no lock.
+ * @param {object} options - Dry run, last migration to run and requesting admin
+ * @return {Promise<RunMigrationsResponse>} What ran and what is still pending
+ */
+export async function runPendingMigrations(options: {
+  dryRun: boolean;
+  target?: string;
+  requestedBy: string;
+}): Promise<RunMigrationsResponse> {
+  const {dryRun, target, requestedBy} = options;
+  const last = target ? MIGRATIONS.findIndex((migration) => migration.id === target) :
+    MIGRATIONS.length - 1;
+  if (last < 0) {
+    throw new HttpsError("invalid-argument", `Unknown migration: ${target}`, {field: "target"});
+  }
+
+  const collection = db.collection(MIGRATIONS_COLLECTION);
+  const runId = collection.doc().id;
+  if (!dryRun) {
+    await acquireLock(runId, requestedBy);
+  }
+
+  const inScope = MIGRATIONS.slice(0, last + 1);
+  const outcomes: MigrationOutcome[] = [];
+  const applied = new Set<string>();
+  try {
+    const records = await collection.where("status", "==", "applied").get();
+    records.docs.forEach((doc) => applied.add(doc.id));
+
+    const pending = inScope.filter((migration) => !applied.has(migration.id));
+    for (const migration of pending) {
+      const startedAt = Date.now();
+      const outcome: MigrationOutcome = {
+        id: migration.id,
+        description: migration.description,
+        status: dryRun ? "planned" : "applied",
+        durationMs: 0,
+      };
+      outcomes.push(outcome);
+
+      try {
+        if (!dryRun) {
+          await renewLock(runId);
+        }
+        outcome.result = await migration.run({dryRun, requestedBy});
+        outcome.durationMs = Date.now() - startedAt;
+      } catch (error) {
+        outcome.status = "failed";
+        outcome.error = (error as Error).message;
+        outcome.durationMs = Date.now() - startedAt;
+        logger.error(`Migration failed: ${migration.id}`, error);
+      }
+
+      if (!dryRun) {
+        await collection.doc(migration.id).set({
+          ...outcome,
+          runId,
+          requestedBy,
+          [outcome.status === "failed" ? "failedAt" : "appliedAt"]:
+            admin.firestore.FieldValue.serverTimestamp(),
+        });
+        if (outcome.status === "applied") {
+          applied.add(migration.id);
+          logger.info(`Migration applied: ${migration.id}`, outcome.result);
+        }
+      }
+      // Later steps may rely on this one
+      if (outcome.status === "failed") {
+        break;
+      }
+    }
+  } finally {
+    if (!dryRun) {
+      await releaseLock(runId);
+    }
+  }
+
+  const failed = outcomes.some((outcome) => outcome.status === "failed");
+  return {
+    runId,
+    dryRun,
+    version: [...MIGRATIONS].reverse()
+      .find((migration) => applied.has(migration.id))?.id || null,
+    outcomes,
+    pending: MIGRATIONS.map((migration) => migration.id).filter((id) => !applied.has(id)),
+    complete: !failed && (dryRun || inScope.every((migration) => applied.has(migration.id))),
+  };
+}
+
+/**
+ * Run or dry-run pending migrations (admin only)
+ * Pass target to stop after a given migration
+ */
+export const runMigrations = onCall({timeoutSeconds: 540}, async (request):
+  Promise<RunMigrationsResponse> => {
+  const adminId = requireAdmin(request);
+  const {dryRun, target} = parseRequest(runMigrationsRequest, request.data);
+
+  try {
+    return await runPendingMigrations({dryRun: dryRun === true, target, requestedBy: adminId});
+  } catch (error) {
+    throw callableError(error, "Failed to run migrations", "Error running migrations");
+  }
+});
+
+/**
+ * Initialize complete database with all seed data
+ * Applies whatever migrations are pending; already applied ones are skipped
+ */
+export const initializeDatabase = onCall({timeoutSeconds: 540}, async (request):
+  Promise<SeedResponse> => {
+  // Only allow admin users to initialize database
+  const adminId = requireAdmin(request);
+
+  logger.info("Starting complete database initialization");
+
+  try {
+    const result = await runPendingMigrations({dryRun: false, requestedBy: adminId});
+    const failed = result.outcomes.find((outcome) => outcome.status === "failed");
+    const message = failed ?
+      `Database initialization stopped at ${failed.id}: ${failed.error}` :
+      `Database initialized at version ${result.version} ` +
+        `(${result.outcomes.length} migrations applied)`;
+    logger.info(message, {runId: result.runId});
+
+    return {
+      success: !failed,
+      message: message,
+      count: result.outcomes.filter((outcome) => outcome.status === "applied").length,
+    };
+  } catch (error) {
+    throw callableError(error, "Failed to initialize database", "Error initializing database");
+  }
+});
@@ -0,0 +1,210 @@
+/**
+ * Notification preferences and push text for NutriSync
+ * Decides whether a notification may be pushed now, when quiet hours end,
+ * and what the push says in the user's language.
+ */
+
+import {nutrientLabel} from "./nutrientGaps";
+import {localMinutes} from "./timezone";
+
+export const NOTIFICATION_LANGUAGES = ["english", "hindi", "hinglish"] as const;
+export type NotificationLanguage = typeof NOTIFICATION_LANGUAGES[number];
+
+export interface NotificationPreferences {
+  // Master switch for push delivery; notifications are still stored
+  pushEnabled: boolean;
+  // Per-type switches; types not listed are on
+  types: Record<string, boolean>;
+  // Local "HH:MM" times; a window past midnight (22:00-07:00) is allowed
+  quietHours: {start: string; end: string} | null;
+  language: NotificationLanguage;
+}
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  pushEnabled: true,
+  types: {},
+  quietHours: {start: "22:00", end: "07:00"},
+  language: "hinglish",
+};
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+/**
+ * Validate a preferences update from the app
+ * @param {unknown} input - Partial preferences
+ * @return {string | null} Error message, or null when valid
+ */
+export function validatePreferences(input: unknown): string | null {
+  if (!input || typeof input !== "object") {
+    return "Preferences must be an object";
+  }
+  const prefs = input as Record<string, unknown>;
+  if (prefs.pushEnabled !== undefined && typeof prefs.pushEnabled !== "boolean") {
+    return "pushEnabled must be a boolean";
+  }
+  if (prefs.types !== undefined) {
+    if (!prefs.types || typeof prefs.types !== "object" ||
+      Object.values(prefs.types).some((value) => typeof value !== "boolean")) {
+      return "types must map notification types to booleans";
+    }
+  }
+  if (prefs.quietHours !== undefined && prefs.quietHours !== null) {
+    const quietHours = prefs.quietHours as Record<string, unknown>;
+    if (typeof quietHours !== "object" ||
+      !TIME_OF_DAY.test(String(quietHours.start)) ||
+      !TIME_OF_DAY.test(String(quietHours.end))) {
+      return "quietHours needs start and end as HH:MM";
+    }
+  }
+  if (prefs.language !== undefined &&
+    !(NOTIFICATION_LANGUAGES as readonly unknown[]).includes(prefs.language)) {
+    return `language must be one of ${NOTIFICATION_LANGUAGES.join(", ")}`;
+  }
+  return null;
+}
+
+/**
+ * Stored preferences with defaults filled in
+ * The profile's preferredLanguage applies until a language is chosen here.
+ * @param {unknown} stored - users/{userId}.notificationPreferences
+ * @param {string} preferredLanguage - Profile language
+ * @return {NotificationPreferences} Effective preferences
+ */
+export function resolvePreferences(
+  stored: unknown,
+  preferredLanguage?: string
+): NotificationPreferences {
+  const prefs = (stored && typeof stored === "object" ? stored : {}) as
+    Partial<NotificationPreferences>;
+  const profileLanguage = (preferredLanguage || "").toLowerCase();
+  const language = NOTIFICATION_LANGUAGES.find((lang) => lang === prefs.language) ||
+    NOTIFICATION_LANGUAGES.find((lang) => lang === profileLanguage) ||
+    DEFAULT_NOTIFICATION_PREFERENCES.language;
+  return {
+    pushEnabled: prefs.pushEnabled ?? DEFAULT_NOTIFICATION_PREFERENCES.pushEnabled,
+    types: {...(prefs.types || {})},
+    quietHours: prefs.quietHours === undefined ?
+      DEFAULT_NOTIFICATION_PREFERENCES.quietHours :
+      prefs.quietHours,
+    language,
+  };
+}
+
+/**
+ * Parse "HH:MM" into minutes since midnight
+ * @param {string} time - Time of day
+ * @return {number} Minutes
+ */
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Minutes until quiet hours end, or 0 when it is not quiet now
+ * @param {Date} now - Current instant
+ * @param {NotificationPreferences} prefs - User preferences
+ * @param {string} timeZone - User's timezone
+ * @return {number} Minutes to wait before pushing
+ */
+export function minutesUntilQuietHoursEnd(
+  now: Date,
+  prefs: NotificationPreferences,
+  timeZone: string
+): number {
+  if (!prefs.quietHours) return 0;
+  const start = toMinutes(prefs.quietHours.start);
+  const end = toMinutes(prefs.quietHours.end);
+  if (start === end) return 0;
+
+  const current = localMinutes(now, timeZone);
+  const quiet = start < end ?
+    current >= start && current < end :
+    current >= start || current < end;
+  return quiet ? (end - current + 24 * 60) % (24 * 60) : 0;
+}
+
+type Template = (data: Record<string, unknown>) => {title: string; body: string};
+
+// Push text for scheduled notification types; other types use their stored text
+const TEMPLATES: Record<string, Partial<Record<NotificationLanguage, Template>>> = {
+  daily_summary: {
+    hindi: (data) => ({
+      title: "आपका दैनिक पोषण सारांश",
+      body: `कल आपने ${data.mealCount || 0} भोजन में ` +
+        `${Math.round(Number(data.totalCalories) || 0)} कैलोरी लीं।`,
+    }),
+    hinglish: (data) => ({
+      title: "Aapka daily nutrition summary",
+      body: `Kal aapne ${data.mealCount || 0} meals mein ` +
+        `${Math.round(Number(data.totalCalories) || 0)} calories li.`,
+    }),
+  },
+  weekly_report: {
+    hindi: (data) => ({
+      title: "आपकी साप्ताहिक प्रगति",
+      body: `पिछले हफ़्ते आपने 7 में से ${data.daysLogged || 0} दिन भोजन दर्ज किया।`,
+    }),
+    hinglish: (data) => ({
+      title: "Aapki weekly progress",
+      body: `Pichhle hafte aapne 7 mein se ${data.daysLogged || 0} din meals log kiye.`,
+    }),
+  },
+  glycemic_feedback: {
+    hindi: (data) => {
+      const swap = data.swap as {with: {name: string}; replace: {name: string}} | null;
+      return {
+        title: "इस भोजन का ग्लाइसेमिक लोड ज़्यादा है",
+        body: `ग्लाइसेमिक लोड ${Math.round(Number(data.glycemicLoad) || 0)} है, ` +
+          `आपकी सीमा ${data.limit} है।` +
+          (swap ? ` अगली बार ${swap.replace.name} की जगह ${swap.with.name} लें।` : ""),
+      };
+    },
+    hinglish: (data) => {
+      const swap = data.swap as {with: {name: string}; replace: {name: string}} | null;
+      return {
+        title: "Is meal ka glycemic load zyada hai",
+        body: `Glycemic load ${Math.round(Number(data.glycemicLoad) || 0)} hai, ` +
+          `aapki limit ${data.limit} hai.` +
+          (swap ? ` Agli baar ${swap.replace.name} ki jagah ${swap.with.name} try karo!` : ""),
+      };
+    },
+  },
+  nutrient_gap: {
+    hindi: (data) => ({
+      title: `${nutrientLabel(String(data.nutrient), "hindi")} कम है`,
+      body: `${data.days} दिन से आपका ` +
+        `${nutrientLabel(String(data.nutrient), "hindi")} ज़रूरत के 50% से कम है। ` +
+        `${(data.foods as string[] | undefined)?.join(" या ") || "अलग-अलग भोजन"} ` +
+        "खाकर देखें।",
+    }),
+    hinglish: (data) => ({
+      title: `${nutrientLabel(String(data.nutrient), "hinglish").replace(/^./,
+        (first) => first.toUpperCase())} kam hai`,
+      body: `${data.days} din se aapka ` +
+        `${nutrientLabel(String(data.nutrient), "hinglish")} 50% se kam hai. ` +
+        `${(data.foods as string[] | undefined)?.join(" ya ") || "Alag-alag khana"} ` +
+        "try karo!",
+    }),
+  },
+};
+
+/**
+ * Title and body to push for a notification in the user's language
+ * @param {Record<string, unknown>} notification - Notification document
+ * @param {NotificationLanguage} language - Preferred language
+ * @return {object} Push title and body
+ */
+export function pushText(
+  notification: Record<string, unknown>,
+  language: NotificationLanguage
+): {title: string; body: string} {
+  const template = TEMPLATES[String(notification.type)]?.[language];
+  if (template) {
+    return template((notification.data as Record<string, unknown>) || {});
+  }
+  return {
+    title: String(notification.title || "NutriSync"),
+    body: String(notification.message || ""),
+  };
+}
@@ -0,0 +1,343 @@
+/**
+ * Push notification functions for NutriSync
+ * Registers device tokens, stores notification preferences and pushes new
+ * users/{userId}/notifications documents to the user's devices over FCM,
+ * recording a delivery status on each notification.
+ */
+
+import * as crypto from "crypto";
+import * as admin from "firebase-admin";
+import {getFunctions} from "firebase-admin/functions";
+import * as logger from "firebase-functions/logger";
+import {onCall} from "firebase-functions/v2/https";
+import {onDocumentCreated} from "firebase-functions/v2/firestore";
+import {onTaskDispatched} from "firebase-functions/v2/tasks";
+import {callableError, requireUser} from "./callable";
+import {
+  registerDeviceTokenRequest,
+  SuccessResponse,
+  unregisterDeviceTokenRequest,
+  updateNotificationPreferencesRequest,
+  UpdatePreferencesResponse,
+} from "./contracts";
+import {
+  minutesUntilQuietHoursEnd,
+  pushText,
+  resolvePreferences,
+} from "./notificationPolicy";
+import {resolveTimeZone} from "./timezone";
+import {parseRequest} from "./validation";
+
+const db = admin.firestore();
+
+// Oldest devices are dropped beyond this; one multicast covers them all
+const MAX_DEVICES_PER_USER = 10;
+
+// Tokens FCM will never accept again
+const INVALID_TOKEN_CODES = [
+  "messaging/registration-token-not-registered",
+  "messaging/invalid-registration-token",
+];
+
+// Task-queue function that pushes notifications held for quiet hours
+const DELIVERY_WORKER = "deliverNotification";
+
+export type MessagingClient = Pick<admin.messaging.Messaging, "sendEachForMulticast">;
+
+let messagingClient: MessagingClient | null = null;
+
+/**
+ * Replace the FCM client, e.g. with a stub in emulator tests
+ * @param {MessagingClient | null} client - Client to use; null restores FCM
+ */
+export function setMessagingClient(client: MessagingClient | null): void {
+  messagingClient = client;
+}
+
+/**
+ * The FCM client in use
+ * @return {MessagingClient} Messaging client
+ */
+function messaging(): MessagingClient {
+  return messagingClient || admin.messaging();
+}
+
+/**
+ * Stable document id for a device token (tokens can be long and contain ':')
+ * @param {string} token - FCM registration token
+ * @return {string} Document id
+ */
+function tokenId(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Register the calling device for push notifications
+ */
+export const registerDeviceToken = onCall(async (request): Promise<SuccessResponse> => {
+  const userId = requireUser(request);
+  const {token, platform} = parseRequest(registerDeviceTokenRequest, request.data);
+
+  try {
+    const devices = db.collection("users").doc(userId).collection("deviceTokens");
+    await devices.doc(tokenId(token)).set({
+      token: token,
+      platform: platform || "unknown",
+      lastSeenAt: admin.firestore.FieldValue.serverTimestamp(),
+    }, {merge: true});
+
+    // Keep only the most recently seen devices
+    const stale = await devices.orderBy("lastSeenAt", "desc")
+      .offset(MAX_DEVICES_PER_USER).get();
+    if (!stale.empty) {
+      const batch = db.batch();
+      stale.docs.forEach((doc) => batch.delete(doc.ref));
+      await batch.commit();
+    }
+
+    logger.info(`Device token registered for user: ${userId}`, {
+      platform,
+      removed: stale.size,
+    });
+    return {success: true};
+  } catch (error) {
+    throw callableError(error, "Failed to register device token",
+      `Error registering device token for user: ${userId}`);
+  }
+});
+
+/**
+ * Stop pushing to a device, e.g. on sign-out
+ */
+export const unregisterDeviceToken = onCall(async (request): Promise<SuccessResponse> => {
+  const userId = requireUser(request);
+  const {token} = parseRequest(unregisterDeviceTokenRequest, request.data);
+
+  try {
+    await db.collection("users").doc(userId)
+      .collection("deviceTokens").doc(tokenId(token)).delete();
+    return {success: true};
+  } catch (error) {
+    throw callableError(error, "Failed to unregister device token",
+      `Error unregistering device token for user: ${userId}`);
+  }
+});
+
+/**
+ * Update which notifications are pushed, quiet hours and language
+ */
+export const updateNotificationPreferences = onCall(async (request):
+  Promise<UpdatePreferencesResponse> => {
+  const userId = requireUser(request);
+  const update = parseRequest(updateNotificationPreferencesRequest, request.data);
+
+  try {
+    const userRef = db.collection("users").doc(userId);
+    const userDoc = await userRef.get();
+    const current = userDoc.data()?.notificationPreferences || {};
+
+    const preferences = resolvePreferences({
+      ...current,
+      ...update,
+      types: {...(current.types || {}), ...(update.types || {})},
+    }, userDoc.data()?.preferredLanguage);
+
+    await userRef.set({notificationPreferences: preferences}, {merge: true});
+    logger.info(`Notification preferences updated for user: ${userId}`);
+
+    return {preferences};
+  } catch (error) {
+    throw callableError(error, "Failed to update notification preferences",
+      `Error updating notification preferences for user: ${userId}`);
+  }
+});
+
+/**
+ * Claim a notification for delivery
+ * Guards against duplicate trigger deliveries and retried tasks.
+ * @param {admin.firestore.DocumentReference} ref - Notification document
+ * @param {Array<string | undefined>} fromStatuses - Statuses that may be delivered
+ * @return {Promise<Record<string, unknown> | null>} Notification data, or null
+ */
+async function claimDelivery(
+  ref: admin.firestore.DocumentReference,
+  fromStatuses: Array<string | undefined>
+): Promise<Record<string, unknown> | null> {
+  return db.runTransaction(async (transaction) => {
+    const doc = await transaction.get(ref);
+    if (!doc.exists || !fromStatuses.includes(doc.data()?.delivery?.status)) {
+      return null;
+    }
+    transaction.update(ref, {
+      "delivery.status": "sending",
+      "delivery.updatedAt": admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return doc.data() as Record<string, unknown>;
+  });
+}
+
+/**
+ * Push a claimed notification, or hold or skip it per the user's preferences
+ * @param {string} userId - User id
+ * @param {admin.firestore.DocumentReference} ref - Notification document
+ * @param {Record<string, unknown>} notification - Notification data
+ */
+async function deliver(
+  userId: string,
+  ref: admin.firestore.DocumentReference,
+  notification: Record<string, unknown>
+): Promise<void> {
+  const setDelivery = (delivery: Record<string, unknown>) => ref.update({
+    delivery: {...delivery, updatedAt: admin.firestore.FieldValue.serverTimestamp()},
+  });
+
+  const userRef = db.collection("users").doc(userId);
+  const [userDoc, devices] = await Promise.all([
+    userRef.get(),
+    userRef.collection("deviceTokens").get(),
+  ]);
+  const prefs = resolvePreferences(
+    userDoc.data()?.notificationPreferences, userDoc.data()?.preferredLanguage);
+  const type = String(notification.type || "general");
+
+  if (!prefs.pushEnabled || prefs.types[type] === false) {
+    await setDelivery({status: "skipped", reason: "disabled_by_user"});
+    return;
+  }
+
+  const now = new Date();
+  const wait = minutesUntilQuietHoursEnd(now, prefs, resolveTimeZone(userDoc.data()?.timezone));
+  if (wait > 0) {
+    const scheduledFor = new Date(now.getTime() + wait * 60 * 1000);
+    try {
+      await getFunctions().taskQueue(DELIVERY_WORKER).enqueue(
+        {userId, notificationId: ref.id},
+        {
+          scheduleTime: scheduledFor,
+          id: `${userId}-${ref.id}-${scheduledFor.getTime()}`.replace(/[^A-Za-z0-9_-]/g, "-"),
+        });
+    } catch (error) {
+      if ((error as {code?: string}).code !== "functions/task-already-exists") {
+        throw error;
+      }
+    }
+    await setDelivery({
+      status: "scheduled",
+      reason: "quiet_hours",
+      scheduledFor: admin.firestore.Timestamp.fromDate(scheduledFor),
+    });
+    return;
+  }
+
+  if (devices.empty) {
+    await setDelivery({status: "skipped", reason: "no_devices"});
+    return;
+  }
+
+  const {title, body} = pushText(notification, prefs.language);
+  const tokens = devices.docs.map((doc) => doc.data().token as string);
+  const response = await messaging().sendEachForMulticast({
+    tokens,
+    notification: {title, body},
+    data: {
+      notificationId: ref.id,
+      type,
+      ...(typeof (notification.data as {reportId?: unknown})?.reportId === "string" && {
+        reportId: (notification.data as {reportId: string}).reportId,
+      }),
+    },
+  });
+
+  const invalid = response.responses
+    .map((result, index) => ({result, doc: devices.docs[index]}))
+    .filter(({result}) => !result.success &&
+      INVALID_TOKEN_CODES.includes(result.error?.code || ""));
+
+  let status = "sent";
+  if (response.successCount === 0) {
+    status = "failed";
+  } else if (response.failureCount > 0) {
+    status = "partial";
+  }
+
+  // The push has gone out: errors from here on are logged, not thrown, so a
+  // retried task cannot push it again
+  try {
+    await setDelivery({
+      status,
+      successCount: response.successCount,
+      failureCount: response.failureCount,
+      prunedTokens: invalid.length,
+      language: prefs.language,
+      sentAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    // Drop tokens FCM rejected as unregistered or malformed
+    if (invalid.length) {
+      const batch = db.batch();
+      invalid.forEach(({doc}) => batch.delete(doc.ref));
+      await batch.commit();
+    }
+  } catch (error) {
+    logger.error(`Error recording pushed notification for user: ${userId}`,
+      {notificationId: ref.id, status}, error);
+    return;
+  }
+
+  logger.info(`Notification pushed for user: ${userId}`, {
+    notificationId: ref.id,
+    status,
+    pruned: invalid.length,
+  });
+}
+
+/**
+ * Push new notifications to the user's devices
+ * Rewrites of an existing notification (same id) are not pushed again
+ */
+export const onNotificationCreated = onDocumentCreated(
+  "users/{userId}/notifications/{notificationId}",
+  async (event) => {
+    const userId = event.params.userId;
+    const ref = db.collection("users").doc(userId)
+      .collection("notifications").doc(event.params.notificationId);
+
+    try {
+      const notification = await claimDelivery(ref, [undefined]);
+      if (notification) {
+        await deliver(userId, ref, notification);
+      }
+    } catch (error) {
+      logger.error(`Error pushing notification for user: ${userId}`, error);
+      await ref.update({
+        "delivery.status": "failed",
+        "delivery.reason": "error",
+        "delivery.updatedAt": admin.firestore.FieldValue.serverTimestamp(),
+      }).catch(() => undefined);
+    }
+  }
+);
+
+/**
+ * Push a notification that was held until quiet hours ended
+ */
+export const deliverNotification = onTaskDispatched<{userId: string; notificationId: string}>({
+  retryConfig: {maxAttempts: 3, minBackoffSeconds: 60},
+}, async (request) => {
+  const {userId, notificationId} = request.data;
+  const ref = db.collection("users").doc(userId)
+    .collection("notifications").doc(notificationId);
+
+  const notification = await claimDelivery(ref, ["scheduled"]);
+  if (!notification) {
+    return;
+  }
+  try {
+    await deliver(userId, ref, notification);
+  } catch (error) {
+    // deliver() only throws before the push is sent; release the claim so
+    // the queue's retry can deliver it
+    await ref.update({"delivery.status": "scheduled"});
+    throw error;
+  }
+});
@@ -0,0 +1,259 @@
+/**
+ * Micronutrient gap analysis for NutriSync
+ * Compares rolling 7- and 30-day intake from dailySummaries with the
+ * user's RDA, finds nutrients that have stayed low day after day and
+ * picks catalog foods that are dense in them.
+ */
+
+import {SUMMARY_MICRONUTRIENTS} from "./dailySummary";
+import type {NotificationLanguage} from "./notificationPolicy";
+import {round2} from "./nutrition";
+import {NutritionTargets} from "./nutritionTargets";
+import {addDays} from "./timezone";
+import {IndianFood} from "./types";
+
+export const GAP_WINDOWS = [7, 30] as const;
+
+// Below this share of the RDA a day counts towards a deficiency streak
+export const DEFICIENT_PERCENT = 50;
+const LOW_PERCENT = 75;
+
+// Logged days a window needs before its average means anything
+const MIN_DAYS_LOGGED = 3;
+
+// Days in a row under DEFICIENT_PERCENT before the user is told
+export const ALERT_STREAK_DAYS = 7;
+
+// A suggested food's portion must give at least this share of the RDA
+const MIN_PORTION_SHARE = 0.1;
+
+export type NutrientGroup = "vitamins" | "minerals" | "fiber";
+export type NutrientStatus = "deficient" | "low" | "ok" | "unknown";
+
+export interface WindowIntake {
+  days: number;
+  daysLogged: number;
+  // Mean over logged days; null when fewer than MIN_DAYS_LOGGED were logged
+  average: number | null;
+  percent: number | null;
+}
+
+export interface NutrientGap {
+  nutrient: string;
+  group: NutrientGroup;
+  unit: "mg" | "µg" | "g";
+  rda: number;
+  windows: Record<`${typeof GAP_WINDOWS[number]}d`, WindowIntake>;
+  // Logged days in a row, up to the last day analyzed, under DEFICIENT_PERCENT
+  lowStreak: number;
+  // From the 7-day window
+  status: NutrientStatus;
+}
+
+export interface SuggestedFood {
+  foodId: string;
+  name: string;
+  // Amount in one standard portion
+  amountPerPortion: number;
+  percentOfRda: number;
+}
+
+// Vitamins the dataset measures in µg; everything else is mg
+const MICROGRAM_VITAMINS = new Set(["A", "B12", "D", "folate"]);
+
+const LABELS: Record<string, {english: string; hindi: string}> = {
+  "fiber": {english: "fiber", hindi: "फाइबर"},
+  "A": {english: "vitamin A", hindi: "विटामिन A"},
+  "B1": {english: "vitamin B1", hindi: "विटामिन B1"},
+  "B6": {english: "vitamin B6", hindi: "विटामिन B6"},
+  "B12": {english: "vitamin B12", hindi: "विटामिन B12"},
+  "C": {english: "vitamin C", hindi: "विटामिन C"},
+  "D": {english: "vitamin D", hindi: "विटामिन D"},
+  "folate": {english: "folate", hindi: "फोलेट"},
+  "iron": {english: "iron", hindi: "आयरन"},
+  "calcium": {english: "calcium", hindi: "कैल्शियम"},
+  "zinc": {english: "zinc", hindi: "ज़िंक"},
+  "magnesium": {english: "magnesium", hindi: "मैग्नीशियम"},
+  "potassium": {english: "potassium", hindi: "पोटैशियम"},
+};
+
+/**
+ * Name of a nutrient for user-facing text
+ * Hinglish uses the English names, as people say them.
+ * @param {string} nutrient - Nutrient key, e.g. "iron" or "B12"
+ * @param {NotificationLanguage} language - Language
+ * @return {string} Label
+ */
+export function nutrientLabel(nutrient: string, language: NotificationLanguage): string {
+  const label = LABELS[nutrient];
+  if (!label) return nutrient;
+  return language === "hindi" ? label.hindi : label.english;
+}
+
+/**
+ * Amount of a nutrient recorded in a daily summary or a food's nutrition
+ * @param {Record<string, unknown>} source - Summary or NutritionInfo
+ * @param {NutrientGroup} group - Nutrient group
+ * @param {string} nutrient - Nutrient key
+ * @param {string} fiberField - Where fiber is stored in the source
+ * @return {number | undefined} Amount, or undefined when not recorded
+ */
+function amountOf(
+  source: Record<string, unknown>,
+  group: NutrientGroup,
+  nutrient: string,
+  fiberField: string
+): number | undefined {
+  const value = group === "fiber" ?
+    source[fiberField] :
+    (source[group] as Record<string, unknown> | undefined)?.[nutrient];
+  return value === undefined || value === null ? undefined : Number(value) || 0;
+}
+
+/**
+ * Nutrients with an RDA to reach; sodium is a limit and is left out
+ * @param {NutritionTargets} targets - User's targets
+ * @return {Array<object>} Group, nutrient and RDA
+ */
+function trackedNutrients(
+  targets: Pick<NutritionTargets, "fiber" | "vitamins" | "minerals">
+): Array<{group: NutrientGroup; nutrient: string; rda: number}> {
+  const tracked: Array<{group: NutrientGroup; nutrient: string; rda: number}> = [];
+  if (targets.fiber > 0) {
+    tracked.push({group: "fiber", nutrient: "fiber", rda: targets.fiber});
+  }
+  for (const group of ["vitamins", "minerals"] as const) {
+    for (const nutrient of SUMMARY_MICRONUTRIENTS[group]) {
+      const rda = targets[group]?.[nutrient];
+      if (rda && rda > 0) {
+        tracked.push({group, nutrient, rda});
+      }
+    }
+  }
+  return tracked;
+}
+
+/**
+ * Status from the share of the RDA reached
+ * @param {number | null} percent - Percent of RDA
+ * @return {NutrientStatus} Status
+ */
+function statusFor(percent: number | null): NutrientStatus {
+  if (percent === null) return "unknown";
+  if (percent < DEFICIENT_PERCENT) return "deficient";
+  if (percent < LOW_PERCENT) return "low";
+  return "ok";
+}
+
+/**
+ * Rolling intake of each micronutrient and fiber against the RDA
+ * Only days with meals count, and a day summarized before micronutrients
+ * were recorded says nothing about them, so it is skipped too.
+ * @param {Map<string, Record<string, unknown>>} summaries - dailySummaries by date key
+ * @param {string} lastDay - Last complete day to include
+ * @param {NutritionTargets} targets - User's targets
+ * @return {NutrientGap[]} One entry per nutrient, in dataset order
+ */
+export function analyzeNutrientGaps(
+  summaries: Map<string, Record<string, unknown>>,
+  lastDay: string,
+  targets: Pick<NutritionTargets, "fiber" | "vitamins" | "minerals">
+): NutrientGap[] {
+  const longest = Math.max(...GAP_WINDOWS);
+  // Most recent first
+  const days = Array.from({length: longest}, (_, i) => addDays(lastDay, -i));
+
+  return trackedNutrients(targets).map(({group, nutrient, rda}) => {
+    const intake = days.map((day) => {
+      const summary = summaries.get(day);
+      if (!summary || !(Number(summary.mealCount) > 0)) return undefined;
+      return amountOf(summary, group, nutrient, "totalFiber");
+    });
+
+    const windows = {} as NutrientGap["windows"];
+    for (const length of GAP_WINDOWS) {
+      const logged = intake.slice(0, length).filter((value): value is number =>
+        value !== undefined);
+      const average = logged.length >= MIN_DAYS_LOGGED ?
+        round2(logged.reduce((sum, value) => sum + value, 0) / logged.length) :
+        null;
+      windows[`${length}d`] = {
+        days: length,
+        daysLogged: logged.length,
+        average,
+        percent: average === null ? null : Math.round(average / rda * 100),
+      };
+    }
+
+    let lowStreak = 0;
+    for (const value of intake) {
+      if (value === undefined) continue;
+      if (value / rda * 100 >= DEFICIENT_PERCENT) break;
+      lowStreak++;
+    }
+
+    return {
+      nutrient,
+      group,
+      unit: group === "fiber" ? "g" : MICROGRAM_VITAMINS.has(nutrient) ? "µg" : "mg",
+      rda,
+      windows,
+      lowStreak,
+      status: statusFor(windows["7d"].percent),
+    };
+  });
+}
+
+/**
+ * The gap worth telling the user about, if any
+ * The longest streak wins; ties go to the lower 7-day share.
+ * @param {NutrientGap[]} gaps - Analysis
+ * @param {Set<string>} skip - Nutrients already alerted on
+ * @return {NutrientGap | null} Gap to alert on
+ */
+export function worstGap(gaps: NutrientGap[], skip: Set<string> = new Set()): NutrientGap | null {
+  const candidates = gaps
+    .filter((gap) => gap.lowStreak >= ALERT_STREAK_DAYS && !skip.has(gap.nutrient))
+    .sort((a, b) => b.lowStreak - a.lowStreak ||
+      (a.windows["7d"].percent ?? 0) - (b.windows["7d"].percent ?? 0));
+  return candidates[0] || null;
+}
+
+/**
+ * Foods richest in a nutrient per calorie
+ * Ranking by density favours palak over a large plate of something that
+ * only gets there by volume; a portion still has to give a useful share of
+ * the RDA. Dietary filtering is up to the caller.
+ * @param {IndianFood[]} foods - Candidate foods (nutrition per 100g)
+ * @param {NutrientGap} gap - Nutrient to raise
+ * @param {number} limit - Foods to return
+ * @return {SuggestedFood[]} Best foods first
+ */
+export function nutrientDenseFoods(
+  foods: IndianFood[],
+  gap: Pick<NutrientGap, "group" | "nutrient" | "rda">,
+  limit = 3
+): SuggestedFood[] {
+  return foods
+    .map((food) => {
+      const nutrition = (food.nutrition || {}) as unknown as Record<string, unknown>;
+      const per100g = amountOf(nutrition, gap.group, gap.nutrient, "fiber") || 0;
+      const calories = Number(nutrition.calories) || 0;
+      const portion = (food.portionSizes?.gramsPerPortion || 100) / 100;
+      return {
+        food,
+        density: calories > 0 ? per100g / calories : 0,
+        amountPerPortion: round2(per100g * portion),
+      };
+    })
+    .filter((entry) => entry.density > 0 &&
+      entry.amountPerPortion >= gap.rda * MIN_PORTION_SHARE)
+    .sort((a, b) => b.density - a.density || a.food.id.localeCompare(b.food.id))
+    .slice(0, limit)
+    .map(({food, amountPerPortion}) => ({
+      foodId: food.id,
+      name: food.name,
+      amountPerPortion,
+      percentOfRda: Math.round(amountPerPortion / gap.rda * 100),
+    }));
+}
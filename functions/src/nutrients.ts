@@ -0,0 +1,104 @@
+/**
+ * Nutrient gap functions for NutriSync
+ * Reads the last 30 days of dailySummaries, compares micronutrient and
+ * fiber intake with the user's RDA and suggests foods for the gaps. The
+ * nutrientGap report job uses the same helpers to send deficiency alerts.
+ */
+
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import {HttpsError, onCall} from "firebase-functions/v2/https";
+import {callableError, requireUser} from "./callable";
+import {GetNutrientGapsResponse} from "./contracts";
+import {loadFoodCatalog} from "./foodCatalog";
+import {
+  analyzeNutrientGaps,
+  GAP_WINDOWS,
+  NutrientGap,
+  nutrientDenseFoods,
+  SuggestedFood,
+} from "./nutrientGaps";
+import {computeNutritionTargets} from "./nutritionTargets";
+import {partitionByDiet} from "./recommendationEngine";
+import {addDays, localDateKey, resolveTimeZone} from "./timezone";
+import {UserProfile} from "./types";
+
+const db = admin.firestore();
+
+/**
+ * Rolling nutrient analysis for a user up to and including lastDay
+ * @param {string} userId - User ID
+ * @param {UserProfile} profile - User profile
+ * @param {string} lastDay - Last complete local day
+ * @return {Promise<NutrientGap[]>} Analysis per nutrient
+ */
+export async function loadNutrientGaps(
+  userId: string,
+  profile: Omit<UserProfile, "uid">,
+  lastDay: string
+): Promise<NutrientGap[]> {
+  const firstDay = addDays(lastDay, 1 - Math.max(...GAP_WINDOWS));
+  const snapshot = await db.collection("users").doc(userId).collection("dailySummaries")
+    .where(admin.firestore.FieldPath.documentId(), ">=", firstDay)
+    .where(admin.firestore.FieldPath.documentId(), "<=", lastDay)
+    .get();
+  // Stored targets can predate micronutrient targets
+  const targets = profile.nutritionTargets?.vitamins ?
+    profile.nutritionTargets :
+    computeNutritionTargets({...profile, uid: userId});
+  return analyzeNutrientGaps(
+    new Map(snapshot.docs.map((doc) => [doc.id, doc.data()])), lastDay, targets);
+}
+
+/**
+ * Foods the user can eat that are dense in a nutrient
+ * @param {string} userId - User ID
+ * @param {UserProfile} profile - User profile, for dietary restrictions
+ * @param {NutrientGap} gap - Nutrient to raise
+ * @param {number} limit - Foods to return
+ * @return {Promise<SuggestedFood[]>} Best foods first
+ */
+export async function suggestFoodsForGap(
+  userId: string,
+  profile: Omit<UserProfile, "uid">,
+  gap: NutrientGap,
+  limit?: number
+): Promise<SuggestedFood[]> {
+  const {allowed} = partitionByDiet(await loadFoodCatalog(), {...profile, uid: userId});
+  return nutrientDenseFoods(allowed, gap, limit);
+}
+
+/**
+ * Get the user's micronutrient and fiber intake against their RDA
+ * Covers the last 7 and 30 days up to yesterday, with foods to try for
+ * every nutrient that is running low.
+ */
+export const getNutrientGaps = onCall(async (request): Promise<GetNutrientGapsResponse> => {
+  const userId = requireUser(request);
+
+  try {
+    const userDoc = await db.collection("users").doc(userId).get();
+    const profile = userDoc.data() as Omit<UserProfile, "uid"> | undefined;
+    if (!profile) {
+      throw new HttpsError("not-found", "User profile not found");
+    }
+
+    const lastDay = addDays(localDateKey(new Date(), resolveTimeZone(profile.timezone)), -1);
+    const gaps = await loadNutrientGaps(userId, profile, lastDay);
+    const nutrients = await Promise.all(gaps.map(async (gap) => ({
+      ...gap,
+      foods: gap.status === "deficient" || gap.status === "low" ?
+        await suggestFoodsForGap(userId, profile, gap) :
+        [],
+    })));
+
+    logger.info(`Nutrient gaps computed for user: ${userId}`, {
+      deficient: gaps.filter((gap) => gap.status === "deficient").map((gap) => gap.nutrient),
+    });
+
+    return {lastDay, nutrients};
+  } catch (error) {
+    throw callableError(error, "Failed to get nutrient gaps",
+      `Error getting nutrient gaps for user: ${userId}`);
+  }
+});
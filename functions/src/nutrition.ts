@@ -0,0 +1,200 @@
+/**
+ * Nutrition calculation helpers for NutriSync
+ * Converts Indian portion sizes and cooking methods into nutrition values
+ */
+
+import {CookingMethod, IndianFood, MealItem, NutritionInfo} from "./types";
+
+// Used when a food has no standardPortions entry for the unit
+// (same defaults as the app's IndianFoodDatabase._convertToGrams)
+const DEFAULT_UNIT_GRAMS: Record<string, number> = {
+  katori: 150,
+  glass: 250,
+  roti: 30,
+  spoon: 15,
+  tablespoon: 15,
+  cup: 200,
+};
+
+const MACRO_KEYS = ["calories", "protein", "carbs", "fat", "fiber"] as const;
+
+/**
+ * Create an all-zero nutrition object
+ * @return {NutritionInfo} Empty nutrition totals
+ */
+export function emptyNutrition(): NutritionInfo {
+  return {
+    calories: 0,
+    protein: 0,
+    carbs: 0,
+    fat: 0,
+    fiber: 0,
+    vitamins: {},
+    minerals: {},
+  };
+}
+
+/**
+ * Round a nutrition value to two decimal places
+ * @param {number} value - Raw value
+ * @return {number} Rounded value
+ */
+export function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Convert a quantity in a given unit into grams for a food
+ * @param {IndianFood} food - The food being eaten
+ * @param {string} portionUnit - Unit such as katori, roti, glass, g or portion
+ * @param {number} quantity - Number of units
+ * @return {number} Weight in grams
+ */
+export function portionToGrams(
+  food: IndianFood,
+  portionUnit: string,
+  quantity: number
+): number {
+  if (!(quantity > 0)) {
+    throw new Error(`Invalid quantity for ${food.id}: ${quantity}`);
+  }
+
+  const unit = portionUnit.trim().toLowerCase();
+  switch (unit) {
+  case "g":
+  case "gram":
+  case "grams":
+    return quantity;
+  case "kg":
+    return quantity * 1000;
+  case "portion":
+  case "serving":
+    return quantity * food.portionSizes.gramsPerPortion;
+  }
+
+  const grams = food.portionSizes.standardPortions?.[unit] ??
+    DEFAULT_UNIT_GRAMS[unit];
+  if (grams === undefined) {
+    throw new Error(`Unknown portion unit "${portionUnit}" for ${food.id}`);
+  }
+  return quantity * grams;
+}
+
+/**
+ * Find the cooking method used for a food
+ * @param {IndianFood} food - The food being eaten
+ * @param {string} methodName - Requested method, defaults to the food's default
+ * @return {{method: CookingMethod, isDefault: boolean}} Matched method
+ */
+export function resolveCookingMethod(
+  food: IndianFood,
+  methodName?: string
+): {method: CookingMethod; isDefault: boolean} {
+  const defaultMethod = food.cookingMethods.defaultMethod;
+  const name = methodName?.trim().toLowerCase();
+  if (!name || name === defaultMethod.name.toLowerCase()) {
+    return {method: defaultMethod, isDefault: true};
+  }
+
+  const alternative = (food.cookingMethods.alternatives || [])
+    .find((m) => m.name.toLowerCase() === name);
+  if (!alternative) {
+    throw new Error(`Unknown cooking method "${methodName}" for ${food.id}`);
+  }
+  return {method: alternative, isDefault: false};
+}
+
+/**
+ * Scale per-100g nutrition to an eaten amount
+ * @param {NutritionInfo} per100g - Base nutrition per 100g
+ * @param {number} grams - Amount eaten
+ * @param {number} multiplier - Cooking method multiplier applied to everything
+ * @param {Record<string, number>} adjustments - Extra per-nutrient multipliers
+ * @return {NutritionInfo} Nutrition for the eaten amount
+ */
+export function scaleNutrition(
+  per100g: NutritionInfo,
+  grams: number,
+  multiplier = 1,
+  adjustments: Record<string, number> = {}
+): NutritionInfo {
+  const factor = (grams / 100) * multiplier;
+  const result = emptyNutrition();
+
+  for (const key of MACRO_KEYS) {
+    result[key] = round2((per100g[key] || 0) * factor * (adjustments[key] ?? 1));
+  }
+  for (const [name, value] of Object.entries(per100g.vitamins || {})) {
+    result.vitamins[name] = round2(value * factor * (adjustments[name] ?? 1));
+  }
+  for (const [name, value] of Object.entries(per100g.minerals || {})) {
+    result.minerals[name] = round2(value * factor * (adjustments[name] ?? 1));
+  }
+  return result;
+}
+
+/**
+ * Calculate the nutrition of one meal entry
+ * nutritionAdjustments describe the default preparation, so they are
+ * only applied when the default cooking method is used.
+ * @param {IndianFood} food - The food being eaten
+ * @param {string} portionUnit - Unit such as katori or roti
+ * @param {number} quantity - Number of units
+ * @param {string} cookingMethod - Optional cooking method name
+ * @return {MealItem} Meal item with computed nutrition
+ */
+export function calculateMealItem(
+  food: IndianFood,
+  portionUnit: string,
+  quantity: number,
+  cookingMethod?: string
+): MealItem {
+  const grams = portionToGrams(food, portionUnit, quantity);
+  const {method, isDefault} = resolveCookingMethod(food, cookingMethod);
+  const adjustments = isDefault ?
+    food.cookingMethods.nutritionAdjustments || {} :
+    {};
+
+  return {
+    foodId: food.id,
+    name: food.name,
+    portionUnit: portionUnit.trim().toLowerCase(),
+    quantity,
+    grams: round2(grams),
+    cookingMethod: method.name,
+    nutrition: scaleNutrition(
+      food.nutrition, grams, method.nutritionMultiplier ?? 1, adjustments),
+  };
+}
+
+/**
+ * Add up nutrition across several entries
+ * @param {NutritionInfo[]} items - Nutrition values to add
+ * @return {NutritionInfo} Combined totals
+ */
+export function sumNutrition(items: NutritionInfo[]): NutritionInfo {
+  const total = emptyNutrition();
+
+  for (const item of items) {
+    for (const key of MACRO_KEYS) {
+      total[key] += item[key] || 0;
+    }
+    for (const [name, value] of Object.entries(item.vitamins || {})) {
+      total.vitamins[name] = (total.vitamins[name] || 0) + value;
+    }
+    for (const [name, value] of Object.entries(item.minerals || {})) {
+      total.minerals[name] = (total.minerals[name] || 0) + value;
+    }
+  }
+
+  for (const key of MACRO_KEYS) {
+    total[key] = round2(total[key]);
+  }
+  for (const name of Object.keys(total.vitamins)) {
+    total.vitamins[name] = round2(total.vitamins[name]);
+  }
+  for (const name of Object.keys(total.minerals)) {
+    total.minerals[name] = round2(total.minerals[name]);
+  }
+  return total;
+}
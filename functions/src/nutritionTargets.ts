@@ -0,0 +1,241 @@
+/**
+ * Daily nutrition target calculator for NutriSync
+ * BMR uses the Mifflin-St Jeor equation; micronutrient values follow the
+ * ICMR-NIN 2020 recommended dietary allowances for Indian adults.
+ */
+
+import {round2} from "./nutrition";
+import {UserProfile} from "./types";
+
+export interface NutritionTargets {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber: number;
+  vitamins: Record<string, number>;
+  minerals: Record<string, number>;
+  // Upper limits (sodium in mg; carbs and glycemic load for diabetes), as
+  // opposed to amounts to reach
+  limits: Record<string, number>;
+  bmr: number | null;
+  tdee: number | null;
+  // false when the profile lacks age/sex/height/weight and defaults were used
+  personalized: boolean;
+}
+
+// Profile fields that change the targets; onUserUpdated recomputes on these only
+export const TARGET_PROFILE_FIELDS = [
+  "age", "gender", "height", "weight", "activityLevel",
+  "healthGoals", "medicalConditions",
+] as const;
+
+const DEFAULT_CALORIES = 2000;
+
+// Every label the app sends, from profile setup ("Very Active (very hard
+// exercise, physical job)") and the voice assistant ("very_active")
+const ACTIVITY_FACTORS: Record<string, number> = {
+  "sedentary": 1.2,
+  "light": 1.375,
+  "lightly active": 1.375,
+  "moderate": 1.55,
+  "moderately active": 1.55,
+  "active": 1.725,
+  "very active": 1.9,
+  "extra active": 1.9,
+  "extremely active": 1.9,
+};
+const DEFAULT_ACTIVITY_FACTOR = 1.2;
+
+// Upper end of "medium" glycemic load, which diabetic users should stay under
+const DIABETES_GL_LIMITS = {meal: 20, day: 100};
+
+// Floors so aggressive deficits never go below safe intake
+const MIN_CALORIES = {male: 1500, female: 1200, other: 1350};
+
+type Sex = "male" | "female" | "other";
+
+/**
+ * Per-day RDA for adults, by sex
+ * Vitamin A, B12, D and folate in µg; everything else in mg.
+ */
+const RDA: Record<Sex, {vitamins: Record<string, number>; minerals: Record<string, number>}> = {
+  male: {
+    vitamins: {A: 1000, B1: 1.4, B6: 1.9, B12: 2.5, C: 80, D: 15, folate: 300},
+    minerals: {iron: 19, calcium: 1000, zinc: 17, magnesium: 440, potassium: 3500},
+  },
+  female: {
+    vitamins: {A: 840, B1: 1.4, B6: 1.9, B12: 2.5, C: 65, D: 15, folate: 220},
+    minerals: {iron: 29, calcium: 1000, zinc: 13.2, magnesium: 370, potassium: 3500},
+  },
+  other: {
+    vitamins: {A: 920, B1: 1.4, B6: 1.9, B12: 2.5, C: 72, D: 15, folate: 260},
+    minerals: {iron: 24, calcium: 1000, zinc: 15, magnesium: 405, potassium: 3500},
+  },
+};
+
+/**
+ * Normalize the app's gender value
+ * @param {string} gender - Value from the profile
+ * @return {Sex} Sex used for the equations
+ */
+function toSex(gender?: string): Sex {
+  const value = (gender || "").toLowerCase();
+  if (value.startsWith("m")) return "male";
+  if (value.startsWith("f") || value.startsWith("w")) return "female";
+  return "other";
+}
+
+/**
+ * Map the app's activity level label to a TDEE factor
+ * Missing or unrecognized labels get the sedentary factor.
+ * @param {string} activityLevel - e.g. "Moderate (moderate exercise 3-5 days/week)"
+ * @return {number} Activity factor
+ */
+export function activityFactor(activityLevel?: string): number {
+  const label = (activityLevel || "").toLowerCase().split("(")[0]
+    .replace(/[_-]/g, " ").replace(/\s+/g, " ").trim();
+  return ACTIVITY_FACTORS[label] ?? DEFAULT_ACTIVITY_FACTOR;
+}
+
+/**
+ * Micronutrient RDA for a sex and age
+ * Women over 50 need less iron after menopause.
+ * @param {string} gender - Profile gender
+ * @param {number} age - Age in years
+ * @return {object} Vitamin and mineral targets
+ */
+export function recommendedAllowances(
+  gender?: string,
+  age?: number
+): {vitamins: Record<string, number>; minerals: Record<string, number>} {
+  const sex = toSex(gender);
+  const rda = RDA[sex];
+  const minerals = {...rda.minerals};
+  if (sex === "female" && age !== undefined && age > 50) {
+    minerals.iron = RDA.male.minerals.iron;
+  }
+  if (age !== undefined && age > 70) {
+    minerals.calcium = 1200;
+  }
+  return {vitamins: {...rda.vitamins}, minerals};
+}
+
+/**
+ * Compute daily nutrition targets from a user profile
+ * @param {UserProfile} profile - User profile
+ * @return {NutritionTargets} Daily targets and limits
+ */
+export function computeNutritionTargets(profile: UserProfile): NutritionTargets {
+  const sex = toSex(profile.gender);
+  const goals = (profile.healthGoals || []).map((g) => g.toLowerCase());
+  const conditions = (profile.medicalConditions || []).map((c) => c.toLowerCase());
+  const {age, height, weight} = profile;
+
+  const personalized = !!(age && height && weight);
+  let bmr: number | null = null;
+  let tdee: number | null = null;
+  let calories = DEFAULT_CALORIES;
+
+  if (personalized) {
+    const sexOffset = sex === "male" ? 5 : sex === "female" ? -161 : -78;
+    bmr = 10 * (weight as number) + 6.25 * (height as number) -
+      5 * (age as number) + sexOffset;
+    tdee = bmr * activityFactor(profile.activityLevel);
+    calories = tdee;
+
+    if (goals.includes("weight loss")) {
+      // The floor must not push a small or sedentary user above maintenance
+      calories = Math.min(tdee, Math.max(tdee - 500, MIN_CALORIES[sex]));
+    } else if (goals.includes("weight gain")) {
+      calories = tdee + 300;
+    } else if (goals.includes("muscle building")) {
+      calories = tdee + 250;
+    }
+  }
+
+  // Protein in g per kg body weight
+  const bodyWeight = weight || 60;
+  let proteinPerKg = 0.83;
+  if (goals.includes("muscle building")) {
+    proteinPerKg = 1.6;
+  } else if (goals.includes("weight loss")) {
+    proteinPerKg = 1.2;
+  }
+  if (conditions.includes("kidney disease")) {
+    proteinPerKg = 0.6;
+  }
+  const protein = bodyWeight * proteinPerKg;
+
+  // Diabetes caps carbohydrates at 45% of energy; the rest goes to fat
+  const carbShare = conditions.includes("diabetes") ? 0.45 : 0.55;
+  const proteinCalories = protein * 4;
+  const carbCalories = Math.min(carbShare * calories,
+    Math.max(calories - proteinCalories - 0.2 * calories, 0));
+  const fatCalories = Math.max(calories - proteinCalories - carbCalories, 0);
+
+  const fiberPer1000 = conditions.includes("diabetes") ? 20 : 15;
+  const {vitamins, minerals} = recommendedAllowances(profile.gender, age);
+
+  const limits: Record<string, number> = {
+    sodium: conditions.includes("hypertension") ||
+      conditions.includes("heart disease") ||
+      conditions.includes("kidney disease") ? 1500 : 2000,
+  };
+  if (conditions.includes("diabetes")) {
+    limits.carbs = round2(carbCalories / 4);
+    // Spread over three main meals; glycemic load per meal and per day
+    limits.carbsPerMeal = Math.round(carbCalories / 4 / 3);
+    limits.mealGlycemicLoad = DIABETES_GL_LIMITS.meal;
+    limits.glycemicLoad = DIABETES_GL_LIMITS.day;
+  }
+
+  return {
+    calories: Math.round(calories),
+    protein: round2(protein),
+    carbs: round2(carbCalories / 4),
+    fat: round2(fatCalories / 9),
+    fiber: round2(Math.max(calories / 1000 * fiberPer1000, 25)),
+    vitamins,
+    minerals,
+    limits,
+    bmr: bmr === null ? null : Math.round(bmr),
+    tdee: tdee === null ? null : Math.round(tdee),
+    personalized,
+  };
+}
+
+/**
+ * Whether a profile update touched any field the targets depend on
+ * @param {Record<string, unknown>} before - Previous profile data
+ * @param {Record<string, unknown>} after - New profile data
+ * @return {boolean} True when targets should be recomputed
+ */
+export function targetInputsChanged(
+  before: Record<string, unknown> | undefined,
+  after: Record<string, unknown> | undefined
+): boolean {
+  return TARGET_PROFILE_FIELDS.some((field) =>
+    JSON.stringify(before?.[field] ?? null) !== JSON.stringify(after?.[field] ?? null));
+}
+
+/**
+ * Percentage of each macro target reached
+ * @param {Record<string, number>} totals - Day totals (totalCalories etc.)
+ * @param {NutritionTargets} targets - Daily targets
+ * @return {Record<string, number>} Percent of target, per macro
+ */
+export function targetProgress(
+  totals: {totalCalories?: number; totalProtein?: number;
+    totalCarbs?: number; totalFat?: number},
+  targets: Pick<NutritionTargets, "calories" | "protein" | "carbs" | "fat">
+): Record<string, number> {
+  const percent = (value = 0, target = 0) =>
+    target > 0 ? Math.round(value / target * 100) : 0;
+  return {
+    calories: percent(totals.totalCalories, targets.calories),
+    protein: percent(totals.totalProtein, targets.protein),
+    carbs: percent(totals.totalCarbs, targets.carbs),
+    fat: percent(totals.totalFat, targets.fat),
+  };
+}
@@ -0,0 +1,185 @@
+/**
+ * Payment provider webhook for NutriSync
+ * Subscription events from the provider are the only writer of
+ * subscriptions/{userId}; the effective tier is mirrored onto the user
+ * profile so onUserUpdated keeps analytics in step.
+ */
+
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import {defineSecret} from "firebase-functions/params";
+import {onRequest} from "firebase-functions/v2/https";
+import {loadConfigDoc} from "./configStore";
+import {effectiveTier, resolveEntitlements} from "./entitlements";
+import {SIGNATURE_HEADER, verifySignature} from "./paymentSignature";
+
+const db = admin.firestore();
+
+const webhookSecret = defineSecret("PAYMENT_WEBHOOK_SECRET");
+
+// Processed event ids, so provider retries are acknowledged without reapplying
+const PAYMENT_EVENTS = "paymentEvents";
+
+// Subscription status each event type leaves behind
+const EVENT_STATUSES: Record<string, string> = {
+  "subscription.activated": "active",
+  "subscription.renewed": "active",
+  "subscription.updated": "active",
+  "subscription.cancelled": "cancelled_at_period_end",
+  "subscription.expired": "expired",
+  "payment.failed": "past_due",
+};
+
+interface PaymentEvent {
+  id: string;
+  type: string;
+  // Unix seconds
+  created: number;
+  data: {
+    userId: string;
+    tier?: string;
+    status?: string;
+    // Unix seconds
+    currentPeriodEnd?: number;
+    subscriptionId?: string;
+    customerId?: string;
+  };
+}
+
+/**
+ * Check the shape of a webhook event
+ * @param {unknown} body - Parsed request body
+ * @return {string | null} What is wrong, or null when usable
+ */
+function validateEvent(body: unknown): string | null {
+  const event = body as Partial<PaymentEvent> | null;
+  if (!event || typeof event.id !== "string" || !event.id) return "id is required";
+  if (typeof event.type !== "string") return "type is required";
+  if (typeof event.created !== "number") return "created is required";
+  if (typeof event.data?.userId !== "string" || !event.data.userId) {
+    return "data.userId is required";
+  }
+  if (event.data.currentPeriodEnd !== undefined &&
+      typeof event.data.currentPeriodEnd !== "number") {
+    return "data.currentPeriodEnd must be unix seconds";
+  }
+  return null;
+}
+
+/**
+ * Receive subscription events from the payment provider
+ * Requests must carry a valid signature header; duplicates and events
+ * older than the last one applied are acknowledged and ignored.
+ */
+export const paymentWebhook = onRequest({secrets: [webhookSecret]}, async (req, res) => {
+  if (req.method !== "POST") {
+    res.status(405).json({error: "Method not allowed"});
+    return;
+  }
+
+  const rawBody = req.rawBody?.toString("utf8") || "";
+  if (!verifySignature(rawBody, req.get(SIGNATURE_HEADER), webhookSecret.value())) {
+    logger.warn("Payment webhook rejected: invalid signature");
+    res.status(401).json({error: "Invalid signature"});
+    return;
+  }
+
+  let event: PaymentEvent;
+  try {
+    event = JSON.parse(rawBody);
+  } catch (error) {
+    res.status(400).json({error: "Body must be JSON"});
+    return;
+  }
+  const invalid = validateEvent(event);
+  if (invalid) {
+    res.status(400).json({error: invalid});
+    return;
+  }
+
+  const status = EVENT_STATUSES[event.type];
+  if (!status) {
+    // Acknowledge so the provider does not retry events we do not use
+    logger.info(`Payment webhook ignored event type: ${event.type}`, {eventId: event.id});
+    res.json({received: true, applied: false});
+    return;
+  }
+
+  const tiers = resolveEntitlements(await loadConfigDoc("entitlements"));
+  if (event.data.tier && !tiers[event.data.tier]) {
+    res.status(400).json({error: `Unknown tier: ${event.data.tier}`});
+    return;
+  }
+
+  const userId = event.data.userId;
+  const eventRef = db.collection(PAYMENT_EVENTS).doc(event.id);
+  const subscriptionRef = db.collection("subscriptions").doc(userId);
+  const userRef = db.collection("users").doc(userId);
+
+  try {
+    const result = await db.runTransaction(async (transaction) => {
+      const [eventDoc, subscriptionDoc, userDoc] = await Promise.all([
+        transaction.get(eventRef),
+        transaction.get(subscriptionRef),
+        transaction.get(userRef),
+      ]);
+      if (eventDoc.exists) {
+        return "duplicate";
+      }
+
+      const current = subscriptionDoc.data();
+      const stale = (Number(current?.lastEventCreated) || 0) > event.created;
+      transaction.create(eventRef, {
+        type: event.type,
+        userId: userId,
+        created: event.created,
+        applied: !stale,
+        receivedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      if (stale) {
+        return "stale";
+      }
+
+      const subscription: Record<string, unknown> = {
+        userId: userId,
+        tier: event.data.tier || current?.tier || "free",
+        status: event.data.status || status,
+        lastEventId: event.id,
+        lastEventType: event.type,
+        lastEventCreated: event.created,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      };
+      if (event.data.currentPeriodEnd !== undefined) {
+        subscription.currentPeriodEnd =
+          admin.firestore.Timestamp.fromMillis(event.data.currentPeriodEnd * 1000);
+      }
+      if (event.data.subscriptionId) subscription.subscriptionId = event.data.subscriptionId;
+      if (event.data.customerId) subscription.customerId = event.data.customerId;
+      transaction.set(subscriptionRef, subscription, {merge: true});
+
+      // Same field formats the app's user model reads
+      if (userDoc.exists) {
+        const merged = {...current, ...subscription};
+        const tier = effectiveTier(merged, new Date());
+        const end = merged.currentPeriodEnd as admin.firestore.Timestamp | undefined;
+        const profile: Record<string, unknown> = {
+          subscriptionTier: tier,
+          subscriptionExpiresAt: tier !== "free" && end ? end.toDate().toISOString() : null,
+        };
+        const voiceLimit = tiers[tier]?.quotas.voiceInteractions?.limit;
+        if (typeof voiceLimit === "number") {
+          profile.monthlyQueriesLimit = voiceLimit;
+        }
+        transaction.update(userRef, profile);
+      }
+      return "applied";
+    });
+
+    logger.info(`Payment webhook ${result}: ${event.type}`, {eventId: event.id, userId});
+    res.json({received: true, applied: result === "applied"});
+  } catch (error) {
+    logger.error(`Error applying payment event: ${event.id}`, error);
+    // A 5xx makes the provider retry later
+    res.status(500).json({error: "Failed to apply event"});
+  }
+});
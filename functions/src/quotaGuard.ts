@@ -0,0 +1,130 @@
+/**
+ * Entitlement checks shared by callables
+ * Usage is counted per user, quota and period in users/{userId}/usage.
+ * Periods follow the UTC calendar: the profile timezone is client-writable,
+ * and switching it would otherwise land on a fresh daily counter.
+ */
+
+import * as admin from "firebase-admin";
+import {HttpsError, onCall} from "firebase-functions/v2/https";
+import {requireUser} from "./callable";
+import {loadConfigDoc} from "./configStore";
+import {GetMyEntitlementsResponse} from "./contracts";
+import {
+  effectiveTier,
+  periodKey,
+  resolveEntitlements,
+  TierEntitlements,
+} from "./entitlements";
+import {localDateKey} from "./timezone";
+
+const db = admin.firestore();
+
+// Usage counters outlive the longest (monthly) period before the TTL policy
+// on expiresAt (firestore.indexes.json) removes them
+const USAGE_TTL_DAYS = 62;
+
+// Calendar that quota periods are keyed on
+const QUOTA_TIMEZONE = "UTC";
+
+export interface QuotaUsage {
+  tier: string;
+  used: number;
+  // null when the tier has no limit
+  remaining: number | null;
+}
+
+/**
+ * Entitlements of the user's current tier
+ * @param {string} tier - Effective tier
+ * @return {Promise<TierEntitlements>} Features and quotas
+ */
+async function tierEntitlements(tier: string): Promise<TierEntitlements> {
+  const tiers = resolveEntitlements(await loadConfigDoc("entitlements"));
+  return tiers[tier] || tiers.free;
+}
+
+/**
+ * Count one use of a quota, or reject the call when it is used up
+ * Call before doing the work and outside any try/catch that rewrites
+ * errors, so clients receive the resource-exhausted code.
+ * @param {string} userId - Caller
+ * @param {string} quota - Quota name, e.g. "recommendations"
+ * @return {Promise<QuotaUsage>} Usage after this call
+ */
+export async function enforceQuota(userId: string, quota: string): Promise<QuotaUsage> {
+  const userRef = db.collection("users").doc(userId);
+  const subscriptionDoc = await db.collection("subscriptions").doc(userId).get();
+
+  const now = new Date();
+  const tier = effectiveTier(subscriptionDoc.data(), now);
+  const limit = (await tierEntitlements(tier)).quotas[quota];
+  if (!limit) {
+    return {tier, used: 0, remaining: null};
+  }
+
+  const period = periodKey(limit.period, localDateKey(now, QUOTA_TIMEZONE));
+  const usageRef = userRef.collection("usage").doc(`${quota}_${period}`);
+
+  const used = await db.runTransaction(async (transaction) => {
+    const usage = await transaction.get(usageRef);
+    const count = Number(usage.data()?.count) || 0;
+    if (limit.limit !== null && count >= limit.limit) {
+      throw new HttpsError("resource-exhausted",
+        `The ${tier} plan allows ${limit.limit} ${quota} per ${limit.period}`,
+        {quota, tier, limit: limit.limit, period: limit.period, periodKey: period});
+    }
+    transaction.set(usageRef, {
+      quota,
+      period: limit.period,
+      periodKey: period,
+      count: count + 1,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      expiresAt: admin.firestore.Timestamp.fromMillis(
+        now.getTime() + USAGE_TTL_DAYS * 24 * 60 * 60 * 1000),
+    }, {merge: true});
+    return count + 1;
+  });
+
+  return {
+    tier,
+    used,
+    remaining: limit.limit === null ? null : limit.limit - used,
+  };
+}
+
+/**
+ * The caller's tier, features, quotas and current usage
+ */
+export const getMyEntitlements = onCall(async (request): Promise<GetMyEntitlementsResponse> => {
+  const userId = requireUser(request);
+
+  const userRef = db.collection("users").doc(userId);
+  const subscriptionDoc = await db.collection("subscriptions").doc(userId).get();
+  const subscription = subscriptionDoc.data();
+  const now = new Date();
+  const tier = effectiveTier(subscription, now);
+  const entitlements = await tierEntitlements(tier);
+  const today = localDateKey(now, QUOTA_TIMEZONE);
+
+  const quotas = await Promise.all(Object.entries(entitlements.quotas).map(
+    async ([quota, limit]) => {
+      const period = periodKey(limit.period, today);
+      const usage = await userRef.collection("usage").doc(`${quota}_${period}`).get();
+      return {
+        quota,
+        limit: limit.limit,
+        period: limit.period,
+        periodKey: period,
+        used: Number(usage.data()?.count) || 0,
+      };
+    }));
+
+  return {
+    tier,
+    status: subscription?.status || null,
+    currentPeriodEnd: subscription?.currentPeriodEnd?.toDate().toISOString() || null,
+    features: entitlements.features,
+    quotas,
+  };
+});
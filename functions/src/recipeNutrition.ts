@@ -0,0 +1,356 @@
+/**
+ * Recipe nutrition for NutriSync
+ * Computes a home recipe's nutrition from raw ingredient weights: sums the
+ * ingredients from a composition table, applies vitamin losses for the
+ * cooking method and divides by the cooked weight and number of servings.
+ * Recipes are turned into food-shaped documents so they can be logged,
+ * searched and recommended like catalog foods.
+ */
+
+import {csvNutrition, csvTable, generateSearchTerms, validateNutrition} from "./foodDataset";
+import {round2, scaleNutrition, sumNutrition} from "./nutrition";
+import {phoneticKey, tokenize} from "./text";
+import {
+  FoodIngredient,
+  IndianFood,
+  NutritionInfo,
+  RecipeDetails,
+  RecipeIngredientLine,
+} from "./types";
+
+/**
+ * A raw ingredient from the composition table, nutrition per 100g raw
+ */
+export interface Ingredient {
+  id: string;
+  name: string;
+  aliases: string[];
+  nutrition: NutritionInfo;
+  // Cooked grams per raw gram when cooked on its own (rice absorbs water, greens wilt)
+  cookedYield: number;
+}
+
+export interface RecipeMethod {
+  // Share of each vitamin left after cooking, keyed like NutritionInfo.vitamins
+  retention: Record<string, number>;
+  // Extra weight change from evaporation on top of the ingredient yields
+  moisture: number;
+  // Share of the cooking oil that ends up in the food
+  oilRetained: number;
+  // Whether ingredients change weight as cooked (cookedYield)
+  cooked: boolean;
+}
+
+/**
+ * Cooking methods a recipe can use
+ * Retention factors follow the USDA nutrient retention tables, rounded.
+ */
+export const RECIPE_METHODS: Record<string, RecipeMethod> = {
+  "raw": {retention: {}, moisture: 1, oilRetained: 1, cooked: false},
+  "boiled": {
+    retention: {A: 0.9, B1: 0.7, B6: 0.7, B12: 0.9, C: 0.5, folate: 0.5},
+    moisture: 1,
+    oilRetained: 1,
+    cooked: true,
+  },
+  "pressure cooked": {
+    retention: {A: 0.9, B1: 0.8, B6: 0.8, B12: 0.9, C: 0.6, folate: 0.6},
+    moisture: 1,
+    oilRetained: 1,
+    cooked: true,
+  },
+  "steamed": {
+    retention: {A: 0.95, B1: 0.85, B6: 0.85, B12: 0.9, C: 0.7, folate: 0.7},
+    moisture: 1,
+    oilRetained: 1,
+    cooked: true,
+  },
+  "sauteed": {
+    retention: {A: 0.9, B1: 0.85, B6: 0.85, B12: 0.9, C: 0.7, folate: 0.75},
+    moisture: 0.9,
+    oilRetained: 1,
+    cooked: true,
+  },
+  "tadka": {
+    retention: {A: 0.9, B1: 0.8, B6: 0.8, B12: 0.9, C: 0.6, folate: 0.65},
+    moisture: 0.95,
+    oilRetained: 1,
+    cooked: true,
+  },
+  "fried": {
+    retention: {A: 0.85, B1: 0.8, B6: 0.8, B12: 0.85, C: 0.6, folate: 0.6},
+    moisture: 0.85,
+    oilRetained: 1,
+    cooked: true,
+  },
+  // Oil is the amount in the pan; most of it stays behind
+  "deep fried": {
+    retention: {A: 0.85, B1: 0.75, B6: 0.75, B12: 0.85, C: 0.5, folate: 0.5},
+    moisture: 0.75,
+    oilRetained: 0.2,
+    cooked: true,
+  },
+  "roasted": {
+    retention: {A: 0.85, B1: 0.8, B6: 0.8, B12: 0.85, C: 0.6, folate: 0.65},
+    moisture: 0.8,
+    oilRetained: 1,
+    cooked: true,
+  },
+  "grilled": {
+    retention: {A: 0.85, B1: 0.8, B6: 0.8, B12: 0.85, C: 0.6, folate: 0.65},
+    moisture: 0.8,
+    oilRetained: 1,
+    cooked: true,
+  },
+  "baked": {
+    retention: {A: 0.85, B1: 0.8, B6: 0.85, B12: 0.85, C: 0.6, folate: 0.7},
+    moisture: 0.85,
+    oilRetained: 1,
+    cooked: true,
+  },
+  "slow cooked": {
+    retention: {A: 0.85, B1: 0.6, B6: 0.65, B12: 0.85, C: 0.4, folate: 0.45},
+    moisture: 0.95,
+    oilRetained: 1,
+    cooked: true,
+  },
+};
+
+export const RECIPE_METHOD_NAMES = Object.keys(RECIPE_METHODS);
+
+// Used when a recipe has oil but does not say which
+export const DEFAULT_OIL = "vegetable_oil";
+
+export interface RecipeLine {
+  ingredient: Ingredient;
+  grams: number;
+}
+
+export interface RecipeInput {
+  lines: RecipeLine[];
+  oil: RecipeLine | null;
+  cookingMethod: string;
+  servings: number;
+  // Weighed after cooking; estimated from the ingredient yields otherwise
+  cookedWeightGrams?: number;
+}
+
+export interface RecipeNutrition {
+  rawWeightGrams: number;
+  cookedWeightGrams: number;
+  servingGrams: number;
+  total: NutritionInfo;
+  perServing: NutritionInfo;
+  per100g: NutritionInfo;
+}
+
+/**
+ * Key an ingredient name is matched on, so "Toor Dal", "toor dhal" and
+ * "toor_dal" find the same ingredient
+ * @param {string} name - Ingredient name, alias or id
+ * @return {string} Match key
+ */
+function ingredientKey(name: string): string {
+  return tokenize(name.replace(/_/g, " ")).map(phoneticKey).join(" ");
+}
+
+/**
+ * Parse and validate the ingredient composition table
+ * Unlike the food dataset, a bad row fails the whole table: a recipe must
+ * never be computed from a half-loaded table.
+ * @param {string} text - CSV contents
+ * @return {Ingredient[]} Ingredients in table order
+ */
+export function parseIngredientTable(text: string): Ingredient[] {
+  const {rows} = csvTable(text);
+  const seen = new Set<string>();
+
+  return rows.map((row, i) => {
+    const id = row.id?.trim();
+    const name = row.name?.trim();
+    const {nutrition, errors} = validateNutrition(csvNutrition(row));
+    const cookedYield = row.cooked_yield?.trim() ? Number(row.cooked_yield) : 1;
+    if (!id || !name) {
+      errors.push("id and name are required");
+    }
+    if (seen.has(id)) {
+      errors.push(`duplicate id ${id}`);
+    }
+    if (!(cookedYield >= 0 && cookedYield <= 5)) {
+      errors.push("cooked_yield must be between 0 and 5");
+    }
+    if (errors.length || !nutrition) {
+      throw new Error(`Ingredient row ${i + 1}${id ? ` (${id})` : ""}: ${errors.join("; ")}`);
+    }
+    seen.add(id);
+
+    return {
+      id,
+      name,
+      aliases: (row.aliases || "").split("|").map((alias) => alias.trim()).filter(Boolean),
+      nutrition,
+      cookedYield,
+    };
+  });
+}
+
+/**
+ * Index ingredients by id, name, name without its "(raw)" style note and aliases
+ * @param {Ingredient[]} ingredients - Parsed table
+ * @return {Map<string, Ingredient>} Ingredients by match key
+ */
+export function buildIngredientIndex(ingredients: Ingredient[]): Map<string, Ingredient> {
+  const index = new Map<string, Ingredient>();
+  for (const ingredient of ingredients) {
+    const names = [
+      ingredient.id,
+      ingredient.name,
+      ingredient.name.replace(/\(.*?\)/g, ""),
+      ...ingredient.aliases,
+    ];
+    for (const name of names) {
+      const key = ingredientKey(name);
+      // The first ingredient to claim a name keeps it
+      if (key && !index.has(key)) {
+        index.set(key, ingredient);
+      }
+    }
+  }
+  return index;
+}
+
+/**
+ * Find an ingredient by id, name or alias
+ * @param {Map<string, Ingredient>} index - Ingredient index
+ * @param {string} name - What the user typed
+ * @return {Ingredient | null} Matched ingredient
+ */
+export function findIngredient(
+  index: Map<string, Ingredient>,
+  name: string
+): Ingredient | null {
+  return index.get(ingredientKey(name)) || null;
+}
+
+/**
+ * Divide nutrition totals
+ * @param {NutritionInfo} nutrition - Totals
+ * @param {number} divisor - What to divide by
+ * @return {NutritionInfo} Scaled nutrition
+ */
+function divideNutrition(nutrition: NutritionInfo, divisor: number): NutritionInfo {
+  return scaleNutrition(nutrition, 100 / divisor);
+}
+
+/**
+ * Compute a recipe's nutrition in total, per serving and per 100g cooked
+ * @param {RecipeInput} input - Resolved ingredient lines, oil and method
+ * @return {RecipeNutrition} Weights and nutrition
+ */
+export function calculateRecipe(input: RecipeInput): RecipeNutrition {
+  const method = RECIPE_METHODS[input.cookingMethod];
+  if (!method) {
+    throw new Error(`Unknown cooking method "${input.cookingMethod}"`);
+  }
+
+  const lines = [...input.lines];
+  if (input.oil && input.oil.grams > 0) {
+    lines.push({ingredient: input.oil.ingredient, grams: input.oil.grams * method.oilRetained});
+  }
+
+  const total = sumNutrition(lines.map((line) =>
+    scaleNutrition(line.ingredient.nutrition, line.grams, 1, method.retention)));
+
+  const rawWeightGrams = lines.reduce((sum, line) => sum + line.grams, 0);
+  const cooked = input.lines.reduce((sum, line) =>
+    sum + line.grams * (method.cooked ? line.ingredient.cookedYield : 1), 0);
+  // Oil does not evaporate, so it is added after the moisture loss
+  const oilGrams = lines.length > input.lines.length ? lines[lines.length - 1].grams : 0;
+  const cookedWeightGrams = input.cookedWeightGrams ?? cooked * method.moisture + oilGrams;
+  if (!(cookedWeightGrams > 0)) {
+    throw new Error("Cooked weight must be greater than 0");
+  }
+
+  return {
+    rawWeightGrams: round2(rawWeightGrams),
+    cookedWeightGrams: round2(cookedWeightGrams),
+    servingGrams: round2(cookedWeightGrams / input.servings),
+    total,
+    perServing: divideNutrition(total, input.servings),
+    per100g: divideNutrition(total, cookedWeightGrams / 100),
+  };
+}
+
+/**
+ * Describe a recipe as a food, so meal logging, search, diet checks and
+ * scoring treat it like any catalog food
+ * The food's nutrition is per 100g cooked and one "serving" portion is one
+ * of the recipe's servings.
+ * @param {string} recipeId - Recipe document id
+ * @param {object} details - Name and the optional descriptive fields
+ * @param {RecipeInput} input - Resolved recipe
+ * @param {RecipeNutrition} computed - Result of calculateRecipe
+ * @return {object} Food fields plus the recipe details
+ */
+export function recipeToFood(
+  recipeId: string,
+  details: {name: string; aliases?: string[]; category?: string; mealTypes?: string[]},
+  input: RecipeInput,
+  computed: RecipeNutrition
+): IndianFood & {recipe: RecipeDetails} {
+  const line = ({ingredient, grams}: RecipeLine): RecipeIngredientLine => ({
+    ingredientId: ingredient.id,
+    name: ingredient.name,
+    grams: round2(grams),
+  });
+  const ingredients: FoodIngredient[] = [...input.lines, ...(input.oil ? [input.oil] : [])]
+    .map(({ingredient, grams}) => ({
+      name: ingredient.name,
+      quantity: round2(grams / input.servings),
+      unit: "g",
+    }));
+
+  const food = {
+    id: recipeId,
+    name: details.name,
+    aliases: details.aliases || [],
+    nutrition: computed.per100g,
+    cookingMethods: {
+      defaultMethod: {
+        name: input.cookingMethod,
+        description: "Home recipe",
+        nutritionMultiplier: 1,
+        commonIngredients: ingredients.map((ingredient) => ingredient.name),
+      },
+      alternatives: [],
+      nutritionAdjustments: {},
+    },
+    portionSizes: {
+      standardPortions: {serving: computed.servingGrams},
+      visualReference: `1 of ${input.servings} servings`,
+      gramsPerPortion: computed.servingGrams,
+    },
+    regions: {primaryRegion: "All India", availableRegions: [], regionalNames: {}},
+    category: details.category || "main",
+    commonCombinations: [],
+    baseDish: details.name,
+  };
+
+  return {
+    ...food,
+    searchTerms: generateSearchTerms({...food, searchTerms: []}),
+    regionalVariations: [],
+    ...(details.mealTypes?.length ? {mealTypes: details.mealTypes} : {}),
+    ingredients,
+    recipe: {
+      servings: input.servings,
+      ingredients: input.lines.map(line),
+      oil: input.oil ? line(input.oil) : null,
+      cookingMethod: input.cookingMethod,
+      rawWeightGrams: computed.rawWeightGrams,
+      cookedWeightGrams: computed.cookedWeightGrams,
+      servingGrams: computed.servingGrams,
+      perServing: computed.perServing,
+    },
+  };
+}
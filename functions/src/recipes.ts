@@ -0,0 +1,189 @@
+/**
+ * Custom recipe functions for NutriSync
+ * Users describe a home recipe by its raw ingredients; nutrition is computed
+ * here from the bundled ingredient table (functions/data/ingredients.csv)
+ * and stored with the recipe, which the user can then log, search and get
+ * recommended like any catalog food.
+ */
+
+import {promises as fs} from "fs";
+import * as path from "path";
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import {HttpsError, onCall} from "firebase-functions/v2/https";
+import {callableError, requireUser} from "./callable";
+import {
+  deleteRecipeRequest,
+  saveRecipeRequest,
+  SaveRecipeRequest,
+  SaveRecipeResponse,
+  SuccessResponse,
+} from "./contracts";
+import {
+  buildIngredientIndex,
+  calculateRecipe,
+  DEFAULT_OIL,
+  findIngredient,
+  Ingredient,
+  parseIngredientTable,
+  RecipeInput,
+  recipeToFood,
+} from "./recipeNutrition";
+import {UserRecipe} from "./types";
+import {parseRequest} from "./validation";
+
+const db = admin.firestore();
+
+// Bundled composition table, relative to the compiled lib/ directory
+const INGREDIENTS_FILE = path.join(__dirname, "..", "data", "ingredients.csv");
+
+// Every recipe is loaded for search and recommendations, so keep it bounded
+const MAX_RECIPES_PER_USER = 200;
+
+// Parsed once per instance; the table only changes with a deploy
+let ingredientIndex: Promise<Map<string, Ingredient>> | null = null;
+
+/**
+ * Load the ingredient table
+ * @return {Promise<Map<string, Ingredient>>} Ingredients by match key
+ */
+function loadIngredients(): Promise<Map<string, Ingredient>> {
+  if (!ingredientIndex) {
+    ingredientIndex = fs.readFile(INGREDIENTS_FILE, "utf8")
+      .then((text) => buildIngredientIndex(parseIngredientTable(text)))
+      .catch((error) => {
+        ingredientIndex = null;
+        throw error;
+      });
+  }
+  return ingredientIndex;
+}
+
+/**
+ * A user's recipes collection
+ * @param {string} userId - Owner
+ * @return {admin.firestore.CollectionReference} Recipes collection
+ */
+function recipesOf(userId: string): admin.firestore.CollectionReference {
+  return db.collection("users").doc(userId).collection("recipes");
+}
+
+/**
+ * Load all of a user's recipes
+ * @param {string} userId - Owner
+ * @return {Promise<UserRecipe[]>} Recipes, ordered by name
+ */
+export async function loadUserRecipes(userId: string): Promise<UserRecipe[]> {
+  const snapshot = await recipesOf(userId).get();
+  return snapshot.docs
+    .map((doc) => ({...doc.data(), id: doc.id} as UserRecipe))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Match a request's ingredient names against the ingredient table
+ * Unknown ingredients are invalid-argument, naming the line.
+ * @param {SaveRecipeRequest} request - Validated request
+ * @return {Promise<RecipeInput>} Resolved recipe
+ */
+async function resolveRecipe(request: SaveRecipeRequest): Promise<RecipeInput> {
+  const ingredients = await loadIngredients();
+  const resolve = (name: string, field: string): Ingredient => {
+    const ingredient = findIngredient(ingredients, name);
+    if (!ingredient) {
+      throw new HttpsError("invalid-argument", `Unknown ingredient: ${name}`, {field});
+    }
+    return ingredient;
+  };
+
+  const lines = request.ingredients.map((line, i) => ({
+    ingredient: resolve(line.ingredient, `ingredients[${i}].ingredient`),
+    grams: line.grams,
+  }));
+  const oil = request.oilGrams ? {
+    ingredient: resolve(request.oilType || DEFAULT_OIL, "oilType"),
+    grams: request.oilGrams,
+  } : null;
+
+  return {
+    lines,
+    oil,
+    cookingMethod: request.cookingMethod,
+    servings: request.servings,
+    cookedWeightGrams: request.cookedWeightGrams,
+  };
+}
+
+/**
+ * Create or replace a custom recipe
+ * Nutrition per serving and per 100g is computed from the ingredients;
+ * clients cannot write recipes directly.
+ */
+export const saveRecipe = onCall(async (request): Promise<SaveRecipeResponse> => {
+  const userId = requireUser(request);
+  const data = parseRequest(saveRecipeRequest, request.data);
+
+  try {
+    const input = await resolveRecipe(data);
+    const recipes = recipesOf(userId);
+    const ref = data.recipeId ? recipes.doc(data.recipeId) : recipes.doc();
+
+    let createdAt: unknown = admin.firestore.FieldValue.serverTimestamp();
+    if (data.recipeId) {
+      const existing = await ref.get();
+      if (!existing.exists) {
+        throw new HttpsError("not-found", `Recipe not found: ${data.recipeId}`,
+          {recipeId: data.recipeId});
+      }
+      createdAt = existing.get("createdAt") ?? createdAt;
+    } else {
+      const count = await recipes.count().get();
+      if (count.data().count >= MAX_RECIPES_PER_USER) {
+        throw new HttpsError("failed-precondition",
+          `You can save up to ${MAX_RECIPES_PER_USER} recipes`);
+      }
+    }
+
+    const food = recipeToFood(ref.id, data, input, calculateRecipe(input));
+    await ref.set({
+      ...food,
+      ownerId: userId,
+      createdAt,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    logger.info(`Recipe saved for user: ${userId}`, {
+      recipeId: ref.id,
+      created: !data.recipeId,
+      servingCalories: food.recipe.perServing.calories,
+    });
+
+    return {
+      recipeId: ref.id,
+      created: !data.recipeId,
+      recipe: food.recipe,
+      nutrition: food.nutrition,
+    };
+  } catch (error) {
+    throw callableError(error, "Failed to save recipe",
+      `Error saving recipe for user: ${userId}`);
+  }
+});
+
+/**
+ * Delete a custom recipe
+ * Meals already logged from it keep their nutrition.
+ */
+export const deleteRecipe = onCall(async (request): Promise<SuccessResponse> => {
+  const userId = requireUser(request);
+  const {recipeId} = parseRequest(deleteRecipeRequest, request.data);
+
+  try {
+    await recipesOf(userId).doc(recipeId).delete();
+    logger.info(`Recipe deleted for user: ${userId}`, {recipeId});
+    return {success: true};
+  } catch (error) {
+    throw callableError(error, "Failed to delete recipe",
+      `Error deleting recipe for user: ${userId}`);
+  }
+});
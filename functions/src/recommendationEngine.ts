@@ -0,0 +1,382 @@
+/**
+ * Rule-based recommendation scoring for NutriSync
+ * Each rule looks at one aspect of the user (goals, medical conditions,
+ * region, diet, today's calorie budget) and contributes points with a reason,
+ * so the app can show why a food was recommended.
+ */
+
+import {dietaryViolation, enforcedRestrictions} from "./dietary";
+import {IndianFood, UserProfile} from "./types";
+
+/**
+ * A threshold on a per-100g nutrient value, e.g. calories below 200.
+ * nutrient is a macro name or a path such as "minerals.sodium".
+ */
+export interface NutrientCriterion {
+  nutrient: string;
+  above?: number;
+  below?: number;
+  points: number;
+  reason: string;
+}
+
+export interface ScoringConfig {
+  // Multiplier per rule id; 0 disables a rule
+  weights: Record<string, number>;
+  // Keyed by lowercased health goal / medical condition
+  goals: Record<string, NutrientCriterion[]>;
+  conditions: Record<string, NutrientCriterion[]>;
+  region: {primaryPoints: number; availablePoints: number};
+  dietary: {compliantPoints: number};
+  budget: {defaultDailyCalories: number; fitsPoints: number; exceedsPoints: number};
+  nutrientDensity: {minVitamins: number; points: number};
+}
+
+export interface RecommendationContext {
+  profile: UserProfile;
+  caloriesConsumedToday: number;
+  dailyCalorieTarget?: number;
+}
+
+export interface RuleContribution {
+  rule: string;
+  points: number;
+  reason: string;
+}
+
+export interface ScoreBreakdownEntry extends RuleContribution {
+  weight: number;
+  score: number;
+}
+
+export interface RecommendationRule {
+  id: string;
+  evaluate(
+    food: IndianFood,
+    context: RecommendationContext,
+    config: ScoringConfig
+  ): RuleContribution[];
+}
+
+export interface FoodScore {
+  score: number;
+  breakdown: ScoreBreakdownEntry[];
+  reason: string;
+}
+
+export const DEFAULT_SCORING_CONFIG: ScoringConfig = {
+  weights: {
+    goal: 1,
+    medicalCondition: 1,
+    region: 1,
+    dietaryRestriction: 1,
+    dailyBudget: 1,
+    nutrientDensity: 1,
+  },
+  goals: {
+    "weight loss": [
+      {nutrient: "calories", below: 200, points: 20,
+        reason: "low in calories for weight management"},
+    ],
+    "weight gain": [
+      {nutrient: "calories", above: 300, points: 15,
+        reason: "energy-dense for healthy weight gain"},
+    ],
+    "muscle building": [
+      {nutrient: "protein", above: 10, points: 20,
+        reason: "high in protein for muscle building"},
+    ],
+    "better digestion": [
+      {nutrient: "fiber", above: 5, points: 10, reason: "high in fiber for digestion"},
+    ],
+    "heart health": [
+      {nutrient: "fat", below: 10, points: 10, reason: "low in fat for heart health"},
+    ],
+    "blood sugar control": [
+      {nutrient: "fiber", above: 5, points: 10,
+        reason: "high in fiber, which helps steady blood sugar"},
+    ],
+  },
+  conditions: {
+    "diabetes": [
+      {nutrient: "fiber", above: 5, points: 15,
+        reason: "high fiber content good for diabetes management"},
+      {nutrient: "carbs", above: 45, points: -15,
+        reason: "high in carbohydrates, which can spike blood sugar"},
+    ],
+    "hypertension": [
+      {nutrient: "minerals.sodium", above: 400, points: -20,
+        reason: "high in sodium, which raises blood pressure"},
+      {nutrient: "minerals.potassium", above: 300, points: 10,
+        reason: "rich in potassium, which helps control blood pressure"},
+    ],
+    "high cholesterol": [
+      {nutrient: "fat", above: 15, points: -15, reason: "high in fat"},
+    ],
+    "heart disease": [
+      {nutrient: "fat", above: 15, points: -15, reason: "high in fat"},
+      {nutrient: "minerals.sodium", above: 400, points: -15, reason: "high in sodium"},
+    ],
+    "anemia": [
+      {nutrient: "minerals.iron", above: 3, points: 15, reason: "rich in iron for anemia"},
+    ],
+    "kidney disease": [
+      {nutrient: "minerals.potassium", above: 400, points: -15,
+        reason: "high in potassium"},
+    ],
+  },
+  region: {primaryPoints: 10, availablePoints: 5},
+  dietary: {compliantPoints: 5},
+  budget: {defaultDailyCalories: 2000, fitsPoints: 10, exceedsPoints: -15},
+  nutrientDensity: {minVitamins: 1, points: 5},
+};
+
+/**
+ * Merge a partial config document over the defaults
+ * @param {Partial<ScoringConfig>} overrides - Values from config/recommendationRules
+ * @return {ScoringConfig} Complete config
+ */
+export function resolveScoringConfig(
+  overrides?: Partial<ScoringConfig> | null
+): ScoringConfig {
+  const base = DEFAULT_SCORING_CONFIG;
+  if (!overrides) {
+    return base;
+  }
+  return {
+    weights: {...base.weights, ...overrides.weights},
+    goals: {...base.goals, ...lowercaseKeys(overrides.goals)},
+    conditions: {...base.conditions, ...lowercaseKeys(overrides.conditions)},
+    region: {...base.region, ...overrides.region},
+    dietary: {...base.dietary, ...overrides.dietary},
+    budget: {...base.budget, ...overrides.budget},
+    nutrientDensity: {...base.nutrientDensity, ...overrides.nutrientDensity},
+  };
+}
+
+/**
+ * Lowercase the keys of a map
+ * @param {Record<string, T>} map - Map from the config document
+ * @return {Record<string, T>} Map with lowercased keys
+ */
+function lowercaseKeys<T>(map?: Record<string, T>): Record<string, T> {
+  return Object.fromEntries(
+    Object.entries(map || {}).map(([key, value]) => [key.toLowerCase(), value]));
+}
+
+/**
+ * Read a per-100g nutrient value from a food
+ * @param {IndianFood} food - Food document
+ * @param {string} nutrient - Macro name or "vitamins.x" / "minerals.x" path
+ * @return {number | undefined} Value, if the food has it
+ */
+function nutrientValue(food: IndianFood, nutrient: string): number | undefined {
+  const [group, name] = nutrient.split(".");
+  if (name) {
+    const values = group === "vitamins" ?
+      food.nutrition?.vitamins :
+      food.nutrition?.minerals;
+    return values?.[name];
+  }
+  const value = (food.nutrition as unknown as Record<string, unknown>)?.[group];
+  return typeof value === "number" ? value : undefined;
+}
+
+/**
+ * Evaluate threshold criteria for the profile entries a user has
+ * @param {string} rule - Rule id
+ * @param {IndianFood} food - Food document
+ * @param {string[]} entries - The user's goals or conditions
+ * @param {Record<string, NutrientCriterion[]>} criteria - Criteria by entry
+ * @return {RuleContribution[]} Contributions for every criterion met
+ */
+function evaluateCriteria(
+  rule: string,
+  food: IndianFood,
+  entries: string[],
+  criteria: Record<string, NutrientCriterion[]>
+): RuleContribution[] {
+  const contributions: RuleContribution[] = [];
+  for (const entry of entries) {
+    for (const criterion of criteria[entry.toLowerCase()] || []) {
+      const value = nutrientValue(food, criterion.nutrient);
+      if (value === undefined) continue;
+      const meetsAbove = criterion.above === undefined || value > criterion.above;
+      const meetsBelow = criterion.below === undefined || value < criterion.below;
+      if (meetsAbove && meetsBelow) {
+        contributions.push({rule, points: criterion.points, reason: criterion.reason});
+      }
+    }
+  }
+  return contributions;
+}
+
+const goalRule: RecommendationRule = {
+  id: "goal",
+  evaluate: (food, context, config) => evaluateCriteria(
+    "goal", food, context.profile.healthGoals || [], config.goals),
+};
+
+const medicalConditionRule: RecommendationRule = {
+  id: "medicalCondition",
+  evaluate: (food, context, config) => evaluateCriteria(
+    "medicalCondition", food, context.profile.medicalConditions || [],
+    config.conditions),
+};
+
+const regionRule: RecommendationRule = {
+  id: "region",
+  evaluate: (food, context, config) => {
+    const preferred = context.profile.culturalPreferences?.preferredRegion?.toLowerCase();
+    if (!preferred || !food.regions) {
+      return [];
+    }
+    if (food.regions.primaryRegion?.toLowerCase() === preferred) {
+      return [{
+        rule: "region",
+        points: config.region.primaryPoints,
+        reason: `a classic of your preferred ${food.regions.primaryRegion} cuisine`,
+      }];
+    }
+    const available = (food.regions.availableRegions || [])
+      .map((region) => region.toLowerCase());
+    if (available.includes(preferred)) {
+      return [{
+        rule: "region",
+        points: config.region.availablePoints,
+        reason: "commonly eaten in your region",
+      }];
+    }
+    return [];
+  },
+};
+
+const dietaryRestrictionRule: RecommendationRule = {
+  id: "dietaryRestriction",
+  evaluate: (food, context, config) => {
+    // Violations never reach scoring; see partitionByDiet
+    const restrictions = enforcedRestrictions(context.profile);
+    if (restrictions.length === 0) {
+      return [];
+    }
+    return [{
+      rule: "dietaryRestriction",
+      points: config.dietary.compliantPoints,
+      reason: `suitable for your ${restrictions.join(" and ")} diet`,
+    }];
+  },
+};
+
+const dailyBudgetRule: RecommendationRule = {
+  id: "dailyBudget",
+  evaluate: (food, context, config) => {
+    const target = context.dailyCalorieTarget || config.budget.defaultDailyCalories;
+    const remaining = Math.round(target - context.caloriesConsumedToday);
+    const portionCalories = (food.nutrition?.calories || 0) *
+      (food.portionSizes?.gramsPerPortion || 100) / 100;
+
+    if (remaining > 0 && portionCalories <= remaining) {
+      return [{
+        rule: "dailyBudget",
+        points: config.budget.fitsPoints,
+        reason: `within your remaining ${remaining} kcal for today`,
+      }];
+    }
+    return [{
+      rule: "dailyBudget",
+      points: config.budget.exceedsPoints,
+      reason: "more than the calories you have left today",
+    }];
+  },
+};
+
+const nutrientDensityRule: RecommendationRule = {
+  id: "nutrientDensity",
+  evaluate: (food, _context, config) => {
+    const vitaminCount = Object.keys(food.nutrition?.vitamins || {}).length;
+    if (vitaminCount < config.nutrientDensity.minVitamins) {
+      return [];
+    }
+    return [{
+      rule: "nutrientDensity",
+      points: config.nutrientDensity.points,
+      reason: "rich in essential vitamins",
+    }];
+  },
+};
+
+export const DEFAULT_RULES: RecommendationRule[] = [
+  goalRule,
+  medicalConditionRule,
+  regionRule,
+  dietaryRestrictionRule,
+  dailyBudgetRule,
+  nutrientDensityRule,
+];
+
+/**
+ * Score one food for a user
+ * @param {IndianFood} food - Food document (already diet-checked)
+ * @param {RecommendationContext} context - User profile and today's intake
+ * @param {ScoringConfig} config - Scoring config
+ * @param {RecommendationRule[]} rules - Rules to apply
+ * @return {FoodScore} Total score, per-rule breakdown and summary reason
+ */
+export function scoreFood(
+  food: IndianFood,
+  context: RecommendationContext,
+  config: ScoringConfig = DEFAULT_SCORING_CONFIG,
+  rules: RecommendationRule[] = DEFAULT_RULES
+): FoodScore {
+  const breakdown: ScoreBreakdownEntry[] = [];
+
+  for (const rule of rules) {
+    const weight = config.weights[rule.id] ?? 1;
+    if (weight === 0) continue;
+    for (const contribution of rule.evaluate(food, context, config)) {
+      breakdown.push({
+        ...contribution,
+        weight,
+        score: Math.round(contribution.points * weight * 100) / 100,
+      });
+    }
+  }
+
+  const score = breakdown.reduce((total, entry) => total + entry.score, 0);
+  const positives = breakdown
+    .filter((entry) => entry.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .map((entry) => entry.reason);
+
+  return {
+    score: Math.round(score * 100) / 100,
+    breakdown,
+    reason: positives.length > 0 ?
+      `Recommended because it's ${positives.join(", ")}` :
+      "Good nutritional choice for your profile",
+  };
+}
+
+/**
+ * Split foods into those the user may eat and those excluded by
+ * allergies or dietary restrictions
+ * @param {IndianFood[]} foods - Candidate foods
+ * @param {UserProfile} profile - User profile
+ * @return {object} Allowed foods and excluded foods with reasons
+ */
+export function partitionByDiet(
+  foods: IndianFood[],
+  profile: UserProfile
+): {allowed: IndianFood[]; excluded: Array<{food: IndianFood; reason: string}>} {
+  const allowed: IndianFood[] = [];
+  const excluded: Array<{food: IndianFood; reason: string}> = [];
+  for (const food of foods) {
+    const violation = dietaryViolation(food, profile);
+    if (violation) {
+      excluded.push({food, reason: violation});
+    } else {
+      allowed.push(food);
+    }
+  }
+  return {allowed, excluded};
+}
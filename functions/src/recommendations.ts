@@ -0,0 +1,128 @@
+/**
+ * Food recommendations for NutriSync
+ * Scores catalog foods and the user's own recipes against their profile,
+ * today's intake and the recommendationRules config. Shared by the
+ * generateRecommendations callable and the conversational assistant.
+ */
+
+import * as admin from "firebase-admin";
+import {loadConfigDoc} from "./configStore";
+import {RecommendedFood} from "./contracts";
+import {loadFoodCatalog, loadSearchIndex} from "./foodCatalog";
+import {buildSearchEntry, searchFoodEntries} from "./foodSearch";
+import {fitsSlot, MealSlot} from "./mealPlanner";
+import {loadUserRecipes} from "./recipes";
+import {
+  partitionByDiet,
+  resolveScoringConfig,
+  scoreFood,
+  ScoringConfig,
+} from "./recommendationEngine";
+import {localDateKey, resolveTimeZone} from "./timezone";
+import {DailySummary, IndianFood, UserProfile} from "./types";
+
+const db = admin.firestore();
+
+// Search matches scored when a query is given
+const MAX_QUERY_CANDIDATES = 25;
+const DEFAULT_RECOMMENDATION_COUNT = 5;
+
+export interface RecommendationOptions {
+  // Free-text food search; without one every food fitting mealType competes
+  foodQuery?: string;
+  mealType?: MealSlot;
+  limit?: number;
+}
+
+export interface FoodRecommendations {
+  recommendations: RecommendedFood[];
+  // Candidates removed by allergies or dietary restrictions
+  excluded: Array<{foodId: string; name: string; reason: string}>;
+}
+
+/**
+ * Pick the foods to score
+ * @param {string} userId - User whose recipes compete with catalog foods
+ * @param {RecommendationOptions} options - Query and meal type
+ * @return {Promise<IndianFood[]>} Candidate foods
+ */
+async function loadCandidates(
+  userId: string,
+  options: RecommendationOptions
+): Promise<IndianFood[]> {
+  const [foods, recipes] = await Promise.all([loadFoodCatalog(), loadUserRecipes(userId)]);
+
+  if (!options.foodQuery) {
+    const all = [...foods, ...recipes];
+    const mealType = options.mealType;
+    return mealType ? all.filter((food) => fitsSlot(food, mealType)) : all;
+  }
+
+  // The user's own recipes compete with catalog foods
+  const searchIndex = await loadSearchIndex();
+  const recipeEntries = recipes.map((recipe) =>
+    ({...buildSearchEntry(recipe), recipeId: recipe.id}));
+  const matches = searchFoodEntries([...searchIndex, ...recipeEntries], options.foodQuery,
+    {limit: MAX_QUERY_CANDIDATES});
+  const foodsById = new Map(foods.map((food) => [food.id, food]));
+  const recipesById = new Map(recipes.map((recipe) => [recipe.id, recipe]));
+  return matches.results
+    .map((match) => match.recipeId ?
+      recipesById.get(match.recipeId) :
+      foodsById.get(match.foodId))
+    .filter((food): food is IndianFood => !!food);
+}
+
+/**
+ * Recommend foods for a user
+ * @param {string} userId - User id
+ * @param {Omit<UserProfile, "uid">} userData - User profile document
+ * @param {RecommendationOptions} options - Query, meal type and count
+ * @return {Promise<FoodRecommendations>} Best foods first, plus exclusions
+ */
+export async function recommendFoods(
+  userId: string,
+  userData: Omit<UserProfile, "uid">,
+  options: RecommendationOptions
+): Promise<FoodRecommendations> {
+  const [candidates, rulesConfig, todaySummary] = await Promise.all([
+    loadCandidates(userId, options),
+    loadConfigDoc("recommendationRules"),
+    db.collection("users").doc(userId).collection("dailySummaries")
+      .doc(localDateKey(new Date(), resolveTimeZone(userData.timezone))).get(),
+  ]);
+
+  // Allergies and vegetarian/vegan/Jain restrictions exclude outright
+  const profile = {...userData, uid: userId} as UserProfile;
+  const {allowed, excluded} = partitionByDiet(candidates, profile);
+
+  const config = resolveScoringConfig(rulesConfig as Partial<ScoringConfig> | null);
+  const summary = todaySummary.data() as DailySummary | undefined;
+  const context = {
+    profile,
+    caloriesConsumedToday: summary?.totalCalories || 0,
+    dailyCalorieTarget: userData.nutritionTargets?.calories,
+  };
+
+  const recommendations = allowed.map((food): RecommendedFood => {
+    const {score, breakdown, reason} = scoreFood(food, context, config);
+    return {
+      ...food,
+      recommendationScore: score,
+      reason: reason,
+      scoreBreakdown: breakdown,
+    };
+  });
+
+  // Sort by recommendation score
+  recommendations.sort((a, b) => b.recommendationScore - a.recommendationScore);
+
+  return {
+    recommendations: recommendations.slice(0, options.limit || DEFAULT_RECOMMENDATION_COUNT),
+    excluded: excluded.map(({food, reason}) => ({
+      foodId: food.id,
+      name: food.name,
+      reason: reason,
+    })),
+  };
+}
@@ -0,0 +1,278 @@
+/**
+ * Data retention for NutriSync
+ * Deletes per-user documents past their retention period and rolls old
+ * daily summaries up into monthlySummaries. Every step re-queries what is
+ * still left, so an interrupted run is finished by the next one.
+ */
+
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import {onCall} from "firebase-functions/v2/https";
+import {onSchedule} from "firebase-functions/v2/scheduler";
+import {callableError, requireAdmin} from "./callable";
+import {loadConfigDoc} from "./configStore";
+import {
+  RetentionTotals,
+  runRetentionCleanupRequest,
+  RunRetentionCleanupResponse,
+} from "./contracts";
+import {JOB_RUNS} from "./jobRunner";
+import {
+  resolveRetentionPolicy,
+  RetentionPolicy,
+  RetentionRule,
+  retentionRules,
+  RolledUpDay,
+  rolledUpDay,
+  summarizeMonth,
+} from "./retentionPolicy";
+import {addDays} from "./timezone";
+import {parseRequest} from "./validation";
+
+const db = admin.firestore();
+
+// Documents fetched per delete round
+const PAGE_SIZE = 500;
+
+// Summaries fetched per rollup round; each becomes a (user, month) group
+const ROLLUP_PAGE_SIZE = 100;
+
+// Stop before the function times out; the next run continues
+const TIME_BUDGET_MS = 25 * 60 * 1000;
+
+/**
+ * Delete everything a rule matches, page by page
+ * @param {RetentionRule} rule - What to delete
+ * @param {Date} now - Run time
+ * @param {number} deadline - Epoch ms to stop at
+ * @param {boolean} dryRun - Count instead of deleting
+ * @return {Promise<RetentionTotals>} Totals for the rule
+ */
+async function applyRule(
+  rule: RetentionRule,
+  now: Date,
+  deadline: number,
+  dryRun: boolean
+): Promise<RetentionTotals> {
+  const cutoff = new Date(now.getTime() - rule.days * 24 * 60 * 60 * 1000);
+  let query = db.collectionGroup(rule.collection)
+    .where(rule.timestampField, "<", admin.firestore.Timestamp.fromDate(cutoff));
+  if (rule.where) {
+    query = query.where(rule.where.field, "==", rule.where.value);
+  }
+
+  if (dryRun) {
+    const count = await query.count().get();
+    return {deleted: count.data().count, complete: true};
+  }
+
+  let deleted = 0;
+  for (;;) {
+    // Deleted documents drop out of the query, so no cursor is needed
+    const page = await query.select().limit(PAGE_SIZE).get();
+    if (page.empty) {
+      return {deleted, complete: true};
+    }
+
+    const writer = db.bulkWriter();
+    page.docs.forEach((doc) => writer.delete(doc.ref));
+    await writer.close();
+    deleted += page.size;
+
+    if (page.size < PAGE_SIZE) {
+      return {deleted, complete: true};
+    }
+    if (Date.now() > deadline) {
+      return {deleted, complete: false};
+    }
+  }
+}
+
+/**
+ * Fold one user's old daily summaries for a month into monthlySummaries
+ * The month keeps per-day totals, so folding the same day twice (after an
+ * interrupted run) replaces rather than double counts it.
+ * @param {admin.firestore.DocumentReference} userRef - User document
+ * @param {string} month - YYYY-MM
+ * @param {string} cutoffKey - Summaries before this date are rolled up
+ * @return {Promise<number>} Daily summaries removed
+ */
+async function rollUpMonth(
+  userRef: admin.firestore.DocumentReference,
+  month: string,
+  cutoffKey: string
+): Promise<number> {
+  const monthlyRef = userRef.collection("monthlySummaries").doc(month);
+  const dailyQuery = userRef.collection("dailySummaries")
+    .where(admin.firestore.FieldPath.documentId(), ">=", `${month}-01`)
+    .where(admin.firestore.FieldPath.documentId(), "<=", `${month}-31`);
+
+  return db.runTransaction(async (transaction) => {
+    const [monthly, dailies] = await Promise.all([
+      transaction.get(monthlyRef),
+      transaction.get(dailyQuery),
+    ]);
+    const old = dailies.docs.filter((doc) => doc.id < cutoffKey);
+    if (old.length === 0) {
+      return 0;
+    }
+
+    const days: Record<string, RolledUpDay> = {...(monthly.data()?.days || {})};
+    for (const doc of old) {
+      days[doc.id] = rolledUpDay(doc.data());
+    }
+
+    transaction.set(monthlyRef, {
+      month,
+      days,
+      ...summarizeMonth(days),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    old.forEach((doc) => transaction.delete(doc.ref));
+    return old.length;
+  });
+}
+
+/**
+ * Roll up and remove daily summaries older than the policy allows
+ * @param {number} days - Days of daily summaries to keep
+ * @param {Date} now - Run time
+ * @param {number} deadline - Epoch ms to stop at
+ * @param {boolean} dryRun - Count instead of rolling up
+ * @return {Promise<RetentionTotals>} Totals for daily summaries
+ */
+async function rollUpDailySummaries(
+  days: number,
+  now: Date,
+  deadline: number,
+  dryRun: boolean
+): Promise<RetentionTotals> {
+  const cutoffKey = addDays(now.toISOString().split("T")[0], -days);
+  const query = db.collectionGroup("dailySummaries").where("date", "<", cutoffKey);
+
+  if (dryRun) {
+    const count = await query.count().get();
+    return {deleted: count.data().count, complete: true};
+  }
+
+  let deleted = 0;
+  let rolledUpMonths = 0;
+  for (;;) {
+    const page = await query.select("date").limit(ROLLUP_PAGE_SIZE).get();
+    if (page.empty) {
+      return {deleted, rolledUpMonths, complete: true};
+    }
+
+    // One rollup per user and month in the page
+    const groups = new Map<string, {userRef: admin.firestore.DocumentReference; month: string}>();
+    for (const doc of page.docs) {
+      const userRef = doc.ref.parent.parent;
+      if (!userRef) continue;
+      const month = String(doc.get("date")).slice(0, 7);
+      groups.set(`${userRef.path}|${month}`, {userRef, month});
+    }
+
+    const removed = await Promise.all([...groups.values()].map(({userRef, month}) =>
+      rollUpMonth(userRef, month, cutoffKey)));
+    const removedCount = removed.reduce((total, count) => total + count, 0);
+    deleted += removedCount;
+    rolledUpMonths += groups.size;
+
+    // Summaries whose date field disagrees with their id would loop forever
+    if (removedCount === 0) {
+      logger.warn("Daily summaries could not be rolled up", {
+        paths: page.docs.slice(0, 10).map((doc) => doc.ref.path),
+      });
+      return {deleted, rolledUpMonths, complete: false};
+    }
+
+    if (page.size < ROLLUP_PAGE_SIZE) {
+      return {deleted, rolledUpMonths, complete: true};
+    }
+    if (Date.now() > deadline) {
+      return {deleted, rolledUpMonths, complete: false};
+    }
+  }
+}
+
+/**
+ * Apply the retention policy to every collection and record the run
+ * @param {RetentionPolicy} policy - Effective policy
+ * @param {string} runKey - Identifies the run in jobRuns
+ * @return {Promise<RunRetentionCleanupResponse>} Totals per collection
+ */
+async function runRetention(
+  policy: RetentionPolicy,
+  runKey: string
+): Promise<RunRetentionCleanupResponse> {
+  const now = new Date();
+  const deadline = now.getTime() + TIME_BUDGET_MS;
+  const totals: Record<string, RetentionTotals> = {};
+
+  for (const rule of retentionRules(policy)) {
+    totals[rule.name] = await applyRule(rule, now, deadline, policy.dryRun);
+    logger.info(`Retention ${policy.dryRun ? "dry run" : "cleanup"}: ${rule.name}`,
+      totals[rule.name]);
+  }
+  if (policy.dailySummariesDays > 0) {
+    totals.dailySummaries = await rollUpDailySummaries(
+      policy.dailySummariesDays, now, deadline, policy.dryRun);
+    logger.info(`Retention ${policy.dryRun ? "dry run" : "cleanup"}: dailySummaries`,
+      totals.dailySummaries);
+  }
+
+  const complete = Object.values(totals).every((total) => total.complete);
+  await db.collection(JOB_RUNS).doc(`retention-${runKey}`).set({
+    job: "retention",
+    runKey,
+    dryRun: policy.dryRun,
+    policy,
+    totals,
+    status: complete ? "completed" : "incomplete",
+    startedAt: admin.firestore.Timestamp.fromDate(now),
+    completedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  return {dryRun: policy.dryRun, complete, totals};
+}
+
+/**
+ * Cleanup old data (runs monthly)
+ * Runs at 8:30 PM UTC on the 1st of every month (2 AM IST on the 2nd)
+ */
+export const monthlyCleanup = onSchedule({
+  schedule: "30 20 1 * *",
+  timeoutSeconds: 1800,
+}, async (event) => {
+  logger.info("Running monthly cleanup");
+
+  try {
+    const policy = resolveRetentionPolicy(await loadConfigDoc("retention"));
+    const result = await runRetention(policy, event.scheduleTime.slice(0, 7));
+    if (!result.complete) {
+      logger.warn("Monthly cleanup ran out of time; the next run continues", result.totals);
+    }
+  } catch (error) {
+    logger.error("Error in monthly cleanup", error);
+  }
+});
+
+/**
+ * Run the retention cleanup on demand (admin only)
+ * Dry run unless dryRun is explicitly false
+ */
+export const runRetentionCleanup = onCall({timeoutSeconds: 1800}, async (request) => {
+  requireAdmin(request);
+  const {dryRun} = parseRequest(runRetentionCleanupRequest, request.data);
+
+  try {
+    const policy = resolveRetentionPolicy({
+      ...(await loadConfigDoc("retention")),
+      dryRun: dryRun !== false,
+    });
+    return await runRetention(policy, `manual-${Date.now()}`);
+  } catch (error) {
+    throw callableError(error, "Failed to run retention cleanup",
+      "Error running retention cleanup");
+  }
+});
@@ -0,0 +1,153 @@
+/**
+ * Data retention policy for NutriSync
+ * How long each per-user collection is kept, overridable from
+ * config/retention, and how old daily summaries roll up into months.
+ */
+
+import {round2} from "./nutrition";
+import {SUMMARY_MICRONUTRIENTS, SUMMARY_TOTALS} from "./dailySummary";
+
+// One day kept in a month rollup: totals, mealCount and the vitamins and
+// minerals maps
+export type RolledUpDay = Record<string, number | Record<string, number>>;
+
+export interface RetentionPolicy {
+  // Days to keep each kind of document; 0 keeps them forever
+  voiceInteractionsDays: number;
+  readNotificationsDays: number;
+  unreadNotificationsDays: number;
+  conversationsDays: number;
+  // Daily summaries older than this are rolled into monthlySummaries first
+  dailySummariesDays: number;
+  // Report what would be deleted without deleting
+  dryRun: boolean;
+}
+
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  voiceInteractionsDays: 90,
+  readNotificationsDays: 30,
+  unreadNotificationsDays: 90,
+  conversationsDays: 180,
+  dailySummariesDays: 400,
+  dryRun: false,
+};
+
+export interface RetentionRule {
+  // Name used in logs and totals
+  name: string;
+  collection: string;
+  // Documents whose field is older than the cutoff are deleted
+  timestampField: string;
+  days: number;
+  // Extra equality filter, e.g. read == true
+  where?: {field: string; value: unknown};
+}
+
+/**
+ * Apply config/retention overrides to the defaults
+ * Values that are not non-negative numbers are ignored.
+ * @param {Record<string, unknown> | null} overrides - Config document data
+ * @return {RetentionPolicy} Effective policy
+ */
+export function resolveRetentionPolicy(
+  overrides?: Record<string, unknown> | null
+): RetentionPolicy {
+  const policy = {...DEFAULT_RETENTION_POLICY};
+  for (const key of Object.keys(policy) as Array<keyof RetentionPolicy>) {
+    const value = overrides?.[key];
+    if (key === "dryRun") {
+      if (typeof value === "boolean") policy.dryRun = value;
+    } else if (typeof value === "number" && Number.isFinite(value) && value >= 0) {
+      policy[key] = Math.floor(value);
+    }
+  }
+  return policy;
+}
+
+/**
+ * Deletion rules for a policy, skipping collections kept forever
+ * Daily summaries are handled by the month rollup, not a rule.
+ * @param {RetentionPolicy} policy - Effective policy
+ * @return {RetentionRule[]} Rules in the order they run
+ */
+export function retentionRules(policy: RetentionPolicy): RetentionRule[] {
+  const rules: RetentionRule[] = [
+    {
+      name: "voiceInteractions",
+      collection: "voiceInteractions",
+      timestampField: "timestamp",
+      days: policy.voiceInteractionsDays,
+    },
+    {
+      name: "notifications (read)",
+      collection: "notifications",
+      timestampField: "createdAt",
+      days: policy.readNotificationsDays,
+      where: {field: "read", value: true},
+    },
+    {
+      name: "notifications (unread)",
+      collection: "notifications",
+      timestampField: "createdAt",
+      days: policy.unreadNotificationsDays,
+      where: {field: "read", value: false},
+    },
+    {
+      name: "conversations",
+      collection: "conversations",
+      timestampField: "updatedAt",
+      days: policy.conversationsDays,
+    },
+  ];
+  return rules.filter((rule) => rule.days > 0);
+}
+
+/**
+ * The part of a daily summary kept once it is rolled up
+ * @param {Record<string, unknown>} summary - dailySummaries document data
+ * @return {RolledUpDay} Totals, mealCount, vitamins and minerals
+ */
+export function rolledUpDay(summary: Record<string, unknown>): RolledUpDay {
+  const day: RolledUpDay = {mealCount: Number(summary.mealCount) || 0};
+  for (const field of Object.values(SUMMARY_TOTALS)) {
+    day[field] = Number(summary[field]) || 0;
+  }
+  for (const [group, names] of Object.entries(SUMMARY_MICRONUTRIENTS)) {
+    const values = (summary[group] || {}) as Record<string, unknown>;
+    day[group] = Object.fromEntries(names.map((name) => [name, Number(values[name]) || 0]));
+  }
+  return day;
+}
+
+/**
+ * Month totals from rolled-up days
+ * Days rolled up before micronutrients were kept count as zero for them.
+ * @param {Record<string, RolledUpDay>} days - Days by date key
+ * @return {RolledUpDay} Summed totals, mealCount, daysLogged, vitamins and minerals
+ */
+export function summarizeMonth(days: Record<string, RolledUpDay>): RolledUpDay {
+  const fields = [...Object.values(SUMMARY_TOTALS), "mealCount"];
+  const totals: Record<string, number> = {daysLogged: 0};
+  for (const field of fields) {
+    totals[field] = 0;
+  }
+  const micronutrients: Record<string, Record<string, number>> = {};
+  for (const [group, names] of Object.entries(SUMMARY_MICRONUTRIENTS)) {
+    micronutrients[group] = Object.fromEntries(names.map((name) => [name, 0]));
+  }
+
+  for (const day of Object.values(days)) {
+    if ((Number(day.mealCount) || 0) > 0) totals.daysLogged++;
+    for (const field of fields) {
+      totals[field] = round2(totals[field] + (Number(day[field]) || 0));
+    }
+    for (const [group, names] of Object.entries(SUMMARY_MICRONUTRIENTS)) {
+      const values = (day[group] || {}) as Record<string, number>;
+      for (const name of names) {
+        micronutrients[group][name] =
+          round2(micronutrients[group][name] + (Number(values[name]) || 0));
+      }
+    }
+  }
+  return {...totals, ...micronutrients};
+}
@@ -0,0 +1,392 @@
+/**
+ * Scheduled nutrition reports for NutriSync
+ * Daily summaries, weekly progress reports and nutrient deficiency alerts
+ * go out per timezone bucket.
+ * Each run fans out to task-queue workers through the job runner, one
+ * shard per group of timezones.
+ */
+
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import {onSchedule} from "firebase-functions/v2/scheduler";
+import {onTaskDispatched} from "firebase-functions/v2/tasks";
+import {mealDay} from "./dailySummary";
+import {checkGlycemicDay} from "./glycemic";
+import {JobDefinition, runShard, ShardTask, SHARD_WORKER, startJobRun} from "./jobRunner";
+import {DEFICIENT_PERCENT, nutrientLabel, worstGap} from "./nutrientGaps";
+import {loadNutrientGaps, suggestFoodsForGap} from "./nutrients";
+import {targetProgress} from "./nutritionTargets";
+import {
+  addDays,
+  isoWeekKey,
+  localDateKey,
+  resolveTimeZone,
+  timeZonesAtLocalHour,
+  weekday,
+} from "./timezone";
+import {UserProfile} from "./types";
+import {buildWeeklyReport} from "./weeklyReport";
+
+const db = admin.firestore();
+
+// Firestore "in" filters take at most 30 values
+const TIMEZONES_PER_SHARD = 30;
+
+interface ReportShardParams {
+  timeZones: string[];
+  // Scheduled time of the run, so retries compute the same dates
+  runAt: string;
+}
+
+/**
+ * Split timezones into shard parameters
+ * @param {string[]} timeZones - Timezones in this run
+ * @param {Date} runAt - Scheduled time of the run
+ * @return {ReportShardParams[]} One entry per shard
+ */
+function timeZoneShards(timeZones: string[], runAt: Date): ReportShardParams[] {
+  const shards: ReportShardParams[] = [];
+  for (let i = 0; i < timeZones.length; i += TIMEZONES_PER_SHARD) {
+    shards.push({
+      timeZones: timeZones.slice(i, i + TIMEZONES_PER_SHARD),
+      runAt: runAt.toISOString(),
+    });
+  }
+  return shards;
+}
+
+/**
+ * Add a report notification to a shard's batch
+ * Ids are deterministic, so a re-run finds the notification it wrote
+ * before and only refreshes its content: read and createdAt are set when
+ * it is new, and merging keeps the push delivery status.
+ * @param {admin.firestore.WriteBatch} batch - The user's batch
+ * @param {admin.firestore.DocumentReference} ref - Notification document
+ * @param {Record<string, unknown>} content - type, title, message and data
+ */
+async function setReportNotification(
+  batch: admin.firestore.WriteBatch,
+  ref: admin.firestore.DocumentReference,
+  content: Record<string, unknown>
+): Promise<void> {
+  const existing = await ref.get();
+  batch.set(ref, existing.exists ? content : {
+    ...content,
+    read: false,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  }, {merge: true});
+}
+
+/**
+ * Daily summary for one user: records progress on yesterday's summary and
+ * sends one notification per day (re-running updates the same one)
+ */
+const dailySummaryJob: JobDefinition<ReportShardParams> = {
+  name: "dailySummary",
+  orderField: "lastMealDate",
+  query: (params) => {
+    // Yesterday began at most 44 hours ago anywhere it is 8 PM now
+    const activeSince = new Date(new Date(params.runAt).getTime() - 48 * 60 * 60 * 1000);
+    return db.collection("analytics")
+      .where("timezone", "in", params.timeZones)
+      .where("lastMealDate", ">=", admin.firestore.Timestamp.fromDate(activeSince));
+  },
+  processUser: async (userDoc, params, batch) => {
+    const userId = userDoc.id;
+    const timeZone = resolveTimeZone(userDoc.data().timezone);
+    const dateStr = addDays(localDateKey(new Date(params.runAt), timeZone), -1);
+    const userRef = db.collection("users").doc(userId);
+
+    const summaryDoc = await userRef.collection("dailySummaries").doc(dateStr).get();
+    if (!summaryDoc.exists) {
+      return false;
+    }
+    const summary = summaryDoc.data() || {};
+
+    // Record progress against the day's targets
+    let targetMessage = "";
+    if (summary.targets) {
+      const progress = targetProgress(summary, summary.targets);
+      batch.update(summaryDoc.ref, {progress});
+      summary.progress = progress;
+      targetMessage = `That's ${progress.calories}% of your ` +
+        `${summary.targets.calories} calorie target and ` +
+        `${progress.protein}% of your protein goal. `;
+    }
+
+    // Glycemic load against the limits of users who have them (diabetes)
+    const limits = summary.targets?.limits;
+    if (limits?.glycemicLoad) {
+      const glycemic = checkGlycemicDay(summary, limits);
+      batch.update(summaryDoc.ref, {glycemic});
+      summary.glycemic = glycemic;
+      targetMessage += `Your glycemic load was ${Math.round(glycemic.glycemicLoad)} ` +
+        `against a limit of ${glycemic.limit}` +
+        (glycemic.mealsOverLimit.length ?
+          `; ${glycemic.mealsOverLimit.join(" and ")} went over the per-meal limit. ` :
+          ". ");
+    }
+
+    const notificationRef = userRef.collection("notifications").doc(`daily_summary_${dateStr}`);
+    await setReportNotification(batch, notificationRef, {
+      type: "daily_summary",
+      title: "Your Daily Nutrition Summary",
+      message: `Yesterday you consumed ${summary.totalCalories || 0} ` +
+        `calories across ${summary.mealCount || 0} meals. ` +
+        targetMessage +
+        "Great job tracking your nutrition!",
+      data: summary,
+    });
+    return true;
+  },
+};
+
+/**
+ * Weekly report for one user: reports the Monday-Sunday week that just
+ * ended into weeklyReports/{isoWeek} and links the notification to it
+ */
+const weeklyReportJob: JobDefinition<ReportShardParams> = {
+  name: "weeklyReport",
+  orderField: "lastActiveDate",
+  query: (params) => {
+    // Active at some point during the week being reported
+    const activeSince = new Date(new Date(params.runAt).getTime() - 8 * 24 * 60 * 60 * 1000);
+    return db.collection("analytics")
+      .where("timezone", "in", params.timeZones)
+      .where("lastActiveDate", ">=", admin.firestore.Timestamp.fromDate(activeSince));
+  },
+  processUser: async (userDoc, params, batch) => {
+    const userId = userDoc.id;
+    const runAt = new Date(params.runAt);
+    const timeZone = resolveTimeZone(userDoc.data().timezone);
+    const today = localDateKey(runAt, timeZone);
+    const weekStart = addDays(today, -7);
+    const previousStart = addDays(today, -14);
+    const userRef = db.collection("users").doc(userId);
+
+    const [profileDoc, summariesSnapshot, mealsSnapshot, previousReport] =
+      await Promise.all([
+        userRef.get(),
+        userRef.collection("dailySummaries")
+          .where(admin.firestore.FieldPath.documentId(), ">=", previousStart)
+          .where(admin.firestore.FieldPath.documentId(), "<", today)
+          .get(),
+        // A day either side covers every UTC offset; filtered by local day below
+        userRef.collection("meals")
+          .where("timestamp", ">=", admin.firestore.Timestamp.fromDate(
+            new Date(`${addDays(weekStart, -1)}T00:00:00Z`)))
+          .where("timestamp", "<", admin.firestore.Timestamp.fromDate(
+            new Date(`${addDays(today, 1)}T00:00:00Z`)))
+          .get(),
+        userRef.collection("weeklyReports").doc(isoWeekKey(previousStart)).get(),
+      ]);
+
+    const report = buildWeeklyReport({
+      weekStart,
+      summaries: new Map(summariesSnapshot.docs.map((doc) => [doc.id, doc.data()])),
+      meals: mealsSnapshot.docs
+        .map((doc) => doc.data())
+        .filter((meal) => {
+          const day = mealDay(meal, timeZone, runAt);
+          return day >= weekStart && day < today;
+        }),
+      targets: profileDoc.data()?.nutritionTargets,
+      previousStreak: previousReport.data()?.streak,
+    });
+
+    if (report.daysLogged === 0) {
+      return false;
+    }
+
+    const reportRef = userRef.collection("weeklyReports").doc(report.isoWeek);
+    batch.set(reportRef, {
+      ...report,
+      timezone: timeZone,
+      generatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    let message = `Last week you logged meals on ${report.daysLogged} of 7 days, ` +
+      `averaging ${Math.round(report.averages.calories)} calories`;
+    if (report.progress) {
+      message += ` (${report.progress.calories}% of your target)`;
+    }
+    message += ".";
+    if (report.change) {
+      const difference = Math.round(report.change.calories);
+      message += difference === 0 ?
+        " Same as the week before." :
+        ` That's ${Math.abs(difference)} ${difference > 0 ? "more" : "fewer"} ` +
+          "calories a day than the week before.";
+    }
+    if (report.streak >= 3) {
+      message += ` You're on a ${report.streak}-day logging streak!`;
+    }
+
+    const notificationRef = userRef.collection("notifications")
+      .doc(`weekly_report_${report.isoWeek}`);
+    await setReportNotification(batch, notificationRef, {
+      type: "weekly_report",
+      title: "Your Weekly Nutrition Progress",
+      message: message,
+      data: {
+        reportId: report.isoWeek,
+        reportPath: reportRef.path,
+        daysLogged: report.daysLogged,
+        streak: report.streak,
+      },
+    });
+    return true;
+  },
+};
+
+/**
+ * Deficiency alert for one user: tells them about the nutrient that has
+ * been under half its RDA the longest, at most once a week per nutrient
+ */
+const nutrientGapJob: JobDefinition<ReportShardParams> = {
+  name: "nutrientGap",
+  orderField: "lastMealDate",
+  query: (params) => {
+    // A streak needs meals logged in the last week
+    const activeSince = new Date(new Date(params.runAt).getTime() - 8 * 24 * 60 * 60 * 1000);
+    return db.collection("analytics")
+      .where("timezone", "in", params.timeZones)
+      .where("lastMealDate", ">=", admin.firestore.Timestamp.fromDate(activeSince));
+  },
+  processUser: async (userDoc, params, batch) => {
+    const userId = userDoc.id;
+    const timeZone = resolveTimeZone(userDoc.data().timezone);
+    const lastDay = addDays(localDateKey(new Date(params.runAt), timeZone), -1);
+    const isoWeek = isoWeekKey(lastDay);
+    const userRef = db.collection("users").doc(userId);
+    const alertRef = (nutrient: string) =>
+      userRef.collection("notifications").doc(`nutrient_gap_${nutrient}_${isoWeek}`);
+
+    const profile = (await userRef.get()).data() as Omit<UserProfile, "uid"> | undefined;
+    if (!profile) {
+      return false;
+    }
+    const gaps = await loadNutrientGaps(userId, profile, lastDay);
+
+    // Nutrients already alerted on this week
+    const alerted = new Set<string>();
+    let gap = worstGap(gaps);
+    while (gap) {
+      if (!(await alertRef(gap.nutrient).get()).exists) break;
+      alerted.add(gap.nutrient);
+      gap = worstGap(gaps, alerted);
+    }
+    if (!gap) {
+      return false;
+    }
+
+    const foods = await suggestFoodsForGap(userId, profile, gap, 2);
+    const names = foods.map((food) => food.name.toLowerCase());
+    await setReportNotification(batch, alertRef(gap.nutrient), {
+      type: "nutrient_gap",
+      title: `Low on ${nutrientLabel(gap.nutrient, "english")}`,
+      message: `Your ${nutrientLabel(gap.nutrient, "english")} has been under ` +
+        `${DEFICIENT_PERCENT}% of your RDA for ${gap.lowStreak} days` +
+        (names.length ? ` — try ${names.join(" or ")}.` : "."),
+      data: {
+        nutrient: gap.nutrient,
+        days: gap.lowStreak,
+        percent: gap.windows["7d"].percent,
+        foods: names,
+        foodIds: foods.map((food) => food.foodId),
+        isoWeek,
+      },
+    });
+    return true;
+  },
+};
+
+const JOBS: Record<string, JobDefinition<ReportShardParams>> = {
+  [dailySummaryJob.name]: dailySummaryJob,
+  [weeklyReportJob.name]: weeklyReportJob,
+  [nutrientGapJob.name]: nutrientGapJob,
+};
+
+/**
+ * Daily nutrition summary and recommendations
+ * Runs hourly and covers the timezones where it is now 8 PM local time,
+ * so "yesterday" is each user's own yesterday
+ */
+export const dailyNutritionSummary = onSchedule("0 * * * *", async (event) => {
+  const runAt = new Date(event.scheduleTime);
+  const timeZones = timeZonesAtLocalHour(runAt, 20);
+  if (timeZones.length === 0) {
+    return;
+  }
+
+  logger.info("Running daily nutrition summary", {timeZones: timeZones.length});
+
+  try {
+    await startJobRun(dailySummaryJob, runAt.toISOString().slice(0, 13),
+      timeZoneShards(timeZones, runAt));
+  } catch (error) {
+    logger.error("Error in daily nutrition summary", error);
+  }
+});
+
+/**
+ * Weekly progress report
+ * Runs hourly and covers the timezones where it is Monday 9 AM local time;
+ * reports the Monday-Sunday week that just ended from dailySummaries
+ */
+export const weeklyProgressReport = onSchedule("0 * * * *", async (event) => {
+  const runAt = new Date(event.scheduleTime);
+  const timeZones = timeZonesAtLocalHour(runAt, 9)
+    .filter((zone) => weekday(localDateKey(runAt, zone)) === 1);
+  if (timeZones.length === 0) {
+    return;
+  }
+
+  logger.info("Running weekly progress report", {timeZones: timeZones.length});
+
+  try {
+    await startJobRun(weeklyReportJob, runAt.toISOString().slice(0, 13),
+      timeZoneShards(timeZones, runAt));
+  } catch (error) {
+    logger.error("Error in weekly progress report", error);
+  }
+});
+
+/**
+ * Nutrient deficiency alerts
+ * Runs hourly and covers the timezones where it is now 10 AM local time,
+ * looking at intake up to each user's yesterday
+ */
+export const nutrientGapAlerts = onSchedule("0 * * * *", async (event) => {
+  const runAt = new Date(event.scheduleTime);
+  const timeZones = timeZonesAtLocalHour(runAt, 10);
+  if (timeZones.length === 0) {
+    return;
+  }
+
+  logger.info("Running nutrient gap alerts", {timeZones: timeZones.length});
+
+  try {
+    await startJobRun(nutrientGapJob, runAt.toISOString().slice(0, 13),
+      timeZoneShards(timeZones, runAt));
+  } catch (error) {
+    logger.error("Error in nutrient gap alerts", error);
+  }
+});
+
+/**
+ * Task-queue worker that runs one shard of a scheduled job
+ * Errors propagate so the queue retries from the last checkpoint
+ */
+export const processJobShard = onTaskDispatched<ShardTask>({
+  retryConfig: {maxAttempts: 5, minBackoffSeconds: 60},
+  rateLimits: {maxConcurrentDispatches: 6},
+  timeoutSeconds: 540,
+}, async (request) => {
+  const job = JOBS[request.data.job];
+  if (!job) {
+    logger.error(`Unknown job for ${SHARD_WORKER}: ${request.data.job}`);
+    return;
+  }
+  await runShard(job, request.data);
+});
@@ -6,171 +6,268 @@
 import * as admin from "firebase-admin";
 import * as logger from "firebase-functions/logger";
 import {onCall} from "firebase-functions/v2/https";
+import {callableError, requireAdmin} from "./callable";
+import {SeedResponse} from "./contracts";
+import {EducationContent} from "./cookingTips";
+import {DEFAULT_FOOD_DATASET, runFoodImport} from "./foodImport";
 
 const db = admin.firestore();
 
 /**
  * Seed Indian foods database
- * Callable function to populate the database with comprehensive Indian food data
+ * Imports the bundled Indian food dataset; safe to run again
  */
-export const seedIndianFoods = onCall(async (request) => {
+export const seedIndianFoods = onCall({timeoutSeconds: 300}, async (request):
+  Promise<SeedResponse> => {
   // Only allow admin users to seed data
-  if (!request.auth?.token?.admin) {
-    throw new Error("Admin access required");
-  }
+  const adminId = requireAdmin(request);
 
   logger.info("Starting Indian foods database seeding");
 
   try {
-    const batch = db.batch();
-
-    // Comprehensive Indian food data
-    const indianFoods = [
-      // Dal varieties
-      {
-        id: "dal_tadka",
-        name: "Dal Tadka",
-        aliases: ["dal", "lentils", "arhar dal", "toor dal"],
-        nutrition: {
-          calories: 150.0,
-          protein: 12.0,
-          carbs: 20.0,
-          fat: 4.0,
-          fiber: 8.0,
-          vitamins: {"B1": 0.3, "C": 15.0, "B6": 0.2, "folate": 45.0},
-          minerals: {
-            "iron": 3.5,
-            "potassium": 350.0,
-            "magnesium": 45.0,
-            "zinc": 1.2,
-          },
-        },
-        cookingMethods: {
-          defaultMethod: {
-            name: "tadka",
-            description: "Tempered with spices in hot oil",
-            nutritionMultiplier: 1.0,
-            commonIngredients: [
-              "lentils", "oil", "cumin", "turmeric", "onion", "tomato",
-            ],
-          },
-          alternatives: [],
-          nutritionAdjustments: {},
-        },
-        portionSizes: {
-          standardPortions: {"katori": 150.0},
-          visualReference: "1 katori (small bowl)",
-          gramsPerPortion: 150.0,
-        },
-        regions: {
-          primaryRegion: "North Indian",
-          availableRegions: ["North Indian", "Central Indian", "West Indian"],
-          regionalNames: {"Hindi": "दाल तड़का", "Punjabi": "ਦਾਲ ਤੜਕਾ"},
-        },
-        category: "dal",
-        commonCombinations: ["rice", "roti", "pickle", "papad"],
-        searchTerms: ["dal", "lentils", "protein", "tadka", "arhar", "toor"],
-        baseDish: "dal",
-        regionalVariations: [],
-        createdAt: admin.firestore.FieldValue.serverTimestamp(),
-      },
-    ];
-
-    // Add each food item to the batch
-    for (const food of indianFoods) {
-      const docRef = db.collection("indianFoods").doc(food.id);
-      batch.set(docRef, food);
-    }
-
-    await batch.commit();
-    logger.info(`Successfully seeded ${indianFoods.length} Indian food items`);
+    const report = await runFoodImport(DEFAULT_FOOD_DATASET, false, adminId);
+    const message = `Seeded ${report.valid} Indian food items ` +
+      `(${report.added.length} added, ${report.changed.length} changed, ` +
+      `${report.rejected.length} rejected)`;
+    logger.info(message, {importId: report.importId});
 
     return {
       success: true,
-      message: `Successfully seeded ${indianFoods.length} Indian food items`,
-      count: indianFoods.length,
+      message: message,
+      count: report.valid,
     };
   } catch (error) {
-    logger.error("Error seeding Indian foods database", error);
-    throw new Error("Failed to seed Indian foods database");
+    throw callableError(error, "Failed to seed Indian foods database",
+      "Error seeding Indian foods database");
   }
 });
 
+// Cooking education documents, keyed by document id
+// Trigger lists decide who getCookingTips shows a tip to; see cookingTips.ts
+const COOKING_EDUCATION: EducationContent[] = [
+  {
+    id: "healthy_cooking_tips",
+    title: "Healthy Indian Cooking Tips",
+    category: "General",
+    tips: [
+      {
+        id: "healthy_cooking_tips_0",
+        tip: "Use minimal oil and prefer steaming or grilling",
+        benefit: "Reduces calories while maintaining nutrition",
+        hinglishTip: "Kam oil use karo aur steam ya grill karo!",
+      },
+    ],
+  },
+  {
+    id: "oil_and_frying",
+    title: "Less Oil, Same Taste",
+    category: "Oil",
+    tips: [
+      {
+        id: "oil_air_fry",
+        tip: "Air-fry or bake pakoras and samosas instead of deep frying them",
+        benefit: "Cuts the oil soaked up by the batter by more than half",
+        hinglishTip: "Pakode aur samose deep fry ki jagah air fryer ya oven mein banao!",
+        methods: ["deep fried", "fried", "pan fried"],
+        goals: ["weight loss", "heart health"],
+        conditions: ["high cholesterol", "heart disease"],
+      },
+      {
+        id: "oil_steam_snacks",
+        tip: "Swap fried snacks for steamed ones like idli, dhokla and momos",
+        benefit: "Steaming adds no fat, so the snack keeps its calories low",
+        hinglishTip: "Tali hui cheezon ki jagah idli, dhokla ya momos jaise steamed snacks khao!",
+        methods: ["deep fried", "fried", "stir fried"],
+        goals: ["weight loss"],
+      },
+      {
+        id: "oil_measure",
+        tip: "Measure oil for tadka and bhuna with a spoon instead of pouring from the bottle",
+        benefit: "A tablespoon of oil is about 120 kcal; pouring often doubles it",
+        hinglishTip: "Bottle se seedha mat daalo, chammach se naap ke tel daalo!",
+        methods: ["tadka", "tempered", "bhuna", "sauteed", "tawa", "stir fried"],
+        goals: ["weight loss"],
+      },
+      {
+        id: "oil_no_reuse",
+        tip: "Do not reuse oil left over from deep frying",
+        benefit: "Reheated oil forms trans fats and other harmful compounds",
+        hinglishTip: "Talne ke baad bacha hua tel dobara use mat karo!",
+        methods: ["deep fried"],
+        goals: ["heart health"],
+        conditions: ["high cholesterol", "heart disease"],
+      },
+    ],
+  },
+  {
+    id: "grains_and_pulses",
+    title: "Better Dal, Rice and Roti",
+    category: "Grains and Pulses",
+    tips: [
+      {
+        id: "pulses_soak",
+        tip: "Soak dal, rajma and chole for a few hours before cooking",
+        benefit: "Cooks faster and makes their iron and zinc easier to absorb",
+        hinglishTip: "Dal, rajma aur chole ko pakane se pehle kuch ghante bhigo do!",
+        foods: ["dal", "rajma", "chole", "chana"],
+        conditions: ["anemia"],
+      },
+      {
+        id: "grains_mix_millets",
+        tip: "Replace half the white rice with brown rice or millets",
+        benefit: "More fibre and a slower rise in blood sugar",
+        hinglishTip: "Aadha safed chawal hatao, brown rice ya millet milao!",
+        foods: ["rice", "pulao", "biryani", "khichdi"],
+        goals: ["blood sugar control", "weight loss"],
+        conditions: ["diabetes"],
+      },
+      {
+        id: "grains_keep_bran",
+        tip: "Do not sieve the bran out of whole wheat atta",
+        benefit: "The bran holds most of the flour's fibre",
+        hinglishTip: "Atte ko chhaan ke chokar mat nikalo!",
+        foods: ["roti", "chapati", "paratha", "phulka"],
+        goals: ["better digestion"],
+        conditions: ["diabetes"],
+      },
+    ],
+  },
+  {
+    id: "vegetables",
+    title: "Keep the Goodness in Vegetables",
+    category: "Vegetables",
+    tips: [
+      {
+        id: "veg_cover_pan",
+        tip: "Cook vegetables covered, in little water, and stop before they turn mushy",
+        benefit: "Keeps more of their vitamin C and folate",
+        hinglishTip: "Sabzi dhak ke, kam paani mein pakao aur zyada mat galao!",
+        methods: ["boiled", "simmered", "bhuna", "slow cooked"],
+      },
+      {
+        id: "veg_cut_late",
+        tip: "Cut vegetables just before cooking, in bigger pieces",
+        benefit: "Less cut surface means fewer vitamins lost to air and water",
+        hinglishTip: "Sabzi pakane se thik pehle kaato, aur bade tukdon mein!",
+        methods: ["sauteed", "stir fried", "tawa"],
+      },
+      {
+        id: "veg_lemon_iron",
+        tip: "Squeeze lemon over dal and leafy greens",
+        benefit: "Vitamin C helps your body absorb their iron",
+        hinglishTip: "Dal aur palak par nimbu nichodo, iron zyada milega!",
+        foods: ["dal", "palak", "saag", "rajma", "chole"],
+        conditions: ["anemia"],
+      },
+      {
+        id: "veg_tea_gap",
+        tip: "Keep tea and coffee an hour away from meals",
+        benefit: "Their tannins block iron absorption",
+        hinglishTip: "Khane ke ek ghante pehle aur baad tak chai-coffee mat piyo!",
+        foods: ["chai", "tea", "coffee"],
+        conditions: ["anemia"],
+      },
+    ],
+  },
+  {
+    id: "salt_and_sugar",
+    title: "Go Easy on Salt and Sugar",
+    category: "Salt and Sugar",
+    tips: [
+      {
+        id: "salt_at_end",
+        tip: "Add salt at the end, taste first, and lean on lemon, herbs and spices for flavour",
+        benefit: "Keeps sodium within your daily limit",
+        hinglishTip: "Namak aakhir mein daalo, aur swaad ke liye nimbu aur masale use karo!",
+        foods: ["pickle", "achar", "papad", "namkeen"],
+        conditions: ["hypertension", "heart disease", "kidney disease"],
+      },
+      {
+        id: "sugar_cut_gradually",
+        tip: "Cut the sugar in chai and desserts a little every week",
+        benefit: "Your taste adjusts, and every teaspoon saved is about 20 kcal",
+        hinglishTip: "Chai aur meethe mein cheeni har hafte thodi thodi kam karo!",
+        foods: ["chai", "kheer", "halwa", "jalebi", "ladoo", "gulab jamun"],
+        goals: ["weight loss", "blood sugar control"],
+        conditions: ["diabetes"],
+      },
+    ],
+  },
+  {
+    id: "protein",
+    title: "Protein in Every Meal",
+    category: "Protein",
+    tips: [
+      {
+        id: "protein_every_meal",
+        tip: "Add a katori of curd, paneer, sprouts or dal to every meal",
+        benefit: "Protein spread through the day builds muscle and keeps you full",
+        hinglishTip: "Har khane mein ek katori dahi, paneer, sprouts ya dal jodo!",
+        goals: ["muscle building", "weight loss"],
+      },
+      {
+        id: "protein_grill",
+        tip: "Grill paneer and chicken as tikka instead of cooking them in rich gravy",
+        benefit: "Same protein with far less oil and cream",
+        hinglishTip: "Paneer aur chicken ko gravy ki jagah tikka bana ke grill karo!",
+        methods: ["bhuna", "fried", "deep fried"],
+        foods: ["paneer", "chicken"],
+        goals: ["muscle building", "weight loss"],
+      },
+    ],
+  },
+];
+
 /**
- * Seed cooking education content
+ * Create the cooking education documents that do not exist yet
+ * Existing documents are left alone, so edits made in the console survive.
+ * @param {boolean} dryRun - Count instead of writing
+ * @return {Promise<object>} Documents created and already present
  */
-export const seedCookingEducation = onCall(async (request) => {
-  // Only allow admin users to seed data
-  if (!request.auth?.token?.admin) {
-    throw new Error("Admin access required");
-  }
-
-  logger.info("Starting cooking education content seeding");
-
-  try {
-    const batch = db.batch();
+export async function seedEducationContent(
+  dryRun = false
+): Promise<{created: number; existing: number}> {
+  const refs = COOKING_EDUCATION.map((content) =>
+    db.collection("cookingEducation").doc(content.id));
+  const docs = await db.getAll(...refs);
 
-    const educationContent = [
-      {
-        id: "healthy_cooking_tips",
-        title: "Healthy Indian Cooking Tips",
-        category: "General",
-        tips: [
-          {
-            tip: "Use minimal oil and prefer steaming or grilling",
-            benefit: "Reduces calories while maintaining nutrition",
-            hinglishTip: "Kam oil use karo aur steam ya grill karo!",
-          },
-        ],
+  const batch = db.batch();
+  let created = 0;
+  COOKING_EDUCATION.forEach((content, i) => {
+    if (!docs[i].exists) {
+      batch.create(refs[i], {
+        ...content,
         createdAt: admin.firestore.FieldValue.serverTimestamp(),
-      },
-    ];
-
-    for (const content of educationContent) {
-      const docRef = db.collection("cookingEducation").doc(content.id);
-      batch.set(docRef, content);
+      });
+      created++;
     }
-
+  });
+  if (created && !dryRun) {
     await batch.commit();
-    logger.info(`Successfully seeded ${educationContent.length} items`);
-
-    return {
-      success: true,
-      message: `Successfully seeded ${educationContent.length} items`,
-      count: educationContent.length,
-    };
-  } catch (error) {
-    logger.error("Error seeding cooking education content", error);
-    throw new Error("Failed to seed cooking education content");
   }
-});
+  return {created, existing: COOKING_EDUCATION.length - created};
+}
 
 /**
- * Initialize complete database with all seed data
+ * Seed cooking education content
  */
-export const initializeDatabase = onCall(async (request) => {
-  // Only allow admin users to initialize database
-  if (!request.auth?.token?.admin) {
-    throw new Error("Admin access required");
-  }
+export const seedCookingEducation = onCall(async (request): Promise<SeedResponse> => {
+  // Only allow admin users to seed data
+  requireAdmin(request);
 
-  logger.info("Starting complete database initialization");
+  logger.info("Starting cooking education content seeding");
 
   try {
-    // Seed Indian foods
-    await seedIndianFoods.run(request);
-
-    // Seed cooking education
-    await seedCookingEducation.run(request);
-
-    logger.info("Successfully initialized complete database");
+    const {created, existing} = await seedEducationContent();
+    logger.info(`Successfully seeded ${created} items`, {existing});
 
     return {
       success: true,
-      message: "Successfully initialized complete database",
+      message: `Successfully seeded ${created} items (${existing} already present)`,
+      count: created,
     };
   } catch (error) {
-    logger.error("Error initializing database", error);
-    throw new Error("Failed to initialize database");
+    throw callableError(error, "Failed to seed cooking education content",
+      "Error seeding cooking education content");
   }
-});
\ No newline at end of file
+});
@@ -0,0 +1,89 @@
+/**
+ * Text normalization helpers for Hinglish, English and Devanagari input
+ */
+
+const DEVANAGARI_DIGITS = "०१२३४५६७८९";
+
+/**
+ * Lowercase, NFC-normalize and strip punctuation from text
+ * Devanagari letters and matras are kept intact.
+ * @param {string} text - Raw text
+ * @return {string} Normalized text with single spaces
+ */
+export function normalizeText(text: string): string {
+  return text
+    .normalize("NFC")
+    .toLowerCase()
+    .replace(/[०-९]/g, (d) => String(DEVANAGARI_DIGITS.indexOf(d)))
+    .replace(/[^\p{L}\p{M}\p{N}.\s]/gu, " ")
+    .replace(/(?<!\d)\.|\.(?!\d)/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Split text into normalized word tokens
+ * @param {string} text - Raw text
+ * @return {string[]} Tokens
+ */
+export function tokenize(text: string): string[] {
+  const normalized = normalizeText(text);
+  return normalized ? normalized.split(" ") : [];
+}
+
+/**
+ * Reduce a romanized word to a phonetic key so common transliteration
+ * variants collide: "dhal"/"dal", "paneer"/"panir", "chawal"/"chaval",
+ * "rotis"/"roti". Devanagari input is returned unchanged.
+ * @param {string} word - Normalized word
+ * @return {string} Phonetic key
+ */
+export function phoneticKey(word: string): string {
+  if (!/^[a-z]+$/.test(word)) {
+    return word;
+  }
+
+  let key = word
+    .replace(/([bcdgkpt])h/g, "$1")
+    .replace(/ee|ii/g, "i")
+    .replace(/oo|uu/g, "u")
+    .replace(/aa/g, "a")
+    .replace(/w/g, "v")
+    .replace(/z/g, "j")
+    .replace(/q/g, "k")
+    .replace(/y$/g, "i")
+    .replace(/(.)\1+/g, "$1");
+
+  // Plurals: "rotis" -> "roti", "samosas" -> "samosa"
+  if (key.length > 3 && key.endsWith("s")) {
+    key = key.slice(0, -1);
+  }
+  return key;
+}
+
+/**
+ * Levenshtein edit distance between two strings
+ * @param {string} a - First string
+ * @param {string} b - Second string
+ * @return {number} Number of single-character edits
+ */
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({length: b.length + 1}, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost,
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
@@ -0,0 +1,158 @@
+/**
+ * Timezone helpers for NutriSync
+ * Daily summaries are keyed by the user's local calendar date, not UTC.
+ */
+
+// Most users are in India; used when a profile has no valid timezone
+export const DEFAULT_TIMEZONE = "Asia/Kolkata";
+
+/**
+ * Check that a string is an IANA timezone the runtime knows
+ * @param {unknown} timeZone - Candidate timezone, e.g. "Asia/Kolkata"
+ * @return {boolean} True when valid
+ */
+export function isValidTimeZone(timeZone: unknown): timeZone is string {
+  if (typeof timeZone !== "string" || !timeZone) {
+    return false;
+  }
+  try {
+    new Intl.DateTimeFormat("en-US", {timeZone});
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The user's timezone in the runtime's canonical spelling, falling back
+ * to the default. ICU may canonicalize aliases ("Asia/Kolkata" becomes
+ * "Asia/Calcutta"), and timeZonesAtLocalHour returns canonical names, so
+ * stored values must use the same spelling to be matched.
+ * @param {unknown} timeZone - Value stored on the profile
+ * @return {string} Canonical IANA timezone
+ */
+export function resolveTimeZone(timeZone: unknown): string {
+  const zone = isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIMEZONE;
+  return new Intl.DateTimeFormat("en-US", {timeZone: zone}).resolvedOptions().timeZone;
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of an instant in a timezone
+ * @param {Date} date - Instant
+ * @param {string} timeZone - IANA timezone
+ * @return {string} Local date key
+ */
+export function localDateKey(date: Date, timeZone: string): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(date);
+}
+
+/**
+ * Local hour (0-23) of an instant in a timezone
+ * @param {Date} date - Instant
+ * @param {string} timeZone - IANA timezone
+ * @return {number} Hour of day
+ */
+export function localHour(date: Date, timeZone: string): number {
+  const hour = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hour: "numeric",
+    hourCycle: "h23",
+  }).format(date);
+  return Number(hour);
+}
+
+/**
+ * Minutes since local midnight of an instant in a timezone
+ * @param {Date} date - Instant
+ * @param {string} timeZone - IANA timezone
+ * @return {number} Minutes (0-1439)
+ */
+export function localMinutes(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hour: "numeric",
+    minute: "numeric",
+    hourCycle: "h23",
+  }).formatToParts(date);
+  const value = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+  return value("hour") * 60 + value("minute");
+}
+
+/**
+ * Shift a YYYY-MM-DD date key by a number of days
+ * @param {string} dateKey - Date key
+ * @param {number} days - Days to add (negative to go back)
+ * @return {string} Shifted date key
+ */
+export function addDays(dateKey: string, days: number): string {
+  const date = new Date(`${dateKey}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split("T")[0];
+}
+
+/**
+ * Day of the week of a YYYY-MM-DD date key
+ * @param {string} dateKey - Date key
+ * @return {number} 0 for Sunday through 6 for Saturday
+ */
+export function weekday(dateKey: string): number {
+  return new Date(`${dateKey}T00:00:00Z`).getUTCDay();
+}
+
+/**
+ * ISO 8601 week of a date key, e.g. "2024-W05"
+ * Weeks start on Monday; week 1 contains the year's first Thursday.
+ * @param {string} dateKey - Date key
+ * @return {string} ISO week key
+ */
+export function isoWeekKey(dateKey: string): string {
+  // The Thursday of the same week decides the ISO year
+  const thursday = addDays(dateKey, 3 - (weekday(dateKey) + 6) % 7);
+  const year = Number(thursday.slice(0, 4));
+  const dayOfYear = (new Date(`${thursday}T00:00:00Z`).getTime() -
+    Date.UTC(year, 0, 1)) / 86400000;
+  const week = Math.floor(dayOfYear / 7) + 1;
+  return `${year}-W${String(week).padStart(2, "0")}`;
+}
+
+/**
+ * Read a Firestore Timestamp, Date, ISO string or millis as a Date
+ * @param {unknown} value - Stored value
+ * @return {Date | null} Date, or null when missing or invalid
+ */
+export function toDate(value: unknown): Date | null {
+  if (!value) return null;
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+  if (typeof (value as {toDate?: unknown}).toDate === "function") {
+    return (value as {toDate: () => Date}).toDate();
+  }
+  if (typeof value === "string" || typeof value === "number") {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+  return null;
+}
+
+// Zones resolveTimeZone can return that Intl.supportedValuesOf leaves out:
+// "UTC" (also for "GMT" and "Etc/UTC") and the Etc/GMT±N offsets
+const FIXED_OFFSET_ZONES = ["UTC", ...Array.from({length: 26}, (_, i) => i < 14 ?
+  `Etc/GMT-${14 - i}` : `Etc/GMT+${i - 13}`)];
+
+/**
+ * All IANA timezones where the local hour currently equals a target hour
+ * @param {Date} now - Current instant
+ * @param {number} hour - Target local hour (0-23)
+ * @return {string[]} Matching timezones
+ */
+export function timeZonesAtLocalHour(now: Date, hour: number): string[] {
+  const zones = (Intl as unknown as {supportedValuesOf(key: string): string[]})
+    .supportedValuesOf("timeZone");
+  return [...new Set([...zones, ...FIXED_OFFSET_ZONES])]
+    .filter((zone) => localHour(now, zone) === hour);
+}
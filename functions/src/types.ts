@@ -0,0 +1,222 @@
+/**
+ * Shared Firestore document shapes for NutriSync functions
+ * Mirrors the models written by the Flutter app (lib/cultural, lib/nutrition)
+ */
+
+import type {Timestamp} from "firebase-admin/firestore";
+import type {GlycemicDayCheck} from "./glycemic";
+import type {NutritionTargets} from "./nutritionTargets";
+
+/**
+ * Nutrition values. Food documents store these per 100g;
+ * meal documents store them for the amount actually eaten.
+ */
+export interface NutritionInfo {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber: number;
+  vitamins: Record<string, number>;
+  minerals: Record<string, number>;
+}
+
+export interface CookingMethod {
+  name: string;
+  description: string;
+  nutritionMultiplier: number;
+  commonIngredients: string[];
+}
+
+export interface CookingVariations {
+  defaultMethod: CookingMethod;
+  alternatives: CookingMethod[];
+  // Per-nutrient multipliers for the default preparation, e.g. {fat: 1.5}
+  nutritionAdjustments: Record<string, number>;
+}
+
+export interface PortionGuides {
+  // Grams per unit, keyed by unit name (katori, glass, roti, spoon...)
+  standardPortions: Record<string, number>;
+  visualReference: string;
+  gramsPerPortion: number;
+}
+
+export interface RegionalAvailability {
+  primaryRegion: string;
+  availableRegions: string[];
+  regionalNames: Record<string, string>;
+}
+
+/**
+ * Ingredient needed for one standard portion (gramsPerPortion) of a dish
+ */
+export interface FoodIngredient {
+  name: string;
+  quantity: number;
+  unit: string; // g, ml, piece, tsp...
+  storeCategory?: string;
+}
+
+export interface IndianFood {
+  id: string;
+  name: string;
+  aliases: string[];
+  nutrition: NutritionInfo;
+  cookingMethods: CookingVariations;
+  portionSizes: PortionGuides;
+  regions: RegionalAvailability;
+  category: string;
+  commonCombinations: string[];
+  searchTerms: string[];
+  baseDish: string;
+  regionalVariations: unknown[];
+  // Optional curated data; inferred from ingredients when absent
+  dietaryTags?: string[];
+  allergens?: string[];
+  // Meal slots the dish suits (breakfast, lunch, snack, dinner)
+  mealTypes?: string[];
+  // Per-portion quantities for grocery lists; commonIngredients has names only
+  ingredients?: FoodIngredient[];
+  // Glucose = 100; estimated from the category when absent
+  glycemicIndex?: number;
+}
+
+/**
+ * One ingredient of a custom recipe, for the whole recipe
+ */
+export interface RecipeIngredientLine {
+  ingredientId: string;
+  name: string;
+  grams: number;
+}
+
+/**
+ * How a custom recipe was made and what one serving holds
+ */
+export interface RecipeDetails {
+  servings: number;
+  ingredients: RecipeIngredientLine[];
+  oil: RecipeIngredientLine | null;
+  cookingMethod: string;
+  rawWeightGrams: number;
+  cookedWeightGrams: number;
+  servingGrams: number;
+  perServing: NutritionInfo;
+}
+
+/**
+ * users/{userId}/recipes/{recipeId}, written by saveRecipe
+ * Food-shaped (nutrition per 100g cooked, one "serving" portion), so a
+ * recipe can be logged and ranked like a catalog food.
+ */
+export interface UserRecipe extends IndianFood {
+  ownerId: string;
+  recipe: RecipeDetails;
+}
+
+/**
+ * users/{userId} document as written by the app's UserModel
+ */
+export interface UserProfile {
+  uid: string;
+  name?: string;
+  email?: string;
+  age?: number;
+  gender?: string;
+  height?: number; // cm
+  weight?: number; // kg
+  activityLevel?: string;
+  dietaryNeeds?: string[];
+  healthGoals?: string[];
+  medicalConditions?: string[];
+  allergies?: string[];
+  foodDislikes?: string[];
+  preferredLanguage?: string;
+  timezone?: string; // IANA, e.g. "Asia/Kolkata"
+  culturalPreferences?: {
+    preferredRegion?: string;
+    [key: string]: unknown;
+  };
+  subscriptionTier?: string;
+  // People the grocery list is scaled for
+  householdSize?: number;
+  // Written by onUserCreated/onUserUpdated
+  nutritionTargets?: NutritionTargets;
+}
+
+/**
+ * A single food entry inside a logged meal
+ */
+export interface MealItem {
+  // The recipe id for custom recipes
+  foodId: string;
+  recipeId?: string;
+  name: string;
+  portionUnit: string;
+  quantity: number;
+  grams: number;
+  cookingMethod: string;
+  nutrition: NutritionInfo;
+  // Absent on items logged before glycemic load was computed
+  glycemicIndex?: number;
+  glycemicLoad?: number;
+}
+
+/**
+ * users/{userId}/meals/{mealId}, written by logMeal/updateMeal
+ */
+export interface Meal {
+  mealId: string;
+  userId: string;
+  mealType: string;
+  timestamp: Timestamp;
+  foods: MealItem[];
+  nutrition: NutritionInfo;
+  // Flat totals read by the daily summary triggers
+  totalCalories: number;
+  totalProtein: number;
+  totalCarbs: number;
+  totalFat: number;
+  totalFiber: number;
+  totalGlycemicLoad?: number;
+  // Carbohydrate-weighted; null when the meal has no available carbohydrate
+  glycemicIndex?: number | null;
+  source: string;
+  createdAt: Timestamp;
+  updatedAt?: Timestamp;
+}
+
+/**
+ * users/{userId}/dailySummaries/{YYYY-MM-DD}, kept by the meal triggers
+ */
+export interface DailySummary {
+  // Local date in the user's timezone
+  date: string;
+  timezone: string;
+  mealCount: number;
+  totalCalories: number;
+  totalProtein: number;
+  totalCarbs: number;
+  totalFat: number;
+  // Absent on summaries written before fiber and micronutrients were summed
+  totalFiber?: number;
+  vitamins?: Record<string, number>;
+  minerals?: Record<string, number>;
+  // Absent on summaries written before glycemic load was computed
+  totalGlycemicLoad?: number;
+  // By meal slot (breakfast, lunch, snack, dinner)
+  carbsByMeal?: Record<string, number>;
+  glycemicLoadByMeal?: Record<string, number>;
+  // Set by the daily summary job when the user has glycemic load limits
+  glycemic?: GlycemicDayCheck;
+  // Targets in force on the day, snapshotted when a meal is logged
+  targets?: {
+    calories: number;
+    protein: number;
+    carbs: number;
+    fat: number;
+    limits?: Record<string, number>;
+  };
+  lastUpdated: Timestamp;
+}
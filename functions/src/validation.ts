@@ -0,0 +1,259 @@
+/**
+ * Request schemas for callable functions
+ * A schema checks untrusted request data and returns it typed; the first
+ * problem found is thrown as an invalid-argument HttpsError naming the
+ * field, so clients can show it next to the right input.
+ */
+
+import {HttpsError} from "firebase-functions/v2/https";
+
+export interface Schema<T> {
+  /**
+   * Check a value and return it typed
+   * @param {unknown} value - Untrusted value
+   * @param {string} path - Field path for error messages
+   * @return {T} The value, normalized
+   */
+  parse(value: unknown, path: string): T;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+
+// Keys whose schema accepts undefined become optional properties
+type OptionalKeys<S extends Shape> = {
+  [K in keyof S]: undefined extends Infer<S[K]> ? K : never;
+}[keyof S];
+
+export type InferShape<S extends Shape> = {
+  [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]>;
+} & {
+  [K in OptionalKeys<S>]?: Infer<S[K]>;
+};
+
+/**
+ * Reject a field
+ * @param {string} path - Field path
+ * @param {string} problem - What is wrong, e.g. "must be a string"
+ */
+function fail(path: string, problem: string): never {
+  throw new HttpsError("invalid-argument", `${path || "Request data"} ${problem}`,
+    {field: path || undefined});
+}
+
+/**
+ * Reject a missing required field
+ * @param {unknown} value - Field value
+ * @param {string} path - Field path
+ */
+function present(value: unknown, path: string): void {
+  if (value === undefined || value === null) fail(path, "is required");
+}
+
+/**
+ * A string, trimmed
+ * @param {object} options - Length bounds, pattern or allowed values
+ * @return {Schema<string>} String schema
+ */
+export function string(options: {
+  min?: number;
+  max?: number;
+  pattern?: RegExp;
+  values?: readonly string[];
+} = {}): Schema<string> {
+  const {min = 1, max = 500, pattern, values} = options;
+  return {
+    parse(value, path) {
+      present(value, path);
+      if (typeof value !== "string") fail(path, "must be a string");
+      const text = value.trim();
+      if (text.length < min) {
+        fail(path, min === 1 ? "is required" : `must be at least ${min} characters`);
+      }
+      if (text.length > max) fail(path, `must be at most ${max} characters`);
+      if (pattern && !pattern.test(text)) fail(path, "has an invalid format");
+      if (values && !values.includes(text)) fail(path, `must be one of ${values.join(", ")}`);
+      return text;
+    },
+  };
+}
+
+/**
+ * One of a fixed set of strings
+ * @param {string[]} values - Allowed values
+ * @return {Schema<string>} Enum schema, typed as the union of values
+ */
+export function oneOf<T extends string>(values: readonly T[]): Schema<T> {
+  const schema = string({values});
+  return {parse: (value, path) => schema.parse(value, path) as T};
+}
+
+/**
+ * A finite number
+ * @param {object} options - Bounds and whether it must be whole
+ * @return {Schema<number>} Number schema
+ */
+export function number(options: {
+  min?: number;
+  max?: number;
+  integer?: boolean;
+} = {}): Schema<number> {
+  const {min, max, integer} = options;
+  return {
+    parse(value, path) {
+      present(value, path);
+      if (typeof value !== "number" || !Number.isFinite(value)) fail(path, "must be a number");
+      if (integer && !Number.isInteger(value)) fail(path, "must be a whole number");
+      if (min !== undefined && value < min) fail(path, `must be at least ${min}`);
+      if (max !== undefined && value > max) fail(path, `must be at most ${max}`);
+      return value;
+    },
+  };
+}
+
+/**
+ * A number that must be above zero
+ * @param {number} max - Upper bound
+ * @return {Schema<number>} Number schema
+ */
+export function positive(max?: number): Schema<number> {
+  const schema = number({max});
+  return {
+    parse(value, path) {
+      const parsed = schema.parse(value, path);
+      if (parsed <= 0) fail(path, "must be greater than 0");
+      return parsed;
+    },
+  };
+}
+
+/**
+ * true or false
+ * @return {Schema<boolean>} Boolean schema
+ */
+export function boolean(): Schema<boolean> {
+  return {
+    parse(value, path) {
+      present(value, path);
+      if (typeof value !== "boolean") fail(path, "must be true or false");
+      return value;
+    },
+  };
+}
+
+/**
+ * An ISO 8601 date-time string, returned as a Date
+ * @return {Schema<Date>} Date schema
+ */
+export function dateTime(): Schema<Date> {
+  return {
+    parse(value, path) {
+      present(value, path);
+      const date = typeof value === "string" ? new Date(value) : null;
+      if (!date || isNaN(date.getTime())) fail(path, "must be an ISO 8601 date-time");
+      return date;
+    },
+  };
+}
+
+/**
+ * A local calendar date, YYYY-MM-DD
+ * @return {Schema<string>} Date key schema
+ */
+export function dateKey(): Schema<string> {
+  const schema = string({max: 10, pattern: /^\d{4}-\d{2}-\d{2}$/});
+  return {
+    parse(value, path) {
+      const key = schema.parse(value, path);
+      if (isNaN(new Date(`${key}T00:00:00Z`).getTime())) fail(path, "is not a valid date");
+      return key;
+    },
+  };
+}
+
+/**
+ * Allow the field to be absent (undefined or null)
+ * @param {Schema<T>} schema - Schema for present values
+ * @return {Schema<T | undefined>} Optional schema
+ */
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    parse: (value, path) =>
+      value === undefined || value === null ? undefined : schema.parse(value, path),
+  };
+}
+
+/**
+ * An array whose items all match a schema
+ * @param {Schema<T>} item - Item schema
+ * @param {object} options - Length bounds
+ * @return {Schema<T[]>} Array schema
+ */
+export function array<T>(
+  item: Schema<T>,
+  options: {min?: number; max?: number} = {}
+): Schema<T[]> {
+  const {min = 0, max = 100} = options;
+  return {
+    parse(value, path) {
+      present(value, path);
+      if (!Array.isArray(value)) fail(path, "must be an array");
+      if (value.length < min) fail(path, `must have at least ${min} item${min === 1 ? "" : "s"}`);
+      if (value.length > max) fail(path, `must have at most ${max} items`);
+      return value.map((entry, index) => item.parse(entry, `${path}[${index}]`));
+    },
+  };
+}
+
+/**
+ * An object with known fields; unknown fields are dropped
+ * @param {S} shape - Schema per field
+ * @return {Schema<InferShape<S>>} Object schema
+ */
+export function object<S extends Shape>(shape: S): Schema<InferShape<S>> {
+  return {
+    parse(value, path) {
+      present(value, path);
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        fail(path, "must be an object");
+      }
+      const input = value as Record<string, unknown>;
+      const result: Record<string, unknown> = {};
+      for (const [key, schema] of Object.entries(shape)) {
+        const parsed = schema.parse(input[key], path ? `${path}.${key}` : key);
+        if (parsed !== undefined) result[key] = parsed;
+      }
+      return result as InferShape<S>;
+    },
+  };
+}
+
+/**
+ * A value checked by a function, for shapes the builders above do not cover
+ * @param {Function} check - Returns a problem description, or null when valid
+ * @return {Schema<T>} Custom schema
+ */
+export function custom<T>(check: (value: unknown) => string | null): Schema<T> {
+  return {
+    parse(value, path) {
+      const problem = check(value);
+      if (problem) {
+        throw new HttpsError("invalid-argument", problem, {field: path || undefined});
+      }
+      return value as T;
+    },
+  };
+}
+
+/**
+ * Validate a callable's request.data
+ * Absent data is treated as an empty object, so schemas with only
+ * optional fields accept calls made without arguments.
+ * @param {Schema<T>} schema - Request schema
+ * @param {unknown} data - request.data
+ * @return {T} Typed request
+ */
+export function parseRequest<T>(schema: Schema<T>, data: unknown): T {
+  return schema.parse(data ?? {}, "");
+}
@@ -0,0 +1,251 @@
+/**
+ * Voice analytics functions for NutriSync
+ * Records voice interaction events in users/{userId}/voiceInteractions,
+ * aggregates them every night into the admin-only voiceMetrics collection
+ * and serves those metrics to admins over HTTP.
+ */
+
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import {HttpsError, onCall, onRequest} from "firebase-functions/v2/https";
+import {onSchedule} from "firebase-functions/v2/scheduler";
+import {callableError, requireUser} from "./callable";
+import {
+  getVoiceMetricsRequest,
+  GetVoiceMetricsResponse,
+  MAX_VOICE_METRICS_DAYS,
+  processVoiceInteractionRequest,
+  SuccessResponse,
+} from "./contracts";
+import {enforceQuota} from "./quotaGuard";
+import {addDays} from "./timezone";
+import {parseRequest} from "./validation";
+import {
+  addVoiceEvent,
+  createVoiceAccumulator,
+  finishVoiceMetrics,
+  languageMix,
+  summarizeVoiceMetrics,
+  VoiceDayMetrics,
+  VoiceEvent,
+  wordErrorRate,
+} from "./voiceMetrics";
+
+const db = admin.firestore();
+
+// Events read per query while aggregating a day
+const AGGREGATION_PAGE_SIZE = 500;
+
+/**
+ * Process voice interactions and update analytics
+ * A voice session sends one event per stage; only the first event of a
+ * session (or an event without a stage) counts against the voice quota.
+ */
+export const processVoiceInteraction = onCall(async (request): Promise<SuccessResponse> => {
+  const userId = requireUser(request);
+  const data = parseRequest(processVoiceInteractionRequest, request.data);
+  const newInteraction = !data.stage || data.stage === "started";
+
+  if (newInteraction) {
+    await enforceQuota(userId, "voiceInteractions");
+  }
+
+  try {
+    // Update user analytics
+    await db.collection("analytics").doc(userId).update({
+      ...(newInteraction ? {
+        totalVoiceInteractions: admin.firestore.FieldValue.increment(1),
+      } : {}),
+      lastVoiceInteraction: admin.firestore.FieldValue.serverTimestamp(),
+      lastActiveDate: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    const transcript = data.finalTranscript || data.recognizedTranscript;
+    const mix = transcript ? languageMix(transcript) : null;
+
+    // Log interaction details
+    await db.collection("users").doc(userId).collection("voiceInteractions").add({
+      type: data.interactionType,
+      duration: data.duration ?? null,
+      success: data.success,
+      sessionId: data.sessionId ?? null,
+      stage: data.stage ?? null,
+      intent: data.intent ?? null,
+      recognizedTranscript: data.recognizedTranscript ?? null,
+      finalTranscript: data.finalTranscript ?? null,
+      corrections: data.corrections ?? null,
+      // Only measurable when both transcripts were sent
+      wordErrorRate: data.recognizedTranscript && data.finalTranscript ?
+        wordErrorRate(data.recognizedTranscript, data.finalTranscript) : null,
+      latencyMs: data.latencyMs ?? null,
+      locale: data.locale ?? null,
+      languageMix: mix,
+      timestamp: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    logger.info(`Voice interaction processed for user: ${userId}`, {
+      interactionType: data.interactionType,
+      stage: data.stage,
+      success: data.success,
+    });
+
+    return {success: true};
+  } catch (error) {
+    throw callableError(error, "Failed to process voice interaction",
+      `Error processing voice interaction: ${userId}`);
+  }
+});
+
+/**
+ * Read a stored voice interaction for aggregation
+ * @param {admin.firestore.QueryDocumentSnapshot} doc - voiceInteractions document
+ * @return {VoiceEvent} Event; null fields become absent
+ */
+function readVoiceEvent(doc: admin.firestore.QueryDocumentSnapshot): VoiceEvent {
+  const data = doc.data();
+  const present = <T>(value: unknown): T | undefined =>
+    value === null || value === undefined ? undefined : value as T;
+  return {
+    userId: doc.ref.parent.parent?.id || "",
+    type: String(data.type || ""),
+    success: data.success === true,
+    sessionId: present(data.sessionId),
+    stage: present(data.stage),
+    intent: present(data.intent),
+    latencyMs: present(data.latencyMs),
+    corrections: present(data.corrections),
+    wordErrorRate: present(data.wordErrorRate),
+    languageMix: present(data.languageMix),
+    locale: present(data.locale),
+  };
+}
+
+/**
+ * Aggregate one UTC day of voice interactions into voiceMetrics/{date}
+ * Rerunning a day overwrites it with the same result.
+ * @param {string} date - UTC date key
+ * @return {Promise<VoiceDayMetrics>} Stored metrics
+ */
+async function aggregateVoiceDay(date: string): Promise<VoiceDayMetrics> {
+  const start = admin.firestore.Timestamp.fromDate(new Date(`${date}T00:00:00Z`));
+  const end = admin.firestore.Timestamp.fromDate(new Date(`${addDays(date, 1)}T00:00:00Z`));
+  const day = createVoiceAccumulator(date);
+
+  let last: admin.firestore.QueryDocumentSnapshot | undefined;
+  for (;;) {
+    let query = db.collectionGroup("voiceInteractions")
+      .where("timestamp", ">=", start)
+      .where("timestamp", "<", end)
+      .orderBy("timestamp")
+      .limit(AGGREGATION_PAGE_SIZE);
+    if (last) {
+      query = query.startAfter(last);
+    }
+    const page = await query.get();
+    page.docs.forEach((doc) => addVoiceEvent(day, readVoiceEvent(doc)));
+    if (page.size < AGGREGATION_PAGE_SIZE) break;
+    last = page.docs[page.docs.length - 1];
+  }
+
+  const metrics = finishVoiceMetrics(day);
+  await db.collection("voiceMetrics").doc(date).set({
+    ...metrics,
+    computedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+  return metrics;
+}
+
+/**
+ * Aggregate yesterday's voice interactions (runs daily)
+ * Runs at 00:30 UTC, once the UTC day is complete
+ */
+export const aggregateVoiceMetrics = onSchedule({
+  schedule: "30 0 * * *",
+  timeoutSeconds: 540,
+}, async (event) => {
+  const date = addDays(event.scheduleTime.slice(0, 10), -1);
+
+  try {
+    const metrics = await aggregateVoiceDay(date);
+    logger.info(`Voice metrics aggregated for ${date}`, {
+      events: metrics.events,
+      conversionRate: metrics.funnel.conversionRate,
+    });
+  } catch (error) {
+    logger.error(`Error aggregating voice metrics for ${date}`, error);
+  }
+});
+
+/**
+ * Verify the caller's Firebase ID token and admin claim
+ * @param {string | undefined} authorization - Authorization header
+ * @return {Promise<string>} Admin's uid
+ */
+async function requireAdminToken(authorization: string | undefined): Promise<string> {
+  const token = authorization?.match(/^Bearer (.+)$/)?.[1];
+  if (!token) {
+    throw new HttpsError("unauthenticated", "Authentication required");
+  }
+  let decoded: admin.auth.DecodedIdToken;
+  try {
+    decoded = await admin.auth().verifyIdToken(token);
+  } catch (error) {
+    throw new HttpsError("unauthenticated", "Invalid ID token");
+  }
+  if (!decoded.admin) {
+    throw new HttpsError("permission-denied", "Admin access required");
+  }
+  return decoded.uid;
+}
+
+/**
+ * Query aggregated voice metrics by date range (admin only)
+ * GET ?from=YYYY-MM-DD&to=YYYY-MM-DD with an admin's ID token as a
+ * Bearer Authorization header.
+ */
+export const getVoiceMetrics = onRequest(async (req, res) => {
+  if (req.method !== "GET") {
+    res.status(405).json({error: "Method not allowed"});
+    return;
+  }
+
+  try {
+    const adminId = await requireAdminToken(req.get("Authorization"));
+    const {from, to} = parseRequest(getVoiceMetricsRequest, req.query);
+    if (from > to) {
+      throw new HttpsError("invalid-argument", "from must not be after to", {field: "from"});
+    }
+    if (to > addDays(from, MAX_VOICE_METRICS_DAYS - 1)) {
+      throw new HttpsError("invalid-argument",
+        `The range can span at most ${MAX_VOICE_METRICS_DAYS} days`, {field: "to"});
+    }
+
+    const snapshot = await db.collection("voiceMetrics")
+      .where(admin.firestore.FieldPath.documentId(), ">=", from)
+      .where(admin.firestore.FieldPath.documentId(), "<=", to)
+      .get();
+    const days = snapshot.docs.map((doc) => {
+      // computedAt is bookkeeping, not a metric
+      const metrics = doc.data();
+      delete metrics.computedAt;
+      return metrics as VoiceDayMetrics;
+    });
+
+    logger.info(`Voice metrics queried by admin: ${adminId}`, {from, to, days: days.length});
+
+    const response: GetVoiceMetricsResponse = {
+      from,
+      to,
+      days,
+      summary: summarizeVoiceMetrics(days),
+    };
+    res.json(response);
+  } catch (error) {
+    if (error instanceof HttpsError) {
+      res.status(error.httpErrorCode.status).json({error: error.message, details: error.details});
+      return;
+    }
+    logger.error("Error querying voice metrics", error);
+    res.status(500).json({error: "Failed to query voice metrics"});
+  }
+});
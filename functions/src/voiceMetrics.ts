@@ -0,0 +1,342 @@
+/**
+ * Voice interaction metrics for NutriSync
+ * Measures how well voice input works: recognition quality (how much users
+ * correct the recognized transcript), latency, per-intent success and how
+ * many voice sessions end with a saved meal. Events are folded into a
+ * daily accumulator so a day is aggregated one page of events at a time.
+ */
+
+import {round2} from "./nutrition";
+import {tokenize} from "./text";
+
+// Steps of a voice session, in funnel order
+export const VOICE_STAGES = [
+  "started", "transcribed", "parsed", "confirmed", "meal_saved", "abandoned",
+] as const;
+export type VoiceStage = typeof VOICE_STAGES[number];
+
+/**
+ * One users/{userId}/voiceInteractions document, as read for aggregation
+ */
+export interface VoiceEvent {
+  userId: string;
+  type: string;
+  success: boolean;
+  sessionId?: string;
+  stage?: VoiceStage;
+  intent?: string;
+  latencyMs?: number;
+  corrections?: number;
+  wordErrorRate?: number;
+  languageMix?: LanguageMix;
+  locale?: string;
+}
+
+// Share of Hindi and English among the words that identify a language
+export interface LanguageMix {
+  hindi: number;
+  english: number;
+}
+
+export interface IntentMetrics {
+  events: number;
+  successes: number;
+  successRate: number;
+  medianLatencyMs: number | null;
+  averageCorrections: number;
+}
+
+/**
+ * voiceMetrics/{YYYY-MM-DD}; days are UTC
+ */
+export interface VoiceDayMetrics {
+  date: string;
+  events: number;
+  users: number;
+  successRate: number | null;
+  medianLatencyMs: number | null;
+  averageCorrections: number | null;
+  // Share of events where the user changed the recognized transcript at all
+  correctedShare: number | null;
+  // Mean word error rate of the recognized against the final transcript
+  averageWordErrorRate: number | null;
+  intents: Record<string, IntentMetrics>;
+  funnel: {
+    // Sessions that reached each stage
+    stages: Record<VoiceStage, number>;
+    sessionsStarted: number;
+    mealsSaved: number;
+    // Started sessions that ended with a saved meal
+    conversionRate: number | null;
+  };
+  languageMix: LanguageMix & {events: number};
+  locales: Record<string, number>;
+}
+
+export interface VoiceMetricsSummary {
+  events: number;
+  successRate: number | null;
+  sessionsStarted: number;
+  mealsSaved: number;
+  conversionRate: number | null;
+}
+
+interface IntentAccumulator {
+  events: number;
+  successes: number;
+  latencies: number[];
+  corrections: number;
+}
+
+export interface VoiceAccumulator {
+  date: string;
+  users: Set<string>;
+  overall: IntentAccumulator;
+  intents: Map<string, IntentAccumulator>;
+  correctedEvents: number;
+  correctionsReported: number;
+  wordErrorRates: number[];
+  // Stages reached per "userId/sessionId"
+  sessions: Map<string, Set<VoiceStage>>;
+  hindiShare: number;
+  mixEvents: number;
+  locales: Map<string, number>;
+}
+
+// Words that mark a romanized message as Hindi; Devanagari words always count
+const HINDI_WORDS = new Set([
+  "hai", "hain", "tha", "thi", "mein", "aur", "ka", "ki", "ke", "ko", "se", "maine",
+  "mene", "humne", "khaya", "khayi", "khaye", "piya", "liya", "li", "aaj", "kal", "abhi",
+  "bhi", "kya", "nahi", "haan", "thoda", "thodi", "zyada", "kam", "wala", "wali", "ek",
+  "teen", "char", "paanch", "aadha", "katori", "gilas", "subah", "dopahar", "shaam",
+  "raat", "nashta", "saath", "bina", "kitna", "kitni",
+]);
+const ENGLISH_WORDS = new Set([
+  "i", "we", "had", "have", "ate", "eaten", "drank", "and", "with", "without", "for",
+  "the", "a", "an", "of", "some", "my", "was", "today", "yesterday", "one", "two",
+  "three", "half", "bowl", "bowls", "cup", "cups", "glass", "plate", "piece", "pieces",
+  "breakfast", "lunch", "dinner", "snack", "less", "more", "extra", "how", "much",
+  "what", "please", "add", "log",
+]);
+
+/**
+ * Word-level edit distance between two transcripts, as a share of the
+ * final transcript's words (0 when the user changed nothing)
+ * @param {string} recognized - Transcript from speech recognition
+ * @param {string} final - Transcript after the user's corrections
+ * @return {number} Word error rate
+ */
+export function wordErrorRate(recognized: string, final: string): number {
+  const source = tokenize(recognized);
+  const target = tokenize(final);
+  if (!target.length) return source.length ? 1 : 0;
+
+  let previous = Array.from({length: target.length + 1}, (_, j) => j);
+  for (let i = 1; i <= source.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= target.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (source[i - 1] === target[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return round2(previous[target.length] / target.length);
+}
+
+/**
+ * How much of a transcript is Hindi and how much English
+ * Food names and numbers say nothing about the language and are ignored.
+ * @param {string} text - Transcript
+ * @return {LanguageMix | null} Shares summing to 1, or null when no word
+ * identifies a language
+ */
+export function languageMix(text: string): LanguageMix | null {
+  let hindi = 0;
+  let english = 0;
+  for (const token of tokenize(text)) {
+    if (/[ऀ-ॿ]/.test(token) || HINDI_WORDS.has(token)) {
+      hindi++;
+    } else if (ENGLISH_WORDS.has(token)) {
+      english++;
+    }
+  }
+  const total = hindi + english;
+  return total ? {hindi: round2(hindi / total), english: round2(english / total)} : null;
+}
+
+/**
+ * Median of a list of numbers
+ * @param {number[]} values - Values
+ * @return {number | null} Median, or null for an empty list
+ */
+function median(values: number[]): number | null {
+  if (!values.length) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Key under which an event's intent is reported; falls back to the
+ * interaction type for events logged before intents were recorded
+ * @param {VoiceEvent} event - Event
+ * @return {string} Firestore-safe map key
+ */
+function intentKey(event: VoiceEvent): string {
+  return (event.intent || event.type || "unknown").toLowerCase().replace(/[^a-z0-9_]/g, "_");
+}
+
+/**
+ * Start aggregating one day
+ * @param {string} date - UTC date key
+ * @return {VoiceAccumulator} Empty accumulator
+ */
+export function createVoiceAccumulator(date: string): VoiceAccumulator {
+  return {
+    date,
+    users: new Set(),
+    overall: {events: 0, successes: 0, latencies: [], corrections: 0},
+    intents: new Map(),
+    correctedEvents: 0,
+    correctionsReported: 0,
+    wordErrorRates: [],
+    sessions: new Map(),
+    hindiShare: 0,
+    mixEvents: 0,
+    locales: new Map(),
+  };
+}
+
+/**
+ * Fold one event into the day
+ * @param {VoiceAccumulator} day - Accumulator to update
+ * @param {VoiceEvent} event - Event
+ */
+export function addVoiceEvent(day: VoiceAccumulator, event: VoiceEvent): void {
+  day.users.add(event.userId);
+
+  const key = intentKey(event);
+  const intent = day.intents.get(key) ||
+    {events: 0, successes: 0, latencies: [], corrections: 0};
+  day.intents.set(key, intent);
+  for (const target of [day.overall, intent]) {
+    target.events++;
+    if (event.success) target.successes++;
+    if (event.latencyMs !== undefined) target.latencies.push(event.latencyMs);
+    target.corrections += event.corrections || 0;
+  }
+
+  if (event.corrections !== undefined || event.wordErrorRate !== undefined) {
+    day.correctionsReported++;
+    if ((event.corrections || 0) > 0 || (event.wordErrorRate || 0) > 0) {
+      day.correctedEvents++;
+    }
+  }
+  if (event.wordErrorRate !== undefined) {
+    day.wordErrorRates.push(event.wordErrorRate);
+  }
+
+  if (event.sessionId && event.stage) {
+    const sessionKey = `${event.userId}/${event.sessionId}`;
+    const stages = day.sessions.get(sessionKey) || new Set<VoiceStage>();
+    stages.add(event.stage);
+    day.sessions.set(sessionKey, stages);
+  }
+
+  if (event.languageMix) {
+    day.hindiShare += event.languageMix.hindi;
+    day.mixEvents++;
+  }
+  if (event.locale) {
+    day.locales.set(event.locale, (day.locales.get(event.locale) || 0) + 1);
+  }
+}
+
+/**
+ * Turn an accumulator into the stored metrics
+ * @param {VoiceAccumulator} day - Accumulated day
+ * @return {VoiceDayMetrics} voiceMetrics document
+ */
+export function finishVoiceMetrics(day: VoiceAccumulator): VoiceDayMetrics {
+  const rate = (part: number, whole: number) => whole ? round2(part / whole) : null;
+
+  const intents: Record<string, IntentMetrics> = {};
+  for (const [key, intent] of [...day.intents].sort(([a], [b]) => a.localeCompare(b))) {
+    intents[key] = {
+      events: intent.events,
+      successes: intent.successes,
+      successRate: rate(intent.successes, intent.events) ?? 0,
+      medianLatencyMs: median(intent.latencies),
+      averageCorrections: round2(intent.corrections / intent.events),
+    };
+  }
+
+  const stages = Object.fromEntries(VOICE_STAGES.map((stage) => [stage, 0])) as
+    Record<VoiceStage, number>;
+  let sessionsStarted = 0;
+  let mealsSaved = 0;
+  for (const reached of day.sessions.values()) {
+    reached.forEach((stage) => stages[stage]++);
+    if (reached.has("started")) {
+      sessionsStarted++;
+      if (reached.has("meal_saved")) mealsSaved++;
+    }
+  }
+
+  const hindi = day.mixEvents ? round2(day.hindiShare / day.mixEvents) : 0;
+  return {
+    date: day.date,
+    events: day.overall.events,
+    users: day.users.size,
+    successRate: rate(day.overall.successes, day.overall.events),
+    medianLatencyMs: median(day.overall.latencies),
+    averageCorrections: day.overall.events ?
+      round2(day.overall.corrections / day.overall.events) : null,
+    correctedShare: rate(day.correctedEvents, day.correctionsReported),
+    averageWordErrorRate: day.wordErrorRates.length ?
+      round2(day.wordErrorRates.reduce((sum, value) => sum + value, 0) /
+        day.wordErrorRates.length) :
+      null,
+    intents,
+    funnel: {
+      stages,
+      sessionsStarted,
+      mealsSaved,
+      conversionRate: rate(mealsSaved, sessionsStarted),
+    },
+    languageMix: {
+      hindi,
+      english: day.mixEvents ? round2(1 - hindi) : 0,
+      events: day.mixEvents,
+    },
+    locales: Object.fromEntries(day.locales),
+  };
+}
+
+/**
+ * Totals over several days, for the query endpoint
+ * Medians cannot be combined, so only counts and rates are summed up.
+ * @param {VoiceDayMetrics[]} days - Stored days
+ * @return {VoiceMetricsSummary} Events, success rate and conversion over the range
+ */
+export function summarizeVoiceMetrics(days: VoiceDayMetrics[]): VoiceMetricsSummary {
+  let events = 0;
+  let successes = 0;
+  let sessionsStarted = 0;
+  let mealsSaved = 0;
+  for (const day of days) {
+    events += day.events;
+    successes += Object.values(day.intents).reduce((sum, intent) => sum + intent.successes, 0);
+    sessionsStarted += day.funnel.sessionsStarted;
+    mealsSaved += day.funnel.mealsSaved;
+  }
+  return {
+    events,
+    successRate: events ? round2(successes / events) : null,
+    sessionsStarted,
+    mealsSaved,
+    conversionRate: sessionsStarted ? round2(mealsSaved / sessionsStarted) : null,
+  };
+}
@@ -0,0 +1,210 @@
+/**
+ * Weekly progress report for NutriSync
+ * Summarizes a Monday-Sunday week of dailySummaries against the user's
+ * targets and compares it with the week before.
+ */
+
+import {round2} from "./nutrition";
+import {targetProgress} from "./nutritionTargets";
+import {addDays, isoWeekKey} from "./timezone";
+
+type Macro = "calories" | "protein" | "carbs" | "fat";
+type MacroValues = Record<Macro, number>;
+
+const MACROS: Macro[] = ["calories", "protein", "carbs", "fat"];
+
+// dailySummaries field for each macro
+const SUMMARY_FIELDS: Record<Macro, string> = {
+  calories: "totalCalories",
+  protein: "totalProtein",
+  carbs: "totalCarbs",
+  fat: "totalFat",
+};
+
+export interface DaySummary {
+  date: string;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  mealCount: number;
+  // Percent of the calorie target reached, when a target is known
+  calorieProgress: number | null;
+}
+
+export interface WeeklyReport {
+  isoWeek: string;
+  weekStart: string;
+  weekEnd: string;
+  days: DaySummary[];
+  daysLogged: number;
+  // Consecutive logged days ending on the last day of the week
+  streak: number;
+  averages: MacroValues;
+  targets: MacroValues | null;
+  progress: Record<string, number> | null;
+  // Closest to and furthest from the calorie target (or most/fewest calories)
+  bestDay: DaySummary | null;
+  worstDay: DaySummary | null;
+  topFoods: Array<{foodId: string; name: string; count: number}>;
+  previousWeek: {daysLogged: number; averages: MacroValues} | null;
+  change: {daysLogged: number} & MacroValues | null;
+}
+
+export interface WeeklyReportInput {
+  // Monday of the week being reported
+  weekStart: string;
+  // dailySummaries data by date key; may include the previous week
+  summaries: Map<string, Record<string, unknown>>;
+  // Meals eaten during the week
+  meals: Array<Record<string, unknown>>;
+  // Current targets, used for days without a targets snapshot
+  targets?: Partial<MacroValues> | null;
+  // Streak carried in from last week's report, when there is one
+  previousStreak?: number;
+}
+
+const TOP_FOODS = 5;
+
+/**
+ * Seven consecutive date keys
+ * @param {string} start - First day
+ * @return {string[]} Date keys
+ */
+function weekDays(start: string): string[] {
+  return Array.from({length: 7}, (_, i) => addDays(start, i));
+}
+
+/**
+ * Average macros over the logged days of a week
+ * @param {DaySummary[]} days - Days of the week
+ * @return {MacroValues} Averages (0 when nothing was logged)
+ */
+function averageOf(days: DaySummary[]): MacroValues {
+  const logged = days.filter((day) => day.mealCount > 0);
+  const averages = {} as MacroValues;
+  for (const macro of MACROS) {
+    averages[macro] = logged.length ?
+      round2(logged.reduce((total, day) => total + day[macro], 0) / logged.length) :
+      0;
+  }
+  return averages;
+}
+
+/**
+ * Read one day from the summaries
+ * @param {string} date - Date key
+ * @param {Map<string, Record<string, unknown>>} summaries - Summaries by date
+ * @param {Partial<MacroValues> | null | undefined} fallbackTargets - Current targets
+ * @return {DaySummary} Day totals
+ */
+function readDay(
+  date: string,
+  summaries: Map<string, Record<string, unknown>>,
+  fallbackTargets?: Partial<MacroValues> | null
+): DaySummary {
+  const summary = summaries.get(date) || {};
+  const day = {date, mealCount: Number(summary.mealCount) || 0} as DaySummary;
+  for (const macro of MACROS) {
+    day[macro] = round2(Number(summary[SUMMARY_FIELDS[macro]]) || 0);
+  }
+  const targets = (summary.targets as Partial<MacroValues> | undefined) || fallbackTargets;
+  day.calorieProgress = targets?.calories ?
+    Math.round(day.calories / targets.calories * 100) :
+    null;
+  return day;
+}
+
+/**
+ * Build the report for one week
+ * @param {WeeklyReportInput} input - Summaries, meals and targets
+ * @return {WeeklyReport} Report document
+ */
+export function buildWeeklyReport(input: WeeklyReportInput): WeeklyReport {
+  const {weekStart, summaries} = input;
+  const days = weekDays(weekStart).map((date) => readDay(date, summaries, input.targets));
+  const logged = days.filter((day) => day.mealCount > 0);
+
+  // Streak runs back from Sunday; a fully logged week continues last week's
+  let streak = 0;
+  for (let i = days.length - 1; i >= 0 && days[i].mealCount > 0; i--) {
+    streak++;
+  }
+  if (streak === days.length) {
+    if (input.previousStreak !== undefined) {
+      streak += input.previousStreak;
+    } else {
+      const previous = weekDays(addDays(weekStart, -7)).map((date) => readDay(date, summaries));
+      for (let i = previous.length - 1; i >= 0 && previous[i].mealCount > 0; i--) {
+        streak++;
+      }
+    }
+  }
+
+  const averages = averageOf(days);
+  const targets = input.targets?.calories ? {
+    calories: input.targets.calories || 0,
+    protein: input.targets.protein || 0,
+    carbs: input.targets.carbs || 0,
+    fat: input.targets.fat || 0,
+  } : null;
+
+  // Rank days by distance from the calorie target, or by calories without one
+  const distance = (day: DaySummary) => day.calorieProgress === null ?
+    -day.calories :
+    Math.abs(day.calorieProgress - 100);
+  const ranked = [...logged].sort((a, b) => distance(a) - distance(b));
+
+  const foodCounts = new Map<string, {foodId: string; name: string; count: number}>();
+  for (const meal of input.meals) {
+    const items = (meal.foods as Array<{foodId?: string; name?: string}> | undefined) || [];
+    for (const item of items) {
+      const key = item.foodId || item.name;
+      if (!key) continue;
+      const entry = foodCounts.get(key) ||
+        {foodId: item.foodId || "", name: item.name || key, count: 0};
+      entry.count++;
+      foodCounts.set(key, entry);
+    }
+  }
+  const topFoods = [...foodCounts.values()]
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+    .slice(0, TOP_FOODS);
+
+  // Compare only when something was logged the week before
+  const previousDays = weekDays(addDays(weekStart, -7)).map((date) => readDay(date, summaries));
+  const previousLogged = previousDays.filter((day) => day.mealCount > 0).length;
+  const previousWeek = previousLogged ?
+    {daysLogged: previousLogged, averages: averageOf(previousDays)} :
+    null;
+  let change: WeeklyReport["change"] = null;
+  if (previousWeek) {
+    const difference = {} as MacroValues;
+    for (const macro of MACROS) {
+      difference[macro] = round2(averages[macro] - previousWeek.averages[macro]);
+    }
+    change = {daysLogged: logged.length - previousWeek.daysLogged, ...difference};
+  }
+
+  return {
+    isoWeek: isoWeekKey(weekStart),
+    weekStart,
+    weekEnd: addDays(weekStart, 6),
+    days,
+    daysLogged: logged.length,
+    streak,
+    averages,
+    targets,
+    progress: targets && logged.length ? targetProgress({
+      totalCalories: averages.calories,
+      totalProtein: averages.protein,
+      totalCarbs: averages.carbs,
+      totalFat: averages.fat,
+    }, targets) : null,
+    bestDay: ranked[0] || null,
+    worstDay: ranked.length > 1 ? ranked[ranked.length - 1] : null,
+    topFoods,
+    previousWeek,
+    change,
+  };
+}
@@ -0,0 +1,79 @@
+import {ConversationState, detectIntent, EMPTY_STATE, parseIntent} from "../src/assistant";
+
+const PENDING: ConversationState = {
+  pending: {action: "log_meal", mealType: "lunch", items: [], labels: []},
+  awaiting: null,
+};
+
+describe("detectIntent", () => {
+  it("reads short answers as confirmations only while an action is pending", () => {
+    expect(detectIntent("haan", PENDING)).toEqual({intent: "confirm"});
+    expect(detectIntent("ok", PENDING)).toEqual({intent: "confirm"});
+    expect(detectIntent("nahi, theek nahi", PENDING)).toEqual({intent: "cancel"});
+    expect(detectIntent("haan", EMPTY_STATE)).toEqual({intent: "unknown"});
+  });
+
+  it.each([
+    ["aaj kitna protein hua", "protein", "today"],
+    ["how many calories yesterday?", "calories", "yesterday"],
+    ["kal kitni कैलोरी", "calories", "yesterday"],
+    ["आज कितना प्रोटीन", "protein", "today"],
+  ])("asks about a nutrient in %s", (message, nutrient, day) => {
+    expect(detectIntent(message, EMPTY_STATE)).toEqual({intent: "nutrient_query", nutrient, day});
+  });
+
+  it("reads both food names of a swap in either order", () => {
+    expect(detectIntent("monday lunch mein dal ki jagah rajma", EMPTY_STATE)).toEqual({
+      intent: "swap_plan_item", day: "monday", slot: "lunch", from: "dal", to: "rajma",
+    });
+    expect(detectIntent("dal ko rajma se badlo", EMPTY_STATE))
+      .toEqual({intent: "swap_plan_item", from: "dal", to: "rajma"});
+  });
+
+  it("completes a swap waiting for its meal", () => {
+    const state = {pending: null, awaiting: {intent: "swap_plan_item" as const, from: "dal"}};
+
+    expect(detectIntent("lunch", state))
+      .toEqual({intent: "swap_plan_item", from: "dal", slot: "lunch"});
+  });
+
+  it("asks for suggestions", () => {
+    expect(detectIntent("dinner mein kya khaun", EMPTY_STATE))
+      .toEqual({intent: "meal_suggestion", mealType: "dinner"});
+    expect(detectIntent("suggest breakfast", EMPTY_STATE))
+      .toEqual({intent: "meal_suggestion", mealType: "breakfast"});
+  });
+
+  it("logs meals without the command words", () => {
+    expect(detectIntent("log 2 idli for breakfast", EMPTY_STATE))
+      .toEqual({intent: "log_meal", text: "2 idli for breakfast", mealType: "breakfast"});
+    expect(detectIntent("मैंने दो रोटी खाई", EMPTY_STATE))
+      .toEqual({intent: "log_meal", text: "मैंने दो रोटी खाई"});
+  });
+
+  it("recognizes greetings and help, and nothing else", () => {
+    expect(detectIntent("hello", EMPTY_STATE)).toEqual({intent: "greeting"});
+    expect(detectIntent("help", EMPTY_STATE)).toEqual({intent: "help"});
+    expect(detectIntent("2 roti aur dal", EMPTY_STATE)).toEqual({intent: "unknown"});
+  });
+});
+
+describe("parseIntent", () => {
+  it("rejects output that is not a known intent", () => {
+    expect(parseIntent(null)).toBeNull();
+    expect(parseIntent("log_meal")).toBeNull();
+    expect(parseIntent({intent: "dance"})).toBeNull();
+    expect(parseIntent({intent: "log_meal"})).toBeNull();
+    expect(parseIntent({intent: "nutrient_query", nutrient: "sugar"})).toBeNull();
+  });
+
+  it("keeps valid fields and drops the rest", () => {
+    expect(parseIntent({intent: "log_meal", text: " 2 roti ", mealType: "brunch"}))
+      .toEqual({intent: "log_meal", text: "2 roti"});
+    expect(parseIntent({intent: "nutrient_query", nutrient: "protein", day: "tomorrow"}))
+      .toEqual({intent: "nutrient_query", nutrient: "protein", day: "today"});
+    expect(parseIntent({intent: "swap_plan_item", day: "someday", slot: "lunch",
+      from: "dal", to: ""})).toEqual({intent: "swap_plan_item", slot: "lunch", from: "dal"});
+    expect(parseIntent({intent: "confirm", extra: 1})).toEqual({intent: "confirm"});
+  });
+});
@@ -0,0 +1,75 @@
+import "../src/firebaseApp";
+import {EMPTY_STATE} from "../src/assistant";
+import {interpret, LanguageModel, setLanguageModel} from "../src/converse";
+
+const MESSAGE = "aaj kitna protein hua";
+const RULES_INTENT = {intent: "nutrient_query", nutrient: "protein", day: "today"};
+
+type Respond = LanguageModel["interpret"];
+
+/**
+ * Interpret the test message with a model stub
+ * @param {Respond} respond - What the model does
+ * @return {Promise<object>} Intent and what produced it
+ */
+async function interpretWith(respond: Respond) {
+  setLanguageModel({interpret: respond});
+  return interpret(MESSAGE, EMPTY_STATE, []);
+}
+
+describe("interpret", () => {
+  afterEach(() => {
+    setLanguageModel(null);
+    jest.useRealTimers();
+  });
+
+  it("uses the rules without a language model", async () => {
+    expect(await interpret(MESSAGE, EMPTY_STATE, []))
+      .toEqual({intent: RULES_INTENT, interpretedBy: "rules"});
+  });
+
+  it("uses a valid intent from the model", async () => {
+    const result = await interpretWith(async () =>
+      ({intent: "nutrient_query", nutrient: "calories", day: "yesterday"}));
+
+    expect(result).toEqual({
+      intent: {intent: "nutrient_query", nutrient: "calories", day: "yesterday"},
+      interpretedBy: "model",
+    });
+  });
+
+  it("shows the model recent history and the conversation state", async () => {
+    const respond = jest.fn(async () => ({intent: "greeting"}));
+    setLanguageModel({interpret: respond});
+    const at = {} as never;
+    const turns = Array.from({length: 10}, (_, i) =>
+      ({role: i % 2 ? "assistant" as const : "user" as const, text: `turn ${i}`, at}));
+
+    await interpret("hi", EMPTY_STATE, turns);
+
+    expect(respond).toHaveBeenCalledWith({
+      message: "hi",
+      history: turns.slice(-8).map(({role, text}) => ({role, text})),
+      state: EMPTY_STATE,
+    });
+  });
+
+  it.each([
+    ["throws", async () => {
+      throw new Error("model unavailable");
+    }],
+    ["returns no intent", async () => "I think they want protein"],
+    ["returns an invalid intent", async () => ({intent: "nutrient_query", nutrient: "sugar"})],
+  ])("falls back to the rules when the model %s", async (_, respond) => {
+    expect(await interpretWith(respond))
+      .toEqual({intent: RULES_INTENT, interpretedBy: "rules"});
+  });
+
+  it("falls back to the rules when the model is too slow", async () => {
+    jest.useFakeTimers();
+    const result = interpretWith(() => new Promise(() => undefined));
+    await jest.advanceTimersByTimeAsync(4000);
+
+    expect(await result).toEqual({intent: RULES_INTENT, interpretedBy: "rules"});
+  });
+});
@@ -0,0 +1,90 @@
+import {eatingPattern, readEducationContent, selectTips, TipContext} from "../src/cookingTips";
+import {MealItem} from "../src/types";
+
+const NOW = new Date("2024-05-20T08:00:00Z");
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const CONTENT = readEducationContent("healthy_cooking", {
+  title: "Healthier cooking",
+  category: "methods",
+  tips: [
+    {id: "fry", tip: "Air fry pakoras", hinglishTip: "Pakode air fryer mein banaiye",
+      benefit: "Less oil", methods: ["Deep Fried"], goals: ["weight loss"]},
+    {id: "dal", tip: "Add spinach to dal", hinglishTip: "Dal mein palak daliye",
+      benefit: "More iron", foods: ["dal"]},
+    {id: "sugar", tip: "Skip sugar in chai", hinglishTip: "Chai bina cheeni ke piyiye",
+      benefit: "Steadier glucose", conditions: ["diabetes"]},
+    // Older documents have neither an id nor a Hinglish version
+    {tip: "Soak grains before cooking", benefit: "Easier to digest"},
+  ],
+});
+
+const CONTEXT: TipContext = {
+  pattern: eatingPattern([
+    {foods: [{name: "Onion Pakora", cookingMethod: "deep fried"},
+      {name: "Samosa", cookingMethod: "Deep Fried"}] as MealItem[]},
+    {foods: [{name: "Dal Tadka", cookingMethod: "tadka"}, {name: "Roti"}] as MealItem[]},
+  ]),
+  goals: ["Weight Loss"],
+  conditions: [],
+};
+
+/**
+ * Ids of the tips picked for the test user
+ * @param {Map<string, number>} lastShown - Epoch ms each tip was last shown
+ * @return {string[]} Tip ids, best first
+ */
+function pickedIds(lastShown = new Map<string, number>()): string[] {
+  return selectTips([CONTENT], CONTEXT, lastShown, {limit: 10, language: "english", now: NOW})
+    .map((tip) => tip.tipId);
+}
+
+describe("selectTips", () => {
+  it("ranks matching tips above general ones and explains the match", () => {
+    const [fry, dal] = selectTips([CONTENT], CONTEXT, new Map(),
+      {limit: 2, language: "english", now: NOW});
+
+    expect(fry).toEqual({
+      tipId: "fry",
+      contentId: "healthy_cooking",
+      title: "Healthier cooking",
+      category: "methods",
+      text: "Air fry pakoras",
+      benefit: "Less oil",
+      reason: "2 of your last 4 dishes were deep fried and fits your weight loss goal",
+    });
+    expect(dal.reason).toBe("you have been eating dal");
+  });
+
+  it("never picks targeted tips that match nothing", () => {
+    expect(pickedIds()).toEqual(["fry", "dal", "healthy_cooking_3"]);
+  });
+
+  it("puts tips shown within the cooldown last, least recently shown first", () => {
+    const lastShown = new Map([
+      ["fry", NOW.getTime() - 3 * DAY_MS],
+      ["dal", NOW.getTime() - 10 * DAY_MS],
+      // Shown before the cooldown started, so fresh again
+      ["healthy_cooking_3", NOW.getTime() - 20 * DAY_MS],
+    ]);
+
+    expect(pickedIds(lastShown)).toEqual(["healthy_cooking_3", "dal", "fry"]);
+  });
+
+  it.each([
+    ["english", "Air fry pakoras"],
+    ["hinglish", "Pakode air fryer mein banaiye"],
+    ["hindi", "Pakode air fryer mein banaiye"],
+  ] as const)("writes %s tips in the matching text", (language, text) => {
+    const [tip] = selectTips([CONTENT], CONTEXT, new Map(), {limit: 1, language, now: NOW});
+
+    expect(tip.text).toBe(text);
+  });
+
+  it("falls back to the English tip when there is no Hinglish one", () => {
+    const general = selectTips([CONTENT], {...CONTEXT, goals: []}, new Map(),
+      {limit: 10, language: "hinglish", now: NOW}).find((tip) => tip.tipId === "healthy_cooking_3");
+
+    expect(general?.text).toBe("Soak grains before cooking");
+  });
+});
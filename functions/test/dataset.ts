@@ -0,0 +1,23 @@
+/**
+ * The bundled food dataset, for tests that need real foods
+ * Pure: reads data/indianFoods.csv without touching Firestore.
+ */
+
+import {readFileSync} from "fs";
+import {join} from "path";
+import {parseDataset} from "../src/foodDataset";
+import {IndianFood} from "../src/types";
+
+let foods: IndianFood[] | null = null;
+
+/**
+ * Every valid food in the bundled dataset
+ * @return {IndianFood[]} Foods in dataset order
+ */
+export function bundledFoods(): IndianFood[] {
+  if (!foods) {
+    const text = readFileSync(join(__dirname, "..", "data", "indianFoods.csv"), "utf8");
+    foods = parseDataset(text, "csv").foods.map((food) => food as IndianFood);
+  }
+  return foods;
+}
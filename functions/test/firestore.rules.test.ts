@@ -0,0 +1,120 @@
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  RulesTestEnvironment,
+} from "@firebase/rules-unit-testing";
+import {readFileSync} from "fs";
+import {join} from "path";
+import {PROJECT_ID} from "./setup";
+
+const OWNER = "owner_user";
+const OTHER = "other_user";
+
+let env: RulesTestEnvironment;
+
+beforeAll(async () => {
+  env = await initializeTestEnvironment({
+    projectId: PROJECT_ID,
+    firestore: {rules: readFileSync(join(__dirname, "..", "..", "firestore.rules"), "utf8")},
+  });
+});
+
+beforeEach(async () => {
+  await env.clearFirestore();
+  await env.withSecurityRulesDisabled(async (context) => {
+    const db = context.firestore();
+    await Promise.all([
+      db.doc(`users/${OWNER}`).set({name: "Owner", subscriptionTier: "free"}),
+      db.doc(`users/${OWNER}/meals/meal1`).set({mealType: "lunch", totalCalories: 500}),
+      db.doc(`users/${OWNER}/notifications/n1`).set({title: "Hello", read: false}),
+      db.doc(`analytics/${OWNER}`).set({userId: OWNER, totalMealsLogged: 3}),
+      db.doc("indianFoods/dal_tadka").set({name: "Dal Tadka"}),
+      db.doc("voiceMetrics/2026-01-01").set({interactions: 10}),
+    ]);
+  });
+});
+
+afterAll(() => env.cleanup());
+
+describe("users", () => {
+  it("lets users read their own profile only", async () => {
+    await assertSucceeds(env.authenticatedContext(OWNER).firestore()
+      .doc(`users/${OWNER}`).get());
+    await assertFails(env.authenticatedContext(OTHER).firestore()
+      .doc(`users/${OWNER}`).get());
+    await assertFails(env.unauthenticatedContext().firestore()
+      .doc(`users/${OWNER}`).get());
+  });
+
+  it("keeps subscription fields server-side", async () => {
+    const db = env.authenticatedContext(OTHER).firestore();
+    await assertFails(db.doc(`users/${OTHER}`).set({subscriptionTier: "premium"}));
+    await assertSucceeds(db.doc(`users/${OTHER}`).set({name: "Other"}));
+
+    const owner = env.authenticatedContext(OWNER).firestore();
+    await assertFails(owner.doc(`users/${OWNER}`).update({subscriptionTier: "premium"}));
+    await assertSucceeds(owner.doc(`users/${OWNER}`).update({name: "Renamed"}));
+  });
+});
+
+describe("meals", () => {
+  it("lets owners read and delete but not write meals", async () => {
+    const db = env.authenticatedContext(OWNER).firestore();
+    await assertSucceeds(db.doc(`users/${OWNER}/meals/meal1`).get());
+    await assertFails(db.doc(`users/${OWNER}/meals/meal2`).set({totalCalories: 1}));
+    await assertFails(db.doc(`users/${OWNER}/meals/meal1`).update({totalCalories: 1}));
+    await assertSucceeds(db.doc(`users/${OWNER}/meals/meal1`).delete());
+  });
+
+  it("hides meals from other users", async () => {
+    await assertFails(env.authenticatedContext(OTHER).firestore()
+      .doc(`users/${OWNER}/meals/meal1`).get());
+  });
+});
+
+describe("notifications", () => {
+  it("lets owners mark notifications read and nothing else", async () => {
+    const db = env.authenticatedContext(OWNER).firestore();
+    await assertSucceeds(db.doc(`users/${OWNER}/notifications/n1`).update({read: true}));
+    await assertFails(db.doc(`users/${OWNER}/notifications/n1`).update({title: "Changed"}));
+    await assertFails(db.doc(`users/${OWNER}/notifications/n2`).set({read: false}));
+  });
+});
+
+describe("analytics", () => {
+  it("lets users read their own analytics only", async () => {
+    await assertSucceeds(env.authenticatedContext(OWNER).firestore()
+      .doc(`analytics/${OWNER}`).get());
+    await assertFails(env.authenticatedContext(OTHER).firestore()
+      .doc(`analytics/${OWNER}`).get());
+    await assertFails(env.unauthenticatedContext().firestore()
+      .doc(`analytics/${OWNER}`).get());
+  });
+
+  it("leaves analytics writes to functions", async () => {
+    await assertFails(env.authenticatedContext(OWNER).firestore()
+      .doc(`analytics/${OWNER}`).update({totalMealsLogged: 1000}));
+    await assertFails(env.authenticatedContext(OTHER).firestore()
+      .doc(`analytics/${OWNER}`).set({totalMealsLogged: 0}));
+    await assertFails(env.authenticatedContext(OTHER).firestore()
+      .doc(`analytics/${OTHER}`).set({totalMealsLogged: 0}));
+  });
+});
+
+describe("shared content", () => {
+  it("lets signed-in users read foods but not write them", async () => {
+    const db = env.authenticatedContext(OWNER).firestore();
+    await assertSucceeds(db.doc("indianFoods/dal_tadka").get());
+    await assertFails(db.doc("indianFoods/dal_tadka").set({name: "Changed"}));
+    await assertFails(env.unauthenticatedContext().firestore()
+      .doc("indianFoods/dal_tadka").get());
+  });
+
+  it("limits voice metrics to admins", async () => {
+    await assertSucceeds(env.authenticatedContext("admin_user", {admin: true}).firestore()
+      .doc("voiceMetrics/2026-01-01").get());
+    await assertFails(env.authenticatedContext(OWNER).firestore()
+      .doc("voiceMetrics/2026-01-01").get());
+  });
+});
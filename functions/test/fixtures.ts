@@ -0,0 +1,201 @@
+/**
+ * Seeded fixtures for the emulator test suites
+ * Users with different goals and conditions, a slice of the bundled food
+ * dataset with its search index, meals logged through the real meal code
+ * and job shards ready for processJobShard.
+ */
+
+import "./helpers";
+import "../src/firebaseApp";
+import * as admin from "firebase-admin";
+import {LogMealResponse, MealItemInput} from "../src/contracts";
+import {SEARCH_INDEX_META_DOC} from "../src/foodCatalog";
+import {buildSearchEntry} from "../src/foodSearch";
+import {JOB_RUNS} from "../src/jobRunner";
+import {recordMeal} from "../src/meals";
+import {computeNutritionTargets} from "../src/nutritionTargets";
+import {resolveTimeZone} from "../src/timezone";
+import {IndianFood, UserProfile} from "../src/types";
+import {bundledFoods} from "./dataset";
+
+const db = admin.firestore();
+
+// Enough of the dataset for swaps, diet exclusions and nutrient-dense picks
+export const FIXTURE_FOOD_IDS = [
+  "dal_tadka", "rajma", "chole", "palak_paneer", "aloo_gobi", "chicken_curry", "egg_curry",
+  "basmati_rice", "brown_rice", "khichdi", "whole_wheat_roti", "bajra_roti", "naan",
+  "idli", "poha", "besan_chilla", "sprouts_chaat", "roasted_chana", "banana", "guava",
+  "gulab_jamun", "jalebi", "chaas",
+];
+
+export const FIXTURE_USERS = {
+  diabetic: {
+    uid: "user_diabetic",
+    name: "Ramesh",
+    age: 56,
+    gender: "male",
+    height: 168,
+    weight: 80,
+    activityLevel: "sedentary",
+    healthGoals: ["blood sugar control"],
+    medicalConditions: ["diabetes"],
+    preferredLanguage: "hinglish",
+    timezone: "Asia/Kolkata",
+  },
+  vegetarian: {
+    uid: "user_vegetarian",
+    name: "Priya",
+    age: 31,
+    gender: "female",
+    height: 158,
+    weight: 68,
+    activityLevel: "light",
+    healthGoals: ["weight loss"],
+    medicalConditions: [],
+    dietaryNeeds: ["vegetarian"],
+    preferredLanguage: "english",
+    timezone: "Asia/Kolkata",
+  },
+  anemic: {
+    uid: "user_anemic",
+    name: "Meena",
+    age: 24,
+    gender: "female",
+    height: 160,
+    weight: 52,
+    activityLevel: "moderate",
+    healthGoals: ["better digestion"],
+    medicalConditions: ["anemia"],
+    dietaryNeeds: ["vegetarian"],
+    preferredLanguage: "hindi",
+    timezone: "Asia/Kolkata",
+  },
+  athlete: {
+    uid: "user_athlete",
+    name: "Arjun",
+    age: 27,
+    gender: "male",
+    height: 178,
+    weight: 72,
+    activityLevel: "very active",
+    healthGoals: ["muscle building"],
+    medicalConditions: [],
+    preferredLanguage: "english",
+    timezone: "America/New_York",
+  },
+} satisfies Record<string, UserProfile>;
+
+export type FixtureUser = keyof typeof FIXTURE_USERS;
+
+/**
+ * The fixture foods, from the bundled dataset
+ * @return {IndianFood[]} Foods in FIXTURE_FOOD_IDS order
+ */
+export function fixtureFoods(): IndianFood[] {
+  const byId = new Map(bundledFoods().map((food) => [food.id, food]));
+  return FIXTURE_FOOD_IDS.map((id) => {
+    const food = byId.get(id);
+    if (!food) {
+      throw new Error(`Fixture food missing from the dataset: ${id}`);
+    }
+    return food;
+  });
+}
+
+/**
+ * Write the fixture foods and their search index
+ */
+export async function seedFoods(): Promise<void> {
+  const batch = db.batch();
+  for (const food of fixtureFoods()) {
+    batch.set(db.collection("indianFoods").doc(food.id), {...food, regionalVariations: []});
+    batch.set(db.collection("foodSearchIndex").doc(food.id), buildSearchEntry(food));
+  }
+  batch.set(db.doc(SEARCH_INDEX_META_DOC), {version: Date.now()});
+  await batch.commit();
+}
+
+/**
+ * Write a fixture user's profile and analytics documents, as they look
+ * after onUserCreated has run
+ * @param {FixtureUser} key - Which fixture user
+ * @param {object} options - withTargets: false leaves targets uncomputed
+ * @return {Promise<UserProfile>} The profile written
+ */
+export async function seedUser(
+  key: FixtureUser,
+  options: {withTargets?: boolean} = {}
+): Promise<UserProfile> {
+  const {uid, ...profile}: UserProfile = FIXTURE_USERS[key];
+  await db.collection("users").doc(uid).set({
+    ...profile,
+    ...(options.withTargets === false ? {} : {
+      nutritionTargets: computeNutritionTargets({...profile, uid}),
+    }),
+    subscriptionTier: "free",
+  });
+  await db.collection("analytics").doc(uid).set({
+    userId: uid,
+    totalMealsLogged: 0,
+    totalVoiceInteractions: 0,
+    subscriptionTier: "free",
+    timezone: resolveTimeZone(profile.timezone),
+    lastActiveDate: admin.firestore.Timestamp.now(),
+  });
+  return {uid, ...profile};
+}
+
+/**
+ * Log a meal through the same code as logMeal
+ * Triggers do not run in these tests, so summaries are left to the test.
+ * @param {string} userId - Owner
+ * @param {MealItemInput[]} items - Foods and portions
+ * @param {string} mealType - Meal slot
+ * @param {Date} eatenAt - When it was eaten
+ * @return {Promise<object>} The response and the stored meal data
+ */
+export async function seedMeal(
+  userId: string,
+  items: MealItemInput[],
+  mealType: string,
+  eatenAt: Date
+): Promise<{response: LogMealResponse; meal: Record<string, unknown>}> {
+  const response = await recordMeal(userId, items, mealType, eatenAt, "fixture");
+  const mealDoc = await db.collection("users").doc(userId)
+    .collection("meals").doc(response.mealId).get();
+  return {response, meal: mealDoc.data() || {}};
+}
+
+/**
+ * Create a one-shard job run, as startJobRun does before enqueueing
+ * @param {string} job - Job name, e.g. "dailySummary"
+ * @param {object} params - Shard parameters
+ * @return {Promise<object>} The task to hand to processJobShard
+ */
+export async function seedJobShard(
+  job: string,
+  params: {timeZones: string[]; runAt: string}
+): Promise<{job: string; runId: string; shardId: string}> {
+  const runId = `${job}-test-${params.runAt}`.replace(/[^A-Za-z0-9_-]/g, "-");
+  const runRef = db.collection(JOB_RUNS).doc(runId);
+  await runRef.set({
+    job,
+    runKey: params.runAt.slice(0, 13),
+    status: "running",
+    shardCount: 1,
+    shardsCompleted: 0,
+    processed: 0,
+    notified: 0,
+    failed: 0,
+  });
+  await runRef.collection("shards").doc("0").set({
+    params,
+    status: "pending",
+    cursor: null,
+    processed: 0,
+    notified: 0,
+    failed: 0,
+    failures: [],
+  });
+  return {job, runId, shardId: "0"};
+}
@@ -0,0 +1,121 @@
+import {diffFoods, keepStoredSearchTerms, parseDataset} from "../src/foodDataset";
+
+// One valid food; rows below override some of its cells
+const DAL_TADKA: Record<string, string> = {
+  id: "dal_tadka",
+  name: "Dal Tadka",
+  aliases: "dal|toor dal",
+  regional_names: "Hindi:दाल तड़का",
+  category: "dal",
+  base_dish: "dal",
+  primary_region: "North Indian",
+  available_regions: "North Indian|West Indian",
+  energy_kcal: "116",
+  protein_g: "6.8",
+  carbs_g: "15.5",
+  fat_g: "3.2",
+  fiber_g: "3.8",
+  iron_mg: "1.6",
+  portions: "katori:150|spoon:15",
+  portion_grams: "150",
+  visual_reference: "1 katori (small bowl)",
+  default_method: "tadka",
+  method_description: "Tempered in ghee",
+  method_multiplier: "1.0",
+  common_ingredients: "toor dal|oil",
+  combinations: "rice|roti",
+  meal_types: "lunch|dinner",
+  glycemic_index: "32",
+};
+const COLUMNS = Object.keys(DAL_TADKA);
+
+/**
+ * A CSV dataset, one row per set of overrides
+ * @param {Array<Record<string, string>>} rows - Cells that differ from dal tadka
+ * @return {string} CSV text
+ */
+function csv(...rows: Array<Record<string, string>>): string {
+  return [
+    COLUMNS.join(","),
+    ...rows.map((row) => COLUMNS.map((column) => ({...DAL_TADKA, ...row})[column]).join(",")),
+  ].join("\n");
+}
+
+describe("parseDataset", () => {
+  it("rejects invalid rows with their row number and keeps the rest", () => {
+    const parsed = parseDataset(csv(
+      {},
+      {id: "too_rich", energy_kcal: "2000"},
+      {id: "nameless", name: ""},
+      {id: "pizza", category: "pizza"},
+    ), "csv");
+
+    expect(parsed.total).toBe(4);
+    expect(parsed.foods.map((food) => food.id)).toEqual(["dal_tadka"]);
+    expect(parsed.rejected).toEqual([
+      {row: 2, id: "too_rich", errors: ["nutrition.calories must be between 0 and 900"]},
+      {row: 3, id: "nameless", errors: ["name is required"]},
+      {row: 4, id: "pizza", errors: ["category is not a known category: pizza"]},
+    ]);
+  });
+
+  it("rejects every row of a duplicated id", () => {
+    const parsed = parseDataset(csv({}, {id: "moong_dal"}, {name: "Dal Fry"}), "csv");
+
+    expect(parsed.foods.map((food) => food.id)).toEqual(["moong_dal"]);
+    expect(parsed.rejected.map(({row, errors}) => ({row, errors}))).toEqual([
+      {row: 1, errors: ["id is duplicated in rows 1, 3"]},
+      {row: 3, errors: ["id is duplicated in rows 1, 3"]},
+    ]);
+  });
+
+  it("warns when calories disagree with the macros", () => {
+    const parsed = parseDataset(csv({energy_kcal: "400"}), "csv");
+
+    expect(parsed.foods).toHaveLength(1);
+    expect(parsed.warnings).toEqual([{row: 1, id: "dal_tadka",
+      warning: "nutrition.calories 400 differs from 118 kcal computed from macros"}]);
+  });
+
+  it("rejects JSON records that are not objects", () => {
+    expect(parseDataset("[5]", "json").rejected)
+      .toEqual([{row: 1, errors: ["record must be an object"]}]);
+  });
+});
+
+describe("diffFoods", () => {
+  const {foods} = parseDataset(csv({}, {id: "moong_dal", name: "Moong Dal"}), "csv");
+  // As the first import stored them
+  const stored = new Map(foods.map((food) =>
+    [food.id, {...JSON.parse(JSON.stringify(food)), importId: "first"}]));
+
+  it("finds nothing to write when the same dataset is imported again", () => {
+    const again = foods.map((food) => keepStoredSearchTerms(food, stored.get(food.id)));
+
+    expect(diffFoods(again, stored))
+      .toEqual({added: [], changed: [], unchanged: 2, notInDataset: []});
+  });
+
+  it("reports added, changed and unchanged foods and stored foods left out", () => {
+    const {foods: next} = parseDataset(csv(
+      {energy_kcal: "120"},
+      {id: "chana_dal", name: "Chana Dal"},
+    ), "csv");
+
+    expect(diffFoods(next, stored)).toEqual({
+      added: ["chana_dal"],
+      changed: [{id: "dal_tadka", fields: ["nutrition"]}],
+      unchanged: 0,
+      notInDataset: ["moong_dal"],
+    });
+  });
+
+  it("keeps search terms added to a stored food since the last import", () => {
+    const edited = {...stored.get("dal_tadka"),
+      searchTerms: [...foods[0].searchTerms, "arhar"]};
+    const merged = keepStoredSearchTerms(foods[0], edited);
+
+    expect(merged.searchTerms).toContain("arhar");
+    expect(diffFoods([merged], new Map([["dal_tadka", edited]])).unchanged).toBe(1);
+  });
+});
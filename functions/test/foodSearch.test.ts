@@ -0,0 +1,54 @@
+import {buildSearchEntry, searchFoodEntries} from "../src/foodSearch";
+import {bundledFoods} from "./dataset";
+
+const entries = bundledFoods().map(buildSearchEntry);
+
+/**
+ * Food ids of one page of results
+ * @param {string} query - Search text
+ * @param {object} options - Filters and pagination
+ * @return {string[]} Ranked food ids
+ */
+function search(query: string, options = {}): string[] {
+  return searchFoodEntries(entries, query, options).results.map((result) => result.foodId);
+}
+
+describe("searchFoodEntries", () => {
+  it("ranks an exact name first", () => {
+    expect(search("rajma")[0]).toBe("rajma");
+    expect(search("chawal")[0]).toBe("basmati_rice");
+  });
+
+  it("matches Devanagari names", () => {
+    expect(search("चावल")[0]).toBe("basmati_rice");
+    expect(search("रोटी")[0]).toBe("whole_wheat_roti");
+  });
+
+  it("tolerates spelling variants, typos and a partly typed last word", () => {
+    expect(search("raajma")).toEqual(["rajma"]);
+    expect(search("biryni")).toEqual(expect.arrayContaining(["chicken_biryani", "veg_biryani"]));
+    expect(search("dal tad")[0]).toBe("dal_tadka");
+  });
+
+  it("returns nothing for words that match no food", () => {
+    expect(searchFoodEntries(entries, "zzqxv")).toEqual({results: [], total: 0, nextOffset: null});
+  });
+
+  it("filters by category and region", () => {
+    expect(search("paneer", {category: "Curry"}))
+      .toEqual(["matar_paneer", "palak_paneer", "paneer_butter_masala"]);
+    expect(search("", {region: "south indian", category: "breakfast"}))
+      .toEqual(["idli", "masala_dosa", "plain_dosa", "upma", "uttapam"]);
+  });
+
+  it("pages through results in a stable order", () => {
+    const all = searchFoodEntries(entries, "paneer", {limit: 50});
+    const first = searchFoodEntries(entries, "paneer", {limit: 2});
+    const second = searchFoodEntries(entries, "paneer", {limit: 2, offset: 2});
+
+    expect(first.total).toBe(all.total);
+    expect(first.nextOffset).toBe(2);
+    expect([...first.results, ...second.results])
+      .toEqual(all.results.slice(0, 4));
+  });
+});
@@ -0,0 +1,130 @@
+import {checkGlycemicDay, lowerGlycemicSwap, mealGlycemicLoad} from "../src/glycemic";
+import {IndianFood, MealItem} from "../src/types";
+
+/**
+ * A food with only the fields glycemic load needs
+ * @param {Partial<IndianFood>} fields - Food fields
+ * @return {IndianFood} Food
+ */
+function food(fields: Partial<IndianFood> & {id: string; category: string}): IndianFood {
+  return {name: fields.id, aliases: [], commonCombinations: [], ...fields} as IndianFood;
+}
+
+/**
+ * A logged item with carbs and fiber for the whole portion
+ * @param {IndianFood} of - Food eaten
+ * @param {number} grams - Portion weight
+ * @param {number} carbs - Carbohydrate in g
+ * @param {number} fiber - Fiber in g
+ * @return {MealItem} Item
+ */
+function item(of: IndianFood, grams: number, carbs: number, fiber: number): MealItem {
+  return {foodId: of.id, name: of.name, grams, nutrition: {carbs, fiber}} as MealItem;
+}
+
+const rice = food({
+  id: "basmati_rice", name: "Basmati Rice", category: "rice", glycemicIndex: 70,
+  commonCombinations: ["Dal Tadka"], nutrition: {carbs: 28, fiber: 0.4} as never,
+});
+// No curated GI: the dal category's 35 applies
+const dal = food({id: "dal_tadka", name: "Dal Tadka", category: "dal"});
+const paneer = food({id: "paneer_tikka", category: "snack"});
+const brownRice = food({
+  id: "brown_rice", name: "Brown Rice", category: "rice", glycemicIndex: 50,
+  nutrition: {carbs: 23, fiber: 1.8} as never,
+});
+const jeeraRice = food({
+  id: "jeera_rice", category: "rice", glycemicIndex: 68,
+  nutrition: {carbs: 28, fiber: 0.4} as never,
+});
+const moongDal = food({
+  id: "moong_dal", category: "dal", glycemicIndex: 30,
+  nutrition: {carbs: 5, fiber: 2} as never,
+});
+
+describe("mealGlycemicLoad", () => {
+  it("uses available carbs and the curated or category GI", () => {
+    const meal = mealGlycemicLoad([{item: item(rice, 175, 50, 1), food: rice}]);
+
+    expect(meal).toMatchObject({glycemicIndex: 70, glycemicLoad: 34.3, availableCarbs: 49});
+  });
+
+  it("lowers the GI of a starch eaten with a partner it lists", () => {
+    const meal = mealGlycemicLoad([
+      {item: item(rice, 175, 50, 1), food: rice},
+      {item: item(dal, 150, 20, 6), food: dal},
+    ]);
+
+    expect(meal.items.map(({foodId, glycemicIndex, glycemicLoad}) =>
+      ({foodId, glycemicIndex, glycemicLoad}))).toEqual([
+      {foodId: "basmati_rice", glycemicIndex: 63, glycemicLoad: 30.87},
+      {foodId: "dal_tadka", glycemicIndex: 35, glycemicLoad: 4.9},
+    ]);
+    expect(meal).toMatchObject({glycemicIndex: 57, glycemicLoad: 35.77, availableCarbs: 63});
+  });
+
+  it("leaves the GI alone when neither food lists the other", () => {
+    const meal = mealGlycemicLoad([
+      {item: item(jeeraRice, 175, 50, 1), food: jeeraRice},
+      {item: item(dal, 150, 20, 6), food: dal},
+    ]);
+
+    expect(meal.items[0].glycemicIndex).toBe(68);
+  });
+
+  it("has no GI and no load without available carbs", () => {
+    const meal = mealGlycemicLoad([{item: item(paneer, 120, 2, 3), food: paneer}]);
+
+    expect(meal).toMatchObject({glycemicIndex: null, glycemicLoad: 0, availableCarbs: 0});
+  });
+});
+
+describe("lowerGlycemicSwap", () => {
+  const foods = new Map([rice, dal].map((entry) => [entry.id, entry]));
+  const {items} = mealGlycemicLoad([
+    {item: item(rice, 175, 50, 1), food: rice},
+    {item: item(dal, 150, 20, 6), food: dal},
+  ]);
+
+  it("swaps the biggest contributor for a lower-load food of its category", () => {
+    expect(lowerGlycemicSwap(items, [jeeraRice, brownRice, moongDal], foods)).toEqual({
+      replace: {foodId: "basmati_rice", name: "Basmati Rice", glycemicLoad: 30.87},
+      with: {foodId: "brown_rice", name: "Brown Rice", glycemicLoad: 18.55},
+      mealGlycemicLoad: 23.45,
+    });
+  });
+
+  it("suggests nothing when no swap saves enough", () => {
+    expect(lowerGlycemicSwap(items, [jeeraRice], foods)).toBeNull();
+    expect(lowerGlycemicSwap(items, [], foods)).toBeNull();
+  });
+});
+
+describe("checkGlycemicDay", () => {
+  const summary = {
+    totalGlycemicLoad: 130.456,
+    glycemicLoadByMeal: {breakfast: 10, lunch: 25, dinner: 15},
+    carbsByMeal: {breakfast: 30, dinner: 70},
+  };
+
+  it("flags the day and each meal over the user's limits", () => {
+    expect(checkGlycemicDay(summary, {glycemicLoad: 100, mealGlycemicLoad: 20, carbsPerMeal: 60}))
+      .toEqual({
+        glycemicLoad: 130.46,
+        level: "high",
+        limit: 100,
+        overLimit: true,
+        mealsOverLimit: ["dinner", "lunch"],
+      });
+  });
+
+  it("only bands the day for users without limits", () => {
+    expect(checkGlycemicDay({totalGlycemicLoad: 90})).toEqual({
+      glycemicLoad: 90,
+      level: "medium",
+      limit: null,
+      overLimit: false,
+      mealsOverLimit: [],
+    });
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Shared helpers for the emulator test suites
+ * Import this before any module under src so firebase-functions-test is
+ * set up first.
+ */
+
+import functionsTest from "firebase-functions-test";
+import type {DecodedIdToken} from "firebase-admin/auth";
+import type {CallableRequest} from "firebase-functions/v2/https";
+import type {Request} from "firebase-functions/v2/tasks";
+import {PROJECT_ID} from "./setup";
+
+export const testEnv = functionsTest({projectId: PROJECT_ID});
+
+/**
+ * A callable request as the client SDK would send it
+ * @param {T} data - Request data
+ * @param {object} auth - Caller; omitted for an unauthenticated call
+ * @return {CallableRequest<T>} Request for a wrapped callable
+ */
+export function callableRequest<T>(
+  data: T,
+  auth?: {uid: string; admin?: boolean}
+): CallableRequest<T> {
+  return {
+    data,
+    auth: auth ? {
+      uid: auth.uid,
+      token: {uid: auth.uid, admin: auth.admin === true} as unknown as DecodedIdToken,
+      rawToken: "test-token",
+    } : undefined,
+    rawRequest: {} as CallableRequest<T>["rawRequest"],
+    acceptsStreaming: false,
+  };
+}
+
+/**
+ * A task queue request as Cloud Tasks would dispatch it
+ * @param {T} data - Task payload
+ * @return {Request<T>} Request for a task queue function's run()
+ */
+export function taskRequest<T>(data: T): Request<T> {
+  return {
+    data,
+    queueName: "test-queue",
+    id: "test-task",
+    retryCount: 0,
+    executionCount: 0,
+    scheduledTime: new Date().toISOString(),
+  };
+}
+
+/**
+ * Delete every document in the Firestore emulator
+ */
+export async function clearFirestore(): Promise<void> {
+  const url = `http://${process.env.FIRESTORE_EMULATOR_HOST}/emulator/v1/projects/` +
+    `${PROJECT_ID}/databases/(default)/documents`;
+  const response = await fetch(url, {method: "DELETE"});
+  if (!response.ok) {
+    throw new Error(`Could not clear the Firestore emulator: ${response.status}`);
+  }
+}
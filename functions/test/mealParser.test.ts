@@ -0,0 +1,70 @@
+import {buildFoodIndex, parseMealText} from "../src/mealParser";
+import {bundledFoods} from "./dataset";
+
+const index = buildFoodIndex(bundledFoods());
+
+/**
+ * Items reduced to what a logMeal call needs
+ * @param {string} text - Transcript
+ * @return {object} Parsed items and unresolved phrases
+ */
+function parse(text: string) {
+  const parsed = parseMealText(text, index);
+  return {
+    ...parsed,
+    items: parsed.items.map(({foodId, quantity, portionUnit}) =>
+      ({foodId, quantity, portionUnit})),
+  };
+}
+
+describe("parseMealText", () => {
+  it("parses a Hinglish transcript with units and a cooking hint", () => {
+    const parsed = parseMealText("do roti aur ek katori dal tadka, thoda kam oil", index);
+
+    expect(parsed.unresolved).toEqual([]);
+    expect(parsed.items.map(({foodId, quantity, portionUnit, cookingHints}) =>
+      ({foodId, quantity, portionUnit, cookingHints}))).toEqual([
+      {foodId: "whole_wheat_roti", quantity: 2, portionUnit: "roti", cookingHints: []},
+      {foodId: "dal_tadka", quantity: 1, portionUnit: "katori", cookingHints: ["less_oil"]},
+    ]);
+  });
+
+  it("parses the same meal spoken in Devanagari", () => {
+    expect(parse("दो रोटी और एक कटोरी दाल")).toEqual({
+      items: [
+        {foodId: "whole_wheat_roti", quantity: 2, portionUnit: "roti"},
+        {foodId: "dal_tadka", quantity: 1, portionUnit: "katori"},
+      ],
+      unresolved: [],
+    });
+  });
+
+  it("matches Devanagari dish words without a Hindi name in the dataset", () => {
+    expect(parse("राजमा चावल और एक गिलास लस्सी").items).toEqual([
+      {foodId: "rajma", quantity: 1, portionUnit: "portion"},
+      {foodId: "basmati_rice", quantity: 1, portionUnit: "portion"},
+      {foodId: "sweet_lassi", quantity: 1, portionUnit: "glass"},
+    ]);
+  });
+
+  it("detects the meal type and applies a trailing amount", () => {
+    const parsed = parse("nashta mein poha do plate");
+
+    expect(parsed.mealType).toBe("breakfast");
+    expect(parsed.items).toEqual([{foodId: "poha", quantity: 2, portionUnit: "portion"}]);
+  });
+
+  it("tolerates transliteration variants", () => {
+    expect(parse("rajmaa chaawal").items.map((item) => item.foodId))
+      .toEqual(["rajma", "basmati_rice"]);
+  });
+
+  it("reports words it cannot match", () => {
+    expect(parse("do roti aur zzqxv").unresolved).toEqual(["zzqxv"]);
+  });
+
+  it("gives the same result for the same transcript", () => {
+    const text = "ek katori dal, 2 roti aur thoda chawal";
+    expect(parseMealText(text, bundledFoods())).toEqual(parseMealText(text, index));
+  });
+});
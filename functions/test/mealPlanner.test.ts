@@ -0,0 +1,42 @@
+import {
+  GeneratedMealPlan,
+  generateWeeklyPlan,
+  MealPlanOptions,
+  PLAN_DAYS,
+} from "../src/mealPlanner";
+import {bundledFoods} from "./dataset";
+
+const OPTIONS: MealPlanOptions = {
+  seed: 42,
+  dailyCalories: 2000,
+  dailyProtein: 60,
+  preferredRegion: "North Indian",
+  maxRepeats: 2,
+};
+
+/**
+ * Food ids of a plan, one list per day
+ * @param {GeneratedMealPlan} plan - Generated plan
+ * @return {Array<Array<string>>} Ids in slot order
+ */
+function planIds(plan: GeneratedMealPlan): string[][] {
+  return PLAN_DAYS.map((day) =>
+    plan.days[day].flatMap((meal) => meal.items.map((item) => item.foodId)));
+}
+
+describe("generateWeeklyPlan", () => {
+  const foods = bundledFoods();
+
+  it("gives the same plan for the same seed and catalog", () => {
+    const plan = generateWeeklyPlan(foods, OPTIONS);
+
+    expect(generateWeeklyPlan(foods, OPTIONS)).toEqual(plan);
+    // Catalog order is not part of the input
+    expect(generateWeeklyPlan([...foods].reverse(), OPTIONS)).toEqual(plan);
+  });
+
+  it("varies the plan with the seed", () => {
+    expect(planIds(generateWeeklyPlan(foods, {...OPTIONS, seed: 7})))
+      .not.toEqual(planIds(generateWeeklyPlan(foods, OPTIONS)));
+  });
+});
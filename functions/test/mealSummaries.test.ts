@@ -0,0 +1,87 @@
+import {clearFirestore, testEnv} from "./helpers";
+import {FIXTURE_USERS, seedFoods, seedMeal, seedUser} from "./fixtures";
+import * as admin from "firebase-admin";
+import {onMealLogged} from "../src/index";
+import {localDateKey} from "../src/timezone";
+
+const db = admin.firestore();
+const mealLogged = testEnv.wrap(onMealLogged);
+const userId = FIXTURE_USERS.diabetic.uid;
+const userRef = db.collection("users").doc(userId);
+
+describe("onMealLogged", () => {
+  const eatenAt = new Date();
+  const day = localDateKey(eatenAt, "Asia/Kolkata");
+
+  beforeAll(async () => {
+    await clearFirestore();
+    await seedFoods();
+    await seedUser("diabetic");
+  });
+  afterAll(() => testEnv.cleanup());
+
+  it("adds a high glycemic load meal to the day and sends swap feedback", async () => {
+    const {response, meal} = await seedMeal(userId, [
+      {foodId: "basmati_rice", portionUnit: "g", quantity: 300},
+      {foodId: "dal_tadka", portionUnit: "g", quantity: 150},
+    ], "lunch", eatenAt);
+    await mealLogged({
+      id: "meal-event-1",
+      data: meal,
+      params: {userId, mealId: response.mealId},
+    });
+
+    const summary = (await userRef.collection("dailySummaries").doc(day).get()).data();
+    expect(summary).toMatchObject({
+      mealCount: 1,
+      totalCalories: meal.totalCalories,
+      totalGlycemicLoad: response.glycemicLoad,
+      glycemicLoadByMeal: {lunch: response.glycemicLoad},
+      targets: {limits: {mealGlycemicLoad: 20, glycemicLoad: 100}},
+    });
+    expect(summary?.minerals.iron).toBeGreaterThan(0);
+
+    const feedback = await userRef.collection("notifications")
+      .doc(`glycemic_feedback_${response.mealId}`).get();
+    expect(feedback.data()).toMatchObject({
+      type: "glycemic_feedback",
+      read: false,
+      data: {mealId: response.mealId, limit: 20, swap: {replace: {foodId: "basmati_rice"}}},
+    });
+
+    const analytics = (await db.collection("analytics").doc(userId).get()).data();
+    expect(analytics?.totalMealsLogged).toBe(1);
+  });
+
+  it("applies a redelivered event only once", async () => {
+    const before = (await userRef.collection("dailySummaries").doc(day).get()).data();
+    const mealId = (await userRef.collection("meals").limit(1).get()).docs[0].id;
+    const meal = (await userRef.collection("meals").doc(mealId).get()).data();
+
+    await mealLogged({id: "meal-event-1", data: meal, params: {userId, mealId}});
+
+    const after = (await userRef.collection("dailySummaries").doc(day).get()).data();
+    expect(after?.mealCount).toBe(before?.mealCount);
+    expect(after?.totalCalories).toBe(before?.totalCalories);
+    const analytics = (await db.collection("analytics").doc(userId).get()).data();
+    expect(analytics?.totalMealsLogged).toBe(1);
+  });
+
+  it("sends no feedback for a meal under the limit", async () => {
+    const {response, meal} = await seedMeal(userId, [
+      {foodId: "sprouts_chaat", portionUnit: "g", quantity: 100},
+    ], "snack", eatenAt);
+    await mealLogged({
+      id: "meal-event-2",
+      data: meal,
+      params: {userId, mealId: response.mealId},
+    });
+
+    const summary = (await userRef.collection("dailySummaries").doc(day).get()).data();
+    expect(summary?.mealCount).toBe(2);
+    expect(summary?.glycemicLoadByMeal.snack).toBe(response.glycemicLoad);
+    const feedback = await userRef.collection("notifications")
+      .doc(`glycemic_feedback_${response.mealId}`).get();
+    expect(feedback.exists).toBe(false);
+  });
+});
@@ -0,0 +1,169 @@
+import {clearFirestore, taskRequest, testEnv} from "./helpers";
+import * as admin from "firebase-admin";
+import type {BatchResponse, MulticastMessage} from "firebase-admin/messaging";
+import {deliverNotification, onNotificationCreated} from "../src/index";
+import {setMessagingClient} from "../src/notifications";
+
+// Quiet-hours deliveries are enqueued on Cloud Tasks, which has no emulator here
+const mockEnqueue = jest.fn();
+jest.mock("firebase-admin/functions", () => ({
+  getFunctions: () => ({taskQueue: () => ({enqueue: mockEnqueue})}),
+}));
+
+const db = admin.firestore();
+const notificationCreated = testEnv.wrap(onNotificationCreated);
+
+// Stub FCM: tokens listed here fail with the given error code
+const sent: MulticastMessage[] = [];
+const failingTokens: Record<string, string> = {
+  "token-stale": "messaging/registration-token-not-registered",
+  "token-flaky": "messaging/internal-error",
+};
+setMessagingClient({
+  sendEachForMulticast: async (message) => {
+    sent.push(message);
+    const responses = message.tokens.map((token) => failingTokens[token] ?
+      {success: false, error: {code: failingTokens[token]}} :
+      {success: true, messageId: `message-${token}`});
+    const successCount = responses.filter((result) => result.success).length;
+    return {
+      responses,
+      successCount,
+      failureCount: responses.length - successCount,
+    } as BatchResponse;
+  },
+});
+
+/**
+ * HH:MM in UTC, some minutes from now
+ * @param {number} offsetMinutes - Minutes to add
+ * @return {string} Time of day
+ */
+function utcTime(offsetMinutes: number): string {
+  return new Date(Date.now() + offsetMinutes * 60 * 1000).toISOString().slice(11, 16);
+}
+
+/**
+ * Seed a user with devices and preferences, then create a notification and
+ * run the trigger for it
+ * @param {string} userId - User id
+ * @param {string[]} tokens - Registered FCM tokens
+ * @param {Record<string, unknown>} preferences - notificationPreferences
+ * @return {Promise<admin.firestore.DocumentReference>} The notification
+ */
+async function notify(
+  userId: string,
+  tokens: string[],
+  preferences: Record<string, unknown> = {quietHours: null}
+): Promise<admin.firestore.DocumentReference> {
+  const userRef = db.collection("users").doc(userId);
+  await userRef.set({
+    timezone: "UTC",
+    preferredLanguage: "english",
+    notificationPreferences: preferences,
+  });
+  await Promise.all(tokens.map((token) =>
+    userRef.collection("deviceTokens").doc(token).set({token, platform: "android"})));
+
+  const notification = {
+    type: "general",
+    title: "Hello",
+    message: "Time to log lunch",
+    read: false,
+  };
+  const ref = userRef.collection("notifications").doc("n1");
+  await ref.set(notification);
+  await notificationCreated({data: notification, params: {userId, notificationId: ref.id}});
+  return ref;
+}
+
+describe("notification delivery", () => {
+  beforeAll(clearFirestore);
+  beforeEach(() => {
+    sent.length = 0;
+    mockEnqueue.mockReset();
+  });
+  afterAll(() => testEnv.cleanup());
+
+  it("pushes to every device and marks the notification sent", async () => {
+    const ref = await notify("user_sent", ["token-a", "token-b"]);
+
+    expect(sent).toHaveLength(1);
+    expect(sent[0]).toMatchObject({
+      tokens: ["token-a", "token-b"],
+      notification: {title: "Hello", body: "Time to log lunch"},
+      data: {notificationId: "n1", type: "general"},
+    });
+    expect((await ref.get()).data()?.delivery).toMatchObject({
+      status: "sent",
+      successCount: 2,
+      failureCount: 0,
+      prunedTokens: 0,
+    });
+  });
+
+  it("prunes tokens FCM will never accept and keeps the rest", async () => {
+    const ref = await notify("user_partial", ["token-a", "token-stale", "token-flaky"]);
+
+    expect((await ref.get()).data()?.delivery).toMatchObject({
+      status: "partial",
+      successCount: 1,
+      failureCount: 2,
+      prunedTokens: 1,
+    });
+    const devices = await db.collection("users").doc("user_partial")
+      .collection("deviceTokens").get();
+    expect(devices.docs.map((doc) => doc.id).sort()).toEqual(["token-a", "token-flaky"]);
+  });
+
+  it("marks the notification failed when no device accepts it", async () => {
+    const ref = await notify("user_failed", ["token-stale"]);
+
+    expect((await ref.get()).data()?.delivery)
+      .toMatchObject({status: "failed", successCount: 0, prunedTokens: 1});
+  });
+
+  it("skips types the user turned off and users without devices", async () => {
+    const disabled = await notify("user_disabled", ["token-a"],
+      {quietHours: null, types: {general: false}});
+    const noDevices = await notify("user_no_devices", []);
+
+    expect(sent).toHaveLength(0);
+    expect((await disabled.get()).data()?.delivery)
+      .toMatchObject({status: "skipped", reason: "disabled_by_user"});
+    expect((await noDevices.get()).data()?.delivery)
+      .toMatchObject({status: "skipped", reason: "no_devices"});
+  });
+
+  it("holds a notification during quiet hours and pushes it from the task", async () => {
+    const userId = "user_quiet";
+    const ref = await notify(userId, ["token-a"],
+      {quietHours: {start: utcTime(-60), end: utcTime(60)}});
+
+    expect(sent).toHaveLength(0);
+    expect((await ref.get()).data()?.delivery)
+      .toMatchObject({status: "scheduled", reason: "quiet_hours"});
+    expect(mockEnqueue).toHaveBeenCalledWith({userId, notificationId: "n1"},
+      expect.objectContaining({scheduleTime: expect.any(Date)}));
+
+    // Quiet hours are over when the task runs
+    await db.collection("users").doc(userId)
+      .update({"notificationPreferences.quietHours": null});
+    await deliverNotification.run(taskRequest({userId, notificationId: "n1"}));
+
+    expect(sent).toHaveLength(1);
+    expect((await ref.get()).data()?.delivery).toMatchObject({status: "sent"});
+  });
+
+  it("does not push a notification twice", async () => {
+    const ref = await notify("user_duplicate", ["token-a"]);
+    await notificationCreated({
+      data: (await ref.get()).data(),
+      params: {userId: "user_duplicate", notificationId: ref.id},
+    });
+    await deliverNotification.run(
+      taskRequest({userId: "user_duplicate", notificationId: ref.id}));
+
+    expect(sent).toHaveLength(1);
+  });
+});
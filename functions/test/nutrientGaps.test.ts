@@ -0,0 +1,125 @@
+import {
+  analyzeNutrientGaps,
+  NutrientGap,
+  nutrientDenseFoods,
+  worstGap,
+} from "../src/nutrientGaps";
+import {IndianFood} from "../src/types";
+
+const TARGETS = {fiber: 30, vitamins: {C: 80}, minerals: {iron: 20}};
+const LAST_DAY = "2024-03-31";
+
+// Enough fiber and vitamin C, 30% of the iron RDA
+const LOW_IRON_DAY = {mealCount: 2, totalFiber: 30, vitamins: {C: 100}, minerals: {iron: 6}};
+
+const summaries = new Map<string, Record<string, unknown>>([
+  ["2024-03-31", LOW_IRON_DAY],
+  ["2024-03-30", LOW_IRON_DAY],
+  ["2024-03-29", LOW_IRON_DAY],
+  // Nothing on the 28th; the 27th has a summary but no meals
+  ["2024-03-27", {...LOW_IRON_DAY, mealCount: 0, minerals: {iron: 50}}],
+  ["2024-03-26", LOW_IRON_DAY],
+  ["2024-03-25", LOW_IRON_DAY],
+  ["2024-03-24", LOW_IRON_DAY],
+  ["2024-03-23", LOW_IRON_DAY],
+  ["2024-03-22", LOW_IRON_DAY],
+  ["2024-03-21", {...LOW_IRON_DAY, minerals: {iron: 15}}],
+  // Summarized before micronutrients were recorded
+  ["2024-03-20", {mealCount: 3, totalCalories: 1900}],
+]);
+
+describe("analyzeNutrientGaps", () => {
+  const gaps = analyzeNutrientGaps(summaries, LAST_DAY, TARGETS);
+  const gap = (nutrient: string) => gaps.find((entry) => entry.nutrient === nutrient);
+
+  it("tracks fiber and every nutrient with an RDA", () => {
+    expect(gaps.map(({nutrient, group, unit}) => ({nutrient, group, unit}))).toEqual([
+      {nutrient: "fiber", group: "fiber", unit: "g"},
+      {nutrient: "C", group: "vitamins", unit: "mg"},
+      {nutrient: "iron", group: "minerals", unit: "mg"},
+    ]);
+  });
+
+  it("averages each window over logged days only", () => {
+    expect(gap("iron")?.windows).toEqual({
+      "7d": {days: 7, daysLogged: 5, average: 6, percent: 30},
+      "30d": {days: 30, daysLogged: 9, average: 7, percent: 35},
+    });
+    expect(gap("iron")?.status).toBe("deficient");
+    expect(gap("C")).toMatchObject({status: "ok", lowStreak: 0});
+  });
+
+  it("counts a low streak across days without logs", () => {
+    expect(gap("iron")?.lowStreak).toBe(8);
+  });
+
+  it("has no average until enough days are logged", () => {
+    const sparse = new Map([["2024-03-31", LOW_IRON_DAY], ["2024-03-25", LOW_IRON_DAY]]);
+    const iron = analyzeNutrientGaps(sparse, LAST_DAY, TARGETS)[2];
+
+    expect(iron.windows["7d"]).toEqual({days: 7, daysLogged: 2, average: null, percent: null});
+    expect(iron).toMatchObject({status: "unknown", lowStreak: 2});
+  });
+});
+
+describe("worstGap", () => {
+  /**
+   * A gap with only the fields worstGap reads
+   * @param {string} nutrient - Nutrient key
+   * @param {number} lowStreak - Days low in a row
+   * @param {number} percent - 7-day share of the RDA
+   * @return {NutrientGap} Gap
+   */
+  function gapOf(nutrient: string, lowStreak: number, percent: number): NutrientGap {
+    return {nutrient, lowStreak, windows: {"7d": {percent}}} as unknown as NutrientGap;
+  }
+
+  it("picks the longest streak, then the lowest share", () => {
+    expect(worstGap([gapOf("C", 8, 30), gapOf("iron", 9, 40)])?.nutrient).toBe("iron");
+    expect(worstGap([gapOf("C", 8, 30), gapOf("iron", 8, 20)])?.nutrient).toBe("iron");
+  });
+
+  it("ignores short streaks and nutrients already alerted on", () => {
+    expect(worstGap([gapOf("C", 6, 10)])).toBeNull();
+    expect(worstGap([gapOf("iron", 8, 20)], new Set(["iron"]))).toBeNull();
+  });
+});
+
+describe("nutrientDenseFoods", () => {
+  /**
+   * A food with calories, iron and fiber per 100g
+   * @param {string} id - Food id
+   * @param {number} calories - kcal per 100g
+   * @param {number} iron - mg per 100g
+   * @param {number} gramsPerPortion - Standard portion
+   * @return {IndianFood} Food
+   */
+  function food(id: string, calories: number, iron: number, gramsPerPortion: number): IndianFood {
+    return {
+      id,
+      name: id,
+      nutrition: {calories, fiber: 2, minerals: {iron}},
+      portionSizes: {gramsPerPortion},
+    } as unknown as IndianFood;
+  }
+  const foods = [
+    food("rajma", 140, 3, 200),
+    food("rice", 130, 0.2, 150),
+    food("palak", 23, 2.7, 100),
+    food("water", 0, 1, 250),
+  ];
+  const iron = {group: "minerals" as const, nutrient: "iron", rda: 20};
+
+  it("ranks by amount per calorie and drops portions too small to help", () => {
+    expect(nutrientDenseFoods(foods, iron)).toEqual([
+      {foodId: "palak", name: "palak", amountPerPortion: 2.7, percentOfRda: 14},
+      {foodId: "rajma", name: "rajma", amountPerPortion: 6, percentOfRda: 30},
+    ]);
+    expect(nutrientDenseFoods(foods, iron, 1)).toHaveLength(1);
+  });
+
+  it("reads fiber from the food's nutrition", () => {
+    expect(nutrientDenseFoods(foods, {group: "fiber", nutrient: "fiber", rda: 30})
+      .map((entry) => entry.foodId)).toEqual(["rice", "rajma"]);
+  });
+});
@@ -0,0 +1,52 @@
+import {activityFactor, computeNutritionTargets} from "../src/nutritionTargets";
+
+describe("activityFactor", () => {
+  it.each([
+    ["Sedentary (little/no exercise)", 1.2],
+    ["Light (light exercise 1-3 days/week)", 1.375],
+    ["lightly_active", 1.375],
+    ["Moderate (moderate exercise 3-5 days/week)", 1.55],
+    ["moderately_active", 1.55],
+    ["Active (hard exercise 6-7 days/week)", 1.725],
+    ["Very Active (very hard exercise, physical job)", 1.9],
+    ["very_active", 1.9],
+    ["extra active", 1.9],
+  ])("maps %s to %d", (label, factor) => {
+    expect(activityFactor(label)).toBe(factor);
+  });
+
+  it("uses the sedentary factor for missing or unknown labels", () => {
+    expect(activityFactor(undefined)).toBe(1.2);
+    expect(activityFactor("couch potato")).toBe(1.2);
+  });
+});
+
+describe("computeNutritionTargets", () => {
+  it("takes 500 kcal off maintenance for weight loss", () => {
+    const targets = computeNutritionTargets({
+      uid: "u1", age: 30, gender: "male", height: 180, weight: 85,
+      activityLevel: "moderate", healthGoals: ["weight loss"],
+    });
+
+    expect(targets.calories).toBe(Math.round((targets.tdee as number) - 500));
+  });
+
+  it("never sets a weight-loss target above maintenance", () => {
+    const targets = computeNutritionTargets({
+      uid: "u2", age: 70, gender: "female", height: 145, weight: 40,
+      activityLevel: "sedentary", healthGoals: ["weight loss"],
+    });
+
+    expect(targets.tdee).toBeLessThan(1200);
+    expect(targets.calories).toBe(targets.tdee);
+  });
+
+  it("adds glycemic limits for diabetes only", () => {
+    const profile = {uid: "u3", age: 55, gender: "male", height: 170, weight: 75};
+    const diabetic = computeNutritionTargets({...profile, medicalConditions: ["Diabetes"]});
+    const healthy = computeNutritionTargets(profile);
+
+    expect(diabetic.limits).toMatchObject({mealGlycemicLoad: 20, glycemicLoad: 100});
+    expect(healthy.limits.glycemicLoad).toBeUndefined();
+  });
+});
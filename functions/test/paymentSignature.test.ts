@@ -0,0 +1,39 @@
+import {
+  SIGNATURE_TOLERANCE_SECONDS,
+  signPayload,
+  verifySignature,
+} from "../src/paymentSignature";
+
+const SECRET = "whsec_test";
+const NOW = 1_700_000_000;
+const body = JSON.stringify({id: "evt_1", type: "subscription.activated"});
+
+describe("payment webhook signatures", () => {
+  it("accepts a payload signed with the shared secret", () => {
+    expect(verifySignature(body, signPayload(body, SECRET, NOW), SECRET, NOW)).toBe(true);
+  });
+
+  it("rejects a tampered body or the wrong secret", () => {
+    const header = signPayload(body, SECRET, NOW);
+
+    expect(verifySignature(body.replace("evt_1", "evt_2"), header, SECRET, NOW)).toBe(false);
+    expect(verifySignature(body, header, "whsec_other", NOW)).toBe(false);
+  });
+
+  it("rejects signatures outside the replay window", () => {
+    const header = signPayload(body, SECRET, NOW);
+
+    expect(verifySignature(body, header, SECRET, NOW + SIGNATURE_TOLERANCE_SECONDS)).toBe(true);
+    expect(verifySignature(body, header, SECRET, NOW + SIGNATURE_TOLERANCE_SECONDS + 1))
+      .toBe(false);
+    expect(verifySignature(body, header, SECRET, NOW - SIGNATURE_TOLERANCE_SECONDS - 1))
+      .toBe(false);
+  });
+
+  it("rejects missing or malformed headers", () => {
+    expect(verifySignature(body, undefined, SECRET, NOW)).toBe(false);
+    expect(verifySignature(body, "v1=abc", SECRET, NOW)).toBe(false);
+    expect(verifySignature(body, `t=${NOW},v1=zz`, SECRET, NOW)).toBe(false);
+    expect(verifySignature(body, signPayload(body, "", NOW), "", NOW)).toBe(false);
+  });
+});
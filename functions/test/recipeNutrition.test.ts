@@ -0,0 +1,104 @@
+import {
+  buildIngredientIndex,
+  calculateRecipe,
+  findIngredient,
+  parseIngredientTable,
+} from "../src/recipeNutrition";
+
+const HEADER = "id,name,aliases,energy_kcal,protein_g,carbs_g,fat_g,fiber_g," +
+  "vitamin_c_mg,iron_mg,cooked_yield";
+const TABLE = [
+  HEADER,
+  "toor_dal,Toor Dal (raw),arhar dal|tuvar dal,340,22,60,1.5,15,,5,2.5",
+  "spinach,Spinach,palak,23,2.9,3.6,0.4,2.2,28,2.7,0.3",
+  "ghee,Ghee,,900,0,0,100,0,,,",
+].join("\n");
+
+const [dal, spinach, ghee] = parseIngredientTable(TABLE);
+
+describe("parseIngredientTable", () => {
+  it("reads nutrition per 100g raw, aliases and the cooked yield", () => {
+    expect(dal).toEqual({
+      id: "toor_dal",
+      name: "Toor Dal (raw)",
+      aliases: ["arhar dal", "tuvar dal"],
+      nutrition: {calories: 340, protein: 22, carbs: 60, fat: 1.5, fiber: 15,
+        vitamins: {}, minerals: {iron: 5}},
+      cookedYield: 2.5,
+    });
+    expect(ghee.cookedYield).toBe(1);
+  });
+
+  it.each([
+    ["a duplicate id", "toor_dal,Again,,1,1,1,1,0,,,", "row 4 (toor_dal): duplicate id"],
+    ["a yield out of range", "oats,Oats,,1,1,1,1,0,,,9", "cooked_yield must be between 0 and 5"],
+    ["a missing name", "oats,,,1,1,1,1,0,,,", "id and name are required"],
+    ["bad nutrition", "oats,Oats,,x,1,1,1,0,,,", "nutrition.calories must be a number"],
+  ])("fails the whole table on %s", (_, row, message) => {
+    expect(() => parseIngredientTable(`${TABLE}\n${row}`)).toThrow(message);
+  });
+
+  it("finds ingredients by id, name without its note, alias or spelling variant", () => {
+    const index = buildIngredientIndex([dal, spinach, ghee]);
+
+    expect(["TOOR_DAL", "Toor Dal", "toor dhal", "arhar dal"]
+      .map((name) => findIngredient(index, name)?.id)).toEqual(Array(4).fill("toor_dal"));
+    expect(findIngredient(index, "Palak")?.id).toBe("spinach");
+    expect(findIngredient(index, "rajma")).toBeNull();
+  });
+});
+
+describe("calculateRecipe", () => {
+  it("applies yields, moisture loss and vitamin retention, then divides", () => {
+    const recipe = calculateRecipe({
+      lines: [{ingredient: dal, grams: 200}, {ingredient: spinach, grams: 100}],
+      oil: {ingredient: ghee, grams: 10},
+      cookingMethod: "tadka",
+      servings: 4,
+    });
+
+    // (200 × 2.5 + 100 × 0.3) × 0.95 moisture + 10g oil
+    expect(recipe).toMatchObject({rawWeightGrams: 310, cookedWeightGrams: 513.5,
+      servingGrams: 128.38});
+    // 60% of spinach's vitamin C survives a tadka; iron is not lost
+    expect(recipe.total).toMatchObject({calories: 793, fat: 13.4,
+      vitamins: {C: 16.8}, minerals: {iron: 12.7}});
+    expect(recipe.perServing).toMatchObject({calories: 198.25, vitamins: {C: 4.2}});
+    expect(recipe.per100g).toMatchObject({calories: 154.43, protein: 9.13});
+  });
+
+  it("counts only the oil a deep-fried dish soaks up", () => {
+    const recipe = calculateRecipe({
+      lines: [{ingredient: spinach, grams: 200}],
+      oil: {ingredient: ghee, grams: 100},
+      cookingMethod: "deep fried",
+      servings: 2,
+    });
+
+    expect(recipe).toMatchObject({rawWeightGrams: 220, cookedWeightGrams: 65});
+    expect(recipe.total).toMatchObject({calories: 226, fat: 20.8});
+  });
+
+  it("uses the weighed cooked weight when given", () => {
+    const recipe = calculateRecipe({
+      lines: [{ingredient: dal, grams: 200}],
+      oil: null,
+      cookingMethod: "pressure cooked",
+      servings: 2,
+      cookedWeightGrams: 600,
+    });
+
+    expect(recipe).toMatchObject({cookedWeightGrams: 600, servingGrams: 300});
+    expect(recipe.perServing.calories).toBe(340);
+    expect(recipe.per100g.calories).toBe(113.33);
+  });
+
+  it("rejects unknown methods and recipes that weigh nothing", () => {
+    const lines = [{ingredient: dal, grams: 200}];
+
+    expect(() => calculateRecipe({lines, oil: null, cookingMethod: "microwaved", servings: 1}))
+      .toThrow("Unknown cooking method \"microwaved\"");
+    expect(() => calculateRecipe({lines, oil: null, cookingMethod: "raw", servings: 1,
+      cookedWeightGrams: 0})).toThrow("Cooked weight must be greater than 0");
+  });
+});
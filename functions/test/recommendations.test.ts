@@ -0,0 +1,59 @@
+import {callableRequest, clearFirestore, testEnv} from "./helpers";
+import {FIXTURE_USERS, seedFoods, seedUser} from "./fixtures";
+import * as admin from "firebase-admin";
+import {generateRecommendations} from "../src/index";
+
+const db = admin.firestore();
+const recommend = testEnv.wrap(generateRecommendations);
+
+describe("generateRecommendations", () => {
+  beforeAll(async () => {
+    await clearFirestore();
+    await seedFoods();
+    await Promise.all([seedUser("vegetarian"), seedUser("athlete")]);
+  });
+  afterAll(() => testEnv.cleanup());
+
+  it("rejects unauthenticated calls", async () => {
+    await expect(recommend(callableRequest({foodQuery: ""})))
+      .rejects.toMatchObject({code: "unauthenticated"});
+  });
+
+  it("rejects users without a profile", async () => {
+    await expect(recommend(callableRequest({foodQuery: ""}, {uid: "user_missing"})))
+      .rejects.toMatchObject({code: "not-found"});
+  });
+
+  it("excludes meat for vegetarians and says why", async () => {
+    const userId = FIXTURE_USERS.vegetarian.uid;
+    const result = await recommend(callableRequest({foodQuery: ""}, {uid: userId}));
+
+    const ids = result.recommendations.map((food) => food.id);
+    expect(ids.length).toBeGreaterThan(0);
+    expect(ids).not.toContain("chicken_curry");
+    expect(result.excluded.map((food) => food.foodId)).toContain("chicken_curry");
+    for (const food of result.recommendations) {
+      expect(food.reason).toEqual(expect.any(String));
+      expect(food.scoreBreakdown.length).toBeGreaterThan(0);
+    }
+
+    const analytics = (await db.collection("analytics").doc(userId).get()).data();
+    expect(analytics?.totalRecommendationRequests).toBe(1);
+  });
+
+  it("keeps meat for users without restrictions", async () => {
+    const result = await recommend(
+      callableRequest({foodQuery: ""}, {uid: FIXTURE_USERS.athlete.uid}));
+
+    expect(result.excluded.map((food) => food.foodId)).not.toContain("chicken_curry");
+  });
+
+  it("narrows recommendations to a food query through the search index", async () => {
+    const result = await recommend(
+      callableRequest({foodQuery: "rice"}, {uid: FIXTURE_USERS.athlete.uid}));
+
+    const ids = result.recommendations.map((food) => food.id);
+    expect(ids).toEqual(expect.arrayContaining(["basmati_rice", "brown_rice"]));
+    expect(ids).not.toContain("chicken_curry");
+  });
+});
@@ -0,0 +1,41 @@
+import {rolledUpDay, summarizeMonth} from "../src/retentionPolicy";
+
+describe("month rollup", () => {
+  const day = rolledUpDay({
+    mealCount: 3,
+    totalCalories: 1800.5,
+    totalProtein: 60,
+    carbsByMeal: {lunch: 80},
+    vitamins: {C: 40.25, B12: 1.2},
+    minerals: {iron: 9, sodium: 1500},
+  });
+
+  it("keeps totals, vitamins and minerals of a daily summary", () => {
+    expect(day).toMatchObject({
+      mealCount: 3,
+      totalCalories: 1800.5,
+      totalProtein: 60,
+      totalFiber: 0,
+      vitamins: {C: 40.25, B12: 1.2, A: 0, folate: 0},
+      minerals: {iron: 9, sodium: 1500, calcium: 0},
+    });
+    expect(day.carbsByMeal).toBeUndefined();
+  });
+
+  it("sums micronutrients across days, counting older rollups as zero", () => {
+    const month = summarizeMonth({
+      "2024-01-01": day,
+      "2024-01-02": {...day, vitamins: {C: 20}, minerals: {iron: 11}},
+      // Rolled up before micronutrients were kept
+      "2024-01-03": {mealCount: 0, totalCalories: 0},
+    });
+
+    expect(month).toMatchObject({
+      daysLogged: 2,
+      mealCount: 6,
+      totalCalories: 3601,
+      vitamins: {C: 60.25, B12: 1.2, D: 0},
+      minerals: {iron: 20, sodium: 1500},
+    });
+  });
+});
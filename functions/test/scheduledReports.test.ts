@@ -0,0 +1,130 @@
+import {clearFirestore, taskRequest, testEnv} from "./helpers";
+import {FIXTURE_USERS, seedFoods, seedJobShard, seedMeal, seedUser} from "./fixtures";
+import * as admin from "firebase-admin";
+import {onMealLogged, processJobShard} from "../src/index";
+import {computeNutritionTargets} from "../src/nutritionTargets";
+import {
+  addDays, isoWeekKey, localDateKey, localHour, resolveTimeZone, timeZonesAtLocalHour,
+} from "../src/timezone";
+
+const db = admin.firestore();
+const mealLogged = testEnv.wrap(onMealLogged);
+// The canonical name the dispatcher puts in a shard, as stored on the profile
+const INDIA = resolveTimeZone("Asia/Kolkata");
+
+afterAll(() => testEnv.cleanup());
+
+describe("dailySummary job", () => {
+  const runAt = new Date();
+  const yesterday = addDays(localDateKey(runAt, INDIA), -1);
+  const userId = FIXTURE_USERS.diabetic.uid;
+  const userRef = db.collection("users").doc(userId);
+  let task: {job: string; runId: string; shardId: string};
+
+  beforeAll(async () => {
+    await clearFirestore();
+    await seedFoods();
+    await Promise.all([seedUser("diabetic"), seedUser("athlete")]);
+
+    // Yesterday's lunch, applied to the summary the way the trigger does it
+    const {response, meal} = await seedMeal(userId, [
+      {foodId: "basmati_rice", portionUnit: "g", quantity: 300},
+      {foodId: "rajma", portionUnit: "g", quantity: 150},
+    ], "lunch", new Date(`${yesterday}T13:00:00+05:30`));
+    await mealLogged({id: "job-meal-1", data: meal, params: {userId, mealId: response.mealId}});
+  });
+
+  it("records progress and sends one summary per user in the shard's timezones", async () => {
+    expect(timeZonesAtLocalHour(runAt, localHour(runAt, INDIA))).toContain(INDIA);
+    task = await seedJobShard("dailySummary",
+      {timeZones: [INDIA], runAt: runAt.toISOString()});
+    await processJobShard.run(taskRequest(task));
+
+    const summary = (await userRef.collection("dailySummaries").doc(yesterday).get()).data();
+    expect(summary?.progress.calories).toBeGreaterThan(0);
+    expect(summary?.glycemic).toMatchObject({limit: 100, mealsOverLimit: ["lunch"]});
+
+    const notification = (await userRef.collection("notifications")
+      .doc(`daily_summary_${yesterday}`).get()).data();
+    expect(notification).toMatchObject({type: "daily_summary", read: false});
+    expect(notification?.message).toContain("glycemic load");
+
+    const run = (await db.collection("jobRuns").doc(task.runId).get()).data();
+    expect(run).toMatchObject({status: "completed", processed: 1, notified: 1, failed: 0});
+  });
+
+  it("does nothing for a shard that already completed", async () => {
+    await processJobShard.run(taskRequest(task));
+
+    const run = (await db.collection("jobRuns").doc(task.runId).get()).data();
+    expect(run?.processed).toBe(1);
+  });
+
+  it("leaves a notification the user has read as read when the day is re-run", async () => {
+    const notificationRef = userRef.collection("notifications")
+      .doc(`daily_summary_${yesterday}`);
+    await notificationRef.update({read: true});
+
+    const rerun = await seedJobShard("dailySummary",
+      {timeZones: [INDIA], runAt: new Date(runAt.getTime() + 60 * 1000).toISOString()});
+    await processJobShard.run(taskRequest(rerun));
+
+    expect((await notificationRef.get()).data()).toMatchObject({
+      type: "daily_summary",
+      read: true,
+    });
+    const run = (await db.collection("jobRuns").doc(rerun.runId).get()).data();
+    expect(run?.notified).toBe(1);
+  });
+});
+
+describe("nutrientGap job", () => {
+  const runAt = new Date();
+  const lastDay = addDays(localDateKey(runAt, INDIA), -1);
+  const userId = FIXTURE_USERS.anemic.uid;
+  const userRef = db.collection("users").doc(userId);
+
+  beforeAll(async () => {
+    await clearFirestore();
+    await seedFoods();
+    const profile = await seedUser("anemic");
+    await db.collection("analytics").doc(userId).update({
+      lastMealDate: admin.firestore.Timestamp.now(),
+    });
+
+    // Ten days at the RDA for everything but iron, which stays at a fifth
+    const targets = computeNutritionTargets(profile);
+    const batch = db.batch();
+    for (let i = 0; i < 10; i++) {
+      batch.set(userRef.collection("dailySummaries").doc(addDays(lastDay, -i)), {
+        mealCount: 3,
+        totalFiber: targets.fiber,
+        vitamins: targets.vitamins,
+        minerals: {...targets.minerals, iron: targets.minerals.iron / 5},
+      });
+    }
+    await batch.commit();
+  });
+
+  it("alerts on the deficient nutrient with foods the user can eat", async () => {
+    const task = await seedJobShard("nutrientGap",
+      {timeZones: [INDIA], runAt: runAt.toISOString()});
+    await processJobShard.run(taskRequest(task));
+
+    const alert = (await userRef.collection("notifications")
+      .doc(`nutrient_gap_iron_${isoWeekKey(lastDay)}`).get()).data();
+    expect(alert).toMatchObject({type: "nutrient_gap", data: {nutrient: "iron", days: 10}});
+    expect(alert?.data.foodIds.length).toBeGreaterThan(0);
+    expect(alert?.data.foodIds).not.toContain("chicken_curry");
+  });
+
+  it("alerts at most once a week per nutrient", async () => {
+    const task = await seedJobShard("nutrientGap",
+      {timeZones: [INDIA], runAt: new Date(runAt.getTime() + 60 * 1000).toISOString()});
+    await processJobShard.run(taskRequest(task));
+
+    const alerts = await userRef.collection("notifications")
+      .where("type", "==", "nutrient_gap").get();
+    expect(alerts.size).toBe(1);
+  });
+});
@@ -0,0 +1,52 @@
+import {callableRequest, clearFirestore, testEnv} from "./helpers";
+import * as admin from "firebase-admin";
+import {seedCookingEducation, seedIndianFoods} from "../src/index";
+
+const db = admin.firestore();
+const seedFoods = testEnv.wrap(seedIndianFoods);
+const seedEducation = testEnv.wrap(seedCookingEducation);
+
+const ADMIN = {uid: "admin_user", admin: true};
+const MEMBER = {uid: "member_user"};
+
+describe("seed callables", () => {
+  beforeAll(clearFirestore);
+  afterAll(() => testEnv.cleanup());
+
+  it.each([
+    ["seedIndianFoods", seedFoods],
+    ["seedCookingEducation", seedEducation],
+  ])("%s rejects unauthenticated callers and non-admins", async (_, seed) => {
+    await expect(seed(callableRequest({})))
+      .rejects.toMatchObject({code: "unauthenticated"});
+    await expect(seed(callableRequest({}, MEMBER)))
+      .rejects.toMatchObject({code: "permission-denied"});
+  });
+
+  it("writes nothing for a rejected caller", async () => {
+    const [foods, education] = await Promise.all([
+      db.collection("indianFoods").limit(1).get(),
+      db.collection("cookingEducation").limit(1).get(),
+    ]);
+    expect(foods.empty).toBe(true);
+    expect(education.empty).toBe(true);
+  });
+
+  it("imports the bundled food dataset for an admin", async () => {
+    const result = await seedFoods(callableRequest({}, ADMIN));
+
+    expect(result.success).toBe(true);
+    const foods = await db.collection("indianFoods").count().get();
+    expect(foods.data().count).toBeGreaterThan(0);
+    const reports = await db.collection("foodImports").get();
+    expect(reports.docs[0].data()).toMatchObject({requestedBy: ADMIN.uid, dryRun: false});
+  });
+
+  it("seeds cooking education once for an admin", async () => {
+    const first = await seedEducation(callableRequest({}, ADMIN));
+    const second = await seedEducation(callableRequest({}, ADMIN));
+
+    expect(first.success).toBe(true);
+    expect(second.message).toMatch(/Successfully seeded 0 items/);
+  });
+});
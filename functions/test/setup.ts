@@ -0,0 +1,13 @@
+/**
+ * Environment for the emulator test suites
+ * `npm test` runs them under `firebase emulators:exec`, which sets the
+ * emulator hosts; these defaults let `npm run test:jest` reuse emulators
+ * already started with `firebase emulators:start`. Runs before any test
+ * module loads, so firebase-admin connects to the emulators.
+ */
+
+export const PROJECT_ID = "demo-nutrisync";
+
+process.env.GCLOUD_PROJECT = PROJECT_ID;
+process.env.FIRESTORE_EMULATOR_HOST ||= "127.0.0.1:8080";
+process.env.FIREBASE_AUTH_EMULATOR_HOST ||= "127.0.0.1:9099";
@@ -0,0 +1,28 @@
+import {localDateKey, resolveTimeZone, timeZonesAtLocalHour} from "../src/timezone";
+
+describe("timeZonesAtLocalHour", () => {
+  const now = new Date("2026-03-02T14:30:00Z");
+
+  it("covers every zone resolveTimeZone can store", () => {
+    const zones = Array.from({length: 24}, (_, hour) => timeZonesAtLocalHour(now, hour)).flat();
+
+    for (const stored of ["Asia/Kolkata", "UTC", "Etc/UTC", "GMT", "Etc/GMT+5", "Etc/GMT-14"]) {
+      expect(zones).toContain(resolveTimeZone(stored));
+    }
+    expect(new Set(zones).size).toBe(zones.length);
+  });
+
+  it("puts a zone in the hour that is local there", () => {
+    expect(timeZonesAtLocalHour(now, 20)).toContain(resolveTimeZone("Asia/Kolkata"));
+    expect(timeZonesAtLocalHour(now, 14)).toContain("UTC");
+    expect(timeZonesAtLocalHour(now, 9)).toContain("Etc/GMT+5");
+  });
+});
+
+describe("localDateKey", () => {
+  it("uses the local calendar date", () => {
+    const instant = new Date("2026-03-01T20:00:00Z");
+    expect(localDateKey(instant, "Asia/Kolkata")).toBe("2026-03-02");
+    expect(localDateKey(instant, "UTC")).toBe("2026-03-01");
+  });
+});
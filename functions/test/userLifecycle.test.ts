@@ -0,0 +1,62 @@
+import {clearFirestore, testEnv} from "./helpers";
+import {FIXTURE_USERS} from "./fixtures";
+import * as admin from "firebase-admin";
+import {onUserCreated} from "../src/index";
+import {resolveTimeZone} from "../src/timezone";
+
+const db = admin.firestore();
+const createUser = testEnv.wrap(onUserCreated);
+
+/**
+ * Write a fixture user's profile and run onUserCreated for it
+ * @param {string} key - Fixture user
+ * @return {Promise<string>} User id
+ */
+async function signUp(key: keyof typeof FIXTURE_USERS): Promise<string> {
+  const {uid, ...profile} = FIXTURE_USERS[key];
+  await db.collection("users").doc(uid).set(profile);
+  await createUser({data: profile, params: {userId: uid}});
+  return uid;
+}
+
+describe("onUserCreated", () => {
+  beforeAll(clearFirestore);
+  afterAll(() => testEnv.cleanup());
+
+  it("creates the meal plan, grocery list and analytics documents", async () => {
+    const userId = await signUp("vegetarian");
+    const userRef = db.collection("users").doc(userId);
+
+    const [plan, groceries, analytics] = await Promise.all([
+      userRef.collection("mealPlans").doc("current").get(),
+      userRef.collection("groceries").doc("current").get(),
+      db.collection("analytics").doc(userId).get(),
+    ]);
+    expect(plan.data()).toMatchObject({status: "active", days: {monday: []}});
+    expect(groceries.data()).toMatchObject({status: "active", items: []});
+    expect(analytics.data()).toMatchObject({
+      userId,
+      totalMealsLogged: 0,
+      subscriptionTier: "free",
+      timezone: resolveTimeZone("Asia/Kolkata"),
+    });
+  });
+
+  it("computes nutrition targets with glycemic limits for diabetes", async () => {
+    const userId = await signUp("diabetic");
+
+    const targets = (await db.collection("users").doc(userId).get()).data()?.nutritionTargets;
+    expect(targets.calories).toBeGreaterThan(0);
+    expect(targets.limits).toMatchObject({mealGlycemicLoad: 20, glycemicLoad: 100});
+    expect(targets.limits.carbsPerMeal).toBeGreaterThan(0);
+  });
+
+  it("sets no glycemic limits without diabetes", async () => {
+    const userId = await signUp("athlete");
+
+    const user = (await db.collection("users").doc(userId).get()).data();
+    expect(user?.nutritionTargets.limits.glycemicLoad).toBeUndefined();
+    const analytics = (await db.collection("analytics").doc(userId).get()).data();
+    expect(analytics?.timezone).toBe("America/New_York");
+  });
+});
@@ -0,0 +1,81 @@
+import "../src/firebaseApp";
+import * as admin from "firebase-admin";
+import {getVoiceMetrics} from "../src/voiceAnalytics";
+
+const verifyIdToken = jest.spyOn(admin.auth(), "verifyIdToken");
+
+/**
+ * A decoded ID token with only the claims the endpoint reads
+ * @param {object} claims - uid and custom claims
+ * @return {admin.auth.DecodedIdToken} Token
+ */
+function tokenWith(claims: {uid: string; admin?: boolean}): admin.auth.DecodedIdToken {
+  return claims as unknown as admin.auth.DecodedIdToken;
+}
+
+/**
+ * Call the metrics endpoint with a fake request and response
+ * @param {object} request - Method, Authorization header and query string
+ * @return {Promise<object>} Status code and JSON body sent
+ */
+async function query(request: {method?: string; authorization?: string;
+  query?: Record<string, string>}): Promise<{status: number; body: unknown}> {
+  const sent = {status: 200, body: undefined as unknown};
+  const res = {
+    status(code: number) {
+      sent.status = code;
+      return res;
+    },
+    json(body: unknown) {
+      sent.body = body;
+      return res;
+    },
+  };
+  const req = {
+    method: request.method || "GET",
+    headers: {},
+    query: request.query || {from: "2024-05-01", to: "2024-05-07"},
+    get: (header: string) => header === "Authorization" ? request.authorization : undefined,
+  };
+  await getVoiceMetrics(req as never, res as never);
+  return sent;
+}
+
+describe("getVoiceMetrics authorization", () => {
+  afterEach(() => verifyIdToken.mockReset());
+  afterAll(() => verifyIdToken.mockRestore());
+
+  it("only answers GET", async () => {
+    expect(await query({method: "POST"}))
+      .toEqual({status: 405, body: {error: "Method not allowed"}});
+  });
+
+  it("requires a bearer token", async () => {
+    expect(await query({})).toMatchObject({status: 401, body: {error: "Authentication required"}});
+    expect(await query({authorization: "Basic abc"})).toMatchObject({status: 401});
+    expect(verifyIdToken).not.toHaveBeenCalled();
+  });
+
+  it("rejects tokens that do not verify", async () => {
+    verifyIdToken.mockRejectedValue(new Error("auth/id-token-expired"));
+
+    expect(await query({authorization: "Bearer expired"}))
+      .toMatchObject({status: 401, body: {error: "Invalid ID token"}});
+    expect(verifyIdToken).toHaveBeenCalledWith("expired");
+  });
+
+  it("rejects users without the admin claim", async () => {
+    verifyIdToken.mockResolvedValue(tokenWith({uid: "u1"}));
+
+    expect(await query({authorization: "Bearer user"}))
+      .toMatchObject({status: 403, body: {error: "Admin access required"}});
+  });
+
+  it("lets admins through to the range checks", async () => {
+    verifyIdToken.mockResolvedValue(tokenWith({uid: "a1", admin: true}));
+
+    expect(await query({authorization: "Bearer admin",
+      query: {from: "2024-05-07", to: "2024-05-01"}}))
+      .toMatchObject({status: 400, body: {error: "from must not be after to"}});
+  });
+});
@@ -0,0 +1,117 @@
+import {
+  addVoiceEvent,
+  createVoiceAccumulator,
+  finishVoiceMetrics,
+  summarizeVoiceMetrics,
+  VoiceEvent,
+  wordErrorRate,
+} from "../src/voiceMetrics";
+
+const EVENTS: VoiceEvent[] = [
+  // u1 logs a meal by voice, correcting the transcript once
+  {userId: "u1", type: "voice_log", sessionId: "s1", stage: "started", success: true,
+    intent: "log_meal", latencyMs: 800},
+  {userId: "u1", type: "voice_log", sessionId: "s1", stage: "transcribed", success: true,
+    intent: "log_meal", latencyMs: 1200, corrections: 2, wordErrorRate: 0.25},
+  {userId: "u1", type: "voice_log", sessionId: "s1", stage: "meal_saved", success: true,
+    intent: "log_meal", latencyMs: 2000, corrections: 0, wordErrorRate: 0},
+  // u2 gives up on a query; the intent label is normalized into a map key
+  {userId: "u2", type: "voice_query", sessionId: "s2", stage: "started", success: false,
+    intent: "Nutrient Query", latencyMs: 400, languageMix: {hindi: 1, english: 0},
+    locale: "hi-IN"},
+  {userId: "u2", type: "voice_query", sessionId: "s2", stage: "abandoned", success: false,
+    languageMix: {hindi: 0.5, english: 0.5}, locale: "hi-IN"},
+  // A session seen without its start is not counted in the funnel, and an
+  // event without an intent is reported under its type
+  {userId: "u2", type: "voice_query", sessionId: "s3", stage: "transcribed", success: true,
+    locale: "en-IN"},
+];
+
+/**
+ * Aggregate events into one day's metrics
+ * @param {VoiceEvent[]} events - Events of the day
+ * @return {object} voiceMetrics document
+ */
+function metricsFor(events: VoiceEvent[]) {
+  const day = createVoiceAccumulator("2024-05-02");
+  events.forEach((event) => addVoiceEvent(day, event));
+  return finishVoiceMetrics(day);
+}
+
+describe("voice metrics", () => {
+  const metrics = metricsFor(EVENTS);
+
+  it("counts events, users, success and the median latency", () => {
+    expect(metrics).toMatchObject({
+      date: "2024-05-02",
+      events: 6,
+      users: 2,
+      successRate: 0.67,
+      // Between 800 and 1200 of the four latencies
+      medianLatencyMs: 1000,
+      averageCorrections: 0.33,
+    });
+  });
+
+  it("reports corrections only over events that reported them", () => {
+    expect(metrics).toMatchObject({correctedShare: 0.5, averageWordErrorRate: 0.13});
+  });
+
+  it("breaks results down by intent", () => {
+    expect(metrics.intents).toEqual({
+      log_meal: {events: 3, successes: 3, successRate: 1, medianLatencyMs: 1200,
+        averageCorrections: 0.67},
+      nutrient_query: {events: 1, successes: 0, successRate: 0, medianLatencyMs: 400,
+        averageCorrections: 0},
+      voice_query: {events: 2, successes: 1, successRate: 0.5, medianLatencyMs: null,
+        averageCorrections: 0},
+    });
+  });
+
+  it("converts started sessions into saved meals", () => {
+    expect(metrics.funnel).toEqual({
+      stages: {started: 2, transcribed: 2, parsed: 0, confirmed: 0, meal_saved: 1, abandoned: 1},
+      sessionsStarted: 2,
+      mealsSaved: 1,
+      conversionRate: 0.5,
+    });
+  });
+
+  it("averages the language mix and counts locales", () => {
+    expect(metrics.languageMix).toEqual({hindi: 0.75, english: 0.25, events: 2});
+    expect(metrics.locales).toEqual({"hi-IN": 2, "en-IN": 1});
+  });
+
+  it("has no rates for a day without events", () => {
+    expect(metricsFor([])).toMatchObject({
+      events: 0,
+      successRate: null,
+      medianLatencyMs: null,
+      correctedShare: null,
+      funnel: {sessionsStarted: 0, conversionRate: null},
+    });
+  });
+
+  it("sums counts and rates over several days", () => {
+    expect(summarizeVoiceMetrics([metrics, metricsFor(EVENTS.slice(0, 3))])).toEqual({
+      events: 9,
+      successRate: 0.78,
+      sessionsStarted: 3,
+      mealsSaved: 2,
+      conversionRate: 0.67,
+    });
+  });
+});
+
+describe("wordErrorRate", () => {
+  it.each([
+    ["do roti aur dal", "do roti aur dal", 0],
+    ["do roti or daal", "do roti aur dal", 0.5],
+    ["roti", "do roti aur dal", 0.75],
+    ["", "do roti", 1],
+    ["roti", "", 1],
+    ["", "", 0],
+  ])("of %j corrected to %j is %d", (recognized, final, rate) => {
+    expect(wordErrorRate(recognized, final)).toBe(rate);
+  });
+});